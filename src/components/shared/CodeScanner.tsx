@@ -0,0 +1,217 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import classNames from 'classnames'
+import { BrowserMultiFormatReader } from '@zxing/browser'
+import { BarcodeFormat, DecodeHintType } from '@zxing/library'
+import {
+    HiOutlineCamera,
+    HiOutlinePhotograph,
+    HiOutlineStop,
+} from 'react-icons/hi'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Notification from '@/components/ui/Notification'
+import toast from '@/components/ui/toast'
+import type { IScannerControls } from '@zxing/browser'
+import type { ChangeEvent, KeyboardEvent } from 'react'
+
+interface CodeScannerProps {
+    className?: string
+    onDetected: (code: string) => void
+    /** Ignore a repeated read of the same code within this window (ms) */
+    repeatDelay?: number
+    showManualEntry?: boolean
+    manualEntryPlaceholder?: string
+}
+
+const SUPPORTED_FORMATS = [BarcodeFormat.QR_CODE, BarcodeFormat.CODE_128]
+
+const CodeScanner = (props: CodeScannerProps) => {
+    const {
+        className,
+        onDetected,
+        repeatDelay = 2000,
+        showManualEntry = true,
+        manualEntryPlaceholder = 'Type or scan a code and press Enter',
+    } = props
+
+    const videoRef = useRef<HTMLVideoElement>(null)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const controlsRef = useRef<IScannerControls | null>(null)
+    const lastReadRef = useRef<{ code: string; at: number } | null>(null)
+    const onDetectedRef = useRef(onDetected)
+
+    const [cameraActive, setCameraActive] = useState(false)
+    const [cameraStarting, setCameraStarting] = useState(false)
+    const [manualCode, setManualCode] = useState('')
+
+    const reader = useMemo(() => {
+        const hints = new Map()
+        hints.set(DecodeHintType.POSSIBLE_FORMATS, SUPPORTED_FORMATS)
+        hints.set(DecodeHintType.TRY_HARDER, true)
+        return new BrowserMultiFormatReader(hints)
+    }, [])
+
+    useEffect(() => {
+        onDetectedRef.current = onDetected
+    }, [onDetected])
+
+    useEffect(() => {
+        return () => {
+            controlsRef.current?.stop()
+        }
+    }, [])
+
+    const emit = (rawCode: string) => {
+        const code = rawCode.trim()
+        if (!code) {
+            return
+        }
+
+        const now = Date.now()
+        const last = lastReadRef.current
+        if (last && last.code === code && now - last.at < repeatDelay) {
+            return
+        }
+
+        lastReadRef.current = { code, at: now }
+        onDetectedRef.current(code)
+    }
+
+    const showError = (message: string) => {
+        toast.push(
+            <Notification title="Scanner" type="danger">
+                {message}
+            </Notification>,
+        )
+    }
+
+    const startCamera = async () => {
+        if (!videoRef.current) {
+            return
+        }
+
+        setCameraStarting(true)
+        try {
+            controlsRef.current = await reader.decodeFromConstraints(
+                { video: { facingMode: 'environment' } },
+                videoRef.current,
+                (result) => {
+                    if (result) {
+                        emit(result.getText())
+                    }
+                },
+            )
+            setCameraActive(true)
+        } catch (error) {
+            console.error('Failed to start camera:', error)
+            showError(
+                'Unable to access the camera. Check the browser permission or upload a photo instead.',
+            )
+        } finally {
+            setCameraStarting(false)
+        }
+    }
+
+    const stopCamera = () => {
+        controlsRef.current?.stop()
+        controlsRef.current = null
+        setCameraActive(false)
+    }
+
+    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) {
+            return
+        }
+
+        const url = URL.createObjectURL(file)
+        try {
+            const result = await reader.decodeFromImageUrl(url)
+            lastReadRef.current = null
+            emit(result.getText())
+        } catch (error) {
+            showError('No QR code or barcode could be read from this image')
+        } finally {
+            URL.revokeObjectURL(url)
+        }
+    }
+
+    const handleManualKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault()
+            lastReadRef.current = null
+            emit(manualCode)
+            setManualCode('')
+        }
+    }
+
+    return (
+        <div className={classNames('space-y-4', className)}>
+            <div className="relative bg-gray-900 rounded-lg overflow-hidden aspect-video">
+                <video
+                    ref={videoRef}
+                    muted
+                    playsInline
+                    className={classNames(
+                        'w-full h-full object-cover',
+                        !cameraActive && 'hidden',
+                    )}
+                />
+                {!cameraActive && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-300">
+                        <HiOutlineCamera className="h-12 w-12 mb-2" />
+                        <span className="text-sm">Camera is off</span>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {cameraActive ? (
+                    <Button
+                        type="button"
+                        icon={<HiOutlineStop />}
+                        onClick={stopCamera}
+                    >
+                        Stop Camera
+                    </Button>
+                ) : (
+                    <Button
+                        type="button"
+                        variant="solid"
+                        icon={<HiOutlineCamera />}
+                        loading={cameraStarting}
+                        onClick={startCamera}
+                    >
+                        Start Camera
+                    </Button>
+                )}
+                <Button
+                    type="button"
+                    icon={<HiOutlinePhotograph />}
+                    onClick={() => fileInputRef.current?.click()}
+                >
+                    Upload Photo
+                </Button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={handleFileChange}
+                />
+            </div>
+
+            {showManualEntry && (
+                <Input
+                    value={manualCode}
+                    placeholder={manualEntryPlaceholder}
+                    onChange={(e) => setManualCode(e.target.value)}
+                    onKeyDown={handleManualKeyDown}
+                />
+            )}
+        </div>
+    )
+}
+
+export default CodeScanner
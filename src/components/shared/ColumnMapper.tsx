@@ -0,0 +1,98 @@
+import Select from '@/components/ui/Select'
+import Table from '@/components/ui/Table'
+import type {
+    ColumnMapping,
+    ImportFieldDefinition,
+} from '@/utils/autoMapColumns'
+
+interface ColumnMapperProps<K extends string> {
+    fields: ImportFieldDefinition<K>[]
+    headers: string[]
+    mapping: ColumnMapping<K>
+    /** First data row, used to show an example value for each field */
+    sampleRow?: Record<string, string>
+    onChange: (mapping: ColumnMapping<K>) => void
+}
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+const NOT_IMPORTED = ''
+
+function ColumnMapper<K extends string>({
+    fields,
+    headers,
+    mapping,
+    sampleRow,
+    onChange,
+}: ColumnMapperProps<K>) {
+    const options = [
+        { value: NOT_IMPORTED, label: 'Do not import' },
+        ...headers.map((header) => ({ value: header, label: header })),
+    ]
+
+    const handleChange = (key: K, header: string) => {
+        const next = { ...mapping }
+        if (header === NOT_IMPORTED) {
+            delete next[key]
+        } else {
+            next[key] = header
+        }
+        onChange(next)
+    }
+
+    return (
+        <Table>
+            <THead>
+                <Tr>
+                    <Th>Field</Th>
+                    <Th>Spreadsheet column</Th>
+                    <Th>Example</Th>
+                </Tr>
+            </THead>
+            <TBody>
+                {fields.map((field) => {
+                    const header = mapping[field.key]
+                    return (
+                        <Tr key={field.key}>
+                            <Td>
+                                <span className="font-semibold">
+                                    {field.label}
+                                </span>
+                                {field.required && (
+                                    <span className="text-red-500 ml-1">*</span>
+                                )}
+                                {field.hint && (
+                                    <div className="text-xs text-gray-500">
+                                        {field.hint}
+                                    </div>
+                                )}
+                            </Td>
+                            <Td className="min-w-[220px]">
+                                <Select
+                                    size="sm"
+                                    options={options}
+                                    value={options.find(
+                                        (o) =>
+                                            o.value ===
+                                            (header ?? NOT_IMPORTED),
+                                    )}
+                                    onChange={(option) =>
+                                        handleChange(
+                                            field.key,
+                                            option?.value ?? NOT_IMPORTED,
+                                        )
+                                    }
+                                />
+                            </Td>
+                            <Td className="text-gray-500">
+                                {(header && sampleRow?.[header]) || '-'}
+                            </Td>
+                        </Tr>
+                    )
+                })}
+            </TBody>
+        </Table>
+    )
+}
+
+export default ColumnMapper
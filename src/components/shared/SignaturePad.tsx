@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react'
+import classNames from 'classnames'
+import Button from '@/components/ui/Button'
+import type { PointerEvent } from 'react'
+
+interface SignaturePadProps {
+    className?: string
+    height?: number
+    /** PNG data URL of the drawing, or null once cleared */
+    onChange: (signature: string | null) => void
+}
+
+const SignaturePad = (props: SignaturePadProps) => {
+    const { className, height = 200, onChange } = props
+
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const drawingRef = useRef(false)
+    const [isEmpty, setIsEmpty] = useState(true)
+
+    // Size the backing store to the device pixels so strokes stay sharp
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const context = canvas?.getContext('2d')
+        if (!canvas || !context) {
+            return
+        }
+        const ratio = window.devicePixelRatio || 1
+        canvas.width = canvas.offsetWidth * ratio
+        canvas.height = height * ratio
+        context.scale(ratio, ratio)
+        context.lineWidth = 2
+        context.lineCap = 'round'
+        context.lineJoin = 'round'
+        context.strokeStyle = '#111827'
+    }, [height])
+
+    const pointFor = (event: PointerEvent<HTMLCanvasElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect()
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+    }
+
+    const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+        const context = event.currentTarget.getContext('2d')
+        if (!context) {
+            return
+        }
+        event.currentTarget.setPointerCapture(event.pointerId)
+        drawingRef.current = true
+        const { x, y } = pointFor(event)
+        context.beginPath()
+        context.moveTo(x, y)
+        // A dot for taps that never move
+        context.lineTo(x + 0.1, y + 0.1)
+        context.stroke()
+    }
+
+    const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+        const context = event.currentTarget.getContext('2d')
+        if (!drawingRef.current || !context) {
+            return
+        }
+        const { x, y } = pointFor(event)
+        context.lineTo(x, y)
+        context.stroke()
+    }
+
+    const handlePointerUp = () => {
+        if (!drawingRef.current) {
+            return
+        }
+        drawingRef.current = false
+        setIsEmpty(false)
+        onChange(canvasRef.current?.toDataURL('image/png') ?? null)
+    }
+
+    const handleClear = () => {
+        const canvas = canvasRef.current
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+        setIsEmpty(true)
+        onChange(null)
+    }
+
+    return (
+        <div className={className}>
+            <div className="relative">
+                <canvas
+                    ref={canvasRef}
+                    className={classNames(
+                        'w-full rounded-lg border-2 border-dashed bg-white touch-none cursor-crosshair',
+                        isEmpty ? 'border-gray-300' : 'border-gray-400',
+                    )}
+                    style={{ height }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerLeave={handlePointerUp}
+                />
+                {isEmpty && (
+                    <span className="absolute inset-0 flex items-center justify-center text-gray-400 pointer-events-none">
+                        Sign here
+                    </span>
+                )}
+            </div>
+            <div className="flex justify-end mt-2">
+                <Button
+                    type="button"
+                    size="xs"
+                    variant="plain"
+                    disabled={isEmpty}
+                    onClick={handleClear}
+                >
+                    Clear
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+export default SignaturePad
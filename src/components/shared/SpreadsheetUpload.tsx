@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import { HiOutlineDocumentDownload, HiOutlineTable } from 'react-icons/hi'
+import Button from '@/components/ui/Button'
+import Notification from '@/components/ui/Notification'
+import Spinner from '@/components/ui/Spinner'
+import Upload from '@/components/ui/Upload'
+import toast from '@/components/ui/toast'
+import readSpreadsheet from '@/utils/readSpreadsheet'
+import type { SpreadsheetData } from '@/utils/readSpreadsheet'
+import type { ReactNode } from 'react'
+
+interface SpreadsheetUploadProps {
+    onLoaded: (data: SpreadsheetData, file: File) => void
+    onDownloadTemplate?: () => void
+    tip?: ReactNode
+}
+
+const ACCEPTED_EXTENSIONS = ['.csv', '.xlsx', '.xls']
+
+const SpreadsheetUpload = ({
+    onLoaded,
+    onDownloadTemplate,
+    tip,
+}: SpreadsheetUploadProps) => {
+    const [isReading, setIsReading] = useState(false)
+
+    const beforeUpload = (files: FileList | null) => {
+        const file = files?.[0]
+        if (
+            file &&
+            !ACCEPTED_EXTENSIONS.some((ext) =>
+                file.name.toLowerCase().endsWith(ext),
+            )
+        ) {
+            return 'Please upload a CSV or Excel file'
+        }
+        return true
+    }
+
+    const handleChange = async (files: File[]) => {
+        const file = files[files.length - 1]
+        if (!file) {
+            return
+        }
+
+        setIsReading(true)
+        try {
+            const data = await readSpreadsheet(file)
+            if (data.rows.length === 0) {
+                throw new Error('The file does not contain any data rows')
+            }
+            onLoaded(data, file)
+        } catch (error) {
+            console.error('Spreadsheet read error:', error)
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error instanceof Error && error.message
+                        ? error.message
+                        : 'Could not read the file'}
+                </Notification>,
+            )
+        } finally {
+            setIsReading(false)
+        }
+    }
+
+    return (
+        <div className="space-y-4">
+            <Upload
+                draggable
+                showList={false}
+                accept={ACCEPTED_EXTENSIONS.join(',')}
+                disabled={isReading}
+                beforeUpload={beforeUpload}
+                onChange={handleChange}
+            >
+                <div className="my-10 text-center">
+                    {isReading ? (
+                        <Spinner size={40} className="mx-auto" />
+                    ) : (
+                        <HiOutlineTable className="mx-auto text-5xl text-gray-400" />
+                    )}
+                    <p className="font-semibold mt-2">
+                        <span className="text-gray-800 dark:text-white">
+                            Drop your file here, or{' '}
+                        </span>
+                        <span className="text-blue-500">browse</span>
+                    </p>
+                    <p className="mt-1 opacity-60 dark:text-white">
+                        Supports CSV, XLSX and XLS
+                    </p>
+                </div>
+            </Upload>
+            {tip && <div className="text-sm text-gray-500">{tip}</div>}
+            {onDownloadTemplate && (
+                <Button
+                    size="sm"
+                    icon={<HiOutlineDocumentDownload />}
+                    onClick={onDownloadTemplate}
+                >
+                    Download template
+                </Button>
+            )}
+        </div>
+    )
+}
+
+export default SpreadsheetUpload
@@ -4,6 +4,8 @@ export { default as Affix } from './Affix'
 export { default as AuthorityCheck } from './AuthorityCheck'
 export { default as CalendarView } from './CalendarView'
 export { default as Chart } from './Chart'
+export { default as CodeScanner } from './CodeScanner'
+export { default as ColumnMapper } from './ColumnMapper'
 export { default as ConfirmDialog } from './ConfirmDialog'
 export { default as Container } from './Container'
 export { default as DataTable } from './DataTable'
@@ -21,6 +23,8 @@ export { default as PasswordInput } from './PasswordInput'
 export { default as RegionMap } from './RegionMap'
 export { default as RichTextEditor } from './RichTextEditor'
 export { default as SegmentItemOption } from './SegmentItemOption'
+export { default as SignaturePad } from './SignaturePad'
+export { default as SpreadsheetUpload } from './SpreadsheetUpload'
 export { default as StickyFooter } from './StickyFooter'
 export { default as StrictModeDroppable } from './StrictModeDroppable'
 export { default as SvgIcon } from './SvgIcon'
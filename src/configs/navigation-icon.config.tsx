@@ -12,7 +12,17 @@ import {
     HiOutlineClipboardList,
     HiOutlineCollection,
     HiOutlineChartSquareBar,
-    HiOutlineDownload
+    HiOutlineDownload,
+    HiOutlineQrcode,
+    HiOutlineClipboardCheck,
+    HiOutlineTruck,
+    HiOutlineCog,
+    HiOutlineCalendar,
+    HiOutlineGift,
+    HiOutlineDocumentText,
+    HiOutlineShoppingCart,
+    HiOutlineBriefcase,
+    HiOutlineArchive
 } from 'react-icons/hi'
 import type { JSX } from 'react'
 
@@ -33,7 +43,17 @@ const navigationIcon: NavigationIcons = {
     assignments: <HiOutlineClipboardList />,
     departments: <HiOutlineCollection />,
     productAssignments: <HiOutlineChartSquareBar />,
-    export: <HiOutlineDownload />
+    export: <HiOutlineDownload />,
+    scanner: <HiOutlineQrcode />,
+    stockAudit: <HiOutlineClipboardCheck />,
+    transfers: <HiOutlineTruck />,
+    maintenance: <HiOutlineCog />,
+    calendar: <HiOutlineCalendar />,
+    kits: <HiOutlineGift />,
+    requisitions: <HiOutlineDocumentText />,
+    purchaseOrders: <HiOutlineShoppingCart />,
+    vendors: <HiOutlineBriefcase />,
+    disposals: <HiOutlineArchive />
 }
 
 export default navigationIcon
\ No newline at end of file
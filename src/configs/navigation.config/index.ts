@@ -37,6 +37,106 @@ const navigationConfig: NavigationTree[] = [
         authority: [SUPERADMIN, ADMIN,USER],
         subMenu: [],
     },
+    {
+        key: 'scanner',
+        path: '/scan',
+        title: 'Scan',
+        translateKey: 'nav.scanner',
+        icon: 'scanner',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN,USER],
+        subMenu: [],
+    },
+    {
+        key: 'stockAudit',
+        path: '/stock-audit',
+        title: 'Stock Audit',
+        translateKey: 'nav.stockAudit',
+        icon: 'stockAudit',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN],
+        subMenu: [],
+    },
+    {
+        key: 'transfers',
+        path: '/transfers',
+        title: 'Transfers',
+        translateKey: 'nav.transfers',
+        icon: 'transfers',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN, USER],
+        subMenu: [],
+    },
+    {
+        key: 'maintenance',
+        path: '/maintenance',
+        title: 'Maintenance',
+        translateKey: 'nav.maintenance',
+        icon: 'maintenance',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN, USER],
+        subMenu: [],
+    },
+    {
+        key: 'dueDateCalendar',
+        path: '/calendar',
+        title: 'Calendar',
+        translateKey: 'nav.calendar',
+        icon: 'calendar',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN, USER],
+        subMenu: [],
+    },
+    {
+        key: 'kits',
+        path: '/kits',
+        title: 'Kits',
+        translateKey: 'nav.kits',
+        icon: 'kits',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN, USER],
+        subMenu: [],
+    },
+    {
+        key: 'requisitions',
+        path: '/requisitions',
+        title: 'Requisitions',
+        translateKey: 'nav.requisitions',
+        icon: 'requisitions',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN, USER],
+        subMenu: [],
+    },
+    {
+        key: 'purchaseOrders',
+        path: '/purchase-orders',
+        title: 'Purchase Orders',
+        translateKey: 'nav.purchaseOrders',
+        icon: 'purchaseOrders',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN, USER],
+        subMenu: [],
+    },
+    {
+        key: 'vendors',
+        path: '/vendors',
+        title: 'Vendors',
+        translateKey: 'nav.vendors',
+        icon: 'vendors',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN, USER],
+        subMenu: [],
+    },
+    {
+        key: 'disposals',
+        path: '/disposals',
+        title: 'Disposals',
+        translateKey: 'nav.disposals',
+        icon: 'disposals',
+        type: NAV_ITEM_TYPE_ITEM,
+        authority: [SUPERADMIN, ADMIN, USER],
+        subMenu: [],
+    },
     {
         key: 'users',
         path: '/users',
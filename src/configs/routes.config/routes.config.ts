@@ -78,12 +78,30 @@ export const protectedRoutes = [
         component: lazy(() => import('@/views/employees/EmployeeCreate')),
         authority: [ADMIN,SUPERADMIN],
     },
+    {
+        key: 'employeesImport',
+        path: '/employees/import',
+        component: lazy(() => import('@/views/employees/import/EmployeeImport')),
+        authority: [ADMIN,SUPERADMIN],
+    },
     {
         key: 'employeesEdit',
         path: '/employees/edit/:id',
         component: lazy(() => import('@/views/employees/EmployeeEdit')),
         authority: [ADMIN,SUPERADMIN],
     },
+    {
+        key: 'employeesView',
+        path: '/employees/view/:id',
+        component: lazy(() => import('@/views/employees/EmployeeDetails')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'employeesOffboard',
+        path: '/employees/offboard/:id',
+        component: lazy(() => import('@/views/employees/offboarding/EmployeeOffboarding')),
+        authority: [ADMIN,SUPERADMIN],
+    },
     {
         key: 'products',
         path: '/products',
@@ -102,6 +120,18 @@ export const protectedRoutes = [
         component: lazy(() => import('@/views/products/ProductCreate')),
         authority: [ADMIN,SUPERADMIN,USER],
     },
+    {
+        key: 'productsImport',
+        path: '/products/import',
+        component: lazy(() => import('@/views/products/import/ProductImport')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'productsConsumption',
+        path: '/products/consumption',
+        component: lazy(() => import('@/views/products/consumables/ConsumptionReport')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
     {
         key: 'productView',
         path: '/products/view/:id',
@@ -120,12 +150,156 @@ export const protectedRoutes = [
         component: lazy(() => import('@/views/products/ProductAssignedList')),
         authority: [ADMIN,SUPERADMIN,USER],
     },
+    {
+        key: 'bulkAssignment',
+        path: '/assignments/bulk',
+        component: lazy(() => import('@/views/products/BulkAssignment')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
     {
         key: 'product Assignment',
         path: '/assignments/:id',
         component: lazy(() => import('@/views/products/AssignmentDetailsPage')),
         authority: [ADMIN,SUPERADMIN,USER],
     },
+    {
+        key: 'scanner',
+        path: '/scan',
+        component: lazy(() => import('@/views/scanner/ScannerPage')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'stockAudit',
+        path: '/stock-audit',
+        component: lazy(() => import('@/views/audit/StockAudit')),
+        authority: [ADMIN,SUPERADMIN],
+    },
+    {
+        key: 'transfers',
+        path: '/transfers',
+        component: lazy(() => import('@/views/transfers/TransferList')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'transfersCreate',
+        path: '/transfers/create',
+        component: lazy(() => import('@/views/transfers/TransferCreate')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'transfersView',
+        path: '/transfers/view/:id',
+        component: lazy(() => import('@/views/transfers/TransferDetails')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'maintenance',
+        path: '/maintenance',
+        component: lazy(() => import('@/views/maintenance/MaintenanceList')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'dueDateCalendar',
+        path: '/calendar',
+        component: lazy(() => import('@/views/calendar/DueDateCalendar')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'kits',
+        path: '/kits',
+        component: lazy(() => import('@/views/kits/KitList')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'kitsCreate',
+        path: '/kits/create',
+        component: lazy(() => import('@/views/kits/KitCreate')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'kitsEdit',
+        path: '/kits/edit/:id',
+        component: lazy(() => import('@/views/kits/KitEdit')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'requisitions',
+        path: '/requisitions',
+        component: lazy(() => import('@/views/requisitions/RequisitionList')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'requisitionsReorder',
+        path: '/requisitions/reorder',
+        component: lazy(() => import('@/views/requisitions/ReorderSuggestions')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'requisitionsView',
+        path: '/requisitions/view/:id',
+        component: lazy(() => import('@/views/requisitions/RequisitionDetails')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'purchaseOrders',
+        path: '/purchase-orders',
+        component: lazy(() => import('@/views/purchaseOrders/PurchaseOrderList')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'purchaseOrdersCreate',
+        path: '/purchase-orders/create',
+        component: lazy(() => import('@/views/purchaseOrders/PurchaseOrderCreate')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'purchaseOrdersView',
+        path: '/purchase-orders/view/:id',
+        component: lazy(() => import('@/views/purchaseOrders/PurchaseOrderDetails')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'purchaseOrdersReceive',
+        path: '/purchase-orders/receive/:id',
+        component: lazy(() => import('@/views/purchaseOrders/PurchaseOrderReceive')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'vendors',
+        path: '/vendors',
+        component: lazy(() => import('@/views/vendors/VendorList')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'vendorsCreate',
+        path: '/vendors/create',
+        component: lazy(() => import('@/views/vendors/VendorCreate')),
+        authority: [ADMIN,SUPERADMIN],
+    },
+    {
+        key: 'vendorsEdit',
+        path: '/vendors/edit/:id',
+        component: lazy(() => import('@/views/vendors/VendorEdit')),
+        authority: [ADMIN,SUPERADMIN],
+    },
+    {
+        key: 'vendorsView',
+        path: '/vendors/view/:id',
+        component: lazy(() => import('@/views/vendors/VendorDetails')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'disposals',
+        path: '/disposals',
+        component: lazy(() => import('@/views/disposals/DisposalList')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
+    {
+        key: 'disposalsView',
+        path: '/disposals/view/:id',
+        component: lazy(() => import('@/views/disposals/DisposalDetails')),
+        authority: [ADMIN,SUPERADMIN,USER],
+    },
     {
         key: 'productAssignmentHistory',
         path: '/product-assignments/history/:productId?',
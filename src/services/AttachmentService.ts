@@ -0,0 +1,72 @@
+import ApiService from './ApiService'
+
+export type AttachmentType = 'INVOICE' | 'WARRANTY' | 'PHOTO' | 'OTHER'
+
+/** What the file is attached to */
+export type AttachmentOwnerType = 'PRODUCT' | 'INVENTORY' | 'ASSIGNMENT'
+
+export interface Attachment {
+    id: number
+    ownerType: AttachmentOwnerType
+    ownerId: number
+    type: AttachmentType
+    fileName: string
+    mimeType: string
+    /** Bytes */
+    size: number
+    uploadedAt: string
+    uploadedBy?: { id: number; username: string }
+}
+
+export type AttachmentPayload = {
+    ownerType: AttachmentOwnerType
+    ownerId: number
+    type: AttachmentType
+    file: File
+}
+
+export const apiGetAttachments = async (params: {
+    ownerType: AttachmentOwnerType
+    ownerId: number
+}) => {
+    return ApiService.fetchData<{ data: Attachment[] }>({
+        url: '/attachments',
+        method: 'get',
+        params,
+    })
+}
+
+export const apiUploadAttachment = async ({
+    file,
+    ...fields
+}: AttachmentPayload) => {
+    const data = new FormData()
+    data.append('ownerType', fields.ownerType)
+    data.append('ownerId', String(fields.ownerId))
+    data.append('type', fields.type)
+    data.append('file', file)
+
+    return ApiService.fetchData<{ data: Attachment }, FormData>({
+        url: '/attachments',
+        method: 'post',
+        headers: { 'Content-Type': 'multipart/form-data' },
+        data,
+    })
+}
+
+// Files are served behind auth, so previews and downloads fetch the blob
+// through the API rather than linking to a public URL
+export const apiDownloadAttachment = async (id: number) => {
+    return ApiService.fetchData<Blob>({
+        url: `/attachments/${id}/download`,
+        method: 'get',
+        responseType: 'blob',
+    })
+}
+
+export const apiDeleteAttachment = async (id: number) => {
+    return ApiService.fetchData({
+        url: `/attachments/${id}`,
+        method: 'delete',
+    })
+}
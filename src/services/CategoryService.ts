@@ -1,6 +1,22 @@
 import ApiService from './ApiService'
+import type { DepreciationSettings } from '@/utils/depreciation'
+import type { CustomAttributeDefinition } from '@/utils/customAttributes'
+import type { ReturnCheckDefinition } from '@/utils/returnInspection'
 
-interface CreateCategoryPayload {
+/** Custom attribute schema configured on a category */
+export interface CategoryAttributeSettings {
+    customAttributes?: CustomAttributeDefinition[] | null
+}
+
+/** Checks made when an item of the category is returned */
+export interface CategoryInspectionSettings {
+    returnChecklist?: ReturnCheckDefinition[] | null
+}
+
+interface CreateCategoryPayload
+    extends DepreciationSettings,
+        CategoryAttributeSettings,
+        CategoryInspectionSettings {
     name: string
     description?: string
 }
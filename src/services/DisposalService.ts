@@ -0,0 +1,98 @@
+import ApiService from './ApiService'
+
+export type DisposalReason =
+    | 'END_OF_LIFE'
+    | 'SOLD'
+    | 'DONATED'
+    | 'SCRAPPED'
+    | 'LOST'
+
+export type DataWipeMethod =
+    | 'SOFTWARE_WIPE'
+    | 'PHYSICAL_DESTRUCTION'
+    | 'FACTORY_RESET'
+    | 'NO_STORAGE'
+
+export type DataWipeCheck =
+    | 'STORAGE_WIPED'
+    | 'ACCOUNTS_REMOVED'
+    | 'LICENCES_RECLAIMED'
+    | 'LABELS_REMOVED'
+
+export interface DisposalItem {
+    inventoryId: number
+    inventory?: {
+        id: number
+        serialNumber?: string
+        /** Decimal columns can come back as strings */
+        purchasePrice?: number | string | null
+        product?: { id: number; name: string; model?: string }
+    }
+}
+
+export interface Disposal {
+    id: number
+    disposalNumber: string
+    reason: DisposalReason
+    disposedAt: string
+    /** Buyer, charity or recycler the items went to */
+    recipientName?: string
+    recipientContact?: string
+    saleValue?: number
+    /** The recipient's own reference, e.g. a recycler's destruction certificate */
+    reference?: string
+    dataWipeMethod?: DataWipeMethod
+    dataWipeChecks: DataWipeCheck[]
+    dataWipedBy?: string
+    notes?: string
+    createdAt: string
+    createdBy?: { id: number; username: string }
+    items: DisposalItem[]
+}
+
+export type DisposalPayload = {
+    inventoryIds: number[]
+    reason: DisposalReason
+    disposedAt: string
+    recipientName?: string
+    recipientContact?: string
+    saleValue?: number
+    reference?: string
+    dataWipeMethod?: DataWipeMethod
+    dataWipeChecks: DataWipeCheck[]
+    dataWipedBy?: string
+    notes?: string
+}
+
+export const apiGetDisposals = async (params?: {
+    page?: number
+    limit?: number
+    reason?: DisposalReason
+    search?: string
+}) => {
+    return ApiService.fetchData<{
+        data: Disposal[]
+        pagination: { total: number }
+    }>({
+        url: '/disposals',
+        method: 'get',
+        params,
+    })
+}
+
+export const apiGetDisposal = async (id: string) => {
+    return ApiService.fetchData<{ data: Disposal }>({
+        url: `/disposals/${id}`,
+        method: 'get',
+    })
+}
+
+// Moves every item to RETIRED (MISSING when lost) and keeps it on record;
+// assigned items are refused with 409
+export const apiCreateDisposal = async (data: DisposalPayload) => {
+    return ApiService.fetchData<{ data: Disposal }>({
+        url: '/disposals',
+        method: 'post',
+        data,
+    })
+}
@@ -1,4 +1,5 @@
 import ApiService from './ApiService'
+import fetchAllPages from '@/utils/fetchAllPages'
 
 interface CreateEmployeePayload {
     empId: string
@@ -111,4 +112,22 @@ export const apiUpdateEmployee = async (id: string, data: any) => {
         method: 'put',
         data
     })
-}
\ No newline at end of file
+}
+
+export interface EmployeeRecord {
+    id: number
+    empId: string
+    name: string
+    email?: string
+    department?: string
+    position?: string
+}
+
+// Pages through the employee list; used where the whole directory is needed
+export const apiGetAllEmployees = async (): Promise<EmployeeRecord[]> => {
+    return fetchAllPages(async (page, limit) => {
+        const response = await apiGetEmployees({ page, limit })
+        const body = response.data as { data?: EmployeeRecord[]; total?: number }
+        return { data: body?.data || [], total: body?.total }
+    }, 100)
+}
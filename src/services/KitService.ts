@@ -0,0 +1,166 @@
+import ApiService from './ApiService'
+
+export interface KitComponent {
+    id?: number
+    productId: number
+    quantity: number
+    product?: { id: number; name: string; model?: string }
+}
+
+export interface Kit {
+    id: number
+    name: string
+    description?: string
+    components: KitComponent[]
+    createdAt: string
+    updatedAt: string
+}
+
+export type KitPayload = {
+    name: string
+    description?: string
+    components: Array<{ productId: number; quantity: number }>
+}
+
+export interface KitComponentAvailability {
+    productId: number
+    productName: string
+    required: number
+    available: number
+}
+
+export type KitAssignmentStatus = 'ASSIGNED' | 'PARTIALLY_RETURNED' | 'RETURNED'
+
+export interface KitAssignment {
+    id: number
+    kitId: number
+    kit?: { id: number; name: string }
+    employeeId: number
+    employee?: { id: number; name: string; empId?: string }
+    status: KitAssignmentStatus
+    assignedAt: string
+    expectedReturnAt?: string
+    returnedAt?: string
+    /** The individual product assignments created for the kit */
+    assignments: Array<{
+        id: number
+        productId: number
+        inventoryId: number
+        status: 'ASSIGNED' | 'RETURNED' | 'OVERDUE'
+        product?: { id: number; name: string; model?: string }
+        inventory?: { id: number; serialNumber?: string }
+    }>
+}
+
+interface GetKitsParams {
+    page?: number
+    limit?: number
+    search?: string
+}
+
+interface GetKitAssignmentsParams {
+    page?: number
+    limit?: number
+    employeeId?: number
+    active?: boolean
+}
+
+export const apiGetKits = async (params?: GetKitsParams) => {
+    return ApiService.fetchData<{
+        data: Kit[]
+        pagination: { total: number }
+    }>({
+        url: '/kits',
+        method: 'get',
+        params,
+    })
+}
+
+export const apiGetKit = async (id: string) => {
+    return ApiService.fetchData<{ data: Kit }>({
+        url: `/kits/${id}`,
+        method: 'get',
+    })
+}
+
+export const apiCreateKit = async (data: KitPayload) => {
+    return ApiService.fetchData<{ data: Kit }>({
+        url: '/kits',
+        method: 'post',
+        data,
+    })
+}
+
+export const apiUpdateKit = async (id: number, data: KitPayload) => {
+    return ApiService.fetchData<{ data: Kit }>({
+        url: `/kits/${id}`,
+        method: 'put',
+        data,
+    })
+}
+
+export const apiDeleteKit = async (id: number) => {
+    return ApiService.fetchData({
+        url: `/kits/${id}`,
+        method: 'delete',
+    })
+}
+
+export const apiGetKitAvailability = async (id: number) => {
+    return ApiService.fetchData<{ data: KitComponentAvailability[] }>({
+        url: `/kits/${id}/availability`,
+        method: 'get',
+    })
+}
+
+// The backend picks inventory for every component in one transaction. Unless
+// allowPartial is set, a single short component rolls the whole kit back and
+// the request fails with 409 and the shortages in `missing`.
+export const apiAssignKit = async (
+    id: number,
+    data: {
+        employeeId: number
+        expectedReturnAt?: string
+        pcName?: string
+        notes?: string
+        allowPartial?: boolean
+    },
+) => {
+    return ApiService.fetchData<{
+        data: KitAssignment
+        missing: KitComponentAvailability[]
+    }>({
+        url: `/kits/${id}/assign`,
+        method: 'post',
+        data,
+    })
+}
+
+export const apiGetKitAssignments = async (
+    params?: GetKitAssignmentsParams,
+) => {
+    return ApiService.fetchData<{
+        data: KitAssignment[]
+        pagination: { total: number }
+    }>({
+        url: '/kits/assignments',
+        method: 'get',
+        params,
+    })
+}
+
+// Returns every item of the kit that is still out, like apiReturnProduct
+export const apiReturnKit = async (
+    kitAssignmentId: number,
+    data: {
+        condition?: string
+        notes?: string
+        inventoryStatus?: 'AVAILABLE' | 'DAMAGED' | 'MAINTENANCE'
+    },
+) => {
+    return ApiService.fetchData<{ data: KitAssignment }>({
+        url: `/kits/assignments/${kitAssignmentId}/return`,
+        method: 'post',
+        data,
+    })
+}
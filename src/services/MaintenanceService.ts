@@ -0,0 +1,110 @@
+import ApiService from './ApiService'
+
+export type MaintenanceStage =
+    | 'OPEN'
+    | 'DIAGNOSING'
+    | 'WAITING_PARTS'
+    | 'IN_REPAIR'
+    | 'CLOSED'
+
+export interface MaintenanceTicket {
+    id: number
+    ticketNumber: string
+    inventoryId: number
+    inventory?: {
+        id: number
+        serialNumber?: string
+        status: string
+        product?: { id: number; name: string; model?: string }
+    }
+    stage: MaintenanceStage
+    fault: string
+    vendor?: string
+    /** Set when the repair goes back to the supplier from the vendor directory */
+    vendorId?: number
+    /** Repair is claimed under the vendor's warranty */
+    warrantyClaim?: boolean
+    technician?: string
+    cost?: number
+    openedAt: string
+    closedAt?: string
+    resolution?: string
+    /** Status the item was returned to when the ticket closed */
+    closedStatus?: 'AVAILABLE' | 'DAMAGED'
+    createdBy?: { id: number; username: string }
+}
+
+interface GetMaintenanceTicketsParams {
+    page?: number
+    limit?: number
+    stage?: MaintenanceStage
+    /** true for every stage except CLOSED */
+    open?: boolean
+    inventoryId?: number
+    vendorId?: number
+    warrantyClaim?: boolean
+    search?: string
+}
+
+export type MaintenanceTicketPayload = {
+    fault: string
+    vendor?: string
+    vendorId?: number | null
+    warrantyClaim?: boolean
+    technician?: string
+    cost?: number
+    openedAt?: string
+}
+
+export const apiGetMaintenanceTickets = async (
+    params?: GetMaintenanceTicketsParams,
+) => {
+    return ApiService.fetchData<{
+        data: MaintenanceTicket[]
+        pagination: { total: number }
+    }>({
+        url: '/maintenance-tickets',
+        method: 'get',
+        params,
+    })
+}
+
+// Opening a ticket moves the item to MAINTENANCE
+export const apiCreateMaintenanceTicket = async (
+    data: MaintenanceTicketPayload & { inventoryId: number },
+) => {
+    return ApiService.fetchData<{ data: MaintenanceTicket }>({
+        url: '/maintenance-tickets',
+        method: 'post',
+        data,
+    })
+}
+
+export const apiUpdateMaintenanceTicket = async (
+    id: number,
+    data: Partial<MaintenanceTicketPayload> & {
+        stage?: Exclude<MaintenanceStage, 'CLOSED'>
+    },
+) => {
+    return ApiService.fetchData<{ data: MaintenanceTicket }>({
+        url: `/maintenance-tickets/${id}`,
+        method: 'put',
+        data,
+    })
+}
+
+export const apiCloseMaintenanceTicket = async (
+    id: number,
+    data: {
+        resolution: string
+        inventoryStatus: 'AVAILABLE' | 'DAMAGED'
+        cost?: number
+        closedAt?: string
+    },
+) => {
+    return ApiService.fetchData<{ data: MaintenanceTicket }>({
+        url: `/maintenance-tickets/${id}/close`,
+        method: 'post',
+        data,
+    })
+}
@@ -0,0 +1,13 @@
+import axios from 'axios'
+
+// The print agent runs on the user's machine next to the label printer, so
+// it gets its own axios instance without the API base URL or auth headers
+const PrintAgentService = axios.create({
+    timeout: 15000,
+})
+
+export async function apiSendToPrintAgent(agentUrl: string, content: string) {
+    return PrintAgentService.post(agentUrl, content, {
+        headers: { 'Content-Type': 'text/plain' },
+    })
+}
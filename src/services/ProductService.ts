@@ -1,4 +1,12 @@
 import ApiService from './ApiService';
+import fetchAllPages from '@/utils/fetchAllPages';
+import type { VendorSummary } from './VendorService';
+import type { CustomAttributeValues } from '@/utils/customAttributes';
+import type { ReturnCheckResult } from '@/utils/returnInspection';
+import type { AcknowledgementPayload, AssignmentAcknowledgement } from '@/utils/assetAcknowledgement';
+
+// Consumables are counted by quantity instead of per-unit InventoryItem rows
+export type ProductTrackingType = 'SERIALIZED' | 'CONSUMABLE';
 
 // Updated interfaces to match new backend structure
 interface Product {
@@ -12,6 +20,10 @@ interface Product {
   complianceStatus: boolean;
   description?: string; // Changed from notes to description
   minStockLevel: number;
+  trackingType?: ProductTrackingType;
+  quantityOnHand?: number; // Consumables only
+  /** Values for the PRODUCT attributes defined on the category */
+  attributes?: CustomAttributeValues;
   createdAt: string;
   updatedAt: string;
   category?: { id: number; name: string };
@@ -24,13 +36,17 @@ interface Product {
 interface InventoryItem {
   id: number;
   serialNumber?: string;
-  status: 'AVAILABLE' | 'ASSIGNED' | 'MAINTENANCE' | 'DAMAGED' | 'RETIRED';
+  status: 'AVAILABLE' | 'ASSIGNED' | 'MAINTENANCE' | 'DAMAGED' | 'RETIRED' | 'MISSING';
   condition: 'NEW' | 'GOOD' | 'FAIR' | 'POOR' | 'DAMAGED';
   purchaseDate?: string;
   purchasePrice?: number;
   warrantyExpiry?: string;
   location?: string;
   notes?: string;
+  vendorId?: number;
+  vendor?: VendorSummary;
+  /** Values for the ITEM attributes defined on the category */
+  attributes?: CustomAttributeValues;
   createdAt: string;
   updatedAt: string;
 }
@@ -56,6 +72,7 @@ interface Assignment {
   status: 'ASSIGNED' | 'RETURNED' | 'OVERDUE';
   returnCondition?: string;
   notes?: string;
+  acknowledgement?: AssignmentAcknowledgement | null; // Missing until the employee signs for the item
   product?: Product;
   inventory?: InventoryItem;
   employee?: { id: number; name: string; empId: string };
@@ -74,6 +91,9 @@ export const apiGetProducts = async (params) => {
       stockStatus: params?.stockStatus,
       category: params?.category,
       branch: params?.branch,
+      // Custom attribute filter; the free-text search also matches attribute values
+      attributeKey: params?.attributeKey,
+      attributeValue: params?.attributeValue,
     }
   });
 };
@@ -95,6 +115,8 @@ export const apiCreateProduct = async (data: {
   complianceStatus: boolean;
   description?: string;
   minStockLevel?: number;
+  trackingType?: ProductTrackingType;
+  attributes?: CustomAttributeValues;
   initialStock?: number;
   serialNumbers?: string[];
   purchaseDate?: string;
@@ -133,6 +155,8 @@ export const apiAddStock = async (productId: number, data: {
   condition?: string;
   reference?: string;
   reason?: string;
+  /** Vendor the units were bought from (shown as "purchased from") */
+  vendorId?: number;
 }) => {
   return ApiService.fetchData({
     url: `/products/${productId}/add-stock`,
@@ -141,6 +165,71 @@ export const apiAddStock = async (productId: number, data: {
   });
 };
 
+// Consumable stock movements. The backend keeps quantityOnHand and the
+// LOW_STOCK / OUT_OF_STOCK status (against minStockLevel) in step with these.
+export const apiReceiveConsumable = async (productId: number, data: {
+  quantity: number;
+  purchasePrice?: number;
+  reference?: string;
+  notes?: string;
+}) => {
+  return ApiService.fetchData({
+    url: `/products/${productId}/consumables/receive`,
+    method: 'post',
+    data
+  });
+};
+
+export const apiIssueConsumable = async (productId: number, data: {
+  quantity: number;
+  employeeId?: number;
+  departmentId?: number;
+  notes?: string;
+}) => {
+  return ApiService.fetchData({
+    url: `/products/${productId}/consumables/issue`,
+    method: 'post',
+    data
+  });
+};
+
+export const apiGetConsumableMovements = async (params?: {
+  productId?: number;
+  employeeId?: number;
+  departmentId?: number;
+  branchId?: number;
+  type?: 'ISSUE' | 'RECEIVE';
+  fromDate?: string;
+  toDate?: string;
+  page?: number;
+  limit?: number;
+}) => {
+  return ApiService.fetchData({
+    url: '/products/consumables/movements',
+    method: 'get',
+    params
+  });
+};
+
+// Rows and total of a paged list response, for fetchAllPages
+const toPage = <T>(response: { data: unknown }) => {
+  const body = response.data as { data?: T[]; pagination?: { total?: number } };
+  return { data: body?.data || [], total: body?.pagination?.total };
+};
+
+// Pages through apiGetConsumableMovements for reports over a date range
+export const apiGetAllConsumableMovements = async <T>(params?: {
+  productId?: number;
+  branchId?: number;
+  type?: 'ISSUE' | 'RECEIVE';
+  fromDate?: string;
+  toDate?: string;
+}) => {
+  return fetchAllPages(async (page, limit) =>
+    toPage<T>(await apiGetConsumableMovements({ ...params, page, limit }))
+  );
+};
+
 export const apiGetAvailableInventory = async (productId: number) => {
   return ApiService.fetchData({
     url: `/products/${productId}/available-inventory`,
@@ -148,6 +237,60 @@ export const apiGetAvailableInventory = async (productId: number) => {
   });
 };
 
+export const apiLookupInventory = async (params: {
+  serialNumber?: string;
+  inventoryId?: number;
+}) => {
+  return ApiService.fetchData({
+    url: '/products/inventory/lookup',
+    method: 'get',
+    params
+  });
+};
+
+// Inventory items across products, e.g. everything held at one branch
+export const apiGetInventoryItems = async (params?: {
+  branchId?: number;
+  categoryId?: number;
+  location?: string;
+  status?: string;
+  warrantyExpiryFrom?: string;
+  warrantyExpiryTo?: string;
+  vendorId?: number;
+  page?: number;
+  limit?: number;
+}) => {
+  return ApiService.fetchData({
+    url: '/products/inventory',
+    method: 'get',
+    params
+  });
+};
+
+// Pages through apiGetInventoryItems; used where a whole branch is needed
+export const apiGetAllInventoryItems = async <T = InventoryItem>(params?: {
+  branchId?: number;
+  categoryId?: number;
+  location?: string;
+  status?: string;
+  warrantyExpiryFrom?: string;
+  warrantyExpiryTo?: string;
+  vendorId?: number;
+}) => {
+  return fetchAllPages(async (page, limit) =>
+    toPage<T>(await apiGetInventoryItems({ ...params, page, limit }))
+  );
+};
+
+// Returns the serial numbers from the list that already exist on any product
+export const apiCheckSerialNumbers = async (serialNumbers: string[]) => {
+  return ApiService.fetchData<{ data: { existing: string[] } }>({
+    url: '/products/inventory/check-serials',
+    method: 'post',
+    data: { serialNumbers }
+  });
+};
+
 export const apiUpdateInventoryItem = async (inventoryId: number, data: {
   status?: string;
   condition?: string;
@@ -155,6 +298,8 @@ export const apiUpdateInventoryItem = async (inventoryId: number, data: {
   notes?: string;
   serialNumber?: string;
   warrantyExpiry?: string;
+  vendorId?: number | null;
+  attributes?: CustomAttributeValues;
   reason?: string;
 }) => {
   return ApiService.fetchData({
@@ -209,10 +354,16 @@ export const apiAssignProduct = async (data: {
   });
 };
 
+// The inspection checklist is stored with the return as evidence; damage
+// photos are uploaded separately as PHOTO attachments of the assignment.
+// MISSING and RETIRED close the assignment of a unit that never came back.
 export const apiReturnProduct = async (assignmentId: number, data?: {
   condition?: string;
   notes?: string;
-  inventoryStatus?: 'AVAILABLE' | 'DAMAGED' | 'MAINTENANCE';
+  inventoryStatus?: 'AVAILABLE' | 'DAMAGED' | 'MAINTENANCE' | 'MISSING';
+  // Stored with the assignment when it is closed by the offboarding wizard
+  offboardingResolution?: 'RETURNED' | 'LOST' | 'WRITTEN_OFF';
+  inspection?: ReturnCheckResult[];
 }) => {
   return ApiService.fetchData({
     url: `/product-assignments/return/${assignmentId}`,
@@ -221,6 +372,24 @@ export const apiReturnProduct = async (assignmentId: number, data?: {
   });
 };
 
+// Signed by the employee on a tablet at the desk; the public page has its own endpoint
+export const apiAcknowledgeAssignment = async (assignmentId: number, data: AcknowledgementPayload) => {
+  return ApiService.fetchData({
+    url: `/product-assignments/${assignmentId}/acknowledge`,
+    method: 'post',
+    data
+  });
+};
+
+// Signing link for the employee's own device. The token is signed by the server,
+// expires, and stops working once the receipt has been signed.
+export const apiCreateAcknowledgementLink = async (assignmentId: number) => {
+  return ApiService.fetchData<{ data: { token: string; expiresAt: string } }>({
+    url: `/product-assignments/${assignmentId}/acknowledgement-link`,
+    method: 'post'
+  });
+};
+
 // Assignment queries
 export const apiGetActiveAssignments = async (params?: {
   page?: number;
@@ -237,6 +406,17 @@ export const apiGetActiveAssignments = async (params?: {
   });
 };
 
+// Pages through apiGetActiveAssignments, e.g. to plot every due date
+export const apiGetAllActiveAssignments = async <T = Assignment>(params?: {
+  employeeId?: number;
+  productId?: number;
+  overdue?: boolean;
+}) => {
+  return fetchAllPages(async (page, limit) =>
+    toPage<T>(await apiGetActiveAssignments({ ...params, page, limit }))
+  );
+};
+
 export const apiGetAssignmentHistory = async (params?: {
   page?: number;
   limit?: number;
@@ -318,6 +498,19 @@ export const apiGetStockTransactions = async (params?: {
   });
 };
 
+// Pages through apiGetStockTransactions, e.g. for usage over a period
+export const apiGetAllStockTransactions = async <T>(params?: {
+  productId?: number;
+  inventoryId?: number;
+  type?: string;
+  fromDate?: string;
+  toDate?: string;
+}) => {
+  return fetchAllPages(async (page, limit) =>
+    toPage<T>(await apiGetStockTransactions({ ...params, page, limit }))
+  );
+};
+
 // QR Code generation
 export const apiGenerateProductQrCode = async (productId: number) => {
   const response = await ApiService.fetchData({
@@ -391,12 +584,23 @@ export default {
   apiUpdateProduct,
   apiDeleteProduct,
   apiAddStock,
+  apiReceiveConsumable,
+  apiIssueConsumable,
+  apiGetConsumableMovements,
+  apiGetAllConsumableMovements,
   apiGetAvailableInventory,
+  apiLookupInventory,
+  apiGetInventoryItems,
+  apiGetAllInventoryItems,
+  apiCheckSerialNumbers,
   apiUpdateInventoryItem,
   apiDeleteInventoryItem,
   apiAssignProduct,
   apiReturnProduct,
+  apiAcknowledgeAssignment,
+  apiCreateAcknowledgementLink,
   apiGetActiveAssignments,
+  apiGetAllActiveAssignments,
   apiGetAssignmentHistory,
   apiGetProductAssignments,
   apiGetEmployeeAssignments,
@@ -404,6 +608,7 @@ export default {
   apiGetAssignmentAnalytics,
   apiGetStockSummary,
   apiGetStockTransactions,
+  apiGetAllStockTransactions,
   apiGenerateProductQrCode,
   apiGenerateInventoryQrCode,
   apiGetAssignedProducts,
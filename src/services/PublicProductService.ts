@@ -1,6 +1,7 @@
 // services/PublicProductService.ts
 import axios from 'axios';
 import appConfig from '@/configs/app.config';
+import type { AcknowledgementPayload, AssignmentAcknowledgement } from '@/utils/assetAcknowledgement';
 
 // Create a separate axios instance for public API calls (no auth required)
 const PublicApiService = axios.create({
@@ -19,6 +20,8 @@ interface AssignmentInfo {
   notes?: string;
   isOverdue: boolean;
   daysOverdue: number;
+  pcName?: string;
+  acknowledgement?: AssignmentAcknowledgement | null;
 }
 
 interface EmployeeInfo {
@@ -82,6 +85,19 @@ export const apiGetPublicAssignmentInfo = async (assignmentId: number): Promise<
   }
 };
 
+// The employee signs for the item on their own device. Keyed by the single-use
+// token from the signing link, not the assignment id printed on the QR label.
+export const apiAcknowledgePublicAssignment = async (token: string, data: AcknowledgementPayload): Promise<ApiResponse<AssignmentAcknowledgement>> => {
+  try {
+    const response = await PublicApiService.post(`/public/acknowledgements/${encodeURIComponent(token)}`, data);
+    return response.data;
+  } catch (error) {
+    const message = axios.isAxiosError<{ message?: string }>(error) ? error.response?.data?.message : undefined;
+    throw new Error(message || 'Failed to save acknowledgement');
+  }
+};
+
 export default {
-  apiGetPublicAssignmentInfo
+  apiGetPublicAssignmentInfo,
+  apiAcknowledgePublicAssignment
 };
\ No newline at end of file
@@ -0,0 +1,112 @@
+import ApiService from './ApiService'
+import type { VendorSummary } from './VendorService'
+
+export type PurchaseOrderStatus =
+    | 'OPEN'
+    | 'PARTIALLY_RECEIVED'
+    | 'RECEIVED'
+    | 'CANCELLED'
+
+export interface PurchaseOrderLine {
+    id: number
+    productId: number
+    quantity: number
+    unitPrice: number
+    receivedQuantity: number
+    product?: {
+        id: number
+        name: string
+        model?: string
+        trackingType?: 'SERIALIZED' | 'CONSUMABLE'
+    }
+}
+
+export interface PurchaseOrder {
+    id: number
+    poNumber: string
+    vendorName: string
+    vendorId?: number
+    vendor?: VendorSummary
+    status: PurchaseOrderStatus
+    expectedDate?: string
+    notes?: string
+    requisitionId?: number
+    createdAt: string
+    cancelledAt?: string
+    createdBy?: { id: number; username: string }
+    lines: PurchaseOrderLine[]
+}
+
+export type PurchaseOrderPayload = {
+    vendorName: string
+    vendorId?: number
+    expectedDate?: string
+    notes?: string
+    requisitionId?: number
+    lines: Array<{ productId: number; quantity: number; unitPrice: number }>
+}
+
+export const apiGetPurchaseOrders = async (params?: {
+    page?: number
+    limit?: number
+    status?: PurchaseOrderStatus
+    vendorId?: number
+    search?: string
+}) => {
+    return ApiService.fetchData<{
+        data: PurchaseOrder[]
+        pagination: { total: number }
+    }>({
+        url: '/purchase-orders',
+        method: 'get',
+        params,
+    })
+}
+
+export const apiGetPurchaseOrder = async (id: string) => {
+    return ApiService.fetchData<{ data: PurchaseOrder }>({
+        url: `/purchase-orders/${id}`,
+        method: 'get',
+    })
+}
+
+export const apiCreatePurchaseOrder = async (data: PurchaseOrderPayload) => {
+    return ApiService.fetchData<{ data: PurchaseOrder }>({
+        url: '/purchase-orders',
+        method: 'post',
+        data,
+    })
+}
+
+export const apiCancelPurchaseOrder = async (id: number) => {
+    return ApiService.fetchData<{ data: PurchaseOrder }>({
+        url: `/purchase-orders/${id}/cancel`,
+        method: 'post',
+    })
+}
+
+export interface PurchaseOrderReceiptLine {
+    lineId: number
+    quantity: number
+    /** One per unit for serialised lines; empty for consumables */
+    serialNumbers: string[]
+}
+
+// Receives goods in one transaction: the backend adds the units to stock (at the
+// line's unit price, with the PO number as the stock reference), adds to
+// receivedQuantity and moves the PO to PARTIALLY_RECEIVED or RECEIVED. If any
+// line is rejected nothing is stocked, so a failed receipt can be retried.
+export const apiReceivePurchaseOrder = async (
+    id: number,
+    data: {
+        lines: PurchaseOrderReceiptLine[]
+        purchaseDate?: string
+        location?: string
+    },
+) => {
+    return ApiService.fetchData<{ data: PurchaseOrder }>({
+        url: `/purchase-orders/${id}/receipts`,
+        method: 'post',
+        data,
+    })
+}
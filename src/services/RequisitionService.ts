@@ -0,0 +1,101 @@
+import ApiService from './ApiService'
+
+export type RequisitionStatus = 'DRAFT' | 'SUBMITTED' | 'RECEIVED'
+
+export interface RequisitionLine {
+    id?: number
+    productId: number
+    quantity: number
+    /** Estimated unit price, if known when raising the requisition */
+    unitPrice?: number | null
+    notes?: string
+    product?: { id: number; name: string; model?: string }
+}
+
+export interface Requisition {
+    id: number
+    requisitionNumber: string
+    vendorName: string
+    status: RequisitionStatus
+    notes?: string
+    createdAt: string
+    submittedAt?: string
+    receivedAt?: string
+    createdBy?: { id: number; username: string }
+    submittedBy?: { id: number; username: string }
+    receivedBy?: { id: number; username: string }
+    lines: RequisitionLine[]
+}
+
+export type RequisitionPayload = {
+    vendorName: string
+    notes?: string
+    lines: Array<{
+        productId: number
+        quantity: number
+        unitPrice?: number | null
+        notes?: string
+    }>
+}
+
+export const apiGetRequisitions = async (params?: {
+    page?: number
+    limit?: number
+    status?: RequisitionStatus
+    search?: string
+}) => {
+    return ApiService.fetchData<{
+        data: Requisition[]
+        pagination: { total: number }
+    }>({
+        url: '/requisitions',
+        method: 'get',
+        params,
+    })
+}
+
+export const apiGetRequisition = async (id: string) => {
+    return ApiService.fetchData<{ data: Requisition }>({
+        url: `/requisitions/${id}`,
+        method: 'get',
+    })
+}
+
+// New requisitions always start as DRAFT
+export const apiCreateRequisition = async (data: RequisitionPayload) => {
+    return ApiService.fetchData<{ data: Requisition }>({
+        url: '/requisitions',
+        method: 'post',
+        data,
+    })
+}
+
+// Only drafts can be edited; the backend rejects changes once submitted
+export const apiUpdateRequisition = async (
+    id: number,
+    data: RequisitionPayload,
+) => {
+    return ApiService.fetchData<{ data: Requisition }>({
+        url: `/requisitions/${id}`,
+        method: 'put',
+        data,
+    })
+}
+
+export const apiUpdateRequisitionStatus = async (
+    id: number,
+    status: Exclude<RequisitionStatus, 'DRAFT'>,
+) => {
+    return ApiService.fetchData<{ data: Requisition }>({
+        url: `/requisitions/${id}/status`,
+        method: 'patch',
+        data: { status },
+    })
+}
+
+export const apiDeleteRequisition = async (id: number) => {
+    return ApiService.fetchData({
+        url: `/requisitions/${id}`,
+        method: 'delete',
+    })
+}
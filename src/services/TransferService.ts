@@ -0,0 +1,116 @@
+import ApiService from './ApiService'
+
+export type TransferStatus =
+    | 'REQUESTED'
+    | 'IN_TRANSIT'
+    | 'RECEIVED'
+    | 'CANCELLED'
+
+export interface TransferItem {
+    id: number
+    inventoryId: number
+    receivedAt?: string
+    inventory?: {
+        id: number
+        serialNumber?: string
+        product?: { id: number; name: string; model?: string }
+    }
+}
+
+export interface Transfer {
+    id: number
+    transferNumber: string
+    fromBranchId: number
+    toBranchId: number
+    fromBranch?: { id: number; name: string }
+    toBranch?: { id: number; name: string }
+    status: TransferStatus
+    notes?: string
+    requestedAt: string
+    dispatchedAt?: string
+    receivedAt?: string
+    cancelledAt?: string
+    cancelReason?: string
+    requestedBy?: { id: number; username: string }
+    dispatchedBy?: { id: number; username: string }
+    receivedBy?: { id: number; username: string }
+    items: TransferItem[]
+}
+
+interface GetTransfersParams {
+    page?: number
+    limit?: number
+    status?: TransferStatus
+    branchId?: number
+    inventoryId?: number
+}
+
+// Every step below is recorded by the backend as a stock transaction
+// (TRANSFER_OUT on dispatch, TRANSFER_IN on receipt) referencing the
+// transfer number, so it shows up in apiGetStockTransactions.
+
+export const apiGetTransfers = async (params?: GetTransfersParams) => {
+    return ApiService.fetchData<{
+        data: Transfer[]
+        pagination: { total: number }
+    }>({
+        url: '/transfers',
+        method: 'get',
+        params,
+    })
+}
+
+export const apiGetTransfer = async (id: string) => {
+    return ApiService.fetchData<{ data: Transfer }>({
+        url: `/transfers/${id}`,
+        method: 'get',
+    })
+}
+
+export const apiCreateTransfer = async (data: {
+    fromBranchId: number
+    toBranchId: number
+    inventoryIds: number[]
+    notes?: string
+}) => {
+    return ApiService.fetchData<{ data: Transfer }>({
+        url: '/transfers',
+        method: 'post',
+        data,
+    })
+}
+
+// Marks the items as in transit; they stop counting as available stock
+export const apiDispatchTransfer = async (
+    id: number,
+    data?: { notes?: string },
+) => {
+    return ApiService.fetchData<{ data: Transfer }>({
+        url: `/transfers/${id}/dispatch`,
+        method: 'post',
+        data,
+    })
+}
+
+// Items left out of inventoryIds stay in transit until a later receipt
+export const apiReceiveTransfer = async (
+    id: number,
+    data: { inventoryIds: number[]; location?: string; notes?: string },
+) => {
+    return ApiService.fetchData<{ data: Transfer }>({
+        url: `/transfers/${id}/receive`,
+        method: 'post',
+        data,
+    })
+}
+
+export const apiCancelTransfer = async (
+    id: number,
+    data: { reason: string },
+) => {
+    return ApiService.fetchData<{ data: Transfer }>({
+        url: `/transfers/${id}/cancel`,
+        method: 'post',
+        data,
+    })
+}
@@ -0,0 +1,83 @@
+import ApiService from './ApiService'
+
+export interface Vendor {
+    id: number
+    name: string
+    contactName?: string
+    email?: string
+    phone?: string
+    website?: string
+    address?: string
+    supportEmail?: string
+    supportPhone?: string
+    /** Support terms, e.g. response times and who to call out of hours */
+    slaNotes?: string
+    notes?: string
+    createdAt: string
+    updatedAt?: string
+}
+
+export type VendorPayload = {
+    name: string
+    contactName?: string
+    email?: string
+    phone?: string
+    website?: string
+    address?: string
+    supportEmail?: string
+    supportPhone?: string
+    slaNotes?: string
+    notes?: string
+}
+
+/** The vendor fields embedded in inventory items, orders and tickets */
+export type VendorSummary = Pick<
+    Vendor,
+    'id' | 'name' | 'supportEmail' | 'supportPhone' | 'slaNotes'
+>
+
+export const apiGetVendors = async (params?: {
+    page?: number
+    limit?: number
+    search?: string
+}) => {
+    return ApiService.fetchData<{
+        data: Vendor[]
+        pagination: { total: number }
+    }>({
+        url: '/vendors',
+        method: 'get',
+        params,
+    })
+}
+
+export const apiGetVendor = async (id: string) => {
+    return ApiService.fetchData<{ data: Vendor }>({
+        url: `/vendors/${id}`,
+        method: 'get',
+    })
+}
+
+export const apiCreateVendor = async (data: VendorPayload) => {
+    return ApiService.fetchData<{ data: Vendor }>({
+        url: '/vendors',
+        method: 'post',
+        data,
+    })
+}
+
+export const apiUpdateVendor = async (id: number, data: VendorPayload) => {
+    return ApiService.fetchData<{ data: Vendor }>({
+        url: `/vendors/${id}`,
+        method: 'put',
+        data,
+    })
+}
+
+// Refused with 409 while purchase orders or inventory still point at the vendor
+export const apiDeleteVendor = async (id: number) => {
+    return ApiService.fetchData({
+        url: `/vendors/${id}`,
+        method: 'delete',
+    })
+}
@@ -45,17 +45,6 @@ export const apiAssignProduct = async (data: {
     })
 }
 
-export const apiBulkAssignProducts = async (data: {
-    employeeId: number
-    productIds: number[]
-}) => {
-    return ApiService.fetchData({
-        url: '/product-assignments/assign/bulk',
-        method: 'post',
-        data
-    })
-}
-
 export const apiReturnProduct = async (assignmentId: string, data?: {
     condition?: string
     notes?: string
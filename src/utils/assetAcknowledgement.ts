@@ -0,0 +1,40 @@
+/** Where the employee signed: the QR-linked public page or a tablet at the IT desk */
+export type AcknowledgementChannel = 'PUBLIC' | 'DESK'
+
+/** A signed receipt for an assignment, stored with it */
+export interface AssignmentAcknowledgement {
+    signerName: string
+    /** PNG data URL of the drawn signature */
+    signature: string
+    policyVersion: string
+    channel: AcknowledgementChannel
+    /** Set by the server when the acknowledgement is saved */
+    signedAt: string
+}
+
+export type AcknowledgementPayload = Pick<
+    AssignmentAcknowledgement,
+    'signerName' | 'signature' | 'policyVersion' | 'channel'
+>
+
+export const acknowledgementChannelLabels: Record<
+    AcknowledgementChannel,
+    string
+> = {
+    PUBLIC: 'Signed on own device',
+    DESK: 'Signed at the IT desk',
+}
+
+/**
+ * Bump the version whenever the text changes, so every acknowledgement
+ * records which wording was accepted.
+ */
+export const ASSET_POLICY_VERSION = '2026-10'
+
+export const ASSET_POLICY_TEXT = [
+    'The equipment listed here remains the property of the company and is issued to me for work purposes.',
+    'I will take reasonable care of it, keep it secure and not lend it to anyone else.',
+    'I will report loss, theft or damage to the IT team straight away.',
+    'I will not remove asset labels or install unapproved software.',
+    'I will return the equipment, with its accessories, when asked or when I leave the company.',
+]
@@ -0,0 +1,40 @@
+export interface ImportFieldDefinition<K extends string = string> {
+    key: K
+    label: string
+    required?: boolean
+    hint?: string
+    /** Other header names that are mapped to this field automatically */
+    aliases: string[]
+}
+
+/** Maps a field to the spreadsheet header it is read from */
+export type ColumnMapping<K extends string = string> = Partial<
+    Record<K, string>
+>
+
+const normalizeHeader = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/** Pairs spreadsheet headers with import fields by key, label or alias */
+export default function autoMapColumns<K extends string>(
+    fields: ImportFieldDefinition<K>[],
+    headers: string[],
+): ColumnMapping<K> {
+    const mapping: ColumnMapping<K> = {}
+    const used = new Set<string>()
+
+    fields.forEach((field) => {
+        const candidates = [field.key, field.label, ...field.aliases].map(
+            normalizeHeader,
+        )
+        const header = headers.find(
+            (h) => !used.has(h) && candidates.includes(normalizeHeader(h)),
+        )
+        if (header) {
+            mapping[field.key] = header
+            used.add(header)
+        }
+    })
+
+    return mapping
+}
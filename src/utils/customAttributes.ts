@@ -0,0 +1,132 @@
+import dayjs from 'dayjs'
+
+export type CustomAttributeType = 'TEXT' | 'NUMBER' | 'DATE' | 'SELECT'
+
+/**
+ * PRODUCT attributes describe the model (CPU, RAM, screen size) and are set
+ * on the product; ITEM attributes differ per unit (MAC address, IMEI) and are
+ * set on each inventory item.
+ */
+export type CustomAttributeScope = 'PRODUCT' | 'ITEM'
+
+/** One field of the custom attribute schema configured on a category */
+export interface CustomAttributeDefinition {
+    /** Stable key the values are stored under; survives label changes */
+    key: string
+    label: string
+    type: CustomAttributeType
+    scope: CustomAttributeScope
+    required: boolean
+    /** Choices for SELECT attributes */
+    options?: string[]
+}
+
+/** Dates are stored as YYYY-MM-DD strings */
+export type CustomAttributeValues = Record<string, string | number>
+
+export const customAttributeTypeLabels: Record<CustomAttributeType, string> = {
+    TEXT: 'Text',
+    NUMBER: 'Number',
+    DATE: 'Date',
+    SELECT: 'Select',
+}
+
+export const customAttributeScopeLabels: Record<CustomAttributeScope, string> =
+    {
+        PRODUCT: 'Product',
+        ITEM: 'Each item',
+    }
+
+export const attributesForScope = (
+    definitions: CustomAttributeDefinition[] | null | undefined,
+    scope: CustomAttributeScope,
+) => (definitions || []).filter((definition) => definition.scope === scope)
+
+/** Derives a storage key from a label, e.g. "MAC Address" -> "mac_address" */
+export const toAttributeKey = (label: string) =>
+    label
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+
+const isBlank = (value: unknown) =>
+    value === undefined || value === null || String(value).trim() === ''
+
+/** Error messages keyed by attribute key; empty when everything is valid */
+export const validateCustomAttributes = (
+    definitions: CustomAttributeDefinition[],
+    values: Partial<CustomAttributeValues> = {},
+): Record<string, string> => {
+    const errors: Record<string, string> = {}
+    definitions.forEach((definition) => {
+        const value = values[definition.key]
+        if (isBlank(value)) {
+            if (definition.required) {
+                errors[definition.key] = `${definition.label} is required`
+            }
+            return
+        }
+        if (definition.type === 'NUMBER' && Number.isNaN(Number(value))) {
+            errors[definition.key] = 'Enter a number'
+        } else if (
+            definition.type === 'DATE' &&
+            !dayjs(String(value)).isValid()
+        ) {
+            errors[definition.key] = 'Enter a valid date'
+        } else if (
+            definition.type === 'SELECT' &&
+            !(definition.options || []).includes(String(value))
+        ) {
+            errors[definition.key] = 'Pick one of the listed options'
+        }
+    })
+    return errors
+}
+
+/**
+ * Values ready to send: blanks are dropped, numbers converted and keys that
+ * are no longer in the schema left out.
+ */
+export const toCustomAttributePayload = (
+    definitions: CustomAttributeDefinition[],
+    values: Partial<CustomAttributeValues> = {},
+): CustomAttributeValues => {
+    const payload: CustomAttributeValues = {}
+    definitions.forEach((definition) => {
+        const value = values[definition.key]
+        if (isBlank(value)) {
+            return
+        }
+        payload[definition.key] =
+            definition.type === 'NUMBER' ? Number(value) : String(value).trim()
+    })
+    return payload
+}
+
+export const formatCustomAttribute = (
+    definition: CustomAttributeDefinition,
+    value: string | number | undefined,
+) => {
+    if (isBlank(value)) {
+        return '-'
+    }
+    return definition.type === 'DATE'
+        ? dayjs(String(value)).format('DD MMM YYYY')
+        : String(value)
+}
+
+/** "Label: value" pairs for the values that are filled in */
+export const describeCustomAttributes = (
+    definitions: CustomAttributeDefinition[],
+    values: Partial<CustomAttributeValues> | null | undefined,
+) =>
+    definitions
+        .filter((definition) => !isBlank(values?.[definition.key]))
+        .map(
+            (definition) =>
+                `${definition.label}: ${formatCustomAttribute(
+                    definition,
+                    values?.[definition.key],
+                )}`,
+        )
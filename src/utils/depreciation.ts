@@ -0,0 +1,86 @@
+import dayjs from 'dayjs'
+
+export type DepreciationMethod = 'STRAIGHT_LINE' | 'DECLINING_BALANCE'
+
+/** Depreciation settings configured on a category */
+export interface DepreciationSettings {
+    depreciationMethod?: DepreciationMethod | null
+    usefulLifeMonths?: number | null
+    /** Residual value as a percentage of the purchase price */
+    salvageValuePercent?: number | null
+}
+
+export const depreciationMethodLabels: Record<DepreciationMethod, string> = {
+    STRAIGHT_LINE: 'Straight-line',
+    DECLINING_BALANCE: 'Declining balance',
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export const hasDepreciation = (settings?: DepreciationSettings | null) =>
+    !!settings?.depreciationMethod && (settings.usefulLifeMonths ?? 0) > 0
+
+/**
+ * Double-declining balance (rate 2 / life) that switches to straight-line
+ * over the remaining life once that charges more, so the value reaches
+ * salvage exactly at the end of the life instead of in one last big step.
+ *
+ * Cost 1000, life 36, salvage 0: month 0 = 1000.00, 12 = 503.64,
+ * 18 = 357.42 (switch to 19.86 a month), 24 = 238.28, 35 = 19.86, 36 = 0.00.
+ */
+const decliningBalance = (
+    cost: number,
+    salvage: number,
+    life: number,
+    months: number,
+) => {
+    const rate = Math.min(2 / life, 1)
+    let value = cost
+    for (let month = 0; month < months; month++) {
+        const declining = value * rate
+        const straightLine = (value - salvage) / (life - month)
+        value = Math.max(value - Math.max(declining, straightLine), salvage)
+    }
+    return value
+}
+
+/**
+ * Book value of an item on the given date. Items without a purchase price
+ * have no book value; items in a category without depreciation settings
+ * keep their purchase price. Neither method drops below the salvage value.
+ */
+export default function calculateBookValue(
+    item: {
+        purchasePrice?: number | string | null
+        purchaseDate?: string | null
+    },
+    settings?: DepreciationSettings | null,
+    asOf: Date | string = new Date(),
+): number | undefined {
+    if (item.purchasePrice === undefined || item.purchasePrice === null) {
+        return undefined
+    }
+    const cost = Number(item.purchasePrice)
+    if (Number.isNaN(cost)) {
+        return undefined
+    }
+    if (!hasDepreciation(settings) || !item.purchaseDate) {
+        return round(cost)
+    }
+
+    const life = Number(settings?.usefulLifeMonths)
+    const salvage =
+        (cost * Math.min(settings?.salvageValuePercent ?? 0, 100)) / 100
+    const months = Math.max(
+        0,
+        dayjs(asOf).diff(dayjs(item.purchaseDate), 'month'),
+    )
+
+    if (months >= life) {
+        return round(salvage)
+    }
+    if (settings?.depreciationMethod === 'DECLINING_BALANCE') {
+        return round(decliningBalance(cost, salvage, life, months))
+    }
+    return round(cost - ((cost - salvage) * months) / life)
+}
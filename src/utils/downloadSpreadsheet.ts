@@ -0,0 +1,24 @@
+import { utils, writeFile } from 'xlsx'
+
+type SheetRows = Array<Record<string, string | number>>
+
+/** Saves several named sheets into one workbook */
+export function downloadWorkbook(
+    sheets: Record<string, SheetRows>,
+    fileName: string,
+) {
+    const workbook = utils.book_new()
+    Object.entries(sheets).forEach(([sheetName, rows]) =>
+        utils.book_append_sheet(workbook, utils.json_to_sheet(rows), sheetName),
+    )
+    writeFile(workbook, fileName)
+}
+
+/** Saves rows as an Excel or CSV file, picked from the file name extension */
+export default function downloadSpreadsheet(
+    rows: SheetRows,
+    fileName: string,
+    sheetName = 'Sheet1',
+) {
+    downloadWorkbook({ [sheetName]: rows }, fileName)
+}
@@ -0,0 +1,27 @@
+/**
+ * Requests page after page until a short page comes back or the reported
+ * total is reached. fetchPage maps the endpoint's response to its rows and
+ * total, since list endpoints do not all report it in the same place.
+ */
+const fetchAllPages = async <T>(
+    fetchPage: (
+        page: number,
+        limit: number,
+    ) => Promise<{ data: T[]; total?: number }>,
+    pageSize = 200,
+): Promise<T[]> => {
+    const rows: T[] = []
+
+    for (let page = 1; ; page++) {
+        const { data, total } = await fetchPage(page, pageSize)
+        rows.push(...data)
+        if (
+            data.length < pageSize ||
+            (total !== undefined && rows.length >= total)
+        ) {
+            return rows
+        }
+    }
+}
+
+export default fetchAllPages
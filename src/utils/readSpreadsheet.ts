@@ -0,0 +1,72 @@
+import { read, utils } from 'xlsx'
+import dayjs from 'dayjs'
+
+export interface SpreadsheetRow {
+    /** Row number as shown in the spreadsheet */
+    rowNumber: number
+    values: Record<string, string>
+}
+
+export interface SpreadsheetData {
+    headers: string[]
+    rows: SpreadsheetRow[]
+}
+
+const cellToString = (value: unknown) => {
+    if (value instanceof Date) {
+        return dayjs(value).format('YYYY-MM-DD')
+    }
+    if (value === null || value === undefined) {
+        return ''
+    }
+    return String(value).trim()
+}
+
+/**
+ * Reads the first sheet of a CSV or Excel file. The first non-empty row is
+ * used as the header row and every cell comes back as a trimmed string.
+ */
+export default async function readSpreadsheet(
+    file: File,
+): Promise<SpreadsheetData> {
+    // CSV cells are kept as typed so serials like 000123 keep their zeros
+    const workbook = file.name.toLowerCase().endsWith('.csv')
+        ? read(await file.text(), { type: 'string', raw: true })
+        : read(await file.arrayBuffer(), { type: 'array', cellDates: true })
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    if (!sheet) {
+        return { headers: [], rows: [] }
+    }
+
+    const firstRow = utils.decode_range(sheet['!ref'] || 'A1').s.r + 1
+    const table = utils
+        .sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: true })
+        .map((row, index) => ({
+            rowNumber: firstRow + index,
+            cells: row.map(cellToString),
+        }))
+        .filter((row) => row.cells.some((cell) => cell !== ''))
+
+    const [header, ...dataRows] = table
+    const headerRow = header?.cells || []
+    const headers = headerRow.map((header, index) => {
+        const name = header || `Column ${index + 1}`
+        return headerRow.indexOf(header) === index
+            ? name
+            : `${name} (${index + 1})`
+    })
+
+    return {
+        headers,
+        rows: dataRows.map((row) => ({
+            rowNumber: row.rowNumber,
+            values: Object.fromEntries(
+                headers.map((header, index) => [
+                    header,
+                    row.cells[index] ?? '',
+                ]),
+            ),
+        })),
+    }
+}
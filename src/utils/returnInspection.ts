@@ -0,0 +1,81 @@
+/**
+ * How bad a failed check is: MINOR (charger missing) keeps the item in
+ * stock, REPAIR (keyboard faulty) sends it to maintenance and DAMAGE
+ * (cracked screen) marks it damaged.
+ */
+export type ReturnCheckSeverity = 'MINOR' | 'REPAIR' | 'DAMAGE'
+
+export type ReturnCondition = 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR'
+
+export type ReturnInventoryStatus = 'AVAILABLE' | 'MAINTENANCE' | 'DAMAGED'
+
+/** One check of the return checklist configured on a category */
+export interface ReturnCheckDefinition {
+    key: string
+    label: string
+    severity: ReturnCheckSeverity
+}
+
+/** The answer recorded for a check when an item is returned */
+export interface ReturnCheckResult {
+    key: string
+    label: string
+    severity: ReturnCheckSeverity
+    passed: boolean
+}
+
+export const returnCheckSeverityLabels: Record<ReturnCheckSeverity, string> = {
+    MINOR: 'Minor',
+    REPAIR: 'Needs repair',
+    DAMAGE: 'Damage',
+}
+
+/** Used for categories without a checklist of their own */
+export const defaultReturnChecklist: ReturnCheckDefinition[] = [
+    {
+        key: 'no_physical_damage',
+        label: 'No physical damage',
+        severity: 'DAMAGE',
+    },
+    { key: 'powers_on', label: 'Powers on and works', severity: 'REPAIR' },
+    {
+        key: 'accessories_included',
+        label: 'Accessories included',
+        severity: 'MINOR',
+    },
+]
+
+const severityOutcomes: Record<
+    ReturnCheckSeverity,
+    { condition: ReturnCondition; inventoryStatus: ReturnInventoryStatus }
+> = {
+    MINOR: { condition: 'FAIR', inventoryStatus: 'AVAILABLE' },
+    REPAIR: { condition: 'FAIR', inventoryStatus: 'MAINTENANCE' },
+    DAMAGE: { condition: 'POOR', inventoryStatus: 'DAMAGED' },
+}
+
+const severityRank: ReturnCheckSeverity[] = ['MINOR', 'REPAIR', 'DAMAGE']
+
+/** Condition and status implied by the worst failed check */
+export const suggestReturnOutcome = (results: ReturnCheckResult[]) => {
+    const worst = results
+        .filter((result) => !result.passed)
+        .reduce<ReturnCheckSeverity | undefined>(
+            (current, result) =>
+                !current ||
+                severityRank.indexOf(result.severity) >
+                    severityRank.indexOf(current)
+                    ? result.severity
+                    : current,
+            undefined,
+        )
+    return worst
+        ? severityOutcomes[worst]
+        : {
+              condition: 'GOOD' as ReturnCondition,
+              inventoryStatus: 'AVAILABLE' as ReturnInventoryStatus,
+          }
+}
+
+export const failedChecks = (results: ReturnCheckResult[]) =>
+    results.filter((result) => !result.passed)
@@ -0,0 +1,67 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { Dialog, Notification, toast } from '@/components/ui'
+import { apiAcknowledgeAssignment } from '@/services/ProductService'
+import AcknowledgementForm from './AcknowledgementForm'
+import type { AcknowledgementPayload } from '@/utils/assetAcknowledgement'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface AcknowledgementDialogProps {
+    assignment: {
+        id: number
+        productName: string
+        serialNumber?: string
+        employeeName: string
+    }
+    onClose: () => void
+}
+
+/** Hand the tablet to the employee at the desk to sign for the item */
+const AcknowledgementDialog = ({
+    assignment,
+    onClose,
+}: AcknowledgementDialogProps) => {
+    const queryClient = useQueryClient()
+
+    const handleSubmit = async (payload: AcknowledgementPayload) => {
+        try {
+            await apiAcknowledgeAssignment(assignment.id, payload)
+            toast.push(
+                <Notification title="Success" type="success">
+                    Receipt signed by {payload.signerName}
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['assignment'] })
+            queryClient.invalidateQueries({ queryKey: ['active-assignments'] })
+            onClose()
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to save acknowledgement'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <Dialog isOpen width={640} onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-1">Acknowledge Receipt</h5>
+            <p className="text-gray-500 mb-4">
+                {assignment.productName}
+                {assignment.serialNumber
+                    ? ` · SN ${assignment.serialNumber}`
+                    : ''}{' '}
+                for {assignment.employeeName}
+            </p>
+            <AcknowledgementForm
+                channel="DESK"
+                employeeName={assignment.employeeName}
+                onSubmit={handleSubmit}
+            />
+        </Dialog>
+    )
+}
+
+export default AcknowledgementDialog
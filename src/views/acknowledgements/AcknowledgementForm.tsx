@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import { SignaturePad } from '@/components/shared'
+import { Button, Checkbox, FormItem, Input } from '@/components/ui'
+import {
+    ASSET_POLICY_TEXT,
+    ASSET_POLICY_VERSION,
+} from '@/utils/assetAcknowledgement'
+import type {
+    AcknowledgementChannel,
+    AcknowledgementPayload,
+} from '@/utils/assetAcknowledgement'
+
+interface AcknowledgementFormProps {
+    channel: AcknowledgementChannel
+    /** Prefills the name; the employee can correct it */
+    employeeName?: string
+    onSubmit: (payload: AcknowledgementPayload) => Promise<void>
+}
+
+const AcknowledgementForm = ({
+    channel,
+    employeeName = '',
+    onSubmit,
+}: AcknowledgementFormProps) => {
+    const [signerName, setSignerName] = useState(employeeName)
+    const [accepted, setAccepted] = useState(false)
+    const [signature, setSignature] = useState<string | null>(null)
+    const [isSubmitting, setIsSubmitting] = useState(false)
+
+    const canSubmit = accepted && !!signature && !!signerName.trim()
+
+    const handleSubmit = async () => {
+        if (!canSubmit) {
+            return
+        }
+        setIsSubmitting(true)
+        try {
+            await onSubmit({
+                signerName: signerName.trim(),
+                signature: signature as string,
+                policyVersion: ASSET_POLICY_VERSION,
+                channel,
+            })
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    return (
+        <div>
+            <div className="max-h-48 overflow-y-auto rounded-lg border p-4 mb-4 text-sm bg-gray-50 dark:bg-gray-700 dark:border-gray-600">
+                <div className="font-semibold mb-2">
+                    Asset Use Policy{' '}
+                    <span className="font-normal text-gray-500">
+                        (version {ASSET_POLICY_VERSION})
+                    </span>
+                </div>
+                <ol className="list-decimal pl-5 space-y-1">
+                    {ASSET_POLICY_TEXT.map((clause) => (
+                        <li key={clause}>{clause}</li>
+                    ))}
+                </ol>
+            </div>
+            <Checkbox
+                className="mb-4"
+                checked={accepted}
+                onChange={(checked) => setAccepted(checked)}
+            >
+                I have received the item and accept the asset use policy
+            </Checkbox>
+            <FormItem label="Full name">
+                <Input
+                    value={signerName}
+                    autoComplete="name"
+                    onChange={(e) => setSignerName(e.target.value)}
+                />
+            </FormItem>
+            <FormItem label="Signature">
+                <SignaturePad onChange={setSignature} />
+            </FormItem>
+            <Button
+                block
+                variant="solid"
+                loading={isSubmitting}
+                disabled={!canSubmit}
+                onClick={handleSubmit}
+            >
+                Sign and Confirm Receipt
+            </Button>
+        </div>
+    )
+}
+
+export default AcknowledgementForm
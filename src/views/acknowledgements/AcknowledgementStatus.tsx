@@ -0,0 +1,125 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { HiOutlineLink, HiOutlinePencilAlt } from 'react-icons/hi'
+import { Alert, Button, Notification, toast } from '@/components/ui'
+import { apiCreateAcknowledgementLink } from '@/services/ProductService'
+import { acknowledgementChannelLabels } from '@/utils/assetAcknowledgement'
+import type { AssignmentAcknowledgement } from '@/utils/assetAcknowledgement'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface AcknowledgementStatusProps {
+    assignmentId: number
+    acknowledgement?: AssignmentAcknowledgement | null
+    /** Only items still held can be signed for */
+    canSign: boolean
+    onSignAtDesk: () => void
+}
+
+const AcknowledgementStatus = ({
+    assignmentId,
+    acknowledgement,
+    canSign,
+    onSignAtDesk,
+}: AcknowledgementStatusProps) => {
+    const [isCreatingLink, setIsCreatingLink] = useState(false)
+
+    const handleCopyLink = async () => {
+        setIsCreatingLink(true)
+        let link: string
+        let expiresAt: string
+        try {
+            const response = await apiCreateAcknowledgementLink(assignmentId)
+            link = `${
+                window.location.origin
+            }/product-public-view/${assignmentId}?token=${encodeURIComponent(
+                response.data.data.token,
+            )}`
+            expiresAt = response.data.data.expiresAt
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to create the signing link'}
+                </Notification>,
+            )
+            return
+        } finally {
+            setIsCreatingLink(false)
+        }
+
+        try {
+            await navigator.clipboard.writeText(link)
+            toast.push(
+                <Notification title="Copied" type="success">
+                    Send the link to the employee to sign on their own device.
+                    It works once and expires{' '}
+                    {dayjs(expiresAt).format('DD MMM YYYY, HH:mm')}.
+                </Notification>,
+            )
+        } catch {
+            toast.push(
+                <Notification title="Signing link" type="info">
+                    {link}
+                </Notification>,
+            )
+        }
+    }
+
+    if (acknowledgement) {
+        return (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+                <div className="space-y-1">
+                    <div className="font-semibold">
+                        {acknowledgement.signerName}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                        {dayjs(acknowledgement.signedAt).format(
+                            'DD MMM YYYY, HH:mm',
+                        )}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                        {acknowledgementChannelLabels[acknowledgement.channel]}{' '}
+                        · policy version {acknowledgement.policyVersion}
+                    </div>
+                </div>
+                <img
+                    src={acknowledgement.signature}
+                    alt={`Signature of ${acknowledgement.signerName}`}
+                    className="max-h-32 w-full object-contain rounded border bg-white dark:border-gray-600"
+                />
+            </div>
+        )
+    }
+
+    return (
+        <>
+            <Alert showIcon type="warning" className="mb-4">
+                The employee has not acknowledged receipt of this item.
+            </Alert>
+            {canSign && (
+                <div className="flex flex-wrap gap-2">
+                    <Button
+                        size="sm"
+                        variant="solid"
+                        icon={<HiOutlinePencilAlt />}
+                        onClick={onSignAtDesk}
+                    >
+                        Sign at Desk
+                    </Button>
+                    <Button
+                        size="sm"
+                        icon={<HiOutlineLink />}
+                        loading={isCreatingLink}
+                        onClick={handleCopyLink}
+                    >
+                        Copy Signing Link
+                    </Button>
+                </div>
+            )}
+        </>
+    )
+}
+
+export default AcknowledgementStatus
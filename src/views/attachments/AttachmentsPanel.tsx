@@ -0,0 +1,429 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+    HiOutlineDocument,
+    HiOutlineDocumentText,
+    HiOutlineDownload,
+    HiOutlinePaperClip,
+    HiOutlineTrash,
+} from 'react-icons/hi'
+import { ConfirmDialog } from '@/components/shared'
+import {
+    Button,
+    Dialog,
+    Notification,
+    Select,
+    Spinner,
+    Upload,
+    toast,
+} from '@/components/ui'
+import {
+    apiDeleteAttachment,
+    apiDownloadAttachment,
+    apiGetAttachments,
+    apiUploadAttachment,
+} from '@/services/AttachmentService'
+import {
+    ACCEPTED_ATTACHMENTS,
+    MAX_ATTACHMENT_BYTES,
+    attachmentTypeClassMap,
+    attachmentTypeLabels,
+    formatFileSize,
+    guessAttachmentType,
+    isImage,
+    isPdf,
+} from './attachmentTypes'
+import useAttachmentUrl from './useAttachmentUrl'
+import type {
+    Attachment,
+    AttachmentOwnerType,
+    AttachmentType,
+} from '@/services/AttachmentService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+type TypeOption = { value: AttachmentType | 'AUTO'; label: string }
+
+const typeOptions: TypeOption[] = [
+    { value: 'AUTO', label: 'Detect from file' },
+    ...(Object.keys(attachmentTypeLabels) as AttachmentType[]).map((type) => ({
+        value: type,
+        label: attachmentTypeLabels[type],
+    })),
+]
+
+interface AttachmentsPanelProps {
+    ownerType: AttachmentOwnerType
+    ownerId: number
+    title?: string
+    /** Smaller grid for use inside dialogs */
+    compact?: boolean
+}
+
+const AttachmentThumbnail = ({ attachment }: { attachment: Attachment }) => {
+    const { url, failed } = useAttachmentUrl(
+        isImage(attachment) ? attachment : undefined,
+    )
+
+    if (isImage(attachment) && !failed) {
+        return url ? (
+            <img
+                src={url}
+                alt={attachment.fileName}
+                className="h-full w-full object-cover"
+            />
+        ) : (
+            <Spinner />
+        )
+    }
+
+    return (
+        <span className="text-4xl text-gray-400">
+            {isPdf(attachment) ? (
+                <HiOutlineDocumentText />
+            ) : (
+                <HiOutlineDocument />
+            )}
+        </span>
+    )
+}
+
+const AttachmentPreview = ({
+    attachment,
+    onClose,
+    onDownload,
+}: {
+    attachment: Attachment
+    onClose: () => void
+    onDownload: () => void
+}) => {
+    const { url, failed } = useAttachmentUrl(attachment)
+
+    return (
+        <Dialog isOpen width={900} onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-4 pr-8 truncate">{attachment.fileName}</h5>
+            <div className="flex items-center justify-center min-h-[300px] bg-gray-50 dark:bg-gray-700 rounded">
+                {failed ? (
+                    <span className="text-red-500">
+                        Could not load the file
+                    </span>
+                ) : !url ? (
+                    <Spinner size={40} />
+                ) : isImage(attachment) ? (
+                    <img
+                        src={url}
+                        alt={attachment.fileName}
+                        className="max-h-[70vh] max-w-full"
+                    />
+                ) : (
+                    <iframe
+                        src={url}
+                        title={attachment.fileName}
+                        className="w-full h-[70vh] rounded"
+                    />
+                )}
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+                <Button onClick={onClose}>Close</Button>
+                <Button
+                    variant="solid"
+                    icon={<HiOutlineDownload />}
+                    onClick={onDownload}
+                >
+                    Download
+                </Button>
+            </div>
+        </Dialog>
+    )
+}
+
+const AttachmentsPanel = ({
+    ownerType,
+    ownerId,
+    title = 'Attachments',
+    compact,
+}: AttachmentsPanelProps) => {
+    const queryClient = useQueryClient()
+    const queryKey = ['attachments', ownerType, ownerId]
+
+    const [uploadType, setUploadType] = useState<TypeOption['value']>('AUTO')
+    const [isUploading, setIsUploading] = useState(false)
+    const [previewing, setPreviewing] = useState<Attachment>()
+    const [deleting, setDeleting] = useState<Attachment>()
+
+    const { data, isLoading } = useQuery({
+        queryKey,
+        queryFn: () => apiGetAttachments({ ownerType, ownerId }),
+    })
+    const attachments = data?.data?.data || []
+
+    const deleteMutation = useMutation({
+        mutationFn: (attachment: Attachment) =>
+            apiDeleteAttachment(attachment.id),
+        onSuccess: () => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    Attachment deleted
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey })
+            setDeleting(undefined)
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message ||
+                        'Failed to delete attachment'}
+                </Notification>,
+            )
+        },
+    })
+
+    const beforeUpload = (files: FileList | null) => {
+        const tooLarge = Array.from(files || []).find(
+            (file) => file.size > MAX_ATTACHMENT_BYTES,
+        )
+        if (tooLarge) {
+            return `${tooLarge.name} is larger than ${formatFileSize(
+                MAX_ATTACHMENT_BYTES,
+            )}`
+        }
+        return true
+    }
+
+    // Upload only reports the accumulated list, so files are uploaded as
+    // they arrive and the list is not kept
+    const handleUpload = async (files: File[], previous: File[]) => {
+        const added = files.slice(previous.length)
+        if (!added.length) {
+            return
+        }
+
+        setIsUploading(true)
+        const results = await Promise.allSettled(
+            added.map((file) =>
+                apiUploadAttachment({
+                    ownerType,
+                    ownerId,
+                    file,
+                    type:
+                        uploadType === 'AUTO'
+                            ? guessAttachmentType(file)
+                            : uploadType,
+                }),
+            ),
+        )
+        setIsUploading(false)
+        queryClient.invalidateQueries({ queryKey })
+
+        const failed = results.filter((result) => result.status === 'rejected')
+        if (failed.length) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {((failed[0] as PromiseRejectedResult).reason as ApiError)
+                        .response?.data?.message ||
+                        `${failed.length} of ${added.length} files failed to upload`}
+                </Notification>,
+            )
+        } else {
+            toast.push(
+                <Notification title="Success" type="success">
+                    {added.length === 1
+                        ? 'File uploaded'
+                        : `${added.length} files uploaded`}
+                </Notification>,
+            )
+        }
+    }
+
+    const handleDownload = async (attachment: Attachment) => {
+        try {
+            const response = await apiDownloadAttachment(attachment.id)
+            const url = window.URL.createObjectURL(
+                new Blob([response.data], { type: attachment.mimeType }),
+            )
+            const link = document.createElement('a')
+            link.href = url
+            link.download = attachment.fileName
+            document.body.appendChild(link)
+            link.click()
+            link.remove()
+            window.URL.revokeObjectURL(url)
+        } catch {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    Failed to download {attachment.fileName}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h5 className={compact ? 'text-base' : ''}>
+                    {title}
+                    {attachments.length > 0 && (
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                            ({attachments.length})
+                        </span>
+                    )}
+                </h5>
+                <Select<TypeOption>
+                    size="sm"
+                    className="min-w-[180px]"
+                    isSearchable={false}
+                    options={typeOptions}
+                    value={typeOptions.find(
+                        (option) => option.value === uploadType,
+                    )}
+                    onChange={(option) =>
+                        setUploadType(option?.value || 'AUTO')
+                    }
+                />
+            </div>
+
+            <Upload
+                draggable
+                multiple
+                showList={false}
+                accept={ACCEPTED_ATTACHMENTS}
+                disabled={isUploading}
+                beforeUpload={beforeUpload}
+                onChange={handleUpload}
+            >
+                <div className="my-4 text-center">
+                    {isUploading ? (
+                        <Spinner className="mx-auto" size={32} />
+                    ) : (
+                        <HiOutlinePaperClip className="mx-auto text-3xl text-gray-400" />
+                    )}
+                    <p className="mt-2 font-semibold">
+                        {isUploading
+                            ? 'Uploading...'
+                            : 'Drop invoices, warranty papers or photos here'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                        Images, PDF and office documents up to{' '}
+                        {formatFileSize(MAX_ATTACHMENT_BYTES)}
+                    </p>
+                </div>
+            </Upload>
+
+            {isLoading ? (
+                <div className="flex justify-center py-6">
+                    <Spinner size={32} />
+                </div>
+            ) : attachments.length === 0 ? (
+                <p className="mt-4 text-sm text-gray-500">
+                    No files attached yet.
+                </p>
+            ) : (
+                <div
+                    className={`grid gap-3 mt-4 ${
+                        compact
+                            ? 'grid-cols-2'
+                            : 'grid-cols-2 md:grid-cols-4 xl:grid-cols-6'
+                    }`}
+                >
+                    {attachments.map((attachment) => (
+                        <div
+                            key={attachment.id}
+                            className="border rounded-lg overflow-hidden dark:border-gray-600"
+                        >
+                            <button
+                                type="button"
+                                className="flex items-center justify-center w-full h-28 bg-gray-50 dark:bg-gray-700"
+                                title={
+                                    isImage(attachment) || isPdf(attachment)
+                                        ? 'Preview'
+                                        : 'Download'
+                                }
+                                onClick={() =>
+                                    isImage(attachment) || isPdf(attachment)
+                                        ? setPreviewing(attachment)
+                                        : handleDownload(attachment)
+                                }
+                            >
+                                <AttachmentThumbnail attachment={attachment} />
+                            </button>
+                            <div className="p-2">
+                                <div
+                                    className="text-sm font-semibold truncate"
+                                    title={attachment.fileName}
+                                >
+                                    {attachment.fileName}
+                                </div>
+                                <div className="flex items-center justify-between gap-1 mt-1">
+                                    <span
+                                        className={`px-2 py-0.5 rounded text-xs ${
+                                            attachmentTypeClassMap[
+                                                attachment.type
+                                            ]
+                                        }`}
+                                    >
+                                        {attachmentTypeLabels[attachment.type]}
+                                    </span>
+                                    <div className="flex text-lg">
+                                        <span
+                                            className="cursor-pointer p-1 hover:text-indigo-600"
+                                            title="Download"
+                                            onClick={() =>
+                                                handleDownload(attachment)
+                                            }
+                                        >
+                                            <HiOutlineDownload />
+                                        </span>
+                                        <span
+                                            className="cursor-pointer p-1 hover:text-red-600"
+                                            title="Delete"
+                                            onClick={() =>
+                                                setDeleting(attachment)
+                                            }
+                                        >
+                                            <HiOutlineTrash />
+                                        </span>
+                                    </div>
+                                </div>
+                                <div className="text-xs text-gray-500 mt-1">
+                                    {formatFileSize(attachment.size)} ·{' '}
+                                    {dayjs(attachment.uploadedAt).format(
+                                        'DD MMM YYYY',
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {previewing && (
+                <AttachmentPreview
+                    attachment={previewing}
+                    onClose={() => setPreviewing(undefined)}
+                    onDownload={() => handleDownload(previewing)}
+                />
+            )}
+
+            <ConfirmDialog
+                isOpen={!!deleting}
+                type="danger"
+                title="Delete attachment"
+                confirmText="Delete"
+                onClose={() => setDeleting(undefined)}
+                onRequestClose={() => setDeleting(undefined)}
+                onCancel={() => setDeleting(undefined)}
+                onConfirm={() => deleting && deleteMutation.mutate(deleting)}
+            >
+                <p>
+                    Delete <strong>{deleting?.fileName}</strong>? This cannot be
+                    undone.
+                </p>
+            </ConfirmDialog>
+        </div>
+    )
+}
+
+export default AttachmentsPanel
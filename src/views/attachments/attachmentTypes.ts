@@ -0,0 +1,40 @@
+import type { Attachment, AttachmentType } from '@/services/AttachmentService'
+
+export const attachmentTypeLabels: Record<AttachmentType, string> = {
+    INVOICE: 'Invoice',
+    WARRANTY: 'Warranty',
+    PHOTO: 'Photo',
+    OTHER: 'Other',
+}
+
+export const attachmentTypeClassMap: Record<AttachmentType, string> = {
+    INVOICE: 'bg-blue-100 text-blue-700',
+    WARRANTY: 'bg-emerald-100 text-emerald-700',
+    PHOTO: 'bg-amber-100 text-amber-700',
+    OTHER: 'bg-gray-100 text-gray-700',
+}
+
+export const ACCEPTED_ATTACHMENTS =
+    'image/*,application/pdf,.doc,.docx,.xls,.xlsx,.csv,.txt'
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024
+
+export const isImage = (attachment: Pick<Attachment, 'mimeType'>) =>
+    attachment.mimeType.startsWith('image/')
+
+export const isPdf = (attachment: Pick<Attachment, 'mimeType'>) =>
+    attachment.mimeType === 'application/pdf'
+
+/** Photos default to PHOTO; anything else has to be labelled by the user */
+export const guessAttachmentType = (file: File): AttachmentType =>
+    file.type.startsWith('image/') ? 'PHOTO' : 'OTHER'
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) {
+        return `${bytes} B`
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(0)} KB`
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { apiDownloadAttachment } from '@/services/AttachmentService'
+import type { Attachment } from '@/services/AttachmentService'
+
+/**
+ * Object URL for an attachment's contents, for thumbnails and previews.
+ * Pass undefined to skip fetching; the URL is revoked on change or unmount.
+ */
+const useAttachmentUrl = (attachment?: Attachment) => {
+    const [url, setUrl] = useState<string>()
+    const [failed, setFailed] = useState(false)
+
+    useEffect(() => {
+        if (!attachment) {
+            return
+        }
+
+        let objectUrl: string | undefined
+        let cancelled = false
+        setFailed(false)
+
+        apiDownloadAttachment(attachment.id)
+            .then((response) => {
+                if (cancelled) {
+                    return
+                }
+                objectUrl = URL.createObjectURL(
+                    new Blob([response.data], { type: attachment.mimeType }),
+                )
+                setUrl(objectUrl)
+            })
+            .catch(() => !cancelled && setFailed(true))
+
+        return () => {
+            cancelled = true
+            setUrl(undefined)
+            if (objectUrl) {
+                URL.revokeObjectURL(objectUrl)
+            }
+        }
+    }, [attachment])
+
+    return { url, failed }
+}
+
+export default useAttachmentUrl
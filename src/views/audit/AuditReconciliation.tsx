@@ -0,0 +1,369 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQueryClient } from '@tanstack/react-query'
+import { HiOutlineCheckCircle, HiOutlineDocumentDownload } from 'react-icons/hi'
+import { ConfirmDialog } from '@/components/shared'
+import {
+    Button,
+    Checkbox,
+    FormItem,
+    Input,
+    Notification,
+    Segment,
+    Table,
+    toast,
+} from '@/components/ui'
+import { apiUpdateInventoryItem } from '@/services/ProductService'
+import downloadSpreadsheet from '@/utils/downloadSpreadsheet'
+import reconcileAudit from './reconcileAudit'
+import type { AuditLine, AuditOutcome, AuditSession } from './reconcileAudit'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface AuditReconciliationProps {
+    session: AuditSession
+    onChange: (session: AuditSession) => void
+    onFinish: () => void
+}
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+const APPLY_BATCH_SIZE = 5
+
+const outcomeLabels: Record<AuditOutcome, string> = {
+    found: 'Found',
+    missing: 'Missing',
+    unexpected: 'Unexpected',
+    wrongLocation: 'Wrong location',
+}
+
+const outcomeClassMap: Record<AuditOutcome, string> = {
+    found: 'text-emerald-600',
+    missing: 'text-red-600',
+    unexpected: 'text-amber-600',
+    wrongLocation: 'text-blue-600',
+}
+
+const AuditReconciliation = ({
+    session,
+    onChange,
+    onFinish,
+}: AuditReconciliationProps) => {
+    const queryClient = useQueryClient()
+
+    const [filter, setFilter] = useState<AuditOutcome | 'discrepancies'>(
+        'discrepancies',
+    )
+    const [reason, setReason] = useState(
+        `Stock audit ${session.branchName}${
+            session.location ? ` / ${session.location}` : ''
+        } ${dayjs(session.startedAt).format('YYYY-MM-DD')}`,
+    )
+    const [selectedKeys, setSelectedKeys] = useState<string[]>([])
+    const [failures, setFailures] = useState<Record<string, string>>({})
+    const [isApplying, setIsApplying] = useState(false)
+    const [isFinishOpen, setIsFinishOpen] = useState(false)
+
+    const lines = useMemo(() => reconcileAudit(session), [session])
+
+    const counts = useMemo(() => {
+        const byOutcome: Record<AuditOutcome, number> = {
+            found: 0,
+            missing: 0,
+            unexpected: 0,
+            wrongLocation: 0,
+        }
+        lines.forEach((line) => byOutcome[line.outcome]++)
+        return byOutcome
+    }, [lines])
+
+    const visibleLines = lines.filter((line) =>
+        filter === 'discrepancies'
+            ? line.outcome !== 'found'
+            : line.outcome === filter,
+    )
+    const pendingLines = lines.filter(
+        (line) => line.adjustment && !session.appliedKeys.includes(line.key),
+    )
+
+    const toggleLine = (key: string, checked: boolean) => {
+        setSelectedKeys((keys) =>
+            checked ? [...keys, key] : keys.filter((k) => k !== key),
+        )
+    }
+
+    const handleApply = async () => {
+        const toApply = pendingLines.filter((line) =>
+            selectedKeys.includes(line.key),
+        )
+        setIsApplying(true)
+
+        const appliedKeys: string[] = []
+        const failed: Record<string, string> = {}
+        for (let i = 0; i < toApply.length; i += APPLY_BATCH_SIZE) {
+            const batch = toApply.slice(i, i + APPLY_BATCH_SIZE)
+            const results = await Promise.allSettled(
+                batch.map((line) =>
+                    apiUpdateInventoryItem(line.item!.id, {
+                        ...line.adjustment!.data,
+                        reason,
+                    }),
+                ),
+            )
+            results.forEach((result, index) => {
+                const { key } = batch[index]
+                if (result.status === 'fulfilled') {
+                    appliedKeys.push(key)
+                } else {
+                    failed[key] =
+                        (result.reason as ApiError).response?.data?.message ||
+                        'Update failed'
+                }
+            })
+        }
+
+        setIsApplying(false)
+        setFailures(failed)
+        setSelectedKeys((keys) => keys.filter((key) => key in failed))
+        onChange({
+            ...session,
+            appliedKeys: [...session.appliedKeys, ...appliedKeys],
+        })
+        queryClient.invalidateQueries({ queryKey: ['products'] })
+        queryClient.invalidateQueries({ queryKey: ['product'] })
+
+        const failedCount = Object.keys(failed).length
+        toast.push(
+            <Notification
+                title="Adjustments applied"
+                type={failedCount > 0 ? 'warning' : 'success'}
+            >
+                {appliedKeys.length} of {toApply.length} adjustments applied
+                {failedCount > 0 && `, ${failedCount} failed`}
+            </Notification>,
+        )
+    }
+
+    const adjustmentText = (line: AuditLine) => {
+        if (!line.adjustment) {
+            return ''
+        }
+        if (session.appliedKeys.includes(line.key)) {
+            return `${line.adjustment.label} (applied)`
+        }
+        return `${line.adjustment.label} (not applied)`
+    }
+
+    const handleDownloadReport = () => {
+        downloadSpreadsheet(
+            lines.map((line) => ({
+                Result: outcomeLabels[line.outcome],
+                Product: line.item?.product?.name || '',
+                Model: line.item?.product?.model || '',
+                'Serial Number': line.item?.serialNumber || '',
+                'Inventory ID': line.item?.id ?? '',
+                'Scanned Code': line.code || '',
+                'Recorded Status': line.item?.status || '',
+                'Recorded Location': line.item?.location || '',
+                Details: line.detail,
+                Adjustment: adjustmentText(line),
+            })),
+            `stock-audit-${session.branchName
+                .replace(/\s+/g, '-')
+                .toLowerCase()}-${dayjs(session.startedAt).format(
+                'YYYY-MM-DD',
+            )}.xlsx`,
+            'Audit',
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-6">
+                {(Object.keys(outcomeLabels) as AuditOutcome[]).map(
+                    (outcome) => (
+                        <div key={outcome}>
+                            <span
+                                className={`text-2xl font-bold ${outcomeClassMap[outcome]}`}
+                            >
+                                {counts[outcome]}
+                            </span>
+                            <span className="ml-2 text-gray-500">
+                                {outcomeLabels[outcome]}
+                            </span>
+                        </div>
+                    ),
+                )}
+            </div>
+
+            <Segment
+                size="sm"
+                value={[filter]}
+                onChange={(val) => setFilter(val[0] as typeof filter)}
+            >
+                <Segment.Item value="discrepancies">Discrepancies</Segment.Item>
+                {(Object.keys(outcomeLabels) as AuditOutcome[]).map(
+                    (outcome) => (
+                        <Segment.Item key={outcome} value={outcome}>
+                            {outcomeLabels[outcome]}
+                        </Segment.Item>
+                    ),
+                )}
+            </Segment>
+
+            <Table compact>
+                <THead>
+                    <Tr>
+                        <Th />
+                        <Th>Result</Th>
+                        <Th>Item</Th>
+                        <Th>Details</Th>
+                        <Th>Adjustment</Th>
+                    </Tr>
+                </THead>
+                <TBody>
+                    {visibleLines.length === 0 && (
+                        <Tr>
+                            <Td
+                                colSpan={5}
+                                className="text-center text-gray-500"
+                            >
+                                Nothing to show
+                            </Td>
+                        </Tr>
+                    )}
+                    {visibleLines.map((line) => {
+                        const isApplied = session.appliedKeys.includes(line.key)
+                        return (
+                            <Tr key={line.key}>
+                                <Td className="w-10">
+                                    {line.adjustment && !isApplied && (
+                                        <Checkbox
+                                            checked={selectedKeys.includes(
+                                                line.key,
+                                            )}
+                                            onChange={(checked) =>
+                                                toggleLine(line.key, checked)
+                                            }
+                                        />
+                                    )}
+                                </Td>
+                                <Td>
+                                    <span
+                                        className={`font-semibold ${
+                                            outcomeClassMap[line.outcome]
+                                        }`}
+                                    >
+                                        {outcomeLabels[line.outcome]}
+                                    </span>
+                                </Td>
+                                <Td>
+                                    <div className="font-semibold">
+                                        {line.item?.product?.name || line.code}
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                        {line.item
+                                            ? `SN: ${
+                                                  line.item.serialNumber ||
+                                                  'N/A'
+                                              } · #${line.item.id}`
+                                            : 'Unknown code'}
+                                    </div>
+                                </Td>
+                                <Td className="text-sm">{line.detail}</Td>
+                                <Td className="text-sm">
+                                    {line.adjustment &&
+                                        (isApplied ? (
+                                            <span className="flex items-center gap-1 text-emerald-600">
+                                                <HiOutlineCheckCircle />
+                                                {line.adjustment.label}
+                                            </span>
+                                        ) : (
+                                            <>
+                                                {line.adjustment.label}
+                                                {failures[line.key] && (
+                                                    <div className="text-xs text-red-600">
+                                                        {failures[line.key]}
+                                                    </div>
+                                                )}
+                                            </>
+                                        ))}
+                                </Td>
+                            </Tr>
+                        )
+                    })}
+                </TBody>
+            </Table>
+
+            {pendingLines.length > 0 && (
+                <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+                    <FormItem
+                        label="Reason"
+                        className="mb-0 flex-1"
+                        extra={
+                            <span className="text-xs text-gray-500">
+                                Recorded with every adjustment
+                            </span>
+                        }
+                    >
+                        <Input
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                        />
+                    </FormItem>
+                    <Button
+                        size="sm"
+                        onClick={() =>
+                            setSelectedKeys(pendingLines.map((l) => l.key))
+                        }
+                    >
+                        Select all ({pendingLines.length})
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="solid"
+                        loading={isApplying}
+                        disabled={selectedKeys.length === 0 || !reason.trim()}
+                        onClick={handleApply}
+                    >
+                        Apply {selectedKeys.length} adjustment
+                        {selectedKeys.length !== 1 ? 's' : ''}
+                    </Button>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <Button
+                    icon={<HiOutlineDocumentDownload />}
+                    onClick={handleDownloadReport}
+                >
+                    Download report
+                </Button>
+                <Button variant="solid" onClick={() => setIsFinishOpen(true)}>
+                    Finish audit
+                </Button>
+            </div>
+
+            <ConfirmDialog
+                isOpen={isFinishOpen}
+                type="warning"
+                title="Finish audit"
+                confirmText="Finish"
+                onClose={() => setIsFinishOpen(false)}
+                onRequestClose={() => setIsFinishOpen(false)}
+                onCancel={() => setIsFinishOpen(false)}
+                onConfirm={onFinish}
+            >
+                <p>
+                    The scans for this audit will be cleared. Download the
+                    report first if you need to keep it.
+                    {pendingLines.length > 0 &&
+                        ` ${pendingLines.length} suggested adjustments have not been applied.`}
+                </p>
+            </ConfirmDialog>
+        </div>
+    )
+}
+
+export default AuditReconciliation
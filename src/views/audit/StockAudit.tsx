@@ -0,0 +1,494 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { HiOutlineClipboardCheck, HiOutlineSearch } from 'react-icons/hi'
+import { AdaptableCard, CodeScanner } from '@/components/shared'
+import {
+    Alert,
+    Button,
+    Checkbox,
+    FormItem,
+    Input,
+    Notification,
+    Progress,
+    Select,
+    Spinner,
+    Table,
+    Tabs,
+    toast,
+} from '@/components/ui'
+import { apiGetBranches } from '@/services/BranchService'
+import {
+    apiGetAllInventoryItems,
+    apiLookupInventory,
+} from '@/services/ProductService'
+import parseScanCode from '@/views/scanner/parseScanCode'
+import AuditReconciliation from './AuditReconciliation'
+import { findSessionItem, isExpectedItem } from './reconcileAudit'
+import type { AuditInventoryItem, AuditSession } from './reconcileAudit'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+// Audits can take a whole day, so the session survives a reload
+const SESSION_STORAGE_KEY = 'stockAuditSession'
+const ALL_LOCATIONS = ''
+
+const loadSession = (): AuditSession | null => {
+    try {
+        const saved = localStorage.getItem(SESSION_STORAGE_KEY)
+        return saved ? (JSON.parse(saved) as AuditSession) : null
+    } catch {
+        return null
+    }
+}
+
+const lookupItem = async (match: {
+    inventoryId?: number
+    serialNumber?: string
+}) => {
+    try {
+        const response = await apiLookupInventory(match)
+        const body = response.data as { data?: AuditInventoryItem | null }
+        return body?.data ?? null
+    } catch (error) {
+        if ((error as ApiError).response?.status === 404) {
+            return null
+        }
+        throw error
+    }
+}
+
+const StockAudit = () => {
+    const [session, setSession] = useState<AuditSession | null>(loadSession)
+    // Codes still being looked up, so a label read twice in quick succession
+    // is only resolved once
+    const pendingCodes = useRef(new Set<string>())
+    const [branchId, setBranchId] = useState<number | null>(null)
+    const [location, setLocation] = useState(ALL_LOCATIONS)
+    const [activeTab, setActiveTab] = useState('count')
+    const [search, setSearch] = useState('')
+    const [isResolving, setIsResolving] = useState(false)
+
+    useEffect(() => {
+        if (session) {
+            localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session))
+        } else {
+            localStorage.removeItem(SESSION_STORAGE_KEY)
+        }
+    }, [session])
+
+    const { data: branchesData } = useQuery({
+        queryKey: ['branches'],
+        queryFn: () => apiGetBranches({ page: 1, limit: 100 }),
+        enabled: !session,
+    })
+    const branchOptions = (
+        (branchesData?.data?.data || []) as Array<{ id: number; name: string }>
+    ).map((branch) => ({ value: branch.id, label: branch.name }))
+
+    const {
+        data: branchItems = [],
+        isFetching: isLoadingItems,
+        error: itemsError,
+    } = useQuery({
+        queryKey: ['audit-branch-inventory', branchId],
+        queryFn: () =>
+            apiGetAllInventoryItems<AuditInventoryItem>({
+                branchId: branchId as number,
+            }),
+        enabled: !session && branchId !== null,
+    })
+
+    const locationOptions = useMemo(() => {
+        const locations = new Map<string, number>()
+        branchItems.forEach((item) => {
+            const name = item.location?.trim()
+            if (name) {
+                locations.set(name, (locations.get(name) || 0) + 1)
+            }
+        })
+        return [
+            { value: ALL_LOCATIONS, label: 'All locations' },
+            ...[...locations.entries()]
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([name, count]) => ({
+                    value: name,
+                    label: `${name} (${count})`,
+                })),
+        ]
+    }, [branchItems])
+
+    const expectedItems = useMemo(
+        () =>
+            session
+                ? session.items.filter((item) => isExpectedItem(item, session))
+                : [],
+        [session],
+    )
+    const seenIds = useMemo(() => {
+        const ids = new Set(session?.tickedIds)
+        session?.scans.forEach((scan) => scan.item && ids.add(scan.item.id))
+        return ids
+    }, [session])
+    const scannedIds = useMemo(
+        () =>
+            new Set(
+                session?.scans.flatMap((scan) =>
+                    scan.item ? [scan.item.id] : [],
+                ),
+            ),
+        [session],
+    )
+    const foundCount = expectedItems.filter((item) =>
+        seenIds.has(item.id),
+    ).length
+
+    const visibleItems = useMemo(() => {
+        const term = search.trim().toLowerCase()
+        return term
+            ? expectedItems.filter((item) =>
+                  [item.product?.name, item.product?.model, item.serialNumber]
+                      .filter(Boolean)
+                      .some((value) =>
+                          (value as string).toLowerCase().includes(term),
+                      ),
+              )
+            : expectedItems
+    }, [expectedItems, search])
+
+    const startAudit = () => {
+        const branch = branchOptions.find((o) => o.value === branchId)
+        if (!branch) {
+            return
+        }
+        setSession({
+            branchId: branch.value,
+            branchName: branch.label,
+            location,
+            startedAt: new Date().toISOString(),
+            items: branchItems,
+            tickedIds: [],
+            scans: [],
+            appliedKeys: [],
+        })
+        setActiveTab('count')
+    }
+
+    const handleDetected = async (code: string) => {
+        if (!session) {
+            return
+        }
+
+        const target = parseScanCode(code)
+        if (target.type === 'product' || target.type === 'assignment') {
+            toast.push(
+                <Notification title="Not an item label" type="warning">
+                    This code identifies a {target.type}. Scan the label of the
+                    individual item instead.
+                </Notification>,
+            )
+            return
+        }
+
+        const match =
+            target.type === 'inventory'
+                ? { inventoryId: target.id }
+                : { serialNumber: target.value }
+
+        const normalizedCode = code.trim().toLowerCase()
+        if (pendingCodes.current.has(normalizedCode)) {
+            return
+        }
+
+        let item: AuditInventoryItem | null =
+            findSessionItem(session, match) || null
+        if (!item) {
+            pendingCodes.current.add(normalizedCode)
+            setIsResolving(true)
+            try {
+                item = await lookupItem(match)
+            } catch (error) {
+                toast.push(
+                    <Notification title="Error" type="danger">
+                        {(error as ApiError).response?.data?.message ||
+                            'Could not look up the scanned code'}
+                    </Notification>,
+                )
+                return
+            } finally {
+                pendingCodes.current.delete(normalizedCode)
+                setIsResolving(false)
+            }
+        }
+
+        const isSameScan = (scan: AuditSession['scans'][number]) =>
+            item
+                ? scan.item?.id === item.id
+                : scan.code.trim().toLowerCase() === normalizedCode
+        if (session.scans.some(isSameScan)) {
+            toast.push(
+                <Notification title="Already counted" type="info">
+                    {item?.product?.name || code} was scanned earlier
+                </Notification>,
+            )
+            return
+        }
+
+        // Checked again against the latest state: a second read of the label
+        // may have been added since this render
+        setSession(
+            (current) =>
+                current &&
+                (current.scans.some(isSameScan)
+                    ? current
+                    : {
+                          ...current,
+                          scans: [
+                              {
+                                  code,
+                                  scannedAt: new Date().toISOString(),
+                                  item,
+                              },
+                              ...current.scans,
+                          ],
+                      }),
+        )
+    }
+
+    const toggleItem = (id: number, checked: boolean) => {
+        setSession(
+            (current) =>
+                current && {
+                    ...current,
+                    tickedIds: checked
+                        ? [...current.tickedIds, id]
+                        : current.tickedIds.filter((ticked) => ticked !== id),
+                },
+        )
+    }
+
+    const scanLabel = (item: AuditInventoryItem | null) => {
+        if (!item) {
+            return <span className="text-amber-600">Not in the system</span>
+        }
+        if (expectedItems.some((expected) => expected.id === item.id)) {
+            return <span className="text-emerald-600">Expected</span>
+        }
+        return <span className="text-amber-600">Not expected here</span>
+    }
+
+    if (!session) {
+        return (
+            <AdaptableCard className="h-full" bodyClass="h-full">
+                <h3 className="mb-2">Stock Audit</h3>
+                <p className="text-gray-500 mb-6">
+                    Count the items physically present at a branch, or at one
+                    location inside it, and reconcile them with the records.
+                </p>
+                <div className="max-w-lg">
+                    <FormItem label="Branch">
+                        <Select
+                            placeholder="Select a branch"
+                            options={branchOptions}
+                            value={
+                                branchOptions.find(
+                                    (o) => o.value === branchId,
+                                ) || null
+                            }
+                            onChange={(option) => {
+                                setBranchId(option?.value ?? null)
+                                setLocation(ALL_LOCATIONS)
+                            }}
+                        />
+                    </FormItem>
+                    <FormItem label="Location">
+                        <Select
+                            isDisabled={branchId === null || isLoadingItems}
+                            options={locationOptions}
+                            value={locationOptions.find(
+                                (o) => o.value === location,
+                            )}
+                            onChange={(option) =>
+                                setLocation(option?.value ?? ALL_LOCATIONS)
+                            }
+                        />
+                    </FormItem>
+                    {itemsError && (
+                        <Alert showIcon type="danger" className="mb-4">
+                            Could not load the inventory for this branch
+                        </Alert>
+                    )}
+                    {branchId !== null && !isLoadingItems && !itemsError && (
+                        <p className="mb-4 text-gray-500">
+                            {
+                                branchItems.filter((item) =>
+                                    isExpectedItem(item, { location }),
+                                ).length
+                            }{' '}
+                            items are expected to be on site.
+                        </p>
+                    )}
+                    <Button
+                        variant="solid"
+                        icon={<HiOutlineClipboardCheck />}
+                        loading={isLoadingItems}
+                        disabled={branchId === null || !!itemsError}
+                        onClick={startAudit}
+                    >
+                        Start audit
+                    </Button>
+                </div>
+            </AdaptableCard>
+        )
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3>
+                        Stock Audit: {session.branchName}
+                        {session.location && ` / ${session.location}`}
+                    </h3>
+                    <p className="text-gray-500">
+                        Started{' '}
+                        {dayjs(session.startedAt).format('DD MMM YYYY HH:mm')}
+                    </p>
+                </div>
+                <div className="min-w-[220px] mt-4 lg:mt-0">
+                    <div className="text-sm text-gray-500 mb-1">
+                        {foundCount} of {expectedItems.length} expected items
+                        found
+                    </div>
+                    <Progress
+                        percent={
+                            expectedItems.length
+                                ? Math.round(
+                                      (foundCount / expectedItems.length) * 100,
+                                  )
+                                : 100
+                        }
+                    />
+                </div>
+            </div>
+
+            <Tabs value={activeTab} onChange={setActiveTab}>
+                <Tabs.TabList>
+                    <Tabs.TabNav value="count">Count</Tabs.TabNav>
+                    <Tabs.TabNav value="reconcile">Reconcile</Tabs.TabNav>
+                </Tabs.TabList>
+                <div className="pt-4">
+                    <Tabs.TabContent value="count">
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div className="space-y-4">
+                                <CodeScanner
+                                    manualEntryPlaceholder="Type or scan a serial number and press Enter"
+                                    onDetected={handleDetected}
+                                />
+                                {isResolving && (
+                                    <div className="flex items-center gap-2 text-gray-500">
+                                        <Spinner size={20} /> Looking up code…
+                                    </div>
+                                )}
+                                <div>
+                                    <h5 className="mb-2">
+                                        Scanned ({session.scans.length})
+                                    </h5>
+                                    <ul className="space-y-1 max-h-64 overflow-y-auto">
+                                        {session.scans.map((scan) => (
+                                            <li
+                                                key={`${scan.code}-${scan.scannedAt}`}
+                                                className="flex justify-between text-sm"
+                                            >
+                                                <span>
+                                                    {scan.item?.product?.name ||
+                                                        scan.code}
+                                                    {scan.item?.serialNumber &&
+                                                        ` · ${scan.item.serialNumber}`}
+                                                </span>
+                                                {scanLabel(scan.item)}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            </div>
+
+                            <div>
+                                <Input
+                                    size="sm"
+                                    className="mb-2"
+                                    placeholder="Search expected items"
+                                    prefix={<HiOutlineSearch />}
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                />
+                                <div className="max-h-[32rem] overflow-y-auto">
+                                    <Table compact>
+                                        <THead>
+                                            <Tr>
+                                                <Th />
+                                                <Th>Item</Th>
+                                                <Th>Location</Th>
+                                            </Tr>
+                                        </THead>
+                                        <TBody>
+                                            {visibleItems.map((item) => (
+                                                <Tr key={item.id}>
+                                                    <Td className="w-10">
+                                                        <Checkbox
+                                                            checked={seenIds.has(
+                                                                item.id,
+                                                            )}
+                                                            disabled={scannedIds.has(
+                                                                item.id,
+                                                            )}
+                                                            onChange={(
+                                                                checked,
+                                                            ) =>
+                                                                toggleItem(
+                                                                    item.id,
+                                                                    checked,
+                                                                )
+                                                            }
+                                                        />
+                                                    </Td>
+                                                    <Td>
+                                                        <div className="font-semibold">
+                                                            {item.product
+                                                                ?.name ||
+                                                                `Item #${item.id}`}
+                                                        </div>
+                                                        <div className="text-xs text-gray-500">
+                                                            SN:{' '}
+                                                            {item.serialNumber ||
+                                                                'N/A'}
+                                                        </div>
+                                                    </Td>
+                                                    <Td className="text-sm">
+                                                        {item.location || '-'}
+                                                    </Td>
+                                                </Tr>
+                                            ))}
+                                        </TBody>
+                                    </Table>
+                                </div>
+                            </div>
+                        </div>
+                    </Tabs.TabContent>
+                    <Tabs.TabContent value="reconcile">
+                        <AuditReconciliation
+                            session={session}
+                            onChange={setSession}
+                            onFinish={() => setSession(null)}
+                        />
+                    </Tabs.TabContent>
+                </div>
+            </Tabs>
+        </AdaptableCard>
+    )
+}
+
+export default StockAudit
@@ -0,0 +1,215 @@
+export interface AuditInventoryItem {
+    id: number
+    serialNumber?: string
+    status: string
+    location?: string
+    productId?: number
+    product?: {
+        id: number
+        name: string
+        model?: string
+        branchId?: number
+        branch?: { id: number; name: string }
+    }
+}
+
+export interface AuditScan {
+    code: string
+    scannedAt: string
+    /** Inventory item the code resolved to, null when nothing matched */
+    item: AuditInventoryItem | null
+}
+
+export interface AuditSession {
+    branchId: number
+    branchName: string
+    /** Empty when the whole branch is being counted */
+    location: string
+    startedAt: string
+    /** Every item recorded at the branch when the audit started */
+    items: AuditInventoryItem[]
+    /** Expected items ticked off by hand */
+    tickedIds: number[]
+    scans: AuditScan[]
+    /** Keys of the discrepancy lines whose adjustment has been applied */
+    appliedKeys: string[]
+}
+
+export type AuditOutcome = 'found' | 'missing' | 'unexpected' | 'wrongLocation'
+
+export interface AuditAdjustment {
+    label: string
+    data: { status?: string; location?: string }
+}
+
+export interface AuditLine {
+    /** Stable key, used to remember which adjustments were applied */
+    key: string
+    outcome: AuditOutcome
+    item: AuditInventoryItem | null
+    code?: string
+    detail: string
+    adjustment: AuditAdjustment | null
+}
+
+// Items that are out with employees or written off are not on the shelf
+const ON_SITE_STATUSES = ['AVAILABLE', 'MAINTENANCE', 'DAMAGED']
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase()
+
+export const itemBranchId = (item: AuditInventoryItem) =>
+    item.product?.branch?.id ?? item.product?.branchId
+
+export const isExpectedItem = (
+    item: AuditInventoryItem,
+    session: Pick<AuditSession, 'location'>,
+) =>
+    ON_SITE_STATUSES.includes(item.status) &&
+    (!session.location ||
+        normalize(item.location) === normalize(session.location))
+
+/** Matches a scanned serial or inventory id against the branch snapshot */
+export const findSessionItem = (
+    session: AuditSession,
+    match: { inventoryId?: number; serialNumber?: string },
+) =>
+    session.items.find((item) =>
+        match.inventoryId
+            ? item.id === match.inventoryId
+            : !!item.serialNumber &&
+              normalize(item.serialNumber) === normalize(match.serialNumber),
+    )
+
+const describeLocation = (item: AuditInventoryItem) =>
+    item.location ? `"${item.location}"` : 'no location'
+
+/**
+ * Compares what was physically seen with what the records say. Every
+ * expected item ends up as found, missing or wrong-location; every scan
+ * that is not an expected item ends up as unexpected or wrong-location.
+ */
+const reconcileAudit = (session: AuditSession): AuditLine[] => {
+    const seenIds = new Set(session.tickedIds)
+    session.scans.forEach((scan) => scan.item && seenIds.add(scan.item.id))
+
+    const expected = session.items.filter((item) =>
+        isExpectedItem(item, session),
+    )
+    const expectedIds = new Set(expected.map((item) => item.id))
+
+    const lines: AuditLine[] = expected.map((item) => {
+        if (!seenIds.has(item.id)) {
+            return {
+                key: `item-${item.id}`,
+                outcome: 'missing',
+                item,
+                detail: `Not found, recorded at ${describeLocation(item)}`,
+                adjustment: {
+                    label: 'Mark as missing',
+                    data: { status: 'MISSING' },
+                },
+            }
+        }
+        return {
+            key: `item-${item.id}`,
+            outcome: 'found',
+            item,
+            detail: 'Found',
+            adjustment: null,
+        }
+    })
+
+    const reported = new Set<string>()
+    session.scans.forEach((scan) => {
+        const { item } = scan
+        const key = item ? `item-${item.id}` : `code-${normalize(scan.code)}`
+        if ((item && expectedIds.has(item.id)) || reported.has(key)) {
+            return
+        }
+        reported.add(key)
+
+        if (!item) {
+            lines.push({
+                key,
+                outcome: 'unexpected',
+                item: null,
+                code: scan.code,
+                detail: 'Not recorded in the system',
+                adjustment: null,
+            })
+            return
+        }
+
+        const branchId = itemBranchId(item)
+        if (branchId !== undefined && branchId !== session.branchId) {
+            lines.push({
+                key,
+                outcome: 'wrongLocation',
+                item,
+                code: scan.code,
+                detail: `Recorded at branch ${
+                    item.product?.branch?.name || `#${branchId}`
+                }, needs a transfer`,
+                adjustment: null,
+            })
+            return
+        }
+
+        if (item.status === 'MISSING') {
+            lines.push({
+                key,
+                outcome: 'unexpected',
+                item,
+                code: scan.code,
+                detail: 'Recorded as missing',
+                adjustment: {
+                    label: 'Mark as available',
+                    data: session.location
+                        ? { status: 'AVAILABLE', location: session.location }
+                        : { status: 'AVAILABLE' },
+                },
+            })
+            return
+        }
+
+        if (!ON_SITE_STATUSES.includes(item.status)) {
+            lines.push({
+                key,
+                outcome: 'unexpected',
+                item,
+                code: scan.code,
+                detail: `Recorded as ${item.status.toLowerCase()}`,
+                adjustment: null,
+            })
+            return
+        }
+
+        if (!session.location) {
+            lines.push({
+                key,
+                outcome: 'unexpected',
+                item,
+                code: scan.code,
+                detail: 'Recorded after the audit started',
+                adjustment: null,
+            })
+            return
+        }
+
+        lines.push({
+            key,
+            outcome: 'wrongLocation',
+            item,
+            code: scan.code,
+            detail: `Recorded at ${describeLocation(item)}`,
+            adjustment: {
+                label: `Move to "${session.location}"`,
+                data: { location: session.location },
+            },
+        })
+    })
+
+    return lines
+}
+
+export default reconcileAudit
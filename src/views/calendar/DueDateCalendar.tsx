@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { AdaptableCard, CalendarView } from '@/components/shared'
+import { Alert, Badge, Checkbox, Select } from '@/components/ui'
+import { apiGetBranches } from '@/services/BranchService'
+import { apiGetCategories } from '@/services/CategoryService'
+import {
+    apiGetAllActiveAssignments,
+    apiGetAllInventoryItems,
+} from '@/services/ProductService'
+import buildCalendarEvents, { calendarEventColors } from './buildCalendarEvents'
+import type { EventClickArg } from '@fullcalendar/core'
+import type {
+    CalendarAssignment,
+    CalendarEventTarget,
+    CalendarEventType,
+    CalendarInventoryItem,
+} from './buildCalendarEvents'
+
+interface NamedOption {
+    value: number
+    label: string
+}
+
+const eventTypeLabels: Record<CalendarEventType, string> = {
+    warranty: 'Warranty expiry',
+    return: 'Return due',
+    overdue: 'Overdue return',
+}
+
+const legendDotClass: Record<string, string> = {
+    amber: 'bg-amber-500',
+    blue: 'bg-blue-500',
+    red: 'bg-red-500',
+}
+
+const toOptions = (response?: { data?: unknown }): NamedOption[] =>
+    (
+        (response?.data as { data?: Array<{ id: number; name: string }> })
+            ?.data || []
+    ).map((record) => ({ value: record.id, label: record.name }))
+
+const DueDateCalendar = () => {
+    const navigate = useNavigate()
+
+    const [branchId, setBranchId] = useState<number>()
+    const [categoryId, setCategoryId] = useState<number>()
+    const [types, setTypes] = useState<CalendarEventType[]>([
+        'warranty',
+        'return',
+        'overdue',
+    ])
+    const [range, setRange] = useState<{ from: string; to: string }>()
+
+    const { data: branchesData } = useQuery({
+        queryKey: ['branches'],
+        queryFn: () => apiGetBranches({ page: 1, limit: 100 }),
+    })
+    const { data: categoriesData } = useQuery({
+        queryKey: ['categories'],
+        queryFn: () => apiGetCategories({ page: 1, limit: 100 }),
+    })
+    const branchOptions = toOptions(branchesData)
+    const categoryOptions = toOptions(categoriesData)
+
+    // Warranty dates are fetched per visible range, there can be thousands
+    const { data: items = [], isFetching: isLoadingItems } = useQuery({
+        queryKey: ['calendar-warranties', range, branchId, categoryId],
+        queryFn: () =>
+            apiGetAllInventoryItems<CalendarInventoryItem>({
+                branchId,
+                categoryId,
+                warrantyExpiryFrom: range?.from,
+                warrantyExpiryTo: range?.to,
+            }),
+        enabled: !!range && types.includes('warranty'),
+    })
+
+    const { data: assignments = [], isFetching: isLoadingAssignments } =
+        useQuery({
+            queryKey: ['calendar-assignments'],
+            queryFn: () => apiGetAllActiveAssignments<CalendarAssignment>(),
+        })
+
+    const events = useMemo(
+        () =>
+            buildCalendarEvents(items, assignments, {
+                branchId,
+                categoryId,
+                types,
+            }),
+        [items, assignments, branchId, categoryId, types],
+    )
+
+    const overdueCount = useMemo(
+        () =>
+            buildCalendarEvents([], assignments, {
+                branchId,
+                categoryId,
+                types: ['overdue'],
+            }).length,
+        [assignments, branchId, categoryId],
+    )
+
+    const toggleType = (type: CalendarEventType, checked: boolean) =>
+        setTypes((current) =>
+            checked ? [...current, type] : current.filter((t) => t !== type),
+        )
+
+    const handleEventClick = ({ event }: EventClickArg) => {
+        const target = event.extendedProps.target as CalendarEventTarget
+        if (target.kind === 'assignment') {
+            navigate(`/assignments/${target.assignmentId}`)
+        } else {
+            navigate(
+                target.serialNumber
+                    ? `/products/view/${
+                          target.productId
+                      }?search=${encodeURIComponent(target.serialNumber)}`
+                    : `/products/view/${target.productId}`,
+            )
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Due Dates</h3>
+                <div className="flex flex-col lg:flex-row gap-2">
+                    <Select
+                        isClearable
+                        size="sm"
+                        className="min-w-[200px]"
+                        placeholder="All branches"
+                        options={branchOptions}
+                        value={
+                            branchOptions.find((o) => o.value === branchId) ||
+                            null
+                        }
+                        onChange={(option) => setBranchId(option?.value)}
+                    />
+                    <Select
+                        isClearable
+                        size="sm"
+                        className="min-w-[200px]"
+                        placeholder="All categories"
+                        options={categoryOptions}
+                        value={
+                            categoryOptions.find(
+                                (o) => o.value === categoryId,
+                            ) || null
+                        }
+                        onChange={(option) => setCategoryId(option?.value)}
+                    />
+                </div>
+            </div>
+
+            {overdueCount > 0 && (
+                <Alert showIcon type="danger" className="mb-4">
+                    {overdueCount} assignment
+                    {overdueCount !== 1 ? 's are' : ' is'} past the expected
+                    return date
+                </Alert>
+            )}
+
+            <div className="flex flex-wrap items-center gap-6 mb-4">
+                {(Object.keys(eventTypeLabels) as CalendarEventType[]).map(
+                    (type) => (
+                        <Checkbox
+                            key={type}
+                            checked={types.includes(type)}
+                            onChange={(checked) => toggleType(type, checked)}
+                        >
+                            <span className="flex items-center gap-1">
+                                <Badge
+                                    className={
+                                        legendDotClass[
+                                            calendarEventColors[type]
+                                        ]
+                                    }
+                                />
+                                {eventTypeLabels[type]}
+                            </span>
+                        </Checkbox>
+                    ),
+                )}
+                {(isLoadingItems || isLoadingAssignments) && (
+                    <span className="text-sm text-gray-500">Loading…</span>
+                )}
+            </div>
+
+            <CalendarView
+                events={events}
+                eventClick={handleEventClick}
+                datesSet={({ start, end }) =>
+                    setRange({
+                        from: dayjs(start).format('YYYY-MM-DD'),
+                        to: dayjs(end).format('YYYY-MM-DD'),
+                    })
+                }
+            />
+        </AdaptableCard>
+    )
+}
+
+export default DueDateCalendar
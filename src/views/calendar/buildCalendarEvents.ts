@@ -0,0 +1,139 @@
+import dayjs from 'dayjs'
+import type { EventInput } from '@fullcalendar/core'
+
+export type CalendarEventType = 'warranty' | 'return' | 'overdue'
+
+interface ProductRef {
+    id: number
+    name: string
+    categoryId?: number
+    branchId?: number
+    category?: { id: number; name: string }
+    branch?: { id: number; name: string }
+}
+
+export interface CalendarInventoryItem {
+    id: number
+    serialNumber?: string
+    warrantyExpiry?: string
+    productId?: number
+    product?: ProductRef
+}
+
+export interface CalendarAssignment {
+    id: number
+    expectedReturnAt?: string
+    product?: ProductRef
+    inventory?: { id: number; serialNumber?: string }
+    employee?: { id: number; name: string }
+}
+
+export interface CalendarFilters {
+    branchId?: number
+    categoryId?: number
+    types: CalendarEventType[]
+}
+
+/** What clicking the event opens */
+export type CalendarEventTarget =
+    | { kind: 'inventory'; productId: number; serialNumber?: string }
+    | { kind: 'assignment'; assignmentId: number }
+
+export const calendarEventColors: Record<CalendarEventType, string> = {
+    warranty: 'amber',
+    return: 'blue',
+    overdue: 'red',
+}
+
+const matchesFilters = (
+    product: ProductRef | undefined,
+    filters: CalendarFilters,
+) =>
+    (!filters.branchId ||
+        (product?.branch?.id ?? product?.branchId) === filters.branchId) &&
+    (!filters.categoryId ||
+        (product?.category?.id ?? product?.categoryId) === filters.categoryId)
+
+const withSerial = (name: string, serialNumber?: string) =>
+    serialNumber ? `${name} (${serialNumber})` : name
+
+const buildCalendarEvents = (
+    items: CalendarInventoryItem[],
+    assignments: CalendarAssignment[],
+    filters: CalendarFilters,
+): EventInput[] => {
+    const events: EventInput[] = []
+    const today = dayjs().startOf('day')
+
+    if (filters.types.includes('warranty')) {
+        items.forEach((item) => {
+            const productId = item.product?.id ?? item.productId
+            if (
+                !item.warrantyExpiry ||
+                !productId ||
+                !matchesFilters(item.product, filters)
+            ) {
+                return
+            }
+            const target: CalendarEventTarget = {
+                kind: 'inventory',
+                productId,
+                serialNumber: item.serialNumber,
+            }
+            events.push({
+                id: `warranty-${item.id}`,
+                title: `Warranty ends: ${withSerial(
+                    item.product?.name || `Item #${item.id}`,
+                    item.serialNumber,
+                )}`,
+                start: dayjs(item.warrantyExpiry).format('YYYY-MM-DD'),
+                allDay: true,
+                extendedProps: {
+                    eventColor: calendarEventColors.warranty,
+                    target,
+                },
+            })
+        })
+    }
+
+    assignments.forEach((assignment) => {
+        if (
+            !assignment.expectedReturnAt ||
+            !matchesFilters(assignment.product, filters)
+        ) {
+            return
+        }
+        const type: CalendarEventType = dayjs(
+            assignment.expectedReturnAt,
+        ).isBefore(today)
+            ? 'overdue'
+            : 'return'
+        if (!filters.types.includes(type)) {
+            return
+        }
+        const target: CalendarEventTarget = {
+            kind: 'assignment',
+            assignmentId: assignment.id,
+        }
+        const name = withSerial(
+            assignment.product?.name || `Assignment #${assignment.id}`,
+            assignment.inventory?.serialNumber,
+        )
+        events.push({
+            id: `${type}-${assignment.id}`,
+            title: `${type === 'overdue' ? 'Overdue' : 'Due back'}: ${name}${
+                assignment.employee ? ` – ${assignment.employee.name}` : ''
+            }`,
+            start: dayjs(assignment.expectedReturnAt).format('YYYY-MM-DD'),
+            allDay: true,
+            extendedProps: {
+                eventColor: calendarEventColors[type],
+                target,
+            },
+        })
+    })
+
+    return events
+}
+
+export default buildCalendarEvents
@@ -0,0 +1,185 @@
+import { Field, FieldArray } from 'formik'
+import { HiOutlinePlus, HiOutlineTrash } from 'react-icons/hi'
+import { Button, Checkbox, Input, Select } from '@/components/ui'
+import {
+    customAttributeScopeLabels,
+    customAttributeTypeLabels,
+} from '@/utils/customAttributes'
+import { emptyAttribute } from './categoryAttributes'
+import type { FormikErrors, FormikTouched } from 'formik'
+import type {
+    CustomAttributeScope,
+    CustomAttributeType,
+} from '@/utils/customAttributes'
+import type {
+    AttributeFormValue,
+    AttributeFormValues,
+} from './categoryAttributes'
+
+interface AttributeSchemaFieldsProps {
+    values: AttributeFormValues
+    errors: FormikErrors<AttributeFormValues>
+    touched: FormikTouched<AttributeFormValues>
+    setFieldValue: (field: string, value: unknown) => void
+}
+
+const typeOptions = (
+    Object.keys(customAttributeTypeLabels) as CustomAttributeType[]
+).map((type) => ({ value: type, label: customAttributeTypeLabels[type] }))
+
+const scopeOptions = (
+    Object.keys(customAttributeScopeLabels) as CustomAttributeScope[]
+).map((scope) => ({ value: scope, label: customAttributeScopeLabels[scope] }))
+
+interface AttributeRowProps {
+    index: number
+    attribute: AttributeFormValue
+    errors?: string | FormikErrors<AttributeFormValue>
+    touched?: FormikTouched<AttributeFormValue>
+    setFieldValue: (field: string, value: unknown) => void
+    onRemove: () => void
+}
+
+const AttributeRow = ({
+    index,
+    attribute,
+    errors,
+    touched,
+    setFieldValue,
+    onRemove,
+}: AttributeRowProps) => {
+    const rowErrors = typeof errors === 'object' ? errors : {}
+    const name = `customAttributes.${index}`
+
+    return (
+        <div className="p-3 border rounded-md dark:border-gray-600">
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-2 items-start">
+                <div className="md:col-span-4">
+                    <Field
+                        size="sm"
+                        name={`${name}.label`}
+                        placeholder="Label, e.g. RAM (GB)"
+                        component={Input}
+                    />
+                    {touched?.label && rowErrors.label && (
+                        <div className="text-red-500 text-sm mt-1">
+                            {rowErrors.label}
+                        </div>
+                    )}
+                </div>
+                <div className="md:col-span-3">
+                    <Select
+                        size="sm"
+                        options={typeOptions}
+                        value={typeOptions.find(
+                            (option) => option.value === attribute.type,
+                        )}
+                        onChange={(option) =>
+                            setFieldValue(`${name}.type`, option?.value)
+                        }
+                    />
+                </div>
+                <div className="md:col-span-3">
+                    <Select
+                        size="sm"
+                        options={scopeOptions}
+                        value={scopeOptions.find(
+                            (option) => option.value === attribute.scope,
+                        )}
+                        onChange={(option) =>
+                            setFieldValue(`${name}.scope`, option?.value)
+                        }
+                    />
+                </div>
+                <div className="md:col-span-2 flex items-center justify-between h-full">
+                    <Checkbox
+                        checked={attribute.required}
+                        onChange={(checked) =>
+                            setFieldValue(`${name}.required`, checked)
+                        }
+                    >
+                        Required
+                    </Checkbox>
+                    <Button
+                        type="button"
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineTrash />}
+                        onClick={onRemove}
+                    />
+                </div>
+            </div>
+            {attribute.type === 'SELECT' && (
+                <div className="mt-2">
+                    <Field
+                        size="sm"
+                        name={`${name}.options`}
+                        placeholder="Options, comma separated, e.g. 8, 16, 32"
+                        component={Input}
+                    />
+                    {touched?.options && rowErrors.options && (
+                        <div className="text-red-500 text-sm mt-1">
+                            {rowErrors.options}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+const AttributeSchemaFields = ({
+    values,
+    errors,
+    touched,
+    setFieldValue,
+}: AttributeSchemaFieldsProps) => (
+    <div>
+        <h5 className="mb-1">Custom Attributes</h5>
+        <p className="text-sm text-gray-500 mb-4">
+            Extra fields for products in this category. Product attributes
+            describe the model, such as CPU or screen size; item attributes are
+            filled in for each unit, such as a MAC address or IMEI.
+        </p>
+        <FieldArray name="customAttributes">
+            {({ push, remove }) => (
+                <div className="space-y-2">
+                    {values.customAttributes.map((attribute, index) => (
+                        <AttributeRow
+                            key={index}
+                            index={index}
+                            attribute={attribute}
+                            errors={
+                                Array.isArray(errors.customAttributes)
+                                    ? errors.customAttributes[index]
+                                    : undefined
+                            }
+                            touched={
+                                Array.isArray(touched.customAttributes)
+                                    ? touched.customAttributes[index]
+                                    : undefined
+                            }
+                            setFieldValue={setFieldValue}
+                            onRemove={() => remove(index)}
+                        />
+                    ))}
+                    {typeof errors.customAttributes === 'string' && (
+                        <div className="text-red-500 text-sm">
+                            {errors.customAttributes}
+                        </div>
+                    )}
+                    <Button
+                        type="button"
+                        size="sm"
+                        icon={<HiOutlinePlus />}
+                        onClick={() => push(emptyAttribute)}
+                    >
+                        Add Attribute
+                    </Button>
+                </div>
+            )}
+        </FieldArray>
+    </div>
+)
+
+export default AttributeSchemaFields
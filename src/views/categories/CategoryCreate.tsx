@@ -8,13 +8,32 @@ import { useNavigate } from 'react-router-dom'
 import { apiCreateCategory } from '@/services/CategoryService'
 import toast from '@/components/ui/toast'
 import Notification from '@/components/ui/Notification'
+import DepreciationFields from './DepreciationFields'
+import AttributeSchemaFields from './AttributeSchemaFields'
+import ReturnChecklistFields from './ReturnChecklistFields'
+import {
+    depreciationValidation,
+    emptyDepreciationValues,
+    toDepreciationPayload,
+} from './categoryDepreciation'
+import {
+    attributeValidation,
+    toAttributePayload,
+} from './categoryAttributes'
+import {
+    returnChecklistValidation,
+    toReturnChecklistPayload,
+} from './categoryReturnChecklist'
 
 const validationSchema = Yup.object().shape({
     name: Yup.string()
         .required('Category name is required')
         .min(2, 'Too Short!')
         .max(100, 'Too Long!'),
-    description: Yup.string().max(500, 'Too Long!')
+    description: Yup.string().max(500, 'Too Long!'),
+    ...depreciationValidation,
+    ...attributeValidation,
+    ...returnChecklistValidation
 })
 
 const CategoryCreate = () => {
@@ -23,7 +42,13 @@ const CategoryCreate = () => {
     const handleSubmit = async (values: any, { setSubmitting }: any) => {
         setSubmitting(true)
         try {
-            const resp = await apiCreateCategory(values)
+            const { depreciationMethod, usefulLifeMonths, salvageValuePercent, customAttributes, returnChecklist, ...rest } = values
+            const resp = await apiCreateCategory({
+                ...rest,
+                ...toDepreciationPayload({ depreciationMethod, usefulLifeMonths, salvageValuePercent }),
+                customAttributes: toAttributePayload(customAttributes),
+                returnChecklist: toReturnChecklistPayload(returnChecklist)
+            })
             if (resp.success) {
                 toast.push(
                     <Notification title="Success" type="success">
@@ -52,12 +77,15 @@ const CategoryCreate = () => {
             <Formik
                 initialValues={{
                     name: '',
-                    description: ''
+                    description: '',
+                    ...emptyDepreciationValues,
+                    customAttributes: [],
+                    returnChecklist: []
                 }}
                 validationSchema={validationSchema}
                 onSubmit={handleSubmit}
             >
-                {({ touched, errors, isSubmitting }) => (
+                {({ values, touched, errors, isSubmitting, setFieldValue }) => (
                     <Form>
                         <FormContainer>
                             <div className="grid grid-cols-1 gap-4">
@@ -87,6 +115,33 @@ const CategoryCreate = () => {
                                 </FormItem>
                             </div>
 
+                            <div className="mt-6">
+                                <DepreciationFields
+                                    values={values}
+                                    errors={errors}
+                                    touched={touched}
+                                    setFieldValue={setFieldValue}
+                                />
+                            </div>
+
+                            <div className="mt-6">
+                                <AttributeSchemaFields
+                                    values={values}
+                                    errors={errors}
+                                    touched={touched}
+                                    setFieldValue={setFieldValue}
+                                />
+                            </div>
+
+                            <div className="mt-6">
+                                <ReturnChecklistFields
+                                    values={values}
+                                    errors={errors}
+                                    touched={touched}
+                                    setFieldValue={setFieldValue}
+                                />
+                            </div>
+
                             <div className="flex justify-end gap-2 mt-4">
                                 <Button
                                     type="button"
@@ -9,13 +9,42 @@ import { AdaptableCard } from '@/components/shared'
 import { apiGetCategory, apiUpdateCategory } from '@/services/CategoryService'
 import toast from '@/components/ui/toast'
 import Notification from '@/components/ui/Notification'
+import DepreciationFields from './DepreciationFields'
+import AttributeSchemaFields from './AttributeSchemaFields'
+import ReturnChecklistFields from './ReturnChecklistFields'
+import {
+    depreciationValidation,
+    emptyDepreciationValues,
+    toDepreciationPayload,
+    toDepreciationValues,
+} from './categoryDepreciation'
+import {
+    attributeValidation,
+    toAttributePayload,
+    toAttributeFormValues,
+} from './categoryAttributes'
+import {
+    returnChecklistValidation,
+    toReturnChecklistFormValues,
+    toReturnChecklistPayload,
+} from './categoryReturnChecklist'
+import type { DepreciationSettings } from '@/utils/depreciation'
+import type {
+    CategoryAttributeSettings,
+    CategoryInspectionSettings,
+} from '@/services/CategoryService'
+import type { AttributeFormValue } from './categoryAttributes'
+import type { ReturnCheckFormValue } from './categoryReturnChecklist'
 
 const validationSchema = Yup.object().shape({
     name: Yup.string()
         .required('Category name is required')
         .min(2, 'Too Short!')
         .max(100, 'Too Long!'),
-    description: Yup.string().max(500, 'Too Long!')
+    description: Yup.string().max(500, 'Too Long!'),
+    ...depreciationValidation,
+    ...attributeValidation,
+    ...returnChecklistValidation
 })
 
 const CategoryEdit = () => {
@@ -24,7 +53,10 @@ const CategoryEdit = () => {
 
     const [initialValues, setInitialValues] = useState({
         name: '',
-        description: ''
+        description: '',
+        ...emptyDepreciationValues,
+        customAttributes: [] as AttributeFormValue[],
+        returnChecklist: [] as ReturnCheckFormValue[]
     })
     const [loading, setLoading] = useState(true)
 
@@ -34,7 +66,16 @@ const CategoryEdit = () => {
                 const response = await apiGetCategory(id!)
                 setInitialValues({
                     name: response.data.data.name,
-                    description: response.data.data.description || ''
+                    description: response.data.data.description || '',
+                    ...toDepreciationValues(
+                        (response.data as { data: DepreciationSettings }).data
+                    ),
+                    customAttributes: toAttributeFormValues(
+                        (response.data as { data: CategoryAttributeSettings }).data.customAttributes
+                    ),
+                    returnChecklist: toReturnChecklistFormValues(
+                        (response.data as { data: CategoryInspectionSettings }).data.returnChecklist
+                    )
                 })
                 setLoading(false)
             } catch (error: any) {
@@ -54,7 +95,13 @@ const CategoryEdit = () => {
 
     const handleSubmit = async (values: any, { setSubmitting }: any) => {
         try {
-            const resp = await apiUpdateCategory(id!, values)
+            const { depreciationMethod, usefulLifeMonths, salvageValuePercent, customAttributes, returnChecklist, ...rest } = values
+            const resp = await apiUpdateCategory(id!, {
+                ...rest,
+                ...toDepreciationPayload({ depreciationMethod, usefulLifeMonths, salvageValuePercent }),
+                customAttributes: toAttributePayload(customAttributes),
+                returnChecklist: toReturnChecklistPayload(returnChecklist)
+            })
             if (resp.status === 200) {
                 toast.push(
                     <Notification title="Success" type="success">
@@ -94,7 +141,7 @@ const CategoryEdit = () => {
                 onSubmit={handleSubmit}
                 enableReinitialize
             >
-                {({ touched, errors, isSubmitting }) => (
+                {({ values, touched, errors, isSubmitting, setFieldValue }) => (
                     <Form>
                         <FormContainer>
                             <div className="grid grid-cols-1 gap-4">
@@ -124,6 +171,33 @@ const CategoryEdit = () => {
                                 </FormItem>
                             </div>
 
+                            <div className="mt-6">
+                                <DepreciationFields
+                                    values={values}
+                                    errors={errors}
+                                    touched={touched}
+                                    setFieldValue={setFieldValue}
+                                />
+                            </div>
+
+                            <div className="mt-6">
+                                <AttributeSchemaFields
+                                    values={values}
+                                    errors={errors}
+                                    touched={touched}
+                                    setFieldValue={setFieldValue}
+                                />
+                            </div>
+
+                            <div className="mt-6">
+                                <ReturnChecklistFields
+                                    values={values}
+                                    errors={errors}
+                                    touched={touched}
+                                    setFieldValue={setFieldValue}
+                                />
+                            </div>
+
                             <div className="flex justify-end gap-2 mt-4">
                                 <Button
                                     type="button"
@@ -0,0 +1,83 @@
+import { Field } from 'formik'
+import { FormItem, Input, Select } from '@/components/ui'
+import { depreciationMethodLabels } from '@/utils/depreciation'
+import type { FormikErrors, FormikTouched } from 'formik'
+import type { DepreciationMethod } from '@/utils/depreciation'
+import type { DepreciationFormValues } from './categoryDepreciation'
+
+interface DepreciationFieldsProps {
+    values: DepreciationFormValues
+    errors: FormikErrors<DepreciationFormValues>
+    touched: FormikTouched<DepreciationFormValues>
+    setFieldValue: (field: string, value: unknown) => void
+}
+
+const methodOptions = (
+    Object.keys(depreciationMethodLabels) as DepreciationMethod[]
+).map((method) => ({
+    value: method,
+    label: depreciationMethodLabels[method],
+}))
+
+const DepreciationFields = ({
+    values,
+    errors,
+    touched,
+    setFieldValue,
+}: DepreciationFieldsProps) => (
+    <div>
+        <h5 className="mb-1">Depreciation</h5>
+        <p className="text-sm text-gray-500 mb-4">
+            Used to work out the book value of this category&apos;s items. Leave
+            the method empty to keep items at their purchase price.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormItem label="Method">
+                <Select
+                    isClearable
+                    placeholder="No depreciation"
+                    options={methodOptions}
+                    value={
+                        methodOptions.find(
+                            (option) =>
+                                option.value === values.depreciationMethod,
+                        ) || null
+                    }
+                    onChange={(option) =>
+                        setFieldValue('depreciationMethod', option?.value || '')
+                    }
+                />
+            </FormItem>
+            <FormItem
+                label="Useful Life (months)"
+                invalid={!!errors.usefulLifeMonths && touched.usefulLifeMonths}
+                errorMessage={errors.usefulLifeMonths}
+            >
+                <Field
+                    type="number"
+                    name="usefulLifeMonths"
+                    placeholder="e.g. 36"
+                    disabled={!values.depreciationMethod}
+                    component={Input}
+                />
+            </FormItem>
+            <FormItem
+                label="Salvage Value (% of price)"
+                invalid={
+                    !!errors.salvageValuePercent && touched.salvageValuePercent
+                }
+                errorMessage={errors.salvageValuePercent}
+            >
+                <Field
+                    type="number"
+                    name="salvageValuePercent"
+                    placeholder="0"
+                    disabled={!values.depreciationMethod}
+                    component={Input}
+                />
+            </FormItem>
+        </div>
+    </div>
+)
+
+export default DepreciationFields
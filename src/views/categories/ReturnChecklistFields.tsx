@@ -0,0 +1,125 @@
+import { Field, FieldArray } from 'formik'
+import { HiOutlinePlus, HiOutlineTrash } from 'react-icons/hi'
+import { Button, Input, Select } from '@/components/ui'
+import {
+    defaultReturnChecklist,
+    returnCheckSeverityLabels,
+} from '@/utils/returnInspection'
+import { emptyReturnCheck } from './categoryReturnChecklist'
+import type { FormikErrors, FormikTouched } from 'formik'
+import type { ReturnCheckSeverity } from '@/utils/returnInspection'
+import type {
+    ReturnCheckFormValue,
+    ReturnChecklistFormValues,
+} from './categoryReturnChecklist'
+
+interface ReturnChecklistFieldsProps {
+    values: ReturnChecklistFormValues
+    errors: FormikErrors<ReturnChecklistFormValues>
+    touched: FormikTouched<ReturnChecklistFormValues>
+    setFieldValue: (field: string, value: unknown) => void
+}
+
+const severityOptions = (
+    Object.keys(returnCheckSeverityLabels) as ReturnCheckSeverity[]
+).map((severity) => ({
+    value: severity,
+    label: returnCheckSeverityLabels[severity],
+}))
+
+const ReturnChecklistFields = ({
+    values,
+    errors,
+    touched,
+    setFieldValue,
+}: ReturnChecklistFieldsProps) => (
+    <div>
+        <h5 className="mb-1">Return Inspection</h5>
+        <p className="text-sm text-gray-500 mb-4">
+            Checks made when an item comes back from an employee, such as
+            &quot;Screen intact&quot; or &quot;Charger included&quot;. A failed
+            check suggests the condition and status: minor issues keep the item
+            in stock, repairs send it to maintenance and damage marks it
+            damaged. Without a list, a general checklist is used (
+            {defaultReturnChecklist.map((check) => check.label).join(', ')}).
+        </p>
+        <FieldArray name="returnChecklist">
+            {({ push, remove }) => (
+                <div className="space-y-2">
+                    {values.returnChecklist.map((check, index) => {
+                        const rowErrors = Array.isArray(errors.returnChecklist)
+                            ? (errors.returnChecklist[index] as
+                                  | FormikErrors<ReturnCheckFormValue>
+                                  | undefined)
+                            : undefined
+                        const rowTouched = Array.isArray(
+                            touched.returnChecklist,
+                        )
+                            ? touched.returnChecklist[index]
+                            : undefined
+                        return (
+                            <div
+                                key={index}
+                                className="grid grid-cols-1 md:grid-cols-12 gap-2 items-start"
+                            >
+                                <div className="md:col-span-7">
+                                    <Field
+                                        size="sm"
+                                        name={`returnChecklist.${index}.label`}
+                                        placeholder="e.g. Screen intact"
+                                        component={Input}
+                                    />
+                                    {rowTouched?.label && rowErrors?.label && (
+                                        <div className="text-red-500 text-sm mt-1">
+                                            {rowErrors.label}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="md:col-span-4">
+                                    <Select
+                                        size="sm"
+                                        options={severityOptions}
+                                        value={severityOptions.find(
+                                            (option) =>
+                                                option.value === check.severity,
+                                        )}
+                                        onChange={(option) =>
+                                            setFieldValue(
+                                                `returnChecklist.${index}.severity`,
+                                                option?.value,
+                                            )
+                                        }
+                                    />
+                                </div>
+                                <div className="md:col-span-1">
+                                    <Button
+                                        type="button"
+                                        size="sm"
+                                        variant="plain"
+                                        icon={<HiOutlineTrash />}
+                                        onClick={() => remove(index)}
+                                    />
+                                </div>
+                            </div>
+                        )
+                    })}
+                    {typeof errors.returnChecklist === 'string' && (
+                        <div className="text-red-500 text-sm">
+                            {errors.returnChecklist}
+                        </div>
+                    )}
+                    <Button
+                        type="button"
+                        size="sm"
+                        icon={<HiOutlinePlus />}
+                        onClick={() => push(emptyReturnCheck)}
+                    >
+                        Add Check
+                    </Button>
+                </div>
+            )}
+        </FieldArray>
+    </div>
+)
+
+export default ReturnChecklistFields
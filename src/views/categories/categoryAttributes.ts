@@ -0,0 +1,92 @@
+import * as Yup from 'yup'
+import { toAttributeKey } from '@/utils/customAttributes'
+import type {
+    CustomAttributeDefinition,
+    CustomAttributeScope,
+    CustomAttributeType,
+} from '@/utils/customAttributes'
+
+export interface AttributeFormValue {
+    /** Empty for attributes added in this form; derived from the label */
+    key: string
+    label: string
+    type: CustomAttributeType
+    scope: CustomAttributeScope
+    required: boolean
+    /** SELECT choices, comma separated */
+    options: string
+}
+
+export interface AttributeFormValues {
+    customAttributes: AttributeFormValue[]
+}
+
+export const emptyAttribute: AttributeFormValue = {
+    key: '',
+    label: '',
+    type: 'TEXT',
+    scope: 'PRODUCT',
+    required: false,
+    options: '',
+}
+
+const splitOptions = (options: string) =>
+    options
+        .split(',')
+        .map((option) => option.trim())
+        .filter(Boolean)
+
+export const attributeValidation = {
+    customAttributes: Yup.array()
+        .of(
+            Yup.object().shape({
+                label: Yup.string()
+                    .trim()
+                    .required('Label is required')
+                    .max(60, 'Too Long!'),
+                options: Yup.string().when('type', {
+                    is: 'SELECT',
+                    then: (schema) =>
+                        schema.test(
+                            'has-options',
+                            'List at least two options',
+                            (value) => splitOptions(value || '').length >= 2,
+                        ),
+                }),
+            }),
+        )
+        .test('unique-labels', 'Attribute labels must be unique', (list) => {
+            const keys = (list || []).map((attribute) =>
+                toAttributeKey(attribute.label || ''),
+            )
+            return new Set(keys).size === keys.length
+        }),
+}
+
+export const toAttributeFormValues = (
+    definitions?: CustomAttributeDefinition[] | null,
+): AttributeFormValue[] =>
+    (definitions || []).map((definition) => ({
+        key: definition.key,
+        label: definition.label,
+        type: definition.type,
+        scope: definition.scope,
+        required: definition.required,
+        options: (definition.options || []).join(', '),
+    }))
+
+// Existing attributes keep their key so values already stored on products and
+// items stay attached when the label is renamed
+export const toAttributePayload = (
+    values: AttributeFormValue[],
+): CustomAttributeDefinition[] =>
+    values.map((value) => ({
+        key: value.key || toAttributeKey(value.label),
+        label: value.label.trim(),
+        type: value.type,
+        scope: value.scope,
+        required: value.required,
+        ...(value.type === 'SELECT' && {
+            options: splitOptions(value.options),
+        }),
+    }))
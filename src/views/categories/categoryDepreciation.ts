@@ -0,0 +1,59 @@
+import * as Yup from 'yup'
+import type {
+    DepreciationMethod,
+    DepreciationSettings,
+} from '@/utils/depreciation'
+
+export interface DepreciationFormValues {
+    depreciationMethod: DepreciationMethod | ''
+    usefulLifeMonths: number | ''
+    salvageValuePercent: number | ''
+}
+
+export const emptyDepreciationValues: DepreciationFormValues = {
+    depreciationMethod: '',
+    usefulLifeMonths: '',
+    salvageValuePercent: '',
+}
+
+export const depreciationValidation = {
+    depreciationMethod: Yup.string().oneOf([
+        '',
+        'STRAIGHT_LINE',
+        'DECLINING_BALANCE',
+    ]),
+    usefulLifeMonths: Yup.number()
+        .integer('Whole months only')
+        .min(1, 'Must be at least 1 month')
+        .when('depreciationMethod', {
+            is: (method?: string) => !!method,
+            then: (schema) => schema.required('Useful life is required'),
+        }),
+    salvageValuePercent: Yup.number()
+        .min(0, 'Cannot be negative')
+        .max(100, 'Cannot exceed 100%'),
+}
+
+export const toDepreciationValues = (
+    settings?: DepreciationSettings | null,
+): DepreciationFormValues => ({
+    depreciationMethod: settings?.depreciationMethod || '',
+    usefulLifeMonths: settings?.usefulLifeMonths ?? '',
+    salvageValuePercent: settings?.salvageValuePercent ?? '',
+})
+
+// Clearing the method switches depreciation off for the category
+export const toDepreciationPayload = (
+    values: DepreciationFormValues,
+): DepreciationSettings =>
+    values.depreciationMethod
+        ? {
+              depreciationMethod: values.depreciationMethod,
+              usefulLifeMonths: Number(values.usefulLifeMonths),
+              salvageValuePercent: Number(values.salvageValuePercent || 0),
+          }
+        : {
+              depreciationMethod: null,
+              usefulLifeMonths: null,
+              salvageValuePercent: null,
+          }
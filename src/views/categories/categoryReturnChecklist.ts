@@ -0,0 +1,61 @@
+import * as Yup from 'yup'
+import { toAttributeKey } from '@/utils/customAttributes'
+import type {
+    ReturnCheckDefinition,
+    ReturnCheckSeverity,
+} from '@/utils/returnInspection'
+
+export interface ReturnCheckFormValue {
+    /** Empty for checks added in this form; derived from the label */
+    key: string
+    label: string
+    severity: ReturnCheckSeverity
+}
+
+export interface ReturnChecklistFormValues {
+    returnChecklist: ReturnCheckFormValue[]
+}
+
+export const emptyReturnCheck: ReturnCheckFormValue = {
+    key: '',
+    label: '',
+    severity: 'MINOR',
+}
+
+export const returnChecklistValidation = {
+    returnChecklist: Yup.array()
+        .of(
+            Yup.object().shape({
+                label: Yup.string()
+                    .trim()
+                    .required('Describe the check')
+                    .max(80, 'Too Long!'),
+            }),
+        )
+        .test('unique-checks', 'Checks must be unique', (list) => {
+            const keys = (list || []).map((check) =>
+                toAttributeKey(check.label || ''),
+            )
+            return new Set(keys).size === keys.length
+        }),
+}
+
+export const toReturnChecklistFormValues = (
+    checks?: ReturnCheckDefinition[] | null,
+): ReturnCheckFormValue[] =>
+    (checks || []).map((check) => ({
+        key: check.key,
+        label: check.label,
+        severity: check.severity,
+    }))
+
+// As with attributes, existing checks keep their key so past inspections
+// still line up after a rename
+export const toReturnChecklistPayload = (
+    values: ReturnCheckFormValue[],
+): ReturnCheckDefinition[] =>
+    values.map((value) => ({
+        key: value.key || toAttributeKey(value.label),
+        label: value.label.trim(),
+        severity: value.severity,
+    }))
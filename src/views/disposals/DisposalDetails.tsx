@@ -0,0 +1,232 @@
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate, useParams } from 'react-router-dom'
+import {
+    HiOutlineArrowLeft,
+    HiOutlineCheckCircle,
+    HiOutlinePrinter,
+    HiOutlineXCircle,
+} from 'react-icons/hi'
+import { AdaptableCard, Loading } from '@/components/shared'
+import { Button, Card, Table } from '@/components/ui'
+import { apiGetDisposal } from '@/services/DisposalService'
+import {
+    openPrintWindow,
+    writePrintWindow,
+} from '@/views/products/labels/labelSheet'
+import { buildDisposalCertificateHtml } from './disposalCertificate'
+import {
+    dataWipeCheckLabels,
+    dataWipeMethodLabels,
+    disposalReasons,
+    requiredDataWipeChecks,
+} from './disposalReasons'
+import type { Disposal } from '@/services/DisposalService'
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+const DetailRow = ({ label, value }: { label: string; value?: string }) =>
+    value ? (
+        <div className="mb-2">
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className="font-semibold">{value}</div>
+        </div>
+    ) : null
+
+const DisposalDetails = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['disposal', id],
+        queryFn: () => apiGetDisposal(id as string),
+        enabled: !!id,
+    })
+    const disposal = data?.data?.data
+
+    if (isLoading) {
+        return <Loading loading />
+    }
+
+    if (error || !disposal) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Disposal not found</span>
+            </div>
+        )
+    }
+
+    const reason = disposalReasons[disposal.reason]
+
+    const handlePrint = (current: Disposal) => {
+        const printWindow = openPrintWindow('Preparing certificate...')
+        if (printWindow) {
+            writePrintWindow(printWindow, buildDisposalCertificateHtml(current))
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3>Disposal {disposal.disposalNumber}</h3>
+                    <div className="mt-1 text-gray-500">
+                        {reason.label} on{' '}
+                        {dayjs(disposal.disposedAt).format('DD MMM YYYY')}
+                        {disposal.createdBy &&
+                            `, recorded by ${disposal.createdBy.username}`}
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-4 lg:mt-0">
+                    <Button
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineArrowLeft />}
+                        onClick={() => navigate('/disposals')}
+                    >
+                        Back
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="solid"
+                        icon={<HiOutlinePrinter />}
+                        onClick={() => handlePrint(disposal)}
+                    >
+                        Print Certificate
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <Card className="lg:col-span-2">
+                    <h5 className="mb-4">Items ({disposal.items.length})</h5>
+                    <Table compact>
+                        <THead>
+                            <Tr>
+                                <Th>Product</Th>
+                                <Th>Serial Number</Th>
+                                <Th className="text-right">Purchase Price</Th>
+                            </Tr>
+                        </THead>
+                        <TBody>
+                            {disposal.items.map((item) => (
+                                <Tr key={item.inventoryId}>
+                                    <Td>
+                                        {item.inventory?.product ? (
+                                            <span
+                                                className="font-semibold cursor-pointer hover:underline"
+                                                onClick={() =>
+                                                    navigate(
+                                                        `/products/view/${item.inventory?.product?.id}`,
+                                                    )
+                                                }
+                                            >
+                                                {item.inventory.product.name}
+                                            </span>
+                                        ) : (
+                                            `Item #${item.inventoryId}`
+                                        )}
+                                        {item.inventory?.product?.model && (
+                                            <div className="text-xs text-gray-500">
+                                                {item.inventory.product.model}
+                                            </div>
+                                        )}
+                                    </Td>
+                                    <Td>
+                                        {item.inventory?.serialNumber || '-'}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {item.inventory?.purchasePrice !==
+                                            undefined &&
+                                        item.inventory.purchasePrice !== null
+                                            ? Number(
+                                                  item.inventory.purchasePrice,
+                                              ).toFixed(2)
+                                            : '-'}
+                                    </Td>
+                                </Tr>
+                            ))}
+                        </TBody>
+                    </Table>
+                </Card>
+
+                <div className="space-y-4">
+                    <Card>
+                        <h5 className="mb-4">Disposal</h5>
+                        <DetailRow label="Reason" value={reason.label} />
+                        <DetailRow
+                            label={reason.recipientLabel || 'Recipient'}
+                            value={disposal.recipientName}
+                        />
+                        <DetailRow
+                            label="Contact"
+                            value={disposal.recipientContact}
+                        />
+                        <DetailRow
+                            label="Sale Value"
+                            value={
+                                disposal.saleValue !== undefined &&
+                                disposal.saleValue !== null
+                                    ? Number(disposal.saleValue).toFixed(2)
+                                    : undefined
+                            }
+                        />
+                        <DetailRow
+                            label="Their Reference"
+                            value={disposal.reference}
+                        />
+                        {disposal.notes && (
+                            <div>
+                                <div className="text-xs text-gray-500">
+                                    Notes
+                                </div>
+                                <p className="text-sm whitespace-pre-line">
+                                    {disposal.notes}
+                                </p>
+                            </div>
+                        )}
+                    </Card>
+
+                    {disposal.dataWipeMethod && (
+                        <Card>
+                            <h5 className="mb-4">Data Destruction</h5>
+                            <DetailRow
+                                label="Method"
+                                value={
+                                    dataWipeMethodLabels[
+                                        disposal.dataWipeMethod
+                                    ]
+                                }
+                            />
+                            <DetailRow
+                                label="Performed By"
+                                value={disposal.dataWipedBy}
+                            />
+                            <ul className="space-y-1 text-sm">
+                                {requiredDataWipeChecks(
+                                    disposal.dataWipeMethod,
+                                ).map((check) => (
+                                    <li
+                                        key={check}
+                                        className="flex items-center gap-2"
+                                    >
+                                        {disposal.dataWipeChecks.includes(
+                                            check,
+                                        ) ? (
+                                            <HiOutlineCheckCircle className="text-emerald-600" />
+                                        ) : (
+                                            <HiOutlineXCircle className="text-red-600" />
+                                        )}
+                                        {dataWipeCheckLabels[check]}
+                                    </li>
+                                ))}
+                            </ul>
+                        </Card>
+                    )}
+                </div>
+            </div>
+        </AdaptableCard>
+    )
+}
+
+export default DisposalDetails
@@ -0,0 +1,508 @@
+import dayjs from 'dayjs'
+import { useQueryClient } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import { Field, Form, Formik } from 'formik'
+import * as Yup from 'yup'
+import {
+    Alert,
+    Button,
+    Checkbox,
+    DatePicker,
+    Dialog,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Select,
+    toast,
+} from '@/components/ui'
+import { apiCreateDisposal } from '@/services/DisposalService'
+import {
+    dataWipeCheckLabels,
+    dataWipeMethodLabels,
+    disposalReasonOptions,
+    disposalReasons,
+    requiredDataWipeChecks,
+} from './disposalReasons'
+import type {
+    DataWipeCheck,
+    DataWipeMethod,
+    DisposalReason,
+} from '@/services/DisposalService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+export interface DisposalCandidate {
+    id: number
+    serialNumber?: string
+    status: string
+    productName?: string
+}
+
+interface DisposalDialogProps {
+    items: DisposalCandidate[]
+    /** Preselected reason, e.g. SCRAPPED for units written off at offboarding */
+    initialReason?: DisposalReason
+    onClose: () => void
+}
+
+interface DisposalFormValues {
+    reason: DisposalReason | ''
+    disposedAt: Date
+    recipientName: string
+    recipientContact: string
+    saleValue: string
+    reference: string
+    dataWipeMethod: DataWipeMethod | ''
+    dataWipeChecks: DataWipeCheck[]
+    dataWipedBy: string
+    notes: string
+}
+
+const methodOptions = (
+    Object.keys(dataWipeMethodLabels) as DataWipeMethod[]
+).map((method) => ({ value: method, label: dataWipeMethodLabels[method] }))
+
+const reasonConfig = (reason: DisposalFormValues['reason']) =>
+    reason ? disposalReasons[reason] : undefined
+
+const validationSchema = Yup.object().shape({
+    reason: Yup.string().required('Pick a reason'),
+    recipientName: Yup.string()
+        .trim()
+        .when('reason', {
+            is: (reason: DisposalFormValues['reason']) =>
+                !!reasonConfig(reason)?.recipientLabel,
+            then: (schema) => schema.required('Record who received the items'),
+        }),
+    saleValue: Yup.number()
+        .transform((value, original) => (original === '' ? undefined : value))
+        .min(0, 'Sale value cannot be negative')
+        .when('reason', {
+            is: 'SOLD',
+            then: (schema) => schema.required('Enter the sale value'),
+        }),
+    dataWipeMethod: Yup.string().when('reason', {
+        is: (reason: DisposalFormValues['reason']) =>
+            !!reasonConfig(reason)?.requiresDataWipe,
+        then: (schema) => schema.required('Pick how data was destroyed'),
+    }),
+    dataWipeChecks: Yup.array().when(['reason', 'dataWipeMethod'], {
+        is: (
+            reason: DisposalFormValues['reason'],
+            method: DisposalFormValues['dataWipeMethod'],
+        ) => !!reasonConfig(reason)?.requiresDataWipe && !!method,
+        then: (schema) =>
+            schema.test(
+                'all-checked',
+                'Every step has to be confirmed before disposal',
+                (checks, context) =>
+                    requiredDataWipeChecks(context.parent.dataWipeMethod).every(
+                        (check) =>
+                            (checks as DataWipeCheck[] | undefined)?.includes(
+                                check,
+                            ),
+                    ),
+            ),
+    }),
+    dataWipedBy: Yup.string()
+        .trim()
+        .when(['reason', 'dataWipeMethod'], {
+            is: (
+                reason: DisposalFormValues['reason'],
+                method: DisposalFormValues['dataWipeMethod'],
+            ) =>
+                !!reasonConfig(reason)?.requiresDataWipe &&
+                !!method &&
+                method !== 'NO_STORAGE',
+            then: (schema) => schema.required('Who destroyed the data?'),
+        }),
+    notes: Yup.string()
+        .trim()
+        .when('reason', {
+            is: 'LOST',
+            then: (schema) =>
+                schema.required('Describe how and when the items were lost'),
+        }),
+})
+
+const DataWipeChecklist = ({
+    method,
+    value,
+    onChange,
+}: {
+    method: DataWipeMethod
+    value: DataWipeCheck[]
+    onChange: (checks: DataWipeCheck[]) => void
+}) => (
+    <div className="flex flex-col gap-2">
+        {requiredDataWipeChecks(method).map((check) => (
+            <Checkbox
+                key={check}
+                checked={value.includes(check)}
+                onChange={(checked) =>
+                    onChange(
+                        checked
+                            ? [...value, check]
+                            : value.filter((c) => c !== check),
+                    )
+                }
+            >
+                {dataWipeCheckLabels[check]}
+            </Checkbox>
+        ))}
+    </div>
+)
+
+const DisposalDialog = ({
+    items,
+    initialReason,
+    onClose,
+}: DisposalDialogProps) => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const assignedItems = items.filter((item) => item.status === 'ASSIGNED')
+    const disposableItems = items.filter((item) => item.status !== 'ASSIGNED')
+
+    const initialValues: DisposalFormValues = {
+        reason: initialReason || '',
+        disposedAt: new Date(),
+        recipientName: '',
+        recipientContact: '',
+        saleValue: '',
+        reference: '',
+        dataWipeMethod: '',
+        dataWipeChecks: [],
+        dataWipedBy: '',
+        notes: '',
+    }
+
+    const handleSubmit = async (values: DisposalFormValues) => {
+        const config = disposalReasons[values.reason as DisposalReason]
+        try {
+            const response = await apiCreateDisposal({
+                inventoryIds: disposableItems.map((item) => item.id),
+                reason: values.reason as DisposalReason,
+                disposedAt: dayjs(values.disposedAt).format('YYYY-MM-DD'),
+                recipientName: config.recipientLabel
+                    ? values.recipientName.trim()
+                    : undefined,
+                recipientContact: values.recipientContact.trim() || undefined,
+                saleValue:
+                    config.hasSaleValue && values.saleValue !== ''
+                        ? Number(values.saleValue)
+                        : undefined,
+                reference: values.reference.trim() || undefined,
+                ...(config.requiresDataWipe
+                    ? {
+                          dataWipeMethod:
+                              values.dataWipeMethod as DataWipeMethod,
+                          // Ticks left over from another method are dropped
+                          dataWipeChecks: values.dataWipeChecks.filter(
+                              (check) =>
+                                  requiredDataWipeChecks(
+                                      values.dataWipeMethod as DataWipeMethod,
+                                  ).includes(check),
+                          ),
+                          dataWipedBy: values.dataWipedBy.trim() || undefined,
+                      }
+                    : { dataWipeChecks: [] }),
+                notes: values.notes.trim() || undefined,
+            })
+            toast.push(
+                <Notification title="Success" type="success">
+                    {disposableItems.length} item
+                    {disposableItems.length !== 1 ? 's' : ''} disposed
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['product'] })
+            queryClient.invalidateQueries({ queryKey: ['products'] })
+            queryClient.invalidateQueries({ queryKey: ['disposals'] })
+            onClose()
+            navigate(`/disposals/view/${response.data.data.id}`)
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to record the disposal'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <Dialog isOpen width={640} onClose={onClose} onRequestClose={onClose}>
+            <div className="max-h-[80vh] overflow-y-auto pr-2">
+                <h5 className="mb-4">
+                    Dispose of {disposableItems.length} item
+                    {disposableItems.length !== 1 ? 's' : ''}
+                </h5>
+
+                <div className="mb-4 p-3 rounded bg-gray-50 dark:bg-gray-700 max-h-32 overflow-y-auto text-sm">
+                    {disposableItems.map((item) => (
+                        <div key={item.id}>
+                            {item.productName || `Item #${item.id}`}
+                            <span className="text-gray-500">
+                                {' '}
+                                · SN: {item.serialNumber || 'N/A'}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+                {assignedItems.length > 0 && (
+                    <Alert showIcon type="warning" className="mb-4">
+                        {assignedItems.length} assigned item
+                        {assignedItems.length !== 1 ? 's are' : ' is'} left out.
+                        Return {assignedItems.length !== 1 ? 'them' : 'it'}{' '}
+                        before disposal.
+                    </Alert>
+                )}
+
+                <Formik
+                    initialValues={initialValues}
+                    validationSchema={validationSchema}
+                    onSubmit={handleSubmit}
+                >
+                    {({
+                        values,
+                        touched,
+                        errors,
+                        isSubmitting,
+                        setFieldValue,
+                    }) => {
+                        const config = reasonConfig(values.reason)
+                        return (
+                            <Form>
+                                <FormContainer>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <FormItem
+                                            label="Reason"
+                                            invalid={
+                                                !!errors.reason &&
+                                                touched.reason
+                                            }
+                                            errorMessage={errors.reason}
+                                        >
+                                            <Select
+                                                placeholder="Why is it leaving?"
+                                                options={disposalReasonOptions}
+                                                value={
+                                                    disposalReasonOptions.find(
+                                                        (option) =>
+                                                            option.value ===
+                                                            values.reason,
+                                                    ) || null
+                                                }
+                                                onChange={(option) =>
+                                                    setFieldValue(
+                                                        'reason',
+                                                        option?.value || '',
+                                                    )
+                                                }
+                                            />
+                                        </FormItem>
+                                        <FormItem label="Disposal Date">
+                                            <DatePicker
+                                                clearable={false}
+                                                value={values.disposedAt}
+                                                maxDate={new Date()}
+                                                onChange={(date) =>
+                                                    setFieldValue(
+                                                        'disposedAt',
+                                                        date || new Date(),
+                                                    )
+                                                }
+                                            />
+                                        </FormItem>
+                                        {config?.recipientLabel && (
+                                            <>
+                                                <FormItem
+                                                    label={
+                                                        config.recipientLabel
+                                                    }
+                                                    invalid={
+                                                        !!errors.recipientName &&
+                                                        touched.recipientName
+                                                    }
+                                                    errorMessage={
+                                                        errors.recipientName
+                                                    }
+                                                >
+                                                    <Field
+                                                        name="recipientName"
+                                                        placeholder="Company or person"
+                                                        component={Input}
+                                                    />
+                                                </FormItem>
+                                                <FormItem label="Contact">
+                                                    <Field
+                                                        name="recipientContact"
+                                                        placeholder="Email, phone or address"
+                                                        component={Input}
+                                                    />
+                                                </FormItem>
+                                            </>
+                                        )}
+                                        {config?.hasSaleValue && (
+                                            <FormItem
+                                                label="Sale Value"
+                                                invalid={
+                                                    !!errors.saleValue &&
+                                                    touched.saleValue
+                                                }
+                                                errorMessage={errors.saleValue}
+                                            >
+                                                <Field
+                                                    type="number"
+                                                    name="saleValue"
+                                                    min="0"
+                                                    placeholder="0.00"
+                                                    component={Input}
+                                                />
+                                            </FormItem>
+                                        )}
+                                        {config?.recipientLabel && (
+                                            <FormItem label="Their Reference">
+                                                <Field
+                                                    name="reference"
+                                                    placeholder="Invoice or destruction certificate no."
+                                                    component={Input}
+                                                />
+                                            </FormItem>
+                                        )}
+                                    </div>
+
+                                    {config?.requiresDataWipe && (
+                                        <div className="p-4 mb-4 border rounded dark:border-gray-600">
+                                            <h6 className="mb-3">
+                                                Data Destruction
+                                            </h6>
+                                            <FormItem
+                                                label="Method"
+                                                invalid={
+                                                    !!errors.dataWipeMethod &&
+                                                    touched.dataWipeMethod
+                                                }
+                                                errorMessage={
+                                                    errors.dataWipeMethod
+                                                }
+                                            >
+                                                <Select
+                                                    placeholder="How was data destroyed?"
+                                                    options={methodOptions}
+                                                    value={
+                                                        methodOptions.find(
+                                                            (option) =>
+                                                                option.value ===
+                                                                values.dataWipeMethod,
+                                                        ) || null
+                                                    }
+                                                    onChange={(option) =>
+                                                        setFieldValue(
+                                                            'dataWipeMethod',
+                                                            option?.value || '',
+                                                        )
+                                                    }
+                                                />
+                                            </FormItem>
+                                            {values.dataWipeMethod && (
+                                                <>
+                                                    <FormItem
+                                                        invalid={
+                                                            !!errors.dataWipeChecks
+                                                        }
+                                                        errorMessage={
+                                                            errors.dataWipeChecks as string
+                                                        }
+                                                    >
+                                                        <DataWipeChecklist
+                                                            method={
+                                                                values.dataWipeMethod
+                                                            }
+                                                            value={
+                                                                values.dataWipeChecks
+                                                            }
+                                                            onChange={(
+                                                                checks,
+                                                            ) =>
+                                                                setFieldValue(
+                                                                    'dataWipeChecks',
+                                                                    checks,
+                                                                )
+                                                            }
+                                                        />
+                                                    </FormItem>
+                                                    {values.dataWipeMethod !==
+                                                        'NO_STORAGE' && (
+                                                        <FormItem
+                                                            label="Performed By"
+                                                            invalid={
+                                                                !!errors.dataWipedBy &&
+                                                                touched.dataWipedBy
+                                                            }
+                                                            errorMessage={
+                                                                errors.dataWipedBy
+                                                            }
+                                                        >
+                                                            <Field
+                                                                name="dataWipedBy"
+                                                                placeholder="Technician or recycler"
+                                                                component={
+                                                                    Input
+                                                                }
+                                                            />
+                                                        </FormItem>
+                                                    )}
+                                                </>
+                                            )}
+                                        </div>
+                                    )}
+
+                                    <FormItem
+                                        label="Notes"
+                                        invalid={
+                                            !!errors.notes && touched.notes
+                                        }
+                                        errorMessage={errors.notes}
+                                    >
+                                        <Field
+                                            textArea
+                                            name="notes"
+                                            placeholder={
+                                                values.reason === 'LOST'
+                                                    ? 'How and when were the items lost? Police or insurance reference...'
+                                                    : 'Anything auditors should know'
+                                            }
+                                            component={Input}
+                                        />
+                                    </FormItem>
+
+                                    <div className="flex justify-end gap-2">
+                                        <Button type="button" onClick={onClose}>
+                                            Cancel
+                                        </Button>
+                                        <Button
+                                            variant="solid"
+                                            color="red"
+                                            type="submit"
+                                            loading={isSubmitting}
+                                            disabled={
+                                                disposableItems.length === 0
+                                            }
+                                        >
+                                            Dispose
+                                        </Button>
+                                    </div>
+                                </FormContainer>
+                            </Form>
+                        )
+                    }}
+                </Formik>
+            </div>
+        </Dialog>
+    )
+}
+
+export default DisposalDialog
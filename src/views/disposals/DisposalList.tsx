@@ -0,0 +1,18 @@
+import { AdaptableCard } from '@/components/shared'
+import DisposalTable from './DisposalTable'
+
+const DisposalList = () => {
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Disposals</h3>
+                <span className="text-sm text-gray-500">
+                    Dispose of items from the inventory table on a product page
+                </span>
+            </div>
+            <DisposalTable />
+        </AdaptableCard>
+    )
+}
+
+export default DisposalList
@@ -0,0 +1,151 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import { HiOutlineEye } from 'react-icons/hi'
+import { DataTable } from '@/components/shared'
+import { Input, Select } from '@/components/ui'
+import { apiGetDisposals } from '@/services/DisposalService'
+import { disposalReasonOptions, disposalReasons } from './disposalReasons'
+import type { ColumnDef } from '@/components/shared'
+import type { Disposal, DisposalReason } from '@/services/DisposalService'
+
+const DisposalTable = () => {
+    const navigate = useNavigate()
+
+    const [reason, setReason] = useState<DisposalReason>()
+    const [search, setSearch] = useState('')
+    const [pagination, setPagination] = useState({ page: 1, limit: 10 })
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['disposals', pagination, reason, search],
+        queryFn: () =>
+            apiGetDisposals({
+                page: pagination.page,
+                limit: pagination.limit,
+                reason,
+                search: search.trim() || undefined,
+            }),
+    })
+
+    const columns: ColumnDef<Disposal>[] = useMemo(
+        () => [
+            {
+                header: 'Disposal',
+                accessorKey: 'disposalNumber',
+                cell: (props) => (
+                    <span className="font-semibold">
+                        {props.row.original.disposalNumber}
+                    </span>
+                ),
+            },
+            {
+                header: 'Date',
+                accessorKey: 'disposedAt',
+                cell: (props) =>
+                    dayjs(props.row.original.disposedAt).format('DD MMM YYYY'),
+            },
+            {
+                header: 'Reason',
+                accessorKey: 'reason',
+                cell: (props) =>
+                    disposalReasons[props.row.original.reason].label,
+            },
+            {
+                header: 'Items',
+                id: 'items',
+                cell: (props) => props.row.original.items?.length ?? 0,
+            },
+            {
+                header: 'Recipient',
+                accessorKey: 'recipientName',
+                cell: (props) => props.row.original.recipientName || '-',
+            },
+            {
+                header: 'Sale Value',
+                accessorKey: 'saleValue',
+                cell: (props) =>
+                    props.row.original.saleValue !== undefined &&
+                    props.row.original.saleValue !== null
+                        ? Number(props.row.original.saleValue).toFixed(2)
+                        : '-',
+            },
+            {
+                header: '',
+                id: 'action',
+                cell: (props) => (
+                    <div className="flex justify-end text-lg">
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            onClick={() =>
+                                navigate(
+                                    `/disposals/view/${props.row.original.id}`,
+                                )
+                            }
+                        >
+                            <HiOutlineEye />
+                        </span>
+                    </div>
+                ),
+            },
+        ],
+        [navigate],
+    )
+
+    if (error) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Error: {error.message}</span>
+            </div>
+        )
+    }
+
+    return (
+        <>
+            <div className="flex flex-col lg:flex-row gap-2 mb-4">
+                <Input
+                    size="sm"
+                    className="max-w-md"
+                    placeholder="Search disposal number, recipient or serial..."
+                    value={search}
+                    onChange={(e) => {
+                        setSearch(e.target.value)
+                        setPagination((prev) => ({ ...prev, page: 1 }))
+                    }}
+                />
+                <Select
+                    isClearable
+                    size="sm"
+                    className="min-w-[200px]"
+                    placeholder="All reasons"
+                    options={disposalReasonOptions}
+                    value={
+                        disposalReasonOptions.find((o) => o.value === reason) ||
+                        null
+                    }
+                    onChange={(option) => {
+                        setReason(option?.value)
+                        setPagination((prev) => ({ ...prev, page: 1 }))
+                    }}
+                />
+            </div>
+
+            <DataTable
+                columns={columns}
+                data={data?.data?.data || []}
+                loading={isLoading}
+                pagingData={{
+                    total: data?.data?.pagination?.total || 0,
+                    pageIndex: pagination.page,
+                    pageSize: pagination.limit,
+                }}
+                onPaginationChange={(page) =>
+                    setPagination((prev) => ({ ...prev, page }))
+                }
+                onSelectChange={(limit) => setPagination({ page: 1, limit })}
+            />
+        </>
+    )
+}
+
+export default DisposalTable
@@ -0,0 +1,157 @@
+import dayjs from 'dayjs'
+import { escapeHtml } from '@/views/products/labels/labelSheet'
+import {
+    dataWipeCheckLabels,
+    dataWipeMethodLabels,
+    disposalReasons,
+    requiredDataWipeChecks,
+} from './disposalReasons'
+import type { Disposal } from '@/services/DisposalService'
+
+const metaRow = (label: string, value?: string) =>
+    value
+        ? `<div><span>${escapeHtml(label)}:</span> ${escapeHtml(value)}</div>`
+        : ''
+
+const dataWipeSection = (disposal: Disposal) => {
+    if (!disposal.dataWipeMethod) {
+        return ''
+    }
+    const checks = requiredDataWipeChecks(disposal.dataWipeMethod)
+        .map(
+            (check) =>
+                `<li>${
+                    disposal.dataWipeChecks.includes(check)
+                        ? '&#9745;'
+                        : '&#9744;'
+                } ${escapeHtml(dataWipeCheckLabels[check])}</li>`,
+        )
+        .join('')
+
+    return `
+        <h2>Data Destruction</h2>
+        <div class="meta">
+          ${metaRow('Method', dataWipeMethodLabels[disposal.dataWipeMethod])}
+          ${metaRow('Performed by', disposal.dataWipedBy)}
+        </div>
+        <ul class="checks">${checks}</ul>`
+}
+
+/**
+ * Printable proof of disposal for auditors, printed (or saved as PDF)
+ * through the browser like the other documents.
+ */
+export const buildDisposalCertificateHtml = (disposal: Disposal) => {
+    const reason = disposalReasons[disposal.reason]
+    const rows = disposal.items
+        .map(
+            (item, index) => `
+                <tr>
+                    <td>${index + 1}</td>
+                    <td>${escapeHtml(
+                        item.inventory?.product?.name ||
+                            `Item #${item.inventoryId}`,
+                    )}</td>
+                    <td>${escapeHtml(item.inventory?.product?.model || '')}</td>
+                    <td>${escapeHtml(item.inventory?.serialNumber || '-')}</td>
+                    <td class="num">${
+                        item.inventory?.purchasePrice !== undefined &&
+                        item.inventory.purchasePrice !== null
+                            ? Number(item.inventory.purchasePrice).toFixed(2)
+                            : '-'
+                    }</td>
+                </tr>`,
+        )
+        .join('')
+
+    return `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Disposal Certificate ${escapeHtml(
+                disposal.disposalNumber,
+            )}</title>
+            <style>
+              @page { size: A4; margin: 15mm; }
+              body { font-family: Arial, sans-serif; font-size: 11pt; color: #111; }
+              h1 { font-size: 18pt; margin: 0 0 4mm; }
+              h2 { font-size: 13pt; margin: 8mm 0 3mm; }
+              .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 1mm 8mm; margin-bottom: 4mm; }
+              .meta span { color: #555; }
+              table { width: 100%; border-collapse: collapse; }
+              th, td { border: 1px solid #999; padding: 2mm; text-align: left; }
+              th { background: #f0f0f0; }
+              .num { text-align: right; }
+              .checks { list-style: none; padding: 0; margin: 0; }
+              .checks li { margin-bottom: 1mm; }
+              .notes { margin-top: 6mm; white-space: pre-line; }
+              .declaration { margin-top: 8mm; }
+              .signatures { display: flex; gap: 20mm; margin-top: 20mm; }
+              .signature { flex: 1; border-top: 1px solid #111; padding-top: 2mm; }
+            </style>
+          </head>
+          <body onload="window.print()">
+            <h1>Certificate of Disposal ${escapeHtml(
+                disposal.disposalNumber,
+            )}</h1>
+            <div class="meta">
+              ${metaRow('Reason', reason.label)}
+              ${metaRow(
+                  'Disposal date',
+                  dayjs(disposal.disposedAt).format('DD MMM YYYY'),
+              )}
+              ${metaRow(
+                  reason.recipientLabel || 'Recipient',
+                  disposal.recipientName,
+              )}
+              ${metaRow('Contact', disposal.recipientContact)}
+              ${metaRow(
+                  'Sale value',
+                  disposal.saleValue !== undefined &&
+                      disposal.saleValue !== null
+                      ? Number(disposal.saleValue).toFixed(2)
+                      : undefined,
+              )}
+              ${metaRow('Recipient reference', disposal.reference)}
+              ${metaRow('Recorded by', disposal.createdBy?.username)}
+            </div>
+            <h2>Items (${disposal.items.length})</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Product</th>
+                  <th>Model</th>
+                  <th>Serial Number</th>
+                  <th class="num">Purchase Price</th>
+                </tr>
+              </thead>
+              <tbody>${rows}</tbody>
+            </table>
+            ${dataWipeSection(disposal)}
+            ${
+                disposal.notes
+                    ? `<div class="notes"><strong>Notes:</strong> ${escapeHtml(
+                          disposal.notes,
+                      )}</div>`
+                    : ''
+            }
+            <p class="declaration">
+              The items listed above have been removed from the asset register
+              ${
+                  disposal.dataWipeMethod &&
+                  disposal.dataWipeMethod !== 'NO_STORAGE'
+                      ? 'and all data held on them has been destroyed '
+                      : ''
+              }as recorded in this certificate.
+            </p>
+            <div class="signatures">
+              <div class="signature">Disposed by</div>
+              <div class="signature">${escapeHtml(
+                  reason.recipientLabel || 'Witness',
+              )}</div>
+            </div>
+          </body>
+        </html>
+      `
+}
@@ -0,0 +1,70 @@
+import type {
+    DataWipeCheck,
+    DataWipeMethod,
+    DisposalReason,
+} from '@/services/DisposalService'
+
+interface ReasonConfig {
+    label: string
+    /** Label for who received the items; omitted when nobody did */
+    recipientLabel?: string
+    hasSaleValue: boolean
+    /** Whether data destruction has to be confirmed */
+    requiresDataWipe: boolean
+}
+
+export const disposalReasons: Record<DisposalReason, ReasonConfig> = {
+    END_OF_LIFE: {
+        label: 'End of life',
+        recipientLabel: 'Recycler',
+        hasSaleValue: false,
+        requiresDataWipe: true,
+    },
+    SOLD: {
+        label: 'Sold',
+        recipientLabel: 'Buyer',
+        hasSaleValue: true,
+        requiresDataWipe: true,
+    },
+    DONATED: {
+        label: 'Donated',
+        recipientLabel: 'Recipient organisation',
+        hasSaleValue: false,
+        requiresDataWipe: true,
+    },
+    SCRAPPED: {
+        label: 'Scrapped',
+        recipientLabel: 'Recycler',
+        hasSaleValue: false,
+        requiresDataWipe: true,
+    },
+    LOST: {
+        label: 'Lost',
+        hasSaleValue: false,
+        requiresDataWipe: false,
+    },
+}
+
+export const disposalReasonOptions = (
+    Object.keys(disposalReasons) as DisposalReason[]
+).map((reason) => ({ value: reason, label: disposalReasons[reason].label }))
+
+export const dataWipeMethodLabels: Record<DataWipeMethod, string> = {
+    SOFTWARE_WIPE: 'Certified software wipe',
+    PHYSICAL_DESTRUCTION: 'Physical destruction of storage',
+    FACTORY_RESET: 'Factory reset (phones and tablets)',
+    NO_STORAGE: 'No data storage',
+}
+
+export const dataWipeCheckLabels: Record<DataWipeCheck, string> = {
+    STORAGE_WIPED: 'All drives and memory cards wiped or destroyed',
+    ACCOUNTS_REMOVED: 'Removed from MDM, directory and user accounts',
+    LICENCES_RECLAIMED: 'Software licences reclaimed',
+    LABELS_REMOVED: 'Asset tags and company markings removed',
+}
+
+/** Checks that must be ticked for the chosen wipe method */
+export const requiredDataWipeChecks = (method?: DataWipeMethod) =>
+    (Object.keys(dataWipeCheckLabels) as DataWipeCheck[]).filter(
+        (check) => method !== 'NO_STORAGE' || check !== 'STORAGE_WIPED',
+    )
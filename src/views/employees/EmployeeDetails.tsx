@@ -0,0 +1,385 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import {
+    HiOutlineArrowLeft,
+    HiOutlineLogout,
+    HiOutlinePencil,
+    HiOutlinePrinter,
+    HiPlus,
+} from 'react-icons/hi'
+import { MdAssignmentReturn } from 'react-icons/md'
+import { AdaptableCard, DataTable, Loading } from '@/components/shared'
+import { Button, Card, Notification, Tabs, toast } from '@/components/ui'
+import { apiGetEmployee } from '@/services/EmployeeService.ts'
+import { apiGetEmployeeAssignments } from '@/services/ProductService'
+import {
+    openPrintWindow,
+    writePrintWindow,
+} from '@/views/products/labels/labelSheet'
+import ReturnInspectionDialog from '@/views/products/returns/ReturnInspectionDialog'
+import { buildAssetStatementHtml } from './assetStatement'
+import {
+    assignmentPrice,
+    assignmentsValue,
+    isAssignmentOverdue,
+} from './employeeAssets'
+import type { ColumnDef } from '@/components/shared'
+import type { ReturnInspectionTarget } from '@/views/products/returns/ReturnInspectionDialog'
+import type { StatementEmployee } from './assetStatement'
+import type { EmployeeAssignment } from './employeeAssets'
+
+interface EmployeeProfile extends StatementEmployee {
+    id: number
+    email?: string
+}
+
+const formatDate = (date?: string) =>
+    date ? dayjs(date).format('DD MMM YYYY') : '-'
+
+const EmployeeDetails = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+    const employeeId = Number(id)
+
+    const [activeTab, setActiveTab] = useState('current')
+    const [returning, setReturning] = useState<ReturnInspectionTarget | null>(
+        null,
+    )
+
+    const { data: employee, isLoading } = useQuery({
+        queryKey: ['employee', id],
+        queryFn: async () => {
+            const response = await apiGetEmployee(id as string)
+            return (response.data as { data?: EmployeeProfile }).data ?? null
+        },
+        enabled: !!id,
+    })
+
+    const { data: current = [], isLoading: isLoadingCurrent } = useQuery({
+        queryKey: ['employee-assignments', employeeId, 'active'],
+        queryFn: async () => {
+            const response = await apiGetEmployeeAssignments(employeeId, true)
+            return (response.data as { data?: EmployeeAssignment[] }).data || []
+        },
+        enabled: !!id,
+    })
+
+    const { data: history = [], isLoading: isLoadingHistory } = useQuery({
+        queryKey: ['employee-assignments', employeeId, 'history'],
+        queryFn: async () => {
+            const response = await apiGetEmployeeAssignments(employeeId, false)
+            return (
+                (response.data as { data?: EmployeeAssignment[] }).data || []
+            ).filter((assignment) => !!assignment.returnedAt)
+        },
+        enabled: !!id,
+    })
+
+    const overdue = current.filter(isAssignmentOverdue)
+    const totalValue = assignmentsValue(current)
+
+    const currentColumns: ColumnDef<EmployeeAssignment>[] = useMemo(
+        () => [
+            {
+                header: 'Product',
+                id: 'product',
+                cell: (props) => (
+                    <div>
+                        <span
+                            className="font-semibold cursor-pointer hover:underline"
+                            onClick={() =>
+                                navigate(
+                                    `/products/view/${props.row.original.product.id}`,
+                                )
+                            }
+                        >
+                            {props.row.original.product.name}
+                        </span>
+                        <div className="text-xs text-gray-500">
+                            {props.row.original.product.model}
+                        </div>
+                    </div>
+                ),
+            },
+            {
+                header: 'Serial Number',
+                id: 'serialNumber',
+                cell: (props) => (
+                    <span className="font-mono">
+                        {props.row.original.inventory?.serialNumber || 'N/A'}
+                    </span>
+                ),
+            },
+            {
+                header: 'Assigned',
+                accessorKey: 'assignedAt',
+                cell: (props) => formatDate(props.row.original.assignedAt),
+            },
+            {
+                header: 'Expected Return',
+                accessorKey: 'expectedReturnAt',
+                cell: (props) =>
+                    isAssignmentOverdue(props.row.original) ? (
+                        <span className="font-semibold text-red-600">
+                            {formatDate(props.row.original.expectedReturnAt)}{' '}
+                            (overdue)
+                        </span>
+                    ) : (
+                        formatDate(props.row.original.expectedReturnAt)
+                    ),
+            },
+            {
+                header: 'Value',
+                id: 'value',
+                cell: (props) =>
+                    assignmentPrice(props.row.original)?.toFixed(2) ?? '-',
+            },
+            {
+                header: '',
+                id: 'action',
+                cell: (props) => (
+                    <div className="flex justify-end gap-2">
+                        <Button
+                            size="xs"
+                            onClick={() =>
+                                navigate(
+                                    `/assignments/${props.row.original.id}`,
+                                )
+                            }
+                        >
+                            View
+                        </Button>
+                        <Button
+                            size="xs"
+                            icon={<MdAssignmentReturn />}
+                            onClick={() =>
+                                setReturning({
+                                    id: props.row.original.id,
+                                    productName:
+                                        props.row.original.product.name,
+                                    inventoryInfo:
+                                        props.row.original.inventory
+                                            ?.serialNumber ||
+                                        `Item #${props.row.original.inventory?.id}`,
+                                    categoryId:
+                                        props.row.original.product.category?.id,
+                                })
+                            }
+                        >
+                            Return
+                        </Button>
+                    </div>
+                ),
+            },
+        ],
+        [navigate],
+    )
+
+    const historyColumns: ColumnDef<EmployeeAssignment>[] = useMemo(
+        () => [
+            {
+                header: 'Product',
+                id: 'product',
+                cell: (props) => (
+                    <span
+                        className="font-semibold cursor-pointer hover:underline"
+                        onClick={() =>
+                            navigate(`/assignments/${props.row.original.id}`)
+                        }
+                    >
+                        {props.row.original.product.name}
+                    </span>
+                ),
+            },
+            {
+                header: 'Serial Number',
+                id: 'serialNumber',
+                cell: (props) =>
+                    props.row.original.inventory?.serialNumber || 'N/A',
+            },
+            {
+                header: 'Assigned',
+                accessorKey: 'assignedAt',
+                cell: (props) => formatDate(props.row.original.assignedAt),
+            },
+            {
+                header: 'Returned',
+                accessorKey: 'returnedAt',
+                cell: (props) => formatDate(props.row.original.returnedAt),
+            },
+            {
+                header: 'Condition',
+                accessorKey: 'returnCondition',
+                cell: (props) => props.row.original.returnCondition || '-',
+            },
+        ],
+        [navigate],
+    )
+
+    const handlePrintStatement = () => {
+        if (!employee) {
+            return
+        }
+        const printWindow = openPrintWindow('Generating statement...')
+        if (!printWindow) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    Allow pop-ups to print the statement
+                </Notification>,
+            )
+            return
+        }
+        writePrintWindow(
+            printWindow,
+            buildAssetStatementHtml(employee, current),
+        )
+    }
+
+    if (isLoading) {
+        return <Loading loading />
+    }
+
+    if (!employee) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Employee not found</span>
+            </div>
+        )
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3>{employee.name}</h3>
+                    <p className="text-gray-500">
+                        {employee.empId}
+                        {employee.position ? ` · ${employee.position}` : ''}
+                        {employee.department ? ` · ${employee.department}` : ''}
+                    </p>
+                    {employee.email && (
+                        <a
+                            className="text-indigo-600 hover:underline"
+                            href={`mailto:${employee.email}`}
+                        >
+                            {employee.email}
+                        </a>
+                    )}
+                </div>
+                <div className="flex flex-wrap gap-2 mt-4 lg:mt-0">
+                    <Button
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineArrowLeft />}
+                        onClick={() => navigate('/employees')}
+                    >
+                        Back
+                    </Button>
+                    <Button
+                        size="sm"
+                        icon={<HiOutlinePencil />}
+                        onClick={() =>
+                            navigate(`/employees/edit/${employee.id}`)
+                        }
+                    >
+                        Edit
+                    </Button>
+                    <Button
+                        size="sm"
+                        icon={<HiOutlinePrinter />}
+                        disabled={isLoadingCurrent}
+                        onClick={handlePrintStatement}
+                    >
+                        Print Statement
+                    </Button>
+                    <Button
+                        size="sm"
+                        icon={<HiOutlineLogout />}
+                        onClick={() =>
+                            navigate(`/employees/offboard/${employee.id}`)
+                        }
+                    >
+                        Offboard
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="solid"
+                        icon={<HiPlus />}
+                        onClick={() =>
+                            navigate(
+                                `/assignments/bulk?employeeId=${employee.id}`,
+                            )
+                        }
+                    >
+                        Assign
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                <Card>
+                    <div className="text-gray-500">Assets Held</div>
+                    <h4>{current.length}</h4>
+                </Card>
+                <Card>
+                    <div className="text-gray-500">Overdue</div>
+                    <h4 className={overdue.length > 0 ? 'text-red-600' : ''}>
+                        {overdue.length}
+                    </h4>
+                </Card>
+                <Card>
+                    <div className="text-gray-500">Total Value</div>
+                    <h4>{totalValue.toFixed(2)}</h4>
+                </Card>
+            </div>
+
+            <Tabs value={activeTab} onChange={setActiveTab}>
+                <Tabs.TabList>
+                    <Tabs.TabNav value="current">
+                        Current Assets ({current.length})
+                    </Tabs.TabNav>
+                    <Tabs.TabNav value="overdue">
+                        Overdue ({overdue.length})
+                    </Tabs.TabNav>
+                    <Tabs.TabNav value="history">
+                        History ({history.length})
+                    </Tabs.TabNav>
+                </Tabs.TabList>
+                <div className="pt-4">
+                    <Tabs.TabContent value="current">
+                        <DataTable
+                            columns={currentColumns}
+                            data={current}
+                            loading={isLoadingCurrent}
+                        />
+                    </Tabs.TabContent>
+                    <Tabs.TabContent value="overdue">
+                        <DataTable
+                            columns={currentColumns}
+                            data={overdue}
+                            loading={isLoadingCurrent}
+                        />
+                    </Tabs.TabContent>
+                    <Tabs.TabContent value="history">
+                        <DataTable
+                            columns={historyColumns}
+                            data={history}
+                            loading={isLoadingHistory}
+                        />
+                    </Tabs.TabContent>
+                </div>
+            </Tabs>
+
+            {returning && (
+                <ReturnInspectionDialog
+                    assignment={returning}
+                    onClose={() => setReturning(null)}
+                />
+            )}
+        </AdaptableCard>
+    )
+}
+
+export default EmployeeDetails
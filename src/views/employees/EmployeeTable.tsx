@@ -1,6 +1,6 @@
 import { useState, useMemo, useRef } from 'react'
 import DataTable from '@/components/shared/DataTable'
-import { HiOutlineEye, HiOutlinePencil } from 'react-icons/hi'
+import { HiOutlineEye, HiOutlineLogout, HiOutlinePencil } from 'react-icons/hi'
 import useThemeClass from '@/utils/hooks/useThemeClass'
 import { useNavigate } from 'react-router-dom'
 import type { DataTableResetHandle, ColumnDef } from '@/components/shared/DataTable'
@@ -106,6 +106,13 @@ const EmployeeTable = () => {
                         >
                             <HiOutlinePencil />
                         </span>
+                        <span
+                            className={`cursor-pointer p-2 hover:${textTheme}`}
+                            title="Offboard"
+                            onClick={() => navigate(`/employees/offboard/${props.row.original.id}`)}
+                        >
+                            <HiOutlineLogout />
+                        </span>
                     </div>
                 )
             },
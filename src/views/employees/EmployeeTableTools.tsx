@@ -1,5 +1,5 @@
 import { Button } from '@/components/ui'
-import { HiPlusCircle } from 'react-icons/hi'
+import { HiOutlineUpload, HiPlusCircle } from 'react-icons/hi'
 import { useNavigate } from 'react-router-dom'
 
 const EmployeeTableTools = () => {
@@ -7,6 +7,13 @@ const EmployeeTableTools = () => {
 
     return (
         <div className="flex flex-col lg:flex-row lg:items-center gap-2">
+            <Button
+                size="sm"
+                icon={<HiOutlineUpload />}
+                onClick={() => navigate('/employees/import')}
+            >
+                Import
+            </Button>
             <Button
                 variant="solid"
                 size="sm"
@@ -0,0 +1,121 @@
+import dayjs from 'dayjs'
+import { escapeHtml } from '@/views/products/labels/labelSheet'
+import {
+    assignmentPrice,
+    assignmentsValue,
+    isAssignmentOverdue,
+} from './employeeAssets'
+import type { EmployeeAssignment } from './employeeAssets'
+
+export interface StatementEmployee {
+    empId: string
+    name: string
+    department?: string
+    position?: string
+}
+
+const formatDate = (date?: string) =>
+    date ? dayjs(date).format('DD MMM YYYY') : '-'
+
+/** What an employee currently holds, for them to check and sign */
+export const buildAssetStatementHtml = (
+    employee: StatementEmployee,
+    assignments: EmployeeAssignment[],
+) => {
+    const total = assignmentsValue(assignments)
+    const rows = assignments
+        .map(
+            (assignment, index) => `
+                <tr>
+                    <td>${index + 1}</td>
+                    <td>${escapeHtml(assignment.product.name)}</td>
+                    <td>${escapeHtml(assignment.product.model || '')}</td>
+                    <td>${escapeHtml(
+                        assignment.inventory?.serialNumber || '-',
+                    )}</td>
+                    <td>${formatDate(assignment.assignedAt)}</td>
+                    <td${
+                        isAssignmentOverdue(assignment)
+                            ? ' class="overdue"'
+                            : ''
+                    }>${formatDate(assignment.expectedReturnAt)}${
+                        isAssignmentOverdue(assignment) ? ' (overdue)' : ''
+                    }</td>
+                    <td class="num">${
+                        assignmentPrice(assignment)?.toFixed(2) ?? '-'
+                    }</td>
+                </tr>`,
+        )
+        .join('')
+
+    return `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Asset Statement - ${escapeHtml(employee.name)}</title>
+            <style>
+              @page { size: A4; margin: 15mm; }
+              body { font-family: Arial, sans-serif; font-size: 11pt; color: #111; }
+              h1 { font-size: 18pt; margin: 0 0 4mm; }
+              .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 1mm 8mm; margin-bottom: 6mm; }
+              .meta span { color: #555; }
+              table { width: 100%; border-collapse: collapse; }
+              th, td { border: 1px solid #999; padding: 2mm; text-align: left; }
+              th { background: #f0f0f0; }
+              .num { text-align: right; }
+              .overdue { color: #b91c1c; }
+              tfoot td { font-weight: bold; }
+              .statement { margin-top: 8mm; }
+              .signatures { display: flex; gap: 20mm; margin-top: 20mm; }
+              .signature { flex: 1; border-top: 1px solid #111; padding-top: 2mm; }
+            </style>
+          </head>
+          <body onload="window.print()">
+            <h1>Asset Statement</h1>
+            <div class="meta">
+              <div><span>Employee:</span> ${escapeHtml(employee.name)}</div>
+              <div><span>Employee ID:</span> ${escapeHtml(employee.empId)}</div>
+              <div><span>Department:</span> ${escapeHtml(
+                  employee.department || '-',
+              )}</div>
+              <div><span>Position:</span> ${escapeHtml(
+                  employee.position || '-',
+              )}</div>
+              <div><span>Date:</span> ${dayjs().format('DD MMM YYYY')}</div>
+            </div>
+            ${
+                assignments.length > 0
+                    ? `<table>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Product</th>
+                  <th>Model</th>
+                  <th>Serial Number</th>
+                  <th>Assigned</th>
+                  <th>Expected Return</th>
+                  <th class="num">Value</th>
+                </tr>
+              </thead>
+              <tbody>${rows}</tbody>
+              <tfoot>
+                <tr>
+                  <td colspan="6">Total value</td>
+                  <td class="num">${total.toFixed(2)}</td>
+                </tr>
+              </tfoot>
+            </table>`
+                    : '<p>No company assets are currently assigned.</p>'
+            }
+            <p class="statement">
+              I confirm that the list above is complete and that I hold these
+              items.
+            </p>
+            <div class="signatures">
+              <div class="signature">Prepared by</div>
+              <div class="signature">Employee</div>
+            </div>
+          </body>
+        </html>
+      `
+}
@@ -0,0 +1,45 @@
+import dayjs from 'dayjs'
+import type { OffboardingResolution } from './offboarding/offboardingResolutions'
+
+/** An assignment as returned by the per-employee assignments endpoint */
+export interface EmployeeAssignment {
+    id: number
+    status: string
+    assignedAt: string
+    expectedReturnAt?: string
+    returnedAt?: string
+    returnCondition?: string
+    /** Set when the assignment was closed by the offboarding wizard */
+    offboardingResolution?: OffboardingResolution
+    pcName?: string
+    product: {
+        id: number
+        name: string
+        model?: string
+        category?: { id: number; name: string }
+    }
+    inventory?: {
+        id: number
+        serialNumber?: string
+        /** Decimal columns can come back as strings */
+        purchasePrice?: number | string | null
+    }
+}
+
+export const isAssignmentOverdue = (assignment: EmployeeAssignment) =>
+    !assignment.returnedAt &&
+    !!assignment.expectedReturnAt &&
+    dayjs(assignment.expectedReturnAt).isBefore(dayjs(), 'day')
+
+/** The unit's purchase price as a number, or undefined when not recorded */
+export const assignmentPrice = (assignment: EmployeeAssignment) => {
+    const price = assignment.inventory?.purchasePrice
+    return price === undefined || price === null ? undefined : Number(price)
+}
+
+/** Purchase value of the units; items without a recorded price count as 0 */
+export const assignmentsValue = (assignments: EmployeeAssignment[]) =>
+    assignments.reduce(
+        (sum, assignment) => sum + (assignmentPrice(assignment) ?? 0),
+        0,
+    )
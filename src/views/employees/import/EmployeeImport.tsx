@@ -0,0 +1,645 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+    HiOutlineArrowLeft,
+    HiOutlineDocumentDownload,
+    HiOutlineUpload,
+} from 'react-icons/hi'
+import {
+    AdaptableCard,
+    ColumnMapper,
+    DataTable,
+    SpreadsheetUpload,
+} from '@/components/shared'
+import {
+    Alert,
+    Button,
+    Checkbox,
+    Notification,
+    Progress,
+    Segment,
+    Steps,
+    toast,
+} from '@/components/ui'
+import {
+    apiCreateEmployee,
+    apiGetAllEmployees,
+    apiUpdateEmployee,
+} from '@/services/EmployeeService.ts'
+import autoMapColumns from '@/utils/autoMapColumns'
+import downloadSpreadsheet from '@/utils/downloadSpreadsheet'
+import paginate from '@/utils/paginate'
+import { employeeImportFields } from './employeeImportFields'
+import { buildEmployeeImport } from './buildEmployeeImport'
+import type { ColumnDef } from '@/components/shared'
+import type { ColumnMapping } from '@/utils/autoMapColumns'
+import type { SpreadsheetData } from '@/utils/readSpreadsheet'
+import type { EmployeeImportField } from './employeeImportFields'
+import type {
+    EmployeeImportAction,
+    EmployeeImportRow,
+} from './buildEmployeeImport'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+type ApplyStatus = 'Created' | 'Updated' | 'Unchanged' | 'Failed'
+
+interface ApplyResult {
+    row: EmployeeImportRow
+    status: ApplyStatus
+    message: string
+}
+
+type ActionFilter = EmployeeImportAction | 'all'
+
+enum ImportStep {
+    Upload,
+    MapColumns,
+    Review,
+    Results,
+}
+
+const PAGE_SIZE = 25
+const APPLY_BATCH_SIZE = 5
+
+const actionLabels: Record<EmployeeImportAction, string> = {
+    create: 'Create',
+    update: 'Update',
+    unchanged: 'Unchanged',
+    error: 'Error',
+}
+
+const actionClassMap: Record<EmployeeImportAction, string> = {
+    create: 'text-emerald-600',
+    update: 'text-blue-600',
+    unchanged: 'text-gray-500',
+    error: 'text-red-600',
+}
+
+const statusClassMap: Record<ApplyStatus, string> = {
+    Created: 'text-emerald-600',
+    Updated: 'text-blue-600',
+    Unchanged: 'text-gray-500',
+    Failed: 'text-red-600',
+}
+
+const downloadTemplate = () => {
+    downloadSpreadsheet(
+        [
+            {
+                'Employee ID': 'EMP001',
+                Name: 'Jane Doe',
+                Email: 'jane.doe@example.com',
+                Department: 'Finance',
+                Position: 'Accountant',
+            },
+        ],
+        'employee-import-template.csv',
+    )
+}
+
+const editableFields = employeeImportFields.map((field) => field.key)
+
+const applyRow = async (row: EmployeeImportRow): Promise<ApplyResult> => {
+    if (row.action === 'create') {
+        const resp = await apiCreateEmployee({
+            empId: row.empId,
+            name: row.values.name as string,
+            email: row.values.email,
+            department: row.values.department,
+            position: row.values.position,
+        })
+        return resp.success
+            ? { row, status: 'Created', message: 'Employee created' }
+            : {
+                  row,
+                  status: 'Failed',
+                  message: resp.message || 'Failed to create employee',
+              }
+    }
+
+    if (row.action === 'update' && row.existing) {
+        try {
+            // PUT replaces the record, so send all of it as EmployeeEdit does
+            const existing = row.existing
+            await apiUpdateEmployee(String(existing.id), {
+                ...Object.fromEntries(
+                    editableFields.map((field) => [
+                        field,
+                        existing[field] ?? '',
+                    ]),
+                ),
+                ...Object.fromEntries(
+                    row.changes.map((change) => [change.field, change.to]),
+                ),
+            })
+            return {
+                row,
+                status: 'Updated',
+                message: row.changes.map((c) => c.label).join(', '),
+            }
+        } catch (error) {
+            return {
+                row,
+                status: 'Failed',
+                message:
+                    (error as ApiError).response?.data?.message ||
+                    'Failed to update employee',
+            }
+        }
+    }
+
+    return { row, status: 'Unchanged', message: 'No changes' }
+}
+
+const EmployeeImport = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [step, setStep] = useState(ImportStep.Upload)
+    const [sheet, setSheet] = useState<SpreadsheetData | null>(null)
+    const [fileName, setFileName] = useState('')
+    const [mapping, setMapping] = useState<ColumnMapping<EmployeeImportField>>(
+        {},
+    )
+    const [filter, setFilter] = useState<ActionFilter>('all')
+    const [applyCreates, setApplyCreates] = useState(true)
+    const [applyUpdates, setApplyUpdates] = useState(true)
+    const [page, setPage] = useState(1)
+    const [isApplying, setIsApplying] = useState(false)
+    const [applyProgress, setApplyProgress] = useState(0)
+    const [results, setResults] = useState<ApplyResult[]>([])
+
+    const {
+        data: employees = [],
+        isLoading: isLoadingEmployees,
+        error: employeesError,
+    } = useQuery({
+        queryKey: ['employees-all'],
+        queryFn: apiGetAllEmployees,
+        enabled: step === ImportStep.Review,
+    })
+
+    const rows = useMemo(
+        () =>
+            sheet && step >= ImportStep.Review && !isLoadingEmployees
+                ? buildEmployeeImport(sheet.rows, mapping, employees)
+                : [],
+        [sheet, step, mapping, employees, isLoadingEmployees],
+    )
+
+    const counts = useMemo(() => {
+        const byAction: Record<ActionFilter, number> = {
+            all: rows.length,
+            create: 0,
+            update: 0,
+            unchanged: 0,
+            error: 0,
+        }
+        rows.forEach((row) => byAction[row.action]++)
+        return byAction
+    }, [rows])
+
+    const filteredRows =
+        filter === 'all' ? rows : rows.filter((row) => row.action === filter)
+    const rowsToApply = rows.filter(
+        (row) =>
+            (applyCreates && row.action === 'create') ||
+            (applyUpdates && row.action === 'update'),
+    )
+
+    const missingRequired = employeeImportFields.filter(
+        (field) => field.required && !mapping[field.key],
+    )
+
+    const handleLoaded = (data: SpreadsheetData, file: File) => {
+        setSheet(data)
+        setFileName(file.name)
+        setMapping(autoMapColumns(employeeImportFields, data.headers))
+        setStep(ImportStep.MapColumns)
+    }
+
+    const goToReview = () => {
+        // Always compare against the latest directory, not a cached copy
+        queryClient.removeQueries({ queryKey: ['employees-all'] })
+        setFilter('all')
+        setPage(1)
+        setStep(ImportStep.Review)
+    }
+
+    const handleApply = async () => {
+        setIsApplying(true)
+        setApplyProgress(0)
+
+        const applied: ApplyResult[] = []
+        for (let i = 0; i < rowsToApply.length; i += APPLY_BATCH_SIZE) {
+            const batch = rowsToApply.slice(i, i + APPLY_BATCH_SIZE)
+            applied.push(...(await Promise.all(batch.map(applyRow))))
+            setApplyProgress(
+                Math.round(
+                    (Math.min(i + APPLY_BATCH_SIZE, rowsToApply.length) /
+                        rowsToApply.length) *
+                        100,
+                ),
+            )
+        }
+
+        const appliedRows = new Set(applied.map((result) => result.row))
+        const allResults = [
+            ...applied,
+            ...rows
+                .filter((row) => !appliedRows.has(row))
+                .map(
+                    (row): ApplyResult =>
+                        row.action === 'error'
+                            ? {
+                                  row,
+                                  status: 'Failed',
+                                  message: row.errors.join('; '),
+                              }
+                            : {
+                                  row,
+                                  status: 'Unchanged',
+                                  message:
+                                      row.action === 'unchanged'
+                                          ? 'No changes'
+                                          : `Skipped (${actionLabels[
+                                                row.action
+                                            ].toLowerCase()})`,
+                              },
+                ),
+        ].sort((a, b) => a.row.rowNumber - b.row.rowNumber)
+
+        setResults(allResults)
+        setIsApplying(false)
+        setPage(1)
+        setStep(ImportStep.Results)
+        queryClient.invalidateQueries({ queryKey: ['employees'] })
+        queryClient.removeQueries({ queryKey: ['employees-all'] })
+
+        const failed = applied.filter((r) => r.status === 'Failed').length
+        toast.push(
+            <Notification
+                title="Import finished"
+                type={failed > 0 ? 'warning' : 'success'}
+            >
+                {applied.length - failed} of {applied.length} changes applied
+            </Notification>,
+        )
+    }
+
+    const failedResults = results.filter((r) => r.status === 'Failed')
+
+    // Original columns plus the reason, so HR can fix the rows and re-upload
+    const handleDownloadErrors = () => {
+        downloadSpreadsheet(
+            failedResults.map(({ row, message }) => ({
+                Row: row.rowNumber,
+                ...row.source,
+                Error: message,
+            })),
+            `employee-import-errors-${
+                new Date().toISOString().split('T')[0]
+            }.csv`,
+        )
+    }
+
+    const resetWizard = () => {
+        setSheet(null)
+        setFileName('')
+        setMapping({})
+        setResults([])
+        setStep(ImportStep.Upload)
+    }
+
+    const reviewColumns: ColumnDef<EmployeeImportRow>[] = [
+        {
+            header: 'Row',
+            accessorKey: 'rowNumber',
+        },
+        {
+            header: 'Employee',
+            cell: (props) => (
+                <div>
+                    <span className="font-semibold">
+                        {props.row.original.values.name ||
+                            props.row.original.existing?.name ||
+                            '-'}
+                    </span>
+                    <div className="text-xs text-gray-500">
+                        {props.row.original.empId || '-'}
+                    </div>
+                </div>
+            ),
+        },
+        {
+            header: 'Action',
+            cell: (props) => (
+                <span
+                    className={`font-semibold ${
+                        actionClassMap[props.row.original.action]
+                    }`}
+                >
+                    {actionLabels[props.row.original.action]}
+                </span>
+            ),
+        },
+        {
+            header: 'Details',
+            cell: (props) => {
+                const { action, changes, errors, values } = props.row.original
+                if (action === 'error') {
+                    return (
+                        <ul className="text-xs text-red-600 list-disc list-inside">
+                            {errors.map((error) => (
+                                <li key={error}>{error}</li>
+                            ))}
+                        </ul>
+                    )
+                }
+                if (action === 'update') {
+                    return (
+                        <ul className="text-xs">
+                            {changes.map((change) => (
+                                <li key={change.field}>
+                                    <span className="font-semibold">
+                                        {change.label}:
+                                    </span>{' '}
+                                    <span className="text-gray-500 line-through">
+                                        {change.from || 'empty'}
+                                    </span>{' '}
+                                    → {change.to}
+                                </li>
+                            ))}
+                        </ul>
+                    )
+                }
+                if (action === 'create') {
+                    return (
+                        <span className="text-xs text-gray-500">
+                            {[values.email, values.department, values.position]
+                                .filter(Boolean)
+                                .join(' · ')}
+                        </span>
+                    )
+                }
+                return null
+            },
+        },
+    ]
+
+    const resultColumns: ColumnDef<ApplyResult>[] = [
+        {
+            header: 'Row',
+            cell: (props) => props.row.original.row.rowNumber,
+        },
+        {
+            header: 'Employee',
+            cell: (props) => (
+                <div>
+                    <span className="font-semibold">
+                        {props.row.original.row.values.name ||
+                            props.row.original.row.existing?.name ||
+                            '-'}
+                    </span>
+                    <div className="text-xs text-gray-500">
+                        {props.row.original.row.empId || '-'}
+                    </div>
+                </div>
+            ),
+        },
+        {
+            header: 'Status',
+            cell: (props) => (
+                <span
+                    className={`font-semibold ${
+                        statusClassMap[props.row.original.status]
+                    }`}
+                >
+                    {props.row.original.status}
+                </span>
+            ),
+        },
+        {
+            header: 'Message',
+            cell: (props) => (
+                <span className="text-sm">{props.row.original.message}</span>
+            ),
+        },
+    ]
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Import Employees</h3>
+                <Button
+                    size="sm"
+                    variant="plain"
+                    icon={<HiOutlineArrowLeft />}
+                    onClick={() => navigate('/employees')}
+                >
+                    Back to employees
+                </Button>
+            </div>
+
+            <Steps current={step} className="mb-8">
+                <Steps.Item title="Upload" />
+                <Steps.Item title="Map Columns" />
+                <Steps.Item title="Review" />
+                <Steps.Item title="Results" />
+            </Steps>
+
+            {step === ImportStep.Upload && (
+                <SpreadsheetUpload
+                    tip="Rows are matched to existing employees by Employee ID. Blank cells keep the current value."
+                    onLoaded={handleLoaded}
+                    onDownloadTemplate={downloadTemplate}
+                />
+            )}
+
+            {step === ImportStep.MapColumns && sheet && (
+                <div className="space-y-4">
+                    <p className="text-gray-500">
+                        {fileName}: {sheet.rows.length} data row
+                        {sheet.rows.length !== 1 ? 's' : ''}. Choose which
+                        column holds each field.
+                    </p>
+                    <ColumnMapper
+                        fields={employeeImportFields}
+                        headers={sheet.headers}
+                        mapping={mapping}
+                        sampleRow={sheet.rows[0]?.values}
+                        onChange={setMapping}
+                    />
+                    {missingRequired.length > 0 && (
+                        <Alert showIcon type="warning">
+                            Map the required fields:{' '}
+                            {missingRequired.map((f) => f.label).join(', ')}
+                        </Alert>
+                    )}
+                    <div className="flex justify-between">
+                        <Button onClick={resetWizard}>
+                            Choose another file
+                        </Button>
+                        <Button
+                            variant="solid"
+                            disabled={missingRequired.length > 0}
+                            onClick={goToReview}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {step === ImportStep.Review && (
+                <div className="space-y-4">
+                    {employeesError ? (
+                        <Alert showIcon type="danger">
+                            Could not load the current employee list to compare
+                            against. Try again later.
+                        </Alert>
+                    ) : (
+                        <>
+                            <Segment
+                                size="sm"
+                                value={[filter]}
+                                onChange={(val) => {
+                                    setFilter(val[0] as ActionFilter)
+                                    setPage(1)
+                                }}
+                            >
+                                <Segment.Item value="all">
+                                    All ({counts.all})
+                                </Segment.Item>
+                                {(
+                                    Object.keys(
+                                        actionLabels,
+                                    ) as EmployeeImportAction[]
+                                ).map((action) => (
+                                    <Segment.Item key={action} value={action}>
+                                        {actionLabels[action]} ({counts[action]}
+                                        )
+                                    </Segment.Item>
+                                ))}
+                            </Segment>
+
+                            <DataTable
+                                columns={reviewColumns}
+                                data={paginate(filteredRows, PAGE_SIZE, page)}
+                                loading={isLoadingEmployees}
+                                pagingData={{
+                                    total: filteredRows.length,
+                                    pageIndex: page,
+                                    pageSize: PAGE_SIZE,
+                                }}
+                                pageSizes={[PAGE_SIZE]}
+                                onPaginationChange={setPage}
+                            />
+
+                            <div className="flex flex-wrap gap-6">
+                                <Checkbox
+                                    checked={applyCreates}
+                                    onChange={setApplyCreates}
+                                >
+                                    Create {counts.create} new employee
+                                    {counts.create !== 1 ? 's' : ''}
+                                </Checkbox>
+                                <Checkbox
+                                    checked={applyUpdates}
+                                    onChange={setApplyUpdates}
+                                >
+                                    Update {counts.update} existing employee
+                                    {counts.update !== 1 ? 's' : ''}
+                                </Checkbox>
+                            </div>
+
+                            {isApplying && <Progress percent={applyProgress} />}
+                        </>
+                    )}
+
+                    <div className="flex justify-between">
+                        <Button
+                            disabled={isApplying}
+                            onClick={() => setStep(ImportStep.MapColumns)}
+                        >
+                            Back
+                        </Button>
+                        <Button
+                            variant="solid"
+                            icon={<HiOutlineUpload />}
+                            loading={isApplying}
+                            disabled={rowsToApply.length === 0}
+                            onClick={handleApply}
+                        >
+                            Apply {rowsToApply.length} change
+                            {rowsToApply.length !== 1 ? 's' : ''}
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {step === ImportStep.Results && (
+                <div className="space-y-4">
+                    <div className="flex flex-wrap gap-6">
+                        {(Object.keys(statusClassMap) as ApplyStatus[]).map(
+                            (status) => (
+                                <div key={status}>
+                                    <span
+                                        className={`text-2xl font-bold ${statusClassMap[status]}`}
+                                    >
+                                        {
+                                            results.filter(
+                                                (r) => r.status === status,
+                                            ).length
+                                        }
+                                    </span>
+                                    <span className="ml-2 text-gray-500">
+                                        {status}
+                                    </span>
+                                </div>
+                            ),
+                        )}
+                    </div>
+
+                    <DataTable
+                        columns={resultColumns}
+                        data={paginate(results, PAGE_SIZE, page)}
+                        pagingData={{
+                            total: results.length,
+                            pageIndex: page,
+                            pageSize: PAGE_SIZE,
+                        }}
+                        pageSizes={[PAGE_SIZE]}
+                        onPaginationChange={setPage}
+                    />
+
+                    <div className="flex justify-between">
+                        <Button onClick={resetWizard}>
+                            Import another file
+                        </Button>
+                        <div className="flex gap-2">
+                            <Button
+                                icon={<HiOutlineDocumentDownload />}
+                                disabled={failedResults.length === 0}
+                                onClick={handleDownloadErrors}
+                            >
+                                Download error report ({failedResults.length})
+                            </Button>
+                            <Button
+                                variant="solid"
+                                onClick={() => navigate('/employees')}
+                            >
+                                Go to employees
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </AdaptableCard>
+    )
+}
+
+export default EmployeeImport
@@ -0,0 +1,132 @@
+import { employeeImportFields } from './employeeImportFields'
+import type { ColumnMapping } from '@/utils/autoMapColumns'
+import type { EmployeeRecord } from '@/services/EmployeeService.ts'
+import type { SpreadsheetRow } from '@/utils/readSpreadsheet'
+import type { EmployeeImportField } from './employeeImportFields'
+
+export type EmployeeImportAction = 'create' | 'update' | 'unchanged' | 'error'
+
+export interface EmployeeFieldChange {
+    field: EmployeeImportField
+    label: string
+    from: string
+    to: string
+}
+
+export interface EmployeeImportRow {
+    rowNumber: number
+    /** Values exactly as they appear in the file, for the error report */
+    source: Record<string, string>
+    empId: string
+    values: Partial<Record<EmployeeImportField, string>>
+    action: EmployeeImportAction
+    existing?: EmployeeRecord
+    changes: EmployeeFieldChange[]
+    errors: string[]
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const normalizeEmpId = (value: string) => value.trim().toLowerCase()
+
+/**
+ * Compares every row with the current employee list. Blank cells never
+ * clear an existing value, so partial exports only touch what they contain.
+ */
+export const buildEmployeeImport = (
+    sheetRows: SpreadsheetRow[],
+    mapping: ColumnMapping<EmployeeImportField>,
+    employees: EmployeeRecord[],
+): EmployeeImportRow[] => {
+    const employeesByEmpId = new Map(
+        employees.map((employee) => [normalizeEmpId(employee.empId), employee]),
+    )
+
+    const rows = sheetRows.map(({ rowNumber, values: source }) => {
+        const values: Partial<Record<EmployeeImportField, string>> = {}
+        employeeImportFields.forEach(({ key }) => {
+            const header = mapping[key]
+            const value = header ? (source[header] ?? '').trim() : ''
+            if (value) {
+                values[key] = value
+            }
+        })
+
+        const empId = values.empId || ''
+        const existing = empId
+            ? employeesByEmpId.get(normalizeEmpId(empId))
+            : undefined
+        const errors: string[] = []
+
+        if (!empId) {
+            errors.push('Employee ID is required')
+        }
+        if (!existing && !values.name) {
+            errors.push('Name is required for new employees')
+        }
+        if (values.email && !EMAIL_PATTERN.test(values.email)) {
+            errors.push(`"${values.email}" is not a valid email`)
+        }
+
+        const changes: EmployeeFieldChange[] = existing
+            ? employeeImportFields
+                  .filter(
+                      ({ key }) =>
+                          key !== 'empId' &&
+                          values[key] !== undefined &&
+                          values[key] !== (existing[key] || ''),
+                  )
+                  .map(({ key, label }) => ({
+                      field: key,
+                      label,
+                      from: existing[key] || '',
+                      to: values[key] as string,
+                  }))
+            : []
+
+        let action: EmployeeImportAction = 'create'
+        if (errors.length > 0) {
+            action = 'error'
+        } else if (existing) {
+            action = changes.length > 0 ? 'update' : 'unchanged'
+        }
+
+        return {
+            rowNumber,
+            source,
+            empId,
+            values,
+            action,
+            existing,
+            changes,
+            errors,
+        }
+    })
+
+    // The same employee ID twice in one file is ambiguous, so neither row applies
+    const rowsByEmpId = new Map<string, number[]>()
+    rows.forEach((row) => {
+        if (row.empId) {
+            const key = normalizeEmpId(row.empId)
+            rowsByEmpId.set(key, [
+                ...(rowsByEmpId.get(key) || []),
+                row.rowNumber,
+            ])
+        }
+    })
+    rows.forEach((row) => {
+        const others = (
+            rowsByEmpId.get(normalizeEmpId(row.empId)) || []
+        ).filter((rowNumber) => rowNumber !== row.rowNumber)
+        if (row.empId && others.length > 0) {
+            row.errors.push(
+                `Employee ID "${row.empId}" is also used in row ${others.join(
+                    ', ',
+                )}`,
+            )
+            row.action = 'error'
+        }
+    })
+
+    return rows
+}
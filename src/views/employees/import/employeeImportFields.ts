@@ -0,0 +1,39 @@
+import type { ImportFieldDefinition } from '@/utils/autoMapColumns'
+
+export type EmployeeImportField =
+    | 'empId'
+    | 'name'
+    | 'email'
+    | 'department'
+    | 'position'
+
+export const employeeImportFields: ImportFieldDefinition<EmployeeImportField>[] =
+    [
+        {
+            key: 'empId',
+            label: 'Employee ID',
+            required: true,
+            aliases: ['emp id', 'employee no', 'employee number', 'staff id'],
+        },
+        {
+            key: 'name',
+            label: 'Name',
+            required: true,
+            aliases: ['employee name', 'full name'],
+        },
+        {
+            key: 'email',
+            label: 'Email',
+            aliases: ['email address', 'e-mail', 'work email'],
+        },
+        {
+            key: 'department',
+            label: 'Department',
+            aliases: ['dept', 'team'],
+        },
+        {
+            key: 'position',
+            label: 'Position',
+            aliases: ['title', 'job title', 'designation', 'role'],
+        },
+    ]
@@ -0,0 +1,552 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+    HiOutlineArrowLeft,
+    HiOutlineBadgeCheck,
+    HiOutlinePrinter,
+} from 'react-icons/hi'
+import { AdaptableCard, ConfirmDialog, Loading } from '@/components/shared'
+import {
+    Alert,
+    Button,
+    Input,
+    Notification,
+    Segment,
+    Select,
+    Steps,
+    Table,
+    toast,
+} from '@/components/ui'
+import { apiCreateDisposal } from '@/services/DisposalService'
+import { apiGetEmployee } from '@/services/EmployeeService.ts'
+import {
+    apiGetEmployeeAssignments,
+    apiReturnProduct,
+} from '@/services/ProductService'
+import DisposalDialog from '@/views/disposals/DisposalDialog'
+import {
+    openPrintWindow,
+    writePrintWindow,
+} from '@/views/products/labels/labelSheet'
+import {
+    buildClearanceCertificateHtml,
+    clearanceCertificateNumber,
+    clearanceDate,
+    toClearedItem,
+} from './clearanceCertificate'
+import {
+    defaultItemResolution,
+    lostDisposalPayload,
+    offboardingResolutionClassMap,
+    offboardingResolutionLabels,
+    returnedConditionOptions,
+    toReturnPayload,
+} from './offboardingResolutions'
+import { isAssignmentOverdue } from '../employeeAssets'
+import type { EmployeeAssignment } from '../employeeAssets'
+import type { ClearanceEmployee } from './clearanceCertificate'
+import type { DisposalCandidate } from '@/views/disposals/DisposalDialog'
+import type {
+    ItemResolution,
+    OffboardingResolution,
+} from './offboardingResolutions'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const resolutionOptions = Object.keys(
+    offboardingResolutionLabels,
+) as OffboardingResolution[]
+
+const EmployeeOffboarding = () => {
+    const { id } = useParams<{ id: string }>()
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [resolutions, setResolutions] = useState<
+        Record<number, ItemResolution>
+    >({})
+    const [errors, setErrors] = useState<Record<number, string>>({})
+    const [toScrap, setToScrap] = useState<DisposalCandidate[]>([])
+    const [disposalOpen, setDisposalOpen] = useState(false)
+    const [isProcessing, setIsProcessing] = useState(false)
+    const [confirmOpen, setConfirmOpen] = useState(false)
+
+    const { data: employee, isLoading: isLoadingEmployee } = useQuery({
+        queryKey: ['employee', id],
+        queryFn: async () => {
+            const response = await apiGetEmployee(id as string)
+            return (response.data as { data?: ClearanceEmployee }).data ?? null
+        },
+        enabled: !!id,
+    })
+
+    const {
+        data: outstanding = [],
+        isLoading: isLoadingAssignments,
+        refetch,
+    } = useQuery({
+        queryKey: ['employee-assignments', Number(id), 'active'],
+        queryFn: async () => {
+            const response = await apiGetEmployeeAssignments(Number(id), true)
+            return (response.data as { data?: EmployeeAssignment[] }).data || []
+        },
+        enabled: !!id,
+    })
+
+    // The certificate is built from the outcomes stored with each return, so
+    // it can be reprinted after a reload or for an offboarding finished earlier
+    const {
+        data: history = [],
+        isLoading: isLoadingHistory,
+        refetch: refetchHistory,
+    } = useQuery({
+        queryKey: ['employee-assignments', Number(id), 'history'],
+        queryFn: async () => {
+            const response = await apiGetEmployeeAssignments(Number(id), false)
+            return (
+                (response.data as { data?: EmployeeAssignment[] }).data || []
+            ).filter((assignment) => !!assignment.returnedAt)
+        },
+        enabled: !!id,
+    })
+    const offboarded = history.filter(
+        (assignment) => !!assignment.offboardingResolution,
+    )
+    const cleared = offboarded.map(toClearedItem)
+    const clearedAt = clearanceDate(offboarded)
+
+    const resolutionFor = (assignmentId: number) =>
+        resolutions[assignmentId] || defaultItemResolution
+
+    const updateResolution = (
+        assignmentId: number,
+        changes: Partial<ItemResolution>,
+    ) =>
+        setResolutions((prev) => ({
+            ...prev,
+            [assignmentId]: { ...resolutionFor(assignmentId), ...changes },
+        }))
+
+    const unrecoveredCount = outstanding.filter(
+        (assignment) => resolutionFor(assignment.id).resolution !== 'RETURNED',
+    ).length
+
+    // One at a time, so a failure on one item leaves the rest untouched
+    const handleProcess = async () => {
+        setConfirmOpen(false)
+        setIsProcessing(true)
+        const failures: Record<number, string> = {}
+        let clearedCount = 0
+        const writtenOff: DisposalCandidate[] = []
+        const unrecorded: string[] = []
+
+        for (const assignment of outstanding) {
+            const resolution = resolutionFor(assignment.id)
+            try {
+                await apiReturnProduct(
+                    assignment.id,
+                    toReturnPayload(resolution),
+                )
+                if (assignment.inventory) {
+                    if (resolution.resolution === 'LOST') {
+                        // The assignment is already closed, so a failure here
+                        // is only reported; the unit can be disposed of later
+                        await apiCreateDisposal(
+                            lostDisposalPayload(
+                                assignment.inventory.id,
+                                resolution,
+                            ),
+                        ).catch(() => unrecorded.push(assignment.product.name))
+                    } else if (resolution.resolution === 'WRITTEN_OFF') {
+                        writtenOff.push({
+                            id: assignment.inventory.id,
+                            serialNumber: assignment.inventory.serialNumber,
+                            status: 'DAMAGED',
+                            productName: assignment.product.name,
+                        })
+                    }
+                }
+                clearedCount++
+            } catch (error) {
+                failures[assignment.id] =
+                    (error as ApiError).response?.data?.message ||
+                    'Failed to clear this item'
+            }
+        }
+
+        setToScrap((prev) => [...prev, ...writtenOff])
+        setErrors(failures)
+        setIsProcessing(false)
+
+        const failedCount = Object.keys(failures).length
+        toast.push(
+            failedCount > 0 ? (
+                <Notification title="Partly cleared" type="warning">
+                    {clearedCount} cleared, {failedCount} failed
+                </Notification>
+            ) : (
+                <Notification title="Success" type="success">
+                    All items cleared
+                </Notification>
+            ),
+        )
+        if (unrecorded.length > 0) {
+            toast.push(
+                <Notification title="Disposal not recorded" type="warning">
+                    Record the loss of {unrecorded.join(', ')} from the product
+                    page
+                </Notification>,
+            )
+        }
+        if (writtenOff.length > 0) {
+            setDisposalOpen(true)
+        }
+        queryClient.invalidateQueries({ queryKey: ['active-assignments'] })
+        queryClient.invalidateQueries({ queryKey: ['products'] })
+        refetch()
+        refetchHistory()
+    }
+
+    const handlePrintCertificate = () => {
+        if (!employee) {
+            return
+        }
+        const printWindow = openPrintWindow('Generating certificate...')
+        if (!printWindow) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    Allow pop-ups to print the certificate
+                </Notification>,
+            )
+            return
+        }
+        writePrintWindow(
+            printWindow,
+            buildClearanceCertificateHtml(employee, cleared, clearedAt),
+        )
+    }
+
+    const isCleared =
+        !isLoadingAssignments && !isLoadingHistory && outstanding.length === 0
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="mb-1">Offboarding</h3>
+                    {employee && (
+                        <p className="text-gray-500">
+                            {employee.name} ({employee.empId})
+                            {employee.department
+                                ? ` · ${employee.department}`
+                                : ''}
+                        </p>
+                    )}
+                </div>
+                <Button
+                    size="sm"
+                    variant="plain"
+                    icon={<HiOutlineArrowLeft />}
+                    onClick={() => navigate('/employees')}
+                >
+                    Back to employees
+                </Button>
+            </div>
+
+            <Steps current={isCleared ? 1 : 0} className="mb-8">
+                <Steps.Item title="Outstanding Items" />
+                <Steps.Item title="Clearance" />
+            </Steps>
+
+            <Loading
+                loading={
+                    isLoadingEmployee ||
+                    isLoadingAssignments ||
+                    isLoadingHistory
+                }
+            >
+                {!employee ? (
+                    <Alert showIcon type="danger">
+                        Employee not found
+                    </Alert>
+                ) : isCleared ? (
+                    <div className="max-w-2xl">
+                        <Alert showIcon type="success" className="mb-4">
+                            {employee.name} has no company assets outstanding.
+                        </Alert>
+                        {cleared.length > 0 && (
+                            <div className="border rounded-lg overflow-hidden mb-4 dark:border-gray-600">
+                                <Table>
+                                    <thead>
+                                        <tr>
+                                            <th>Product</th>
+                                            <th>Serial Number</th>
+                                            <th>Outcome</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {cleared.map((item) => (
+                                            <tr key={item.assignmentId}>
+                                                <td>{item.productName}</td>
+                                                <td className="font-mono">
+                                                    {item.serialNumber || '-'}
+                                                </td>
+                                                <td
+                                                    className={
+                                                        offboardingResolutionClassMap[
+                                                            item.resolution
+                                                        ]
+                                                    }
+                                                >
+                                                    {
+                                                        offboardingResolutionLabels[
+                                                            item.resolution
+                                                        ]
+                                                    }
+                                                    {item.condition &&
+                                                        ` (${item.condition.toLowerCase()})`}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </Table>
+                            </div>
+                        )}
+                        {toScrap.length > 0 && (
+                            <Alert showIcon type="warning" className="mb-4">
+                                <div>
+                                    {toScrap.length} written-off unit
+                                    {toScrap.length !== 1
+                                        ? 's are'
+                                        : ' is'}{' '}
+                                    held as damaged until scrapped.
+                                </div>
+                                <Button
+                                    size="xs"
+                                    className="mt-2"
+                                    onClick={() => setDisposalOpen(true)}
+                                >
+                                    Scrap Written-off Units
+                                </Button>
+                            </Alert>
+                        )}
+                        <p className="text-gray-500 mb-4">
+                            Certificate{' '}
+                            {clearanceCertificateNumber(employee, clearedAt)} is
+                            ready for HR.
+                        </p>
+                        <Button
+                            variant="solid"
+                            icon={<HiOutlinePrinter />}
+                            onClick={handlePrintCertificate}
+                        >
+                            Print Clearance Certificate
+                        </Button>
+                    </div>
+                ) : (
+                    <>
+                        <p className="mb-4">
+                            {outstanding.length} item
+                            {outstanding.length !== 1 ? 's are' : ' is'} still
+                            assigned. Record what happened to each one.
+                        </p>
+                        <div className="border rounded-lg overflow-x-auto mb-4 dark:border-gray-600">
+                            <Table>
+                                <thead>
+                                    <tr>
+                                        <th>Item</th>
+                                        <th>Assigned</th>
+                                        <th>Outcome</th>
+                                        <th>Condition</th>
+                                        <th>Notes</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {outstanding.map((assignment) => {
+                                        const resolution = resolutionFor(
+                                            assignment.id,
+                                        )
+                                        const isOverdue =
+                                            isAssignmentOverdue(assignment)
+                                        return (
+                                            <tr key={assignment.id}>
+                                                <td>
+                                                    <div className="font-semibold">
+                                                        {
+                                                            assignment.product
+                                                                .name
+                                                        }
+                                                    </div>
+                                                    <div className="text-xs text-gray-500 font-mono">
+                                                        {assignment.inventory
+                                                            ?.serialNumber ||
+                                                            `Assignment #${assignment.id}`}
+                                                    </div>
+                                                    {errors[assignment.id] && (
+                                                        <div className="text-xs text-red-600">
+                                                            {
+                                                                errors[
+                                                                    assignment
+                                                                        .id
+                                                                ]
+                                                            }
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    {dayjs(
+                                                        assignment.assignedAt,
+                                                    ).format('DD MMM YYYY')}
+                                                    {isOverdue && (
+                                                        <div className="text-xs text-red-600">
+                                                            Overdue
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    <Segment
+                                                        size="xs"
+                                                        value={[
+                                                            resolution.resolution,
+                                                        ]}
+                                                        onChange={(val) =>
+                                                            updateResolution(
+                                                                assignment.id,
+                                                                {
+                                                                    resolution:
+                                                                        val[0] as OffboardingResolution,
+                                                                },
+                                                            )
+                                                        }
+                                                    >
+                                                        {resolutionOptions.map(
+                                                            (option) => (
+                                                                <Segment.Item
+                                                                    key={option}
+                                                                    value={
+                                                                        option
+                                                                    }
+                                                                >
+                                                                    {
+                                                                        offboardingResolutionLabels[
+                                                                            option
+                                                                        ]
+                                                                    }
+                                                                </Segment.Item>
+                                                            ),
+                                                        )}
+                                                    </Segment>
+                                                </td>
+                                                <td className="min-w-[140px]">
+                                                    {resolution.resolution ===
+                                                    'RETURNED' ? (
+                                                        <Select
+                                                            size="sm"
+                                                            options={
+                                                                returnedConditionOptions
+                                                            }
+                                                            value={returnedConditionOptions.find(
+                                                                (o) =>
+                                                                    o.value ===
+                                                                    resolution.condition,
+                                                            )}
+                                                            onChange={(
+                                                                option,
+                                                            ) =>
+                                                                option &&
+                                                                updateResolution(
+                                                                    assignment.id,
+                                                                    {
+                                                                        condition:
+                                                                            option.value,
+                                                                    },
+                                                                )
+                                                            }
+                                                        />
+                                                    ) : (
+                                                        <span className="text-gray-400">
+                                                            -
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="min-w-[200px]">
+                                                    <Input
+                                                        size="sm"
+                                                        value={resolution.notes}
+                                                        placeholder={
+                                                            resolution.resolution ===
+                                                            'RETURNED'
+                                                                ? 'Optional'
+                                                                : 'What happened?'
+                                                        }
+                                                        onChange={(e) =>
+                                                            updateResolution(
+                                                                assignment.id,
+                                                                {
+                                                                    notes: e
+                                                                        .target
+                                                                        .value,
+                                                                },
+                                                            )
+                                                        }
+                                                    />
+                                                </td>
+                                            </tr>
+                                        )
+                                    })}
+                                </tbody>
+                            </Table>
+                        </div>
+                        <div className="flex justify-end">
+                            <Button
+                                variant="solid"
+                                icon={<HiOutlineBadgeCheck />}
+                                loading={isProcessing}
+                                onClick={() =>
+                                    unrecoveredCount > 0
+                                        ? setConfirmOpen(true)
+                                        : handleProcess()
+                                }
+                            >
+                                Clear {outstanding.length} Item
+                                {outstanding.length !== 1 ? 's' : ''}
+                            </Button>
+                        </div>
+                    </>
+                )}
+            </Loading>
+
+            <ConfirmDialog
+                isOpen={confirmOpen}
+                type="warning"
+                title="Record unrecovered items"
+                confirmText="Continue"
+                onClose={() => setConfirmOpen(false)}
+                onRequestClose={() => setConfirmOpen(false)}
+                onCancel={() => setConfirmOpen(false)}
+                onConfirm={handleProcess}
+            >
+                <p>
+                    {unrecoveredCount} item
+                    {unrecoveredCount !== 1 ? 's' : ''} will be recorded as lost
+                    or written off. Lost units are disposed of straight away;
+                    written-off units are scrapped in the next step. This shows
+                    on the clearance certificate.
+                </p>
+            </ConfirmDialog>
+
+            {disposalOpen && (
+                <DisposalDialog
+                    items={toScrap}
+                    initialReason="SCRAPPED"
+                    onClose={() => setDisposalOpen(false)}
+                />
+            )}
+        </AdaptableCard>
+    )
+}
+
+export default EmployeeOffboarding
@@ -0,0 +1,172 @@
+import dayjs from 'dayjs'
+import { escapeHtml } from '@/views/products/labels/labelSheet'
+import {
+    offboardingResolutionLabels,
+    returnedConditionOptions,
+} from './offboardingResolutions'
+import type { EmployeeAssignment } from '../employeeAssets'
+import type {
+    OffboardingResolution,
+    ReturnedCondition,
+} from './offboardingResolutions'
+
+export interface ClearanceEmployee {
+    id: number
+    empId: string
+    name: string
+    department?: string
+    position?: string
+}
+
+export interface ClearedItem {
+    assignmentId: number
+    productName: string
+    model?: string
+    serialNumber?: string
+    resolution: OffboardingResolution
+    condition?: ReturnedCondition
+}
+
+/**
+ * Reads back the outcome recorded when the assignment was closed during
+ * offboarding; assignments closed any other way are not on the certificate.
+ */
+export const toClearedItem = (assignment: EmployeeAssignment): ClearedItem => {
+    const resolution = assignment.offboardingResolution ?? 'RETURNED'
+    const condition = returnedConditionOptions.find(
+        (option) => option.value === assignment.returnCondition,
+    )?.value
+    return {
+        assignmentId: assignment.id,
+        productName: assignment.product.name,
+        model: assignment.product.model,
+        serialNumber: assignment.inventory?.serialNumber,
+        resolution,
+        condition: resolution === 'RETURNED' ? condition : undefined,
+    }
+}
+
+/** The day the last item came back; today when nothing was ever assigned */
+export const clearanceDate = (assignments: EmployeeAssignment[]) =>
+    assignments.reduce(
+        (latest, assignment) =>
+            assignment.returnedAt &&
+            dayjs(assignment.returnedAt).isAfter(latest)
+                ? dayjs(assignment.returnedAt).toDate()
+                : latest,
+        assignments.length > 0 ? new Date(0) : new Date(),
+    )
+
+export const clearanceCertificateNumber = (
+    employee: ClearanceEmployee,
+    clearedAt: Date,
+) => `CLR-${employee.empId}-${dayjs(clearedAt).format('YYYYMMDD')}`
+
+/**
+ * The clearance certificate HR asks for before final settlement. Lost and
+ * written-off items are listed too, so any recovery can be agreed on paper.
+ */
+export const buildClearanceCertificateHtml = (
+    employee: ClearanceEmployee,
+    items: ClearedItem[],
+    clearedAt: Date,
+) => {
+    const unrecovered = items.filter((item) => item.resolution !== 'RETURNED')
+    const rows = items
+        .map(
+            (item, index) => `
+                <tr>
+                    <td>${index + 1}</td>
+                    <td>${escapeHtml(item.productName)}</td>
+                    <td>${escapeHtml(item.model || '')}</td>
+                    <td>${escapeHtml(item.serialNumber || '-')}</td>
+                    <td>${offboardingResolutionLabels[item.resolution]}${
+                        item.condition
+                            ? ` (${item.condition.toLowerCase()})`
+                            : ''
+                    }</td>
+                </tr>`,
+        )
+        .join('')
+
+    return `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Clearance Certificate - ${escapeHtml(employee.name)}</title>
+            <style>
+              @page { size: A4; margin: 15mm; }
+              body { font-family: Arial, sans-serif; font-size: 11pt; color: #111; }
+              h1 { font-size: 18pt; margin: 0 0 4mm; }
+              .number { color: #555; margin-bottom: 6mm; }
+              .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 1mm 8mm; margin-bottom: 6mm; }
+              .meta span { color: #555; }
+              .statement { margin: 6mm 0; line-height: 1.5; }
+              table { width: 100%; border-collapse: collapse; }
+              th, td { border: 1px solid #999; padding: 2mm; text-align: left; }
+              th { background: #f0f0f0; }
+              .warning { margin-top: 6mm; padding: 3mm; border: 1px solid #b45309; }
+              .signatures { display: flex; gap: 12mm; margin-top: 25mm; }
+              .signature { flex: 1; border-top: 1px solid #111; padding-top: 2mm; }
+            </style>
+          </head>
+          <body onload="window.print()">
+            <h1>Asset Clearance Certificate</h1>
+            <div class="number">${escapeHtml(
+                clearanceCertificateNumber(employee, clearedAt),
+            )}</div>
+            <div class="meta">
+              <div><span>Employee:</span> ${escapeHtml(employee.name)}</div>
+              <div><span>Employee ID:</span> ${escapeHtml(employee.empId)}</div>
+              <div><span>Department:</span> ${escapeHtml(
+                  employee.department || '-',
+              )}</div>
+              <div><span>Position:</span> ${escapeHtml(
+                  employee.position || '-',
+              )}</div>
+              <div><span>Cleared on:</span> ${dayjs(clearedAt).format(
+                  'DD MMM YYYY',
+              )}</div>
+            </div>
+            <p class="statement">
+              This is to certify that ${escapeHtml(employee.name)} has no
+              company assets outstanding as of ${dayjs(clearedAt).format(
+                  'DD MMM YYYY',
+              )}.${
+                  items.length > 0
+                      ? ' The items below were cleared during offboarding.'
+                      : ''
+              }
+            </p>
+            ${
+                items.length > 0
+                    ? `<table>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Product</th>
+                  <th>Model</th>
+                  <th>Serial Number</th>
+                  <th>Outcome</th>
+                </tr>
+              </thead>
+              <tbody>${rows}</tbody>
+            </table>`
+                    : ''
+            }
+            ${
+                unrecovered.length > 0
+                    ? `<div class="warning">${unrecovered.length} item${
+                          unrecovered.length !== 1 ? 's were' : ' was'
+                      } not returned and recorded as lost or written off.</div>`
+                    : ''
+            }
+            <div class="signatures">
+              <div class="signature">IT / Asset Manager</div>
+              <div class="signature">HR</div>
+              <div class="signature">Employee</div>
+            </div>
+          </body>
+        </html>
+      `
+}
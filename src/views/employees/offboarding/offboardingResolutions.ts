@@ -0,0 +1,106 @@
+import dayjs from 'dayjs'
+import type { DisposalPayload } from '@/services/DisposalService'
+import type { apiReturnProduct } from '@/services/ProductService'
+
+export type OffboardingResolution = 'RETURNED' | 'LOST' | 'WRITTEN_OFF'
+
+export type ReturnedCondition = 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR'
+
+export interface ItemResolution {
+    resolution: OffboardingResolution
+    condition: ReturnedCondition
+    notes: string
+}
+
+export const offboardingResolutionLabels: Record<
+    OffboardingResolution,
+    string
+> = {
+    RETURNED: 'Returned',
+    LOST: 'Lost',
+    WRITTEN_OFF: 'Written off',
+}
+
+export const offboardingResolutionClassMap: Record<
+    OffboardingResolution,
+    string
+> = {
+    RETURNED: 'text-emerald-600',
+    LOST: 'text-red-600',
+    WRITTEN_OFF: 'text-amber-600',
+}
+
+export const returnedConditionOptions: Array<{
+    value: ReturnedCondition
+    label: string
+}> = [
+    { value: 'EXCELLENT', label: 'Excellent' },
+    { value: 'GOOD', label: 'Good' },
+    { value: 'FAIR', label: 'Fair' },
+    { value: 'POOR', label: 'Poor' },
+]
+
+export const defaultItemResolution: ItemResolution = {
+    resolution: 'RETURNED',
+    condition: 'GOOD',
+    notes: '',
+}
+
+/**
+ * Every outcome closes the assignment through the return endpoint, which keeps
+ * the outcome on the assignment for the clearance certificate. Units only
+ * leave stock through a disposal: lost ones straight away (see
+ * lostDisposalPayload), written-off ones are held as DAMAGED until they are
+ * scrapped with the data wipe confirmed.
+ */
+export const toReturnPayload = (
+    item: ItemResolution,
+): NonNullable<Parameters<typeof apiReturnProduct>[1]> => {
+    const notes = item.notes.trim()
+    switch (item.resolution) {
+        case 'LOST':
+            return {
+                offboardingResolution: 'LOST',
+                inventoryStatus: 'MISSING',
+                notes: ['Reported lost during offboarding', notes]
+                    .filter(Boolean)
+                    .join('. '),
+            }
+        case 'WRITTEN_OFF':
+            return {
+                offboardingResolution: 'WRITTEN_OFF',
+                condition: 'POOR',
+                inventoryStatus: 'DAMAGED',
+                notes: ['Written off during offboarding, to be scrapped', notes]
+                    .filter(Boolean)
+                    .join('. '),
+            }
+        default:
+            return {
+                offboardingResolution: 'RETURNED',
+                condition: item.condition,
+                inventoryStatus:
+                    item.condition === 'POOR' ? 'DAMAGED' : 'AVAILABLE',
+                notes: [
+                    `Returned during offboarding in ${item.condition.toLowerCase()} condition`,
+                    notes,
+                ]
+                    .filter(Boolean)
+                    .join('. '),
+            }
+    }
+}
+
+/** Records a unit reported lost during offboarding as a LOST disposal */
+export const lostDisposalPayload = (
+    inventoryId: number,
+    item: ItemResolution,
+): DisposalPayload => ({
+    inventoryIds: [inventoryId],
+    reason: 'LOST',
+    disposedAt: dayjs().format('YYYY-MM-DD'),
+    dataWipeChecks: [],
+    notes: ['Reported lost during offboarding', item.notes.trim()]
+        .filter(Boolean)
+        .join('. '),
+})
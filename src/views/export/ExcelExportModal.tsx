@@ -52,6 +52,7 @@ const ExcelExportModal: React.FC<ExcelExportModalProps> = ({ isOpen, onClose, ty
     
     // Additional options
     includeInventory: false,
+    includeAttributes: true,
   });
 
   const [isExporting, setIsExporting] = useState(false);
@@ -170,7 +171,8 @@ const ExcelExportModal: React.FC<ExcelExportModalProps> = ({ isOpen, onClose, ty
       stockStatus: '',
       complianceStatus: '',
       format: 'all',
-      includeInventory: false
+      includeInventory: false,
+      includeAttributes: true
     });
   };
 
@@ -208,6 +210,10 @@ const ExcelExportModal: React.FC<ExcelExportModalProps> = ({ isOpen, onClose, ty
       if (type === 'products' && filters.includeInventory) {
         params.includeInventory = filters.includeInventory.toString();
       }
+      // One column per category-defined attribute (item attributes go with the inventory rows)
+      if (type === 'products' && filters.includeAttributes) {
+        params.includeAttributes = filters.includeAttributes.toString();
+      }
       
       // Call the appropriate export API
       let response;
@@ -405,6 +411,17 @@ const ExcelExportModal: React.FC<ExcelExportModalProps> = ({ isOpen, onClose, ty
                 </Checkbox>
               </FormItem>
             )}
+            {type === 'products' && (
+              <FormItem>
+                <Checkbox
+                  checked={filters.includeAttributes}
+                  onChange={(checked) => handleFilterChange('includeAttributes', checked)}
+                  disabled={isExporting}
+                >
+                  Include Custom Attributes
+                </Checkbox>
+              </FormItem>
+            )}
           </div>
           
           {/* Footer - Fixed */}
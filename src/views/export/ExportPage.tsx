@@ -1,8 +1,9 @@
 // pages/ExportPage.tsx
 import React, { useState } from 'react';
 import { Card, Button, Tabs, Notification, toast } from '@/components/ui';
-import { HiOutlineDocumentReport, HiOutlineDownload, HiOutlineTable } from 'react-icons/hi';
+import { HiOutlineCurrencyDollar, HiOutlineDocumentReport, HiOutlineDownload, HiOutlineTable } from 'react-icons/hi';
 import ExcelExportModal from './ExcelExportModal';
+import ValuationReport from './ValuationReport';
 
 const ExportPage = () => {
   const [activeTab, setActiveTab] = useState('assignments');
@@ -36,6 +37,9 @@ const ExportPage = () => {
             <Tabs.TabNav value="products" icon={<HiOutlineDocumentReport />}>
               Products
             </Tabs.TabNav>
+            <Tabs.TabNav value="valuation" icon={<HiOutlineCurrencyDollar />}>
+              Valuation
+            </Tabs.TabNav>
           </Tabs.TabList>
           
           <Tabs.TabContent value="assignments" className="p-6">
@@ -77,6 +81,10 @@ const ExportPage = () => {
               </Button>
             </div>
           </Tabs.TabContent>
+
+          <Tabs.TabContent value="valuation" className="p-6">
+            <ValuationReport />
+          </Tabs.TabContent>
         </Tabs>
       </Card>
 
@@ -0,0 +1,248 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { HiOutlineDownload } from 'react-icons/hi'
+import { Loading } from '@/components/shared'
+import { Alert, Button, DatePicker, Segment, Table } from '@/components/ui'
+import { apiGetCategories } from '@/services/CategoryService'
+import { apiGetAllInventoryItems } from '@/services/ProductService'
+import { depreciationMethodLabels } from '@/utils/depreciation'
+import { downloadWorkbook } from '@/utils/downloadSpreadsheet'
+import buildValuationReport from './buildValuationReport'
+import type {
+    ValuationCategory,
+    ValuationGroup,
+    ValuationGrouping,
+    ValuationInventoryItem,
+    ValuationItemLine,
+} from './buildValuationReport'
+
+const { Tr, Th, Td, THead, TBody, TFoot } = Table
+
+const groupingLabels: Record<ValuationGrouping, string> = {
+    branch: 'Branch',
+    department: 'Department',
+    category: 'Category',
+}
+
+const money = (value: number) =>
+    value.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    })
+
+const groupRows = (groups: ValuationGroup[], label: string) =>
+    groups.map((group) => ({
+        [label]: group.name,
+        Items: group.itemCount,
+        'Purchase Value': group.purchaseValue,
+        'Accumulated Depreciation': group.depreciation,
+        'Book Value': group.bookValue,
+    }))
+
+const ValuationReport = () => {
+    const [asOf, setAsOf] = useState(new Date())
+    const [grouping, setGrouping] = useState<ValuationGrouping>('branch')
+
+    const { data: items = [], isLoading: isLoadingItems } = useQuery({
+        queryKey: ['valuation-inventory'],
+        queryFn: () => apiGetAllInventoryItems<ValuationInventoryItem>(),
+    })
+
+    const { data: categories = [], isLoading: isLoadingCategories } = useQuery({
+        queryKey: ['valuation-categories'],
+        queryFn: async () => {
+            const response = await apiGetCategories({ page: 1, limit: 100 })
+            return (response.data as { data?: ValuationCategory[] })?.data || []
+        },
+    })
+
+    const report = useMemo(
+        () => buildValuationReport(items, categories, asOf),
+        [items, categories, asOf],
+    )
+
+    const unconfiguredCategories = categories.filter(
+        (category) => !category.depreciationMethod,
+    )
+
+    const handleExport = () => {
+        const categoryById = new Map(categories.map((c) => [c.id, c]))
+        const itemRow = (line: ValuationItemLine) => {
+            const product = line.item.product
+            const method =
+                categoryById.get(
+                    product?.category?.id ?? product?.categoryId ?? -1,
+                )?.depreciationMethod || undefined
+            return {
+                Product: product?.name || '',
+                Model: product?.model || '',
+                'Serial Number': line.item.serialNumber || '',
+                Status: line.item.status,
+                Branch: line.branch,
+                Department: line.department,
+                Category: line.category,
+                Method: method ? depreciationMethodLabels[method] : '',
+                'Purchase Date': line.item.purchaseDate
+                    ? dayjs(line.item.purchaseDate).format('YYYY-MM-DD')
+                    : '',
+                'Purchase Value': line.purchaseValue,
+                'Book Value': line.bookValue,
+            }
+        }
+        downloadWorkbook(
+            {
+                'By Branch': groupRows(report.groups.branch, 'Branch'),
+                'By Department': groupRows(
+                    report.groups.department,
+                    'Department',
+                ),
+                'By Category': groupRows(report.groups.category, 'Category'),
+                Items: report.lines.map(itemRow),
+                ...(report.missing.length > 0
+                    ? { Missing: report.missing.map(itemRow) }
+                    : {}),
+            },
+            `asset-valuation-${dayjs(asOf).format('YYYY-MM-DD')}.xlsx`,
+        )
+    }
+
+    return (
+        <Loading loading={isLoadingItems || isLoadingCategories}>
+            <div className="space-y-4">
+                <div className="flex flex-wrap items-end justify-between gap-4">
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div>
+                            <div className="text-sm font-semibold mb-1">
+                                Valued as of
+                            </div>
+                            <DatePicker
+                                value={asOf}
+                                clearable={false}
+                                onChange={(date) => date && setAsOf(date)}
+                            />
+                        </div>
+                        <Segment
+                            value={[grouping]}
+                            onChange={(val) =>
+                                setGrouping(val[0] as ValuationGrouping)
+                            }
+                        >
+                            {(
+                                Object.keys(
+                                    groupingLabels,
+                                ) as ValuationGrouping[]
+                            ).map((key) => (
+                                <Segment.Item key={key} value={key}>
+                                    By {groupingLabels[key]}
+                                </Segment.Item>
+                            ))}
+                        </Segment>
+                    </div>
+                    <Button
+                        variant="solid"
+                        icon={<HiOutlineDownload />}
+                        disabled={report.lines.length === 0}
+                        onClick={handleExport}
+                    >
+                        Export to Excel
+                    </Button>
+                </div>
+
+                {unconfiguredCategories.length > 0 && (
+                    <Alert showIcon type="info">
+                        No depreciation set for{' '}
+                        {unconfiguredCategories.map((c) => c.name).join(', ')};
+                        those items are valued at purchase price.
+                    </Alert>
+                )}
+                {report.unpricedCount > 0 && (
+                    <Alert showIcon type="warning">
+                        {report.unpricedCount} item
+                        {report.unpricedCount !== 1 ? 's have' : ' has'} no
+                        purchase price and{' '}
+                        {report.unpricedCount !== 1 ? 'are' : 'is'} left out of
+                        the totals.
+                    </Alert>
+                )}
+
+                {report.missing.length > 0 && (
+                    <Alert showIcon type="warning">
+                        {report.missing.length} missing item
+                        {report.missing.length !== 1 ? 's' : ''} with a book
+                        value of{' '}
+                        {money(
+                            report.missing.reduce(
+                                (sum, line) => sum + line.bookValue,
+                                0,
+                            ),
+                        )}{' '}
+                        {report.missing.length !== 1 ? 'are' : 'is'} not counted
+                        in the totals; the export lists them on a separate
+                        sheet.
+                    </Alert>
+                )}
+
+                <Table compact>
+                    <THead>
+                        <Tr>
+                            <Th>{groupingLabels[grouping]}</Th>
+                            <Th className="text-right">Items</Th>
+                            <Th className="text-right">Purchase Value</Th>
+                            <Th className="text-right">Depreciation</Th>
+                            <Th className="text-right">Book Value</Th>
+                        </Tr>
+                    </THead>
+                    <TBody>
+                        {report.groups[grouping].length === 0 && (
+                            <Tr>
+                                <Td
+                                    colSpan={5}
+                                    className="text-center text-gray-500"
+                                >
+                                    No priced inventory to value
+                                </Td>
+                            </Tr>
+                        )}
+                        {report.groups[grouping].map((group) => (
+                            <Tr key={group.name}>
+                                <Td>{group.name}</Td>
+                                <Td className="text-right">
+                                    {group.itemCount}
+                                </Td>
+                                <Td className="text-right">
+                                    {money(group.purchaseValue)}
+                                </Td>
+                                <Td className="text-right">
+                                    {money(group.depreciation)}
+                                </Td>
+                                <Td className="text-right font-semibold">
+                                    {money(group.bookValue)}
+                                </Td>
+                            </Tr>
+                        ))}
+                    </TBody>
+                    <TFoot>
+                        <Tr className="font-semibold">
+                            <Td>Total</Td>
+                            <Td className="text-right">
+                                {report.total.itemCount}
+                            </Td>
+                            <Td className="text-right">
+                                {money(report.total.purchaseValue)}
+                            </Td>
+                            <Td className="text-right">
+                                {money(report.total.depreciation)}
+                            </Td>
+                            <Td className="text-right">
+                                {money(report.total.bookValue)}
+                            </Td>
+                        </Tr>
+                    </TFoot>
+                </Table>
+            </div>
+        </Loading>
+    )
+}
+
+export default ValuationReport
@@ -0,0 +1,163 @@
+import dayjs from 'dayjs'
+import calculateBookValue from '@/utils/depreciation'
+import type { DepreciationSettings } from '@/utils/depreciation'
+
+export type ValuationGrouping = 'branch' | 'department' | 'category'
+
+interface NamedRef {
+    id: number
+    name: string
+}
+
+export interface ValuationInventoryItem {
+    id: number
+    serialNumber?: string
+    status: string
+    purchasePrice?: number | string | null
+    purchaseDate?: string | null
+    product?: {
+        id: number
+        name: string
+        model?: string
+        categoryId?: number
+        branchId?: number
+        departmentId?: number
+        category?: NamedRef
+        branch?: NamedRef
+        department?: NamedRef
+    }
+}
+
+export interface ValuationCategory extends DepreciationSettings {
+    id: number
+    name: string
+}
+
+export interface ValuationItemLine {
+    item: ValuationInventoryItem
+    branch: string
+    department: string
+    category: string
+    purchaseValue: number
+    bookValue: number
+}
+
+export interface ValuationGroup {
+    name: string
+    itemCount: number
+    purchaseValue: number
+    bookValue: number
+    depreciation: number
+}
+
+export interface ValuationReport {
+    lines: ValuationItemLine[]
+    /** Items reported missing; valued, but kept out of the groups and totals */
+    missing: ValuationItemLine[]
+    /** Items left out because they have no purchase price */
+    unpricedCount: number
+    groups: Record<ValuationGrouping, ValuationGroup[]>
+    total: ValuationGroup
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const groupLines = (
+    lines: ValuationItemLine[],
+    grouping: ValuationGrouping,
+): ValuationGroup[] => {
+    const groups = new Map<string, ValuationGroup>()
+    lines.forEach((line) => {
+        const name = line[grouping]
+        const group = groups.get(name) || {
+            name,
+            itemCount: 0,
+            purchaseValue: 0,
+            bookValue: 0,
+            depreciation: 0,
+        }
+        group.itemCount += 1
+        group.purchaseValue = round(group.purchaseValue + line.purchaseValue)
+        group.bookValue = round(group.bookValue + line.bookValue)
+        group.depreciation = round(group.purchaseValue - group.bookValue)
+        groups.set(name, group)
+    })
+    return [...groups.values()].sort((a, b) => b.bookValue - a.bookValue)
+}
+
+/**
+ * Values every held item as of a date and totals it by branch, department
+ * and category. Retired items are off the books and items bought after the
+ * date were not yet on them, so both are skipped. Missing items cannot be
+ * vouched for and are listed separately instead of counted in the totals.
+ */
+export default function buildValuationReport(
+    items: ValuationInventoryItem[],
+    categories: ValuationCategory[],
+    asOf: Date,
+): ValuationReport {
+    const categoryById = new Map(categories.map((c) => [c.id, c]))
+    const lines: ValuationItemLine[] = []
+    const missing: ValuationItemLine[] = []
+    let unpricedCount = 0
+
+    items
+        .filter(
+            (item) =>
+                item.status !== 'RETIRED' &&
+                !(
+                    item.purchaseDate &&
+                    dayjs(item.purchaseDate).isAfter(asOf, 'day')
+                ),
+        )
+        .forEach((item) => {
+            const product = item.product
+            const categoryId = product?.category?.id ?? product?.categoryId
+            const category =
+                categoryId !== undefined
+                    ? categoryById.get(categoryId)
+                    : undefined
+            const bookValue = calculateBookValue(item, category, asOf)
+            if (bookValue === undefined) {
+                unpricedCount += 1
+                return
+            }
+            const target = item.status === 'MISSING' ? missing : lines
+            target.push({
+                item,
+                branch: product?.branch?.name || 'Unknown branch',
+                department: product?.department?.name || 'No department',
+                category:
+                    product?.category?.name ||
+                    category?.name ||
+                    'Uncategorised',
+                purchaseValue: Number(item.purchasePrice),
+                bookValue,
+            })
+        })
+
+    const purchaseValue = round(
+        lines.reduce((sum, line) => sum + line.purchaseValue, 0),
+    )
+    const bookValue = round(
+        lines.reduce((sum, line) => sum + line.bookValue, 0),
+    )
+
+    return {
+        lines,
+        missing,
+        unpricedCount,
+        groups: {
+            branch: groupLines(lines, 'branch'),
+            department: groupLines(lines, 'department'),
+            category: groupLines(lines, 'category'),
+        },
+        total: {
+            name: 'Total',
+            itemCount: lines.length,
+            purchaseValue,
+            bookValue,
+            depreciation: round(purchaseValue - bookValue),
+        },
+    }
+}
@@ -0,0 +1,293 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { HiOutlineCheckCircle, HiOutlineExclamation } from 'react-icons/hi'
+import {
+    Alert,
+    Button,
+    DatePicker,
+    Dialog,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Select,
+    Spinner,
+    Table,
+    toast,
+} from '@/components/ui'
+import { apiGetEmployees } from '@/services/EmployeeService.ts'
+import { apiAssignKit, apiGetKitAvailability } from '@/services/KitService'
+import type {
+    Kit,
+    KitAssignment,
+    KitComponentAvailability,
+} from '@/services/KitService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+interface AssignKitDialogProps {
+    kit: Kit
+    onClose: () => void
+}
+
+interface AssignResult {
+    assignment: KitAssignment
+    missing: KitComponentAvailability[]
+}
+
+const AssignKitDialog = ({ kit, onClose }: AssignKitDialogProps) => {
+    const queryClient = useQueryClient()
+
+    const [employeeSearch, setEmployeeSearch] = useState('')
+    const [employeeId, setEmployeeId] = useState<number>()
+    const [expectedReturnAt, setExpectedReturnAt] = useState<Date | null>(null)
+    const [pcName, setPcName] = useState('')
+    const [notes, setNotes] = useState('')
+    const [result, setResult] = useState<AssignResult>()
+
+    const { data: employeesData, isFetching: isLoadingEmployees } = useQuery({
+        queryKey: ['employees-for-kit', employeeSearch],
+        queryFn: () =>
+            apiGetEmployees({ page: 1, limit: 50, search: employeeSearch }),
+    })
+    const employeeOptions = (
+        ((employeesData?.data as { data?: unknown })?.data || []) as Array<{
+            id: number
+            name: string
+            empId?: string
+        }>
+    ).map((employee) => ({
+        value: employee.id,
+        label: employee.empId
+            ? `${employee.name} (${employee.empId})`
+            : employee.name,
+    }))
+
+    const {
+        data: availability = [],
+        isFetching: isCheckingAvailability,
+        refetch: recheckAvailability,
+    } = useQuery({
+        queryKey: ['kit-availability', kit.id],
+        queryFn: async () => {
+            const response = await apiGetKitAvailability(kit.id)
+            return response.data.data
+        },
+    })
+    const shortages = availability.filter(
+        (component) => component.available < component.required,
+    )
+
+    const assignMutation = useMutation({
+        mutationFn: (allowPartial: boolean) =>
+            apiAssignKit(kit.id, {
+                employeeId: employeeId as number,
+                expectedReturnAt: expectedReturnAt
+                    ? dayjs(expectedReturnAt).format('YYYY-MM-DD')
+                    : undefined,
+                pcName: pcName || undefined,
+                notes: notes || undefined,
+                allowPartial,
+            }),
+        onSuccess: (response) => {
+            setResult({
+                assignment: response.data.data,
+                missing: response.data.missing || [],
+            })
+            queryClient.invalidateQueries({ queryKey: ['kit-assignments'] })
+            queryClient.invalidateQueries({ queryKey: ['products'] })
+        },
+        onError: (error: ApiError) => {
+            // Stock moved since the check; show the fresh numbers
+            if (error.response?.status === 409) {
+                recheckAvailability()
+            }
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to assign kit'}
+                </Notification>,
+            )
+        },
+    })
+
+    if (result) {
+        return (
+            <Dialog
+                isOpen
+                width={640}
+                onClose={onClose}
+                onRequestClose={onClose}
+            >
+                <h5 className="mb-4">
+                    {kit.name} assigned to{' '}
+                    {result.assignment.employee?.name || 'employee'}
+                </h5>
+                <div className="space-y-2 mb-4">
+                    {result.assignment.assignments.map((assignment) => (
+                        <div
+                            key={assignment.id}
+                            className="flex items-center gap-2"
+                        >
+                            <HiOutlineCheckCircle className="text-emerald-500 text-lg" />
+                            <span className="font-semibold">
+                                {assignment.product?.name}
+                            </span>
+                            <span className="text-gray-500">
+                                SN:{' '}
+                                {assignment.inventory?.serialNumber ||
+                                    `Item #${assignment.inventoryId}`}
+                            </span>
+                        </div>
+                    ))}
+                    {result.missing.map((component) => (
+                        <div
+                            key={component.productId}
+                            className="flex items-center gap-2"
+                        >
+                            <HiOutlineExclamation className="text-amber-500 text-lg" />
+                            <span className="font-semibold">
+                                {component.productName}
+                            </span>
+                            <span className="text-gray-500">
+                                {component.required - component.available} of{' '}
+                                {component.required} still to assign
+                            </span>
+                        </div>
+                    ))}
+                </div>
+                <div className="text-right">
+                    <Button variant="solid" onClick={onClose}>
+                        Done
+                    </Button>
+                </div>
+            </Dialog>
+        )
+    }
+
+    return (
+        <Dialog isOpen width={640} onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-4">Assign Kit: {kit.name}</h5>
+
+            {isCheckingAvailability ? (
+                <div className="flex justify-center py-4">
+                    <Spinner size={30} />
+                </div>
+            ) : (
+                <Table compact className="mb-4">
+                    <THead>
+                        <Tr>
+                            <Th>Product</Th>
+                            <Th className="text-right">Needed</Th>
+                            <Th className="text-right">Available</Th>
+                        </Tr>
+                    </THead>
+                    <TBody>
+                        {availability.map((component) => (
+                            <Tr key={component.productId}>
+                                <Td>{component.productName}</Td>
+                                <Td className="text-right">
+                                    {component.required}
+                                </Td>
+                                <Td
+                                    className={`text-right font-semibold ${
+                                        component.available < component.required
+                                            ? 'text-red-600'
+                                            : 'text-emerald-600'
+                                    }`}
+                                >
+                                    {component.available}
+                                </Td>
+                            </Tr>
+                        ))}
+                    </TBody>
+                </Table>
+            )}
+
+            {shortages.length > 0 && (
+                <Alert showIcon type="warning" className="mb-4">
+                    Not enough stock for{' '}
+                    {shortages.map((c) => c.productName).join(', ')}. You can
+                    assign what is available now and hand over the rest later.
+                </Alert>
+            )}
+
+            <FormContainer>
+                <FormItem label="Employee">
+                    <Select
+                        placeholder="Search employee"
+                        isLoading={isLoadingEmployees}
+                        options={employeeOptions}
+                        value={
+                            employeeOptions.find(
+                                (o) => o.value === employeeId,
+                            ) || null
+                        }
+                        onInputChange={(value) => setEmployeeSearch(value)}
+                        onChange={(option) => setEmployeeId(option?.value)}
+                    />
+                </FormItem>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormItem label="Expected Return">
+                        <DatePicker
+                            clearable
+                            value={expectedReturnAt}
+                            minDate={new Date()}
+                            placeholder="Open-ended"
+                            onChange={setExpectedReturnAt}
+                        />
+                    </FormItem>
+                    <FormItem label="PC / Workstation Name">
+                        <Input
+                            value={pcName}
+                            placeholder="Optional"
+                            onChange={(e) => setPcName(e.target.value)}
+                        />
+                    </FormItem>
+                </div>
+                <FormItem label="Notes">
+                    <Input
+                        textArea
+                        value={notes}
+                        placeholder="Optional"
+                        onChange={(e) => setNotes(e.target.value)}
+                    />
+                </FormItem>
+            </FormContainer>
+
+            <div className="flex justify-end gap-2">
+                <Button variant="plain" onClick={onClose}>
+                    Cancel
+                </Button>
+                {shortages.length > 0 ? (
+                    <Button
+                        variant="solid"
+                        disabled={
+                            !employeeId ||
+                            isCheckingAvailability ||
+                            availability.every((c) => c.available === 0)
+                        }
+                        loading={assignMutation.isPending}
+                        onClick={() => assignMutation.mutate(true)}
+                    >
+                        Assign Available Items
+                    </Button>
+                ) : (
+                    <Button
+                        variant="solid"
+                        disabled={!employeeId || isCheckingAvailability}
+                        loading={assignMutation.isPending}
+                        onClick={() => assignMutation.mutate(false)}
+                    >
+                        Assign Kit
+                    </Button>
+                )}
+            </div>
+        </Dialog>
+    )
+}
+
+export default AssignKitDialog
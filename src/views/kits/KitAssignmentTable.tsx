@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { MdAssignmentReturn } from 'react-icons/md'
+import { DataTable } from '@/components/shared'
+import { apiGetKitAssignments } from '@/services/KitService'
+import ReturnKitDialog from './ReturnKitDialog'
+import type { ColumnDef } from '@/components/shared'
+import type { KitAssignment } from '@/services/KitService'
+
+const KitAssignmentTable = () => {
+    const [pagination, setPagination] = useState({ page: 1, limit: 10 })
+    const [returningKit, setReturningKit] = useState<KitAssignment>()
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['kit-assignments', pagination],
+        queryFn: () =>
+            apiGetKitAssignments({
+                page: pagination.page,
+                limit: pagination.limit,
+                active: true,
+            }),
+    })
+
+    const columns: ColumnDef<KitAssignment>[] = useMemo(
+        () => [
+            {
+                header: 'Kit',
+                id: 'kit',
+                cell: (props) => (
+                    <span className="font-semibold">
+                        {props.row.original.kit?.name ||
+                            `Kit #${props.row.original.kitId}`}
+                    </span>
+                ),
+            },
+            {
+                header: 'Employee',
+                id: 'employee',
+                cell: (props) => props.row.original.employee?.name || '-',
+            },
+            {
+                header: 'Items',
+                id: 'items',
+                cell: (props) => (
+                    <div className="text-sm">
+                        {props.row.original.assignments.map((assignment) => (
+                            <div
+                                key={assignment.id}
+                                className={
+                                    assignment.status === 'RETURNED'
+                                        ? 'line-through text-gray-400'
+                                        : ''
+                                }
+                            >
+                                {assignment.product?.name}{' '}
+                                <span className="text-gray-500">
+                                    {assignment.inventory?.serialNumber}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                ),
+            },
+            {
+                header: 'Assigned',
+                accessorKey: 'assignedAt',
+                cell: (props) =>
+                    dayjs(props.row.original.assignedAt).format('DD MMM YYYY'),
+            },
+            {
+                header: 'Expected Return',
+                accessorKey: 'expectedReturnAt',
+                cell: (props) =>
+                    props.row.original.expectedReturnAt
+                        ? dayjs(props.row.original.expectedReturnAt).format(
+                              'DD MMM YYYY',
+                          )
+                        : '-',
+            },
+            {
+                header: '',
+                id: 'action',
+                cell: (props) => (
+                    <div className="flex justify-end text-lg">
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            title="Return kit"
+                            onClick={() => setReturningKit(props.row.original)}
+                        >
+                            <MdAssignmentReturn />
+                        </span>
+                    </div>
+                ),
+            },
+        ],
+        [],
+    )
+
+    return (
+        <>
+            <DataTable
+                columns={columns}
+                data={data?.data?.data || []}
+                loading={isLoading}
+                pagingData={{
+                    total: data?.data?.pagination?.total || 0,
+                    pageIndex: pagination.page,
+                    pageSize: pagination.limit,
+                }}
+                onPaginationChange={(page) =>
+                    setPagination((prev) => ({ ...prev, page }))
+                }
+                onSelectChange={(limit) => setPagination({ page: 1, limit })}
+            />
+            {returningKit && (
+                <ReturnKitDialog
+                    kitAssignment={returningKit}
+                    onClose={() => setReturningKit(undefined)}
+                />
+            )}
+        </>
+    )
+}
+
+export default KitAssignmentTable
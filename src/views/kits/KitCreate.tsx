@@ -0,0 +1,54 @@
+import { useNavigate } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { AdaptableCard } from '@/components/shared'
+import { Notification, toast } from '@/components/ui'
+import { apiCreateKit } from '@/services/KitService'
+import KitForm from './KitForm'
+import type { KitPayload } from '@/services/KitService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const KitCreate = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const handleSubmit = async (payload: KitPayload) => {
+        try {
+            await apiCreateKit(payload)
+            toast.push(
+                <Notification title="Success" type="success">
+                    Kit created successfully
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['kits'] })
+            navigate('/kits')
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to create kit'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3>Create New Kit</h3>
+            </div>
+            <KitForm
+                initialValues={{
+                    name: '',
+                    description: '',
+                    components: [{ productId: null, quantity: 1 }],
+                }}
+                submitLabel="Create Kit"
+                onSubmit={handleSubmit}
+            />
+        </AdaptableCard>
+    )
+}
+
+export default KitCreate
@@ -0,0 +1,72 @@
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { AdaptableCard, Loading } from '@/components/shared'
+import { Notification, toast } from '@/components/ui'
+import { apiGetKit, apiUpdateKit } from '@/services/KitService'
+import KitForm from './KitForm'
+import type { KitPayload } from '@/services/KitService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const KitEdit = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const { data: kit, isLoading } = useQuery({
+        queryKey: ['kit', id],
+        queryFn: async () => {
+            const response = await apiGetKit(id as string)
+            return response.data.data
+        },
+        enabled: !!id,
+    })
+
+    const handleSubmit = async (payload: KitPayload) => {
+        try {
+            await apiUpdateKit(Number(id), payload)
+            toast.push(
+                <Notification title="Success" type="success">
+                    Kit updated successfully
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['kits'] })
+            queryClient.invalidateQueries({ queryKey: ['kit', id] })
+            navigate('/kits')
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to update kit'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3>Edit Kit</h3>
+            </div>
+            <Loading loading={isLoading}>
+                {kit && (
+                    <KitForm
+                        initialValues={{
+                            name: kit.name,
+                            description: kit.description || '',
+                            components: kit.components.map((component) => ({
+                                productId: component.productId,
+                                quantity: component.quantity,
+                            })),
+                        }}
+                        submitLabel="Update Kit"
+                        onSubmit={handleSubmit}
+                    />
+                )}
+            </Loading>
+        </AdaptableCard>
+    )
+}
+
+export default KitEdit
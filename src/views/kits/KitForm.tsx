@@ -0,0 +1,281 @@
+import { useNavigate } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { Field, FieldArray, Form, Formik } from 'formik'
+import * as Yup from 'yup'
+import { HiOutlinePlus, HiOutlineTrash } from 'react-icons/hi'
+import { Button, FormContainer, FormItem, Input, Select } from '@/components/ui'
+import { apiGetProducts } from '@/services/ProductService'
+import type { FormikErrors, FormikTouched } from 'formik'
+import type { KitPayload } from '@/services/KitService'
+
+export interface KitFormValues {
+    name: string
+    description: string
+    components: Array<{ productId: number | null; quantity: number | '' }>
+}
+
+interface KitFormProps {
+    initialValues: KitFormValues
+    submitLabel: string
+    onSubmit: (payload: KitPayload) => Promise<void>
+}
+
+const validationSchema = Yup.object().shape({
+    name: Yup.string()
+        .required('Kit name is required')
+        .min(2, 'Too Short!')
+        .max(100, 'Too Long!'),
+    description: Yup.string().max(500, 'Too Long!'),
+    components: Yup.array()
+        .of(
+            Yup.object().shape({
+                productId: Yup.number().nullable().required('Select a product'),
+                quantity: Yup.number()
+                    .required('Quantity is required')
+                    .integer('Whole units only')
+                    .min(1, 'At least 1'),
+            }),
+        )
+        .min(1, 'Add at least one product')
+        .test(
+            'unique-products',
+            'Each product can only appear once; raise its quantity instead',
+            (components) => {
+                const ids = (components || []).map((c) => c.productId)
+                return new Set(ids).size === ids.length
+            },
+        ),
+})
+
+type ComponentValues = KitFormValues['components'][number]
+
+interface KitComponentRowProps {
+    index: number
+    component: ComponentValues
+    options: Array<{ value: number; label: string }>
+    isLoading: boolean
+    errors?: string | FormikErrors<ComponentValues>
+    touched?: FormikTouched<ComponentValues>
+    canRemove: boolean
+    onProductChange: (productId: number | null) => void
+    onRemove: () => void
+}
+
+const KitComponentRow = ({
+    index,
+    component,
+    options,
+    isLoading,
+    errors,
+    touched,
+    canRemove,
+    onProductChange,
+    onRemove,
+}: KitComponentRowProps) => {
+    const rowErrors = typeof errors === 'object' ? errors : {}
+
+    return (
+        <div className="flex items-start gap-2">
+            <div className="flex-1">
+                <Select
+                    placeholder={isLoading ? 'Loading...' : 'Select product'}
+                    options={options}
+                    value={
+                        options.find((o) => o.value === component.productId) ||
+                        null
+                    }
+                    onChange={(option) =>
+                        onProductChange(option?.value ?? null)
+                    }
+                />
+                {touched?.productId && rowErrors.productId && (
+                    <div className="text-red-500 text-sm mt-1">
+                        {rowErrors.productId}
+                    </div>
+                )}
+            </div>
+            <div className="w-28">
+                <Field
+                    type="number"
+                    name={`components.${index}.quantity`}
+                    placeholder="Qty"
+                    component={Input}
+                />
+                {touched?.quantity && rowErrors.quantity && (
+                    <div className="text-red-500 text-sm mt-1">
+                        {rowErrors.quantity}
+                    </div>
+                )}
+            </div>
+            <Button
+                type="button"
+                variant="plain"
+                icon={<HiOutlineTrash />}
+                disabled={!canRemove}
+                onClick={onRemove}
+            />
+        </div>
+    )
+}
+
+const KitForm = ({ initialValues, submitLabel, onSubmit }: KitFormProps) => {
+    const navigate = useNavigate()
+
+    const { data: productsData, isLoading: isLoadingProducts } = useQuery({
+        queryKey: ['products-for-kits'],
+        queryFn: () => apiGetProducts({ page: 1, limit: 100 }),
+    })
+    const productOptions = (
+        ((productsData?.data as { data?: unknown })?.data || []) as Array<{
+            id: number
+            name: string
+            model?: string
+        }>
+    ).map((product) => ({
+        value: product.id,
+        label: product.model
+            ? `${product.name} (${product.model})`
+            : product.name,
+    }))
+
+    const handleSubmit = (values: KitFormValues) =>
+        onSubmit({
+            name: values.name.trim(),
+            description: values.description || undefined,
+            components: values.components.map((component) => ({
+                productId: component.productId as number,
+                quantity: Number(component.quantity),
+            })),
+        })
+
+    return (
+        <Formik
+            enableReinitialize
+            initialValues={initialValues}
+            validationSchema={validationSchema}
+            onSubmit={handleSubmit}
+        >
+            {({ values, touched, errors, isSubmitting, setFieldValue }) => (
+                <Form>
+                    <FormContainer>
+                        <FormItem
+                            label="Kit Name"
+                            invalid={!!errors.name && touched.name}
+                            errorMessage={errors.name}
+                        >
+                            <Field
+                                type="text"
+                                autoComplete="off"
+                                name="name"
+                                placeholder="e.g. New hire – developer"
+                                component={Input}
+                            />
+                        </FormItem>
+                        <FormItem
+                            label="Description"
+                            invalid={
+                                !!errors.description && touched.description
+                            }
+                            errorMessage={errors.description}
+                        >
+                            <Field
+                                name="description"
+                                placeholder="Description (optional)"
+                                component={Input}
+                            />
+                        </FormItem>
+
+                        <FormItem
+                            label="Components"
+                            invalid={
+                                typeof errors.components === 'string' &&
+                                !!touched.components
+                            }
+                            errorMessage={
+                                typeof errors.components === 'string'
+                                    ? errors.components
+                                    : undefined
+                            }
+                        >
+                            <FieldArray name="components">
+                                {({ push, remove }) => (
+                                    <div className="space-y-2">
+                                        {values.components.map(
+                                            (component, index) => (
+                                                <KitComponentRow
+                                                    key={index}
+                                                    index={index}
+                                                    component={component}
+                                                    options={productOptions}
+                                                    isLoading={
+                                                        isLoadingProducts
+                                                    }
+                                                    errors={
+                                                        errors.components?.[
+                                                            index
+                                                        ]
+                                                    }
+                                                    touched={
+                                                        Array.isArray(
+                                                            touched.components,
+                                                        )
+                                                            ? touched
+                                                                  .components[
+                                                                  index
+                                                              ]
+                                                            : undefined
+                                                    }
+                                                    canRemove={
+                                                        values.components
+                                                            .length > 1
+                                                    }
+                                                    onProductChange={(id) =>
+                                                        setFieldValue(
+                                                            `components.${index}.productId`,
+                                                            id,
+                                                        )
+                                                    }
+                                                    onRemove={() =>
+                                                        remove(index)
+                                                    }
+                                                />
+                                            ),
+                                        )}
+                                        <Button
+                                            type="button"
+                                            size="sm"
+                                            icon={<HiOutlinePlus />}
+                                            onClick={() =>
+                                                push({
+                                                    productId: null,
+                                                    quantity: 1,
+                                                })
+                                            }
+                                        >
+                                            Add Product
+                                        </Button>
+                                    </div>
+                                )}
+                            </FieldArray>
+                        </FormItem>
+
+                        <div className="flex justify-end gap-2 mt-4">
+                            <Button type="button" onClick={() => navigate(-1)}>
+                                Cancel
+                            </Button>
+                            <Button
+                                variant="solid"
+                                type="submit"
+                                loading={isSubmitting}
+                            >
+                                {submitLabel}
+                            </Button>
+                        </div>
+                    </FormContainer>
+                </Form>
+            )}
+        </Formik>
+    )
+}
+
+export default KitForm
@@ -0,0 +1,35 @@
+import { useState } from 'react'
+import { AdaptableCard } from '@/components/shared'
+import { Tabs } from '@/components/ui'
+import KitAssignmentTable from './KitAssignmentTable'
+import KitTable from './KitTable'
+import KitTableTools from './KitTableTools'
+
+const KitList = () => {
+    const [activeTab, setActiveTab] = useState('kits')
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Kits</h3>
+                <KitTableTools />
+            </div>
+            <Tabs value={activeTab} onChange={setActiveTab}>
+                <Tabs.TabList>
+                    <Tabs.TabNav value="kits">Kit Definitions</Tabs.TabNav>
+                    <Tabs.TabNav value="assigned">Assigned Kits</Tabs.TabNav>
+                </Tabs.TabList>
+                <div className="pt-4">
+                    <Tabs.TabContent value="kits">
+                        <KitTable />
+                    </Tabs.TabContent>
+                    <Tabs.TabContent value="assigned">
+                        <KitAssignmentTable />
+                    </Tabs.TabContent>
+                </div>
+            </Tabs>
+        </AdaptableCard>
+    )
+}
+
+export default KitList
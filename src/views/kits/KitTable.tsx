@@ -0,0 +1,193 @@
+import { useMemo, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import debounce from 'lodash/debounce'
+import {
+    HiOutlinePencil,
+    HiOutlineTrash,
+    HiOutlineUserAdd,
+} from 'react-icons/hi'
+import { ConfirmDialog, DataTable } from '@/components/shared'
+import { Input, Notification, toast } from '@/components/ui'
+import { apiDeleteKit, apiGetKits } from '@/services/KitService'
+import AssignKitDialog from './AssignKitDialog'
+import type { ColumnDef } from '@/components/shared'
+import type { Kit } from '@/services/KitService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const KitTable = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [searchTerm, setSearchTerm] = useState('')
+    const [pagination, setPagination] = useState({ page: 1, limit: 10 })
+    const [assigningKit, setAssigningKit] = useState<Kit>()
+    const [deletingKit, setDeletingKit] = useState<Kit>()
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['kits', pagination, searchTerm],
+        queryFn: () =>
+            apiGetKits({
+                page: pagination.page,
+                limit: pagination.limit,
+                search: searchTerm || undefined,
+            }),
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: (kit: Kit) => apiDeleteKit(kit.id),
+        onSuccess: () => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    Kit deleted
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['kits'] })
+            setDeletingKit(undefined)
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to delete kit'}
+                </Notification>,
+            )
+        },
+    })
+
+    const debouncedSearch = useMemo(
+        () =>
+            debounce((value: string) => {
+                setSearchTerm(value)
+                setPagination((prev) => ({ ...prev, page: 1 }))
+            }, 500),
+        [],
+    )
+
+    const columns: ColumnDef<Kit>[] = useMemo(
+        () => [
+            {
+                header: 'Kit',
+                accessorKey: 'name',
+                cell: (props) => (
+                    <div>
+                        <span className="font-semibold">
+                            {props.row.original.name}
+                        </span>
+                        {props.row.original.description && (
+                            <div className="text-xs text-gray-500">
+                                {props.row.original.description}
+                            </div>
+                        )}
+                    </div>
+                ),
+            },
+            {
+                header: 'Components',
+                id: 'components',
+                cell: (props) =>
+                    props.row.original.components
+                        .map(
+                            (component) =>
+                                `${
+                                    component.product?.name ||
+                                    `Product #${component.productId}`
+                                } × ${component.quantity}`,
+                        )
+                        .join(', '),
+            },
+            {
+                header: '',
+                id: 'action',
+                cell: (props) => (
+                    <div className="flex justify-end text-lg">
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            title="Assign to employee"
+                            onClick={() => setAssigningKit(props.row.original)}
+                        >
+                            <HiOutlineUserAdd />
+                        </span>
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            title="Edit"
+                            onClick={() =>
+                                navigate(`/kits/edit/${props.row.original.id}`)
+                            }
+                        >
+                            <HiOutlinePencil />
+                        </span>
+                        <span
+                            className="cursor-pointer p-2 hover:text-red-600"
+                            title="Delete"
+                            onClick={() => setDeletingKit(props.row.original)}
+                        >
+                            <HiOutlineTrash />
+                        </span>
+                    </div>
+                ),
+            },
+        ],
+        [navigate],
+    )
+
+    if (error) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Error: {error.message}</span>
+            </div>
+        )
+    }
+
+    return (
+        <>
+            <Input
+                className="max-w-md mb-4"
+                size="sm"
+                placeholder="Search kits..."
+                onChange={(e) => debouncedSearch(e.target.value)}
+            />
+            <DataTable
+                columns={columns}
+                data={data?.data?.data || []}
+                loading={isLoading}
+                pagingData={{
+                    total: data?.data?.pagination?.total || 0,
+                    pageIndex: pagination.page,
+                    pageSize: pagination.limit,
+                }}
+                onPaginationChange={(page) =>
+                    setPagination((prev) => ({ ...prev, page }))
+                }
+                onSelectChange={(limit) => setPagination({ page: 1, limit })}
+            />
+
+            {assigningKit && (
+                <AssignKitDialog
+                    kit={assigningKit}
+                    onClose={() => setAssigningKit(undefined)}
+                />
+            )}
+            <ConfirmDialog
+                isOpen={!!deletingKit}
+                type="danger"
+                title="Delete kit"
+                confirmText="Delete"
+                onClose={() => setDeletingKit(undefined)}
+                onRequestClose={() => setDeletingKit(undefined)}
+                onCancel={() => setDeletingKit(undefined)}
+                onConfirm={() =>
+                    deletingKit && deleteMutation.mutate(deletingKit)
+                }
+            >
+                <p>
+                    Delete the kit definition &quot;{deletingKit?.name}&quot;?
+                    Items already handed out with it stay assigned.
+                </p>
+            </ConfirmDialog>
+        </>
+    )
+}
+
+export default KitTable
@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+    Button,
+    Dialog,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Select,
+    toast,
+} from '@/components/ui'
+import { apiReturnKit } from '@/services/KitService'
+import type { KitAssignment } from '@/services/KitService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+type ReturnStatus = 'AVAILABLE' | 'DAMAGED' | 'MAINTENANCE'
+
+const conditionOptions = [
+    { value: 'EXCELLENT', label: 'Excellent' },
+    { value: 'GOOD', label: 'Good' },
+    { value: 'FAIR', label: 'Fair' },
+    { value: 'POOR', label: 'Poor' },
+]
+
+const statusOptions: Array<{ value: ReturnStatus; label: string }> = [
+    { value: 'AVAILABLE', label: 'Available' },
+    { value: 'MAINTENANCE', label: 'Needs Maintenance' },
+    { value: 'DAMAGED', label: 'Damaged' },
+]
+
+interface ReturnKitDialogProps {
+    kitAssignment: KitAssignment
+    onClose: () => void
+}
+
+const ReturnKitDialog = ({ kitAssignment, onClose }: ReturnKitDialogProps) => {
+    const queryClient = useQueryClient()
+
+    const [condition, setCondition] = useState('GOOD')
+    const [inventoryStatus, setInventoryStatus] =
+        useState<ReturnStatus>('AVAILABLE')
+    const [notes, setNotes] = useState('')
+
+    const outstanding = kitAssignment.assignments.filter(
+        (assignment) => assignment.status !== 'RETURNED',
+    )
+
+    const returnMutation = useMutation({
+        mutationFn: () =>
+            apiReturnKit(kitAssignment.id, {
+                condition,
+                inventoryStatus,
+                notes: notes || undefined,
+            }),
+        onSuccess: () => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    {outstanding.length} item
+                    {outstanding.length !== 1 ? 's' : ''} returned
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['kit-assignments'] })
+            queryClient.invalidateQueries({ queryKey: ['active-assignments'] })
+            onClose()
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to return kit'}
+                </Notification>,
+            )
+        },
+    })
+
+    return (
+        <Dialog isOpen width={520} onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-1">Return Kit: {kitAssignment.kit?.name}</h5>
+            <p className="text-gray-500 mb-4">
+                From {kitAssignment.employee?.name}. Items returned on their own
+                earlier are left as they are.
+            </p>
+
+            <ul className="mb-4 space-y-1">
+                {outstanding.map((assignment) => (
+                    <li key={assignment.id}>
+                        <span className="font-semibold">
+                            {assignment.product?.name}
+                        </span>{' '}
+                        <span className="text-gray-500">
+                            SN:{' '}
+                            {assignment.inventory?.serialNumber ||
+                                `Item #${assignment.inventoryId}`}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+
+            <FormContainer>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormItem label="Condition">
+                        <Select
+                            options={conditionOptions}
+                            value={conditionOptions.find(
+                                (o) => o.value === condition,
+                            )}
+                            onChange={(option) =>
+                                option && setCondition(option.value)
+                            }
+                        />
+                    </FormItem>
+                    <FormItem label="Inventory Status">
+                        <Select
+                            options={statusOptions}
+                            value={statusOptions.find(
+                                (o) => o.value === inventoryStatus,
+                            )}
+                            onChange={(option) =>
+                                option && setInventoryStatus(option.value)
+                            }
+                        />
+                    </FormItem>
+                </div>
+                <FormItem label="Notes">
+                    <Input
+                        textArea
+                        value={notes}
+                        placeholder="Anything missing or worth noting"
+                        onChange={(e) => setNotes(e.target.value)}
+                    />
+                </FormItem>
+            </FormContainer>
+
+            <div className="flex justify-end gap-2">
+                <Button variant="plain" onClick={onClose}>
+                    Cancel
+                </Button>
+                <Button
+                    variant="solid"
+                    disabled={outstanding.length === 0}
+                    loading={returnMutation.isPending}
+                    onClick={() => returnMutation.mutate()}
+                >
+                    Return {outstanding.length} Item
+                    {outstanding.length !== 1 ? 's' : ''}
+                </Button>
+            </div>
+        </Dialog>
+    )
+}
+
+export default ReturnKitDialog
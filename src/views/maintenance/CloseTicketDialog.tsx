@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+    Button,
+    DatePicker,
+    Dialog,
+    FormItem,
+    Input,
+    Notification,
+    Radio,
+    toast,
+} from '@/components/ui'
+import { apiCloseMaintenanceTicket } from '@/services/MaintenanceService'
+import type { MaintenanceTicket } from '@/services/MaintenanceService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface CloseTicketDialogProps {
+    ticket: MaintenanceTicket
+    onClose: () => void
+}
+
+const CloseTicketDialog = ({ ticket, onClose }: CloseTicketDialogProps) => {
+    const queryClient = useQueryClient()
+
+    const [resolution, setResolution] = useState('')
+    const [cost, setCost] = useState(
+        ticket.cost !== undefined ? String(ticket.cost) : '',
+    )
+    const [closedAt, setClosedAt] = useState(new Date())
+    const [inventoryStatus, setInventoryStatus] = useState<
+        'AVAILABLE' | 'DAMAGED'
+    >('AVAILABLE')
+
+    const closeMutation = useMutation({
+        mutationFn: () =>
+            apiCloseMaintenanceTicket(ticket.id, {
+                resolution: resolution.trim(),
+                inventoryStatus,
+                cost: cost === '' ? undefined : Number(cost),
+                closedAt: dayjs(closedAt).format('YYYY-MM-DD'),
+            }),
+        onSuccess: () => {
+            toast.push(
+                <Notification title="Ticket closed" type="success">
+                    Item marked as{' '}
+                    {inventoryStatus === 'AVAILABLE' ? 'available' : 'damaged'}
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['maintenance-tickets'] })
+            queryClient.invalidateQueries({ queryKey: ['product'] })
+            queryClient.invalidateQueries({ queryKey: ['products'] })
+            onClose()
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to close ticket'}
+                </Notification>,
+            )
+        },
+    })
+
+    return (
+        <Dialog isOpen onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-1">Close Ticket {ticket.ticketNumber}</h5>
+            <p className="mb-4 text-gray-500">
+                {ticket.inventory?.product?.name ||
+                    `Item #${ticket.inventoryId}`}
+                {ticket.inventory?.serialNumber &&
+                    ` · SN: ${ticket.inventory.serialNumber}`}
+            </p>
+
+            <FormItem label="Resolution">
+                <Input
+                    textArea
+                    placeholder="What was done to fix it, or why it could not be fixed"
+                    value={resolution}
+                    onChange={(e) => setResolution(e.target.value)}
+                />
+            </FormItem>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormItem label="Final Cost">
+                    <Input
+                        type="number"
+                        min="0"
+                        placeholder="0.00"
+                        value={cost}
+                        onChange={(e) => setCost(e.target.value)}
+                    />
+                </FormItem>
+                <FormItem label="Closed">
+                    <DatePicker
+                        clearable={false}
+                        value={closedAt}
+                        minDate={new Date(ticket.openedAt)}
+                        maxDate={new Date()}
+                        onChange={(date) => setClosedAt(date || new Date())}
+                    />
+                </FormItem>
+            </div>
+            <FormItem label="Return item as">
+                <Radio.Group
+                    value={inventoryStatus}
+                    onChange={(value) => setInventoryStatus(value)}
+                >
+                    <Radio value="AVAILABLE">Available (repaired)</Radio>
+                    <Radio value="DAMAGED">Damaged (not repairable)</Radio>
+                </Radio.Group>
+            </FormItem>
+
+            <div className="flex justify-end gap-2">
+                <Button onClick={onClose}>Cancel</Button>
+                <Button
+                    variant="solid"
+                    loading={closeMutation.isPending}
+                    disabled={!resolution.trim() || Number(cost) < 0}
+                    onClick={() => closeMutation.mutate()}
+                >
+                    Close Ticket
+                </Button>
+            </div>
+        </Dialog>
+    )
+}
+
+export default CloseTicketDialog
@@ -0,0 +1,198 @@
+import dayjs from 'dayjs'
+import classNames from 'classnames'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { DragDropContext, Draggable } from '@hello-pangea/dnd'
+import { HiOutlineCheckCircle, HiOutlinePencil } from 'react-icons/hi'
+import { StrictModeDroppable } from '@/components/shared'
+import { Button, Card, Notification, toast } from '@/components/ui'
+import { apiUpdateMaintenanceTicket } from '@/services/MaintenanceService'
+import {
+    maintenanceStageLabels,
+    openMaintenanceStages,
+} from './maintenanceStages'
+import type { DropResult } from '@hello-pangea/dnd'
+import type { MaintenanceTicket } from '@/services/MaintenanceService'
+import type { OpenMaintenanceStage } from './maintenanceStages'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface MaintenanceBoardProps {
+    tickets: MaintenanceTicket[]
+    /** Query key the tickets were loaded with, updated optimistically */
+    queryKey: unknown[]
+    onEdit: (ticket: MaintenanceTicket) => void
+    onClose: (ticket: MaintenanceTicket) => void
+}
+
+const MaintenanceBoard = ({
+    tickets,
+    queryKey,
+    onEdit,
+    onClose,
+}: MaintenanceBoardProps) => {
+    const queryClient = useQueryClient()
+
+    const setTicketStage = (id: number, stage: OpenMaintenanceStage) =>
+        queryClient.setQueryData<MaintenanceTicket[]>(
+            queryKey,
+            (current) =>
+                current?.map((ticket) =>
+                    ticket.id === id ? { ...ticket, stage } : ticket,
+                ),
+        )
+
+    const stageMutation = useMutation({
+        mutationFn: ({
+            id,
+            stage,
+        }: {
+            id: number
+            stage: OpenMaintenanceStage
+        }) => apiUpdateMaintenanceTicket(id, { stage }),
+        onMutate: ({ id, stage }) => setTicketStage(id, stage),
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to move ticket'}
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey })
+        },
+    })
+
+    const handleDragEnd = ({
+        draggableId,
+        source,
+        destination,
+    }: DropResult) => {
+        if (!destination || destination.droppableId === source.droppableId) {
+            return
+        }
+        stageMutation.mutate({
+            id: Number(draggableId),
+            stage: destination.droppableId as OpenMaintenanceStage,
+        })
+    }
+
+    return (
+        <DragDropContext onDragEnd={handleDragEnd}>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+                {openMaintenanceStages.map((stage) => {
+                    const stageTickets = tickets.filter(
+                        (ticket) => ticket.stage === stage,
+                    )
+                    return (
+                        <div
+                            key={stage}
+                            className="flex flex-col rounded-lg bg-gray-50 dark:bg-gray-700 p-3"
+                        >
+                            <div className="flex items-center justify-between mb-3">
+                                <h6>{maintenanceStageLabels[stage]}</h6>
+                                <span className="text-sm text-gray-500">
+                                    {stageTickets.length}
+                                </span>
+                            </div>
+                            <StrictModeDroppable droppableId={stage}>
+                                {(provided, snapshot) => (
+                                    <div
+                                        ref={provided.innerRef}
+                                        className={classNames(
+                                            'flex-1 min-h-[120px] space-y-3 rounded',
+                                            snapshot.isDraggingOver &&
+                                                'bg-gray-100 dark:bg-gray-600',
+                                        )}
+                                        {...provided.droppableProps}
+                                    >
+                                        {stageTickets.map((ticket, index) => (
+                                            <Draggable
+                                                key={ticket.id}
+                                                draggableId={String(ticket.id)}
+                                                index={index}
+                                            >
+                                                {(dragProvided) => (
+                                                    <div
+                                                        ref={
+                                                            dragProvided.innerRef
+                                                        }
+                                                        {...dragProvided.draggableProps}
+                                                        {...dragProvided.dragHandleProps}
+                                                    >
+                                                        <TicketCard
+                                                            ticket={ticket}
+                                                            onEdit={onEdit}
+                                                            onClose={onClose}
+                                                        />
+                                                    </div>
+                                                )}
+                                            </Draggable>
+                                        ))}
+                                        {provided.placeholder}
+                                    </div>
+                                )}
+                            </StrictModeDroppable>
+                        </div>
+                    )
+                })}
+            </div>
+        </DragDropContext>
+    )
+}
+
+const TicketCard = ({
+    ticket,
+    onEdit,
+    onClose,
+}: {
+    ticket: MaintenanceTicket
+    onEdit: (ticket: MaintenanceTicket) => void
+    onClose: (ticket: MaintenanceTicket) => void
+}) => {
+    const daysOpen = dayjs().diff(dayjs(ticket.openedAt), 'day')
+
+    return (
+        <Card bodyClass="p-3">
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <div className="text-xs text-gray-500">
+                        {ticket.ticketNumber}
+                    </div>
+                    <div className="font-semibold">
+                        {ticket.inventory?.product?.name ||
+                            `Item #${ticket.inventoryId}`}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                        SN: {ticket.inventory?.serialNumber || 'N/A'}
+                    </div>
+                </div>
+                <div className="flex">
+                    <Button
+                        size="xs"
+                        variant="plain"
+                        icon={<HiOutlinePencil />}
+                        title="Edit"
+                        onClick={() => onEdit(ticket)}
+                    />
+                    <Button
+                        size="xs"
+                        variant="plain"
+                        icon={<HiOutlineCheckCircle />}
+                        title="Close ticket"
+                        onClick={() => onClose(ticket)}
+                    />
+                </div>
+            </div>
+            <p className="text-sm mt-2 line-clamp-3">{ticket.fault}</p>
+            <div className="flex justify-between mt-2 text-xs text-gray-500">
+                <span>
+                    {ticket.vendor || ticket.technician || 'Unassigned'}
+                </span>
+                <span className={classNames(daysOpen > 14 && 'text-red-600')}>
+                    {daysOpen === 0 ? 'Today' : `${daysOpen}d open`}
+                </span>
+            </div>
+        </Card>
+    )
+}
+
+export default MaintenanceBoard
@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { HiPlusCircle } from 'react-icons/hi'
+import { AdaptableCard, DataTable, Loading } from '@/components/shared'
+import { Button, Tabs } from '@/components/ui'
+import { apiGetMaintenanceTickets } from '@/services/MaintenanceService'
+import CloseTicketDialog from './CloseTicketDialog'
+import MaintenanceBoard from './MaintenanceBoard'
+import MaintenanceTicketDialog from './MaintenanceTicketDialog'
+import type { ColumnDef } from '@/components/shared'
+import type { MaintenanceTicket } from '@/services/MaintenanceService'
+
+const OPEN_TICKETS_KEY = ['maintenance-tickets', 'open']
+
+const MaintenanceList = () => {
+    const [activeTab, setActiveTab] = useState('board')
+    const [isCreateOpen, setIsCreateOpen] = useState(false)
+    const [editingTicket, setEditingTicket] = useState<MaintenanceTicket>()
+    const [closingTicket, setClosingTicket] = useState<MaintenanceTicket>()
+    const [pagination, setPagination] = useState({ page: 1, limit: 10 })
+
+    const { data: openTickets = [], isLoading: isLoadingOpen } = useQuery({
+        queryKey: OPEN_TICKETS_KEY,
+        queryFn: async () => {
+            const response = await apiGetMaintenanceTickets({
+                open: true,
+                limit: 500,
+            })
+            return response.data.data
+        },
+    })
+
+    const { data: closedData, isLoading: isLoadingClosed } = useQuery({
+        queryKey: ['maintenance-tickets', 'closed', pagination],
+        queryFn: () =>
+            apiGetMaintenanceTickets({
+                stage: 'CLOSED',
+                page: pagination.page,
+                limit: pagination.limit,
+            }),
+        enabled: activeTab === 'history',
+    })
+
+    const historyColumns: ColumnDef<MaintenanceTicket>[] = useMemo(
+        () => [
+            {
+                header: 'Ticket',
+                accessorKey: 'ticketNumber',
+            },
+            {
+                header: 'Item',
+                id: 'item',
+                cell: (props) => (
+                    <div>
+                        <span className="font-semibold">
+                            {props.row.original.inventory?.product?.name ||
+                                `Item #${props.row.original.inventoryId}`}
+                        </span>
+                        <div className="text-xs text-gray-500">
+                            SN:{' '}
+                            {props.row.original.inventory?.serialNumber ||
+                                'N/A'}
+                        </div>
+                    </div>
+                ),
+            },
+            {
+                header: 'Fault / Resolution',
+                id: 'fault',
+                cell: (props) => (
+                    <div className="max-w-md">
+                        <div className="text-sm">
+                            {props.row.original.fault}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                            {props.row.original.resolution}
+                        </div>
+                    </div>
+                ),
+            },
+            {
+                header: 'Vendor / Technician',
+                id: 'vendor',
+                cell: (props) => (
+                    <div>
+                        {[
+                            props.row.original.vendor,
+                            props.row.original.technician,
+                        ]
+                            .filter(Boolean)
+                            .join(' / ') || '-'}
+                        {props.row.original.warrantyClaim && (
+                            <div className="text-xs font-semibold text-indigo-600">
+                                Warranty claim
+                            </div>
+                        )}
+                    </div>
+                ),
+            },
+            {
+                header: 'Cost',
+                accessorKey: 'cost',
+                cell: (props) =>
+                    props.row.original.cost !== undefined &&
+                    props.row.original.cost !== null
+                        ? Number(props.row.original.cost).toFixed(2)
+                        : '-',
+            },
+            {
+                header: 'Opened / Closed',
+                id: 'dates',
+                cell: (props) => (
+                    <span className="text-sm">
+                        {dayjs(props.row.original.openedAt).format(
+                            'DD MMM YYYY',
+                        )}
+                        {' – '}
+                        {props.row.original.closedAt
+                            ? dayjs(props.row.original.closedAt).format(
+                                  'DD MMM YYYY',
+                              )
+                            : '-'}
+                    </span>
+                ),
+            },
+            {
+                header: 'Outcome',
+                accessorKey: 'closedStatus',
+                cell: (props) =>
+                    props.row.original.closedStatus === 'DAMAGED' ? (
+                        <span className="text-red-600">Damaged</span>
+                    ) : (
+                        <span className="text-emerald-600">Available</span>
+                    ),
+            },
+        ],
+        [],
+    )
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Maintenance</h3>
+                <Button
+                    variant="solid"
+                    size="sm"
+                    icon={<HiPlusCircle />}
+                    onClick={() => setIsCreateOpen(true)}
+                >
+                    New Ticket
+                </Button>
+            </div>
+
+            <Tabs value={activeTab} onChange={setActiveTab}>
+                <Tabs.TabList>
+                    <Tabs.TabNav value="board">
+                        Open Tickets ({openTickets.length})
+                    </Tabs.TabNav>
+                    <Tabs.TabNav value="history">History</Tabs.TabNav>
+                </Tabs.TabList>
+                <div className="pt-4">
+                    <Tabs.TabContent value="board">
+                        <Loading loading={isLoadingOpen}>
+                            <MaintenanceBoard
+                                tickets={openTickets}
+                                queryKey={OPEN_TICKETS_KEY}
+                                onEdit={setEditingTicket}
+                                onClose={setClosingTicket}
+                            />
+                        </Loading>
+                    </Tabs.TabContent>
+                    <Tabs.TabContent value="history">
+                        <DataTable
+                            columns={historyColumns}
+                            data={closedData?.data?.data || []}
+                            loading={isLoadingClosed}
+                            pagingData={{
+                                total: closedData?.data?.pagination?.total || 0,
+                                pageIndex: pagination.page,
+                                pageSize: pagination.limit,
+                            }}
+                            onPaginationChange={(page) =>
+                                setPagination((prev) => ({ ...prev, page }))
+                            }
+                            onSelectChange={(limit) =>
+                                setPagination({ page: 1, limit })
+                            }
+                        />
+                    </Tabs.TabContent>
+                </div>
+            </Tabs>
+
+            {isCreateOpen && (
+                <MaintenanceTicketDialog
+                    onClose={() => setIsCreateOpen(false)}
+                />
+            )}
+            {editingTicket && (
+                <MaintenanceTicketDialog
+                    ticket={editingTicket}
+                    onClose={() => setEditingTicket(undefined)}
+                />
+            )}
+            {closingTicket && (
+                <CloseTicketDialog
+                    ticket={closingTicket}
+                    onClose={() => setClosingTicket(undefined)}
+                />
+            )}
+        </AdaptableCard>
+    )
+}
+
+export default MaintenanceList
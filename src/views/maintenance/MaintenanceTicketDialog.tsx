@@ -0,0 +1,355 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useQueryClient } from '@tanstack/react-query'
+import { Field, Form, Formik } from 'formik'
+import * as Yup from 'yup'
+import { HiOutlineSearch } from 'react-icons/hi'
+import {
+    Alert,
+    Button,
+    Checkbox,
+    DatePicker,
+    Dialog,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    toast,
+} from '@/components/ui'
+import {
+    apiCreateMaintenanceTicket,
+    apiUpdateMaintenanceTicket,
+} from '@/services/MaintenanceService'
+import { apiLookupInventory } from '@/services/ProductService'
+import VendorSelect from '@/views/vendors/VendorSelect'
+import type { MaintenanceTicket } from '@/services/MaintenanceService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+export interface MaintenanceItem {
+    id: number
+    serialNumber?: string
+    status?: string
+    productName?: string
+}
+
+interface MaintenanceTicketDialogProps {
+    /** Ticket being edited; a new ticket is opened when omitted */
+    ticket?: MaintenanceTicket
+    /** Item to open the ticket for; asked for in the dialog when omitted */
+    item?: MaintenanceItem
+    onClose: () => void
+}
+
+interface TicketFormValues {
+    fault: string
+    vendor: string
+    vendorId: number | null
+    warrantyClaim: boolean
+    technician: string
+    cost: string
+    openedAt: Date
+}
+
+const validationSchema = Yup.object().shape({
+    fault: Yup.string().trim().required('Describe the fault'),
+    vendorId: Yup.number()
+        .nullable()
+        .when('warrantyClaim', {
+            is: true,
+            then: (schema) =>
+                schema.required('Pick the vendor the claim is made with'),
+        }),
+    cost: Yup.number()
+        .transform((value, original) => (original === '' ? undefined : value))
+        .min(0, 'Cost cannot be negative'),
+})
+
+const MaintenanceTicketDialog = ({
+    ticket,
+    item: initialItem,
+    onClose,
+}: MaintenanceTicketDialogProps) => {
+    const queryClient = useQueryClient()
+
+    const [item, setItem] = useState<MaintenanceItem | undefined>(
+        initialItem ??
+            (ticket && {
+                id: ticket.inventoryId,
+                serialNumber: ticket.inventory?.serialNumber,
+                productName: ticket.inventory?.product?.name,
+            }),
+    )
+    const [serialSearch, setSerialSearch] = useState('')
+    const [isLookingUp, setIsLookingUp] = useState(false)
+    const [lookupError, setLookupError] = useState('')
+
+    const initialValues: TicketFormValues = {
+        fault: ticket?.fault || '',
+        vendor: ticket?.vendor || '',
+        vendorId: ticket?.vendorId ?? null,
+        warrantyClaim: !!ticket?.warrantyClaim,
+        technician: ticket?.technician || '',
+        cost: ticket?.cost !== undefined ? String(ticket.cost) : '',
+        openedAt: ticket ? new Date(ticket.openedAt) : new Date(),
+    }
+
+    const handleLookup = async () => {
+        const serialNumber = serialSearch.trim()
+        if (!serialNumber) {
+            return
+        }
+        setIsLookingUp(true)
+        setLookupError('')
+        try {
+            const response = await apiLookupInventory({ serialNumber })
+            const found = (
+                response.data as {
+                    data?: {
+                        id: number
+                        serialNumber?: string
+                        status: string
+                        product?: { name: string }
+                    } | null
+                }
+            )?.data
+            if (!found) {
+                setLookupError(`No item with serial number ${serialNumber}`)
+            } else if (found.status === 'ASSIGNED') {
+                setLookupError(
+                    'This item is assigned to an employee. Return it before opening a ticket.',
+                )
+            } else {
+                setItem({
+                    id: found.id,
+                    serialNumber: found.serialNumber,
+                    status: found.status,
+                    productName: found.product?.name,
+                })
+            }
+        } catch (error) {
+            setLookupError(
+                (error as ApiError).response?.status === 404
+                    ? `No item with serial number ${serialNumber}`
+                    : 'Could not look up the item',
+            )
+        } finally {
+            setIsLookingUp(false)
+        }
+    }
+
+    const handleSubmit = async (values: TicketFormValues) => {
+        const payload = {
+            fault: values.fault.trim(),
+            vendor: values.vendor.trim() || undefined,
+            // Only warranty claims point at a directory vendor
+            vendorId: values.warrantyClaim ? values.vendorId : null,
+            warrantyClaim: values.warrantyClaim,
+            technician: values.technician.trim() || undefined,
+            cost: values.cost === '' ? undefined : Number(values.cost),
+            openedAt: dayjs(values.openedAt).format('YYYY-MM-DD'),
+        }
+
+        try {
+            if (ticket) {
+                await apiUpdateMaintenanceTicket(ticket.id, payload)
+            } else {
+                await apiCreateMaintenanceTicket({
+                    ...payload,
+                    inventoryId: (item as MaintenanceItem).id,
+                })
+            }
+            toast.push(
+                <Notification title="Success" type="success">
+                    {ticket
+                        ? 'Ticket updated'
+                        : 'Ticket opened, item moved to maintenance'}
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['maintenance-tickets'] })
+            queryClient.invalidateQueries({ queryKey: ['product'] })
+            queryClient.invalidateQueries({ queryKey: ['products'] })
+            onClose()
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to save ticket'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <Dialog isOpen width={560} onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-4">
+                {ticket
+                    ? `Edit Ticket ${ticket.ticketNumber}`
+                    : 'Open Maintenance Ticket'}
+            </h5>
+
+            {item ? (
+                <div className="mb-4 p-3 rounded bg-gray-50 dark:bg-gray-700">
+                    <div className="font-semibold">
+                        {item.productName || `Item #${item.id}`}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                        SN: {item.serialNumber || 'N/A'}
+                    </div>
+                </div>
+            ) : (
+                <FormItem label="Item serial number">
+                    <div className="flex gap-2">
+                        <Input
+                            placeholder="Serial number"
+                            value={serialSearch}
+                            onChange={(e) => setSerialSearch(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    handleLookup()
+                                }
+                            }}
+                        />
+                        <Button
+                            icon={<HiOutlineSearch />}
+                            loading={isLookingUp}
+                            onClick={handleLookup}
+                        >
+                            Find
+                        </Button>
+                    </div>
+                    {lookupError && (
+                        <Alert showIcon type="warning" className="mt-2">
+                            {lookupError}
+                        </Alert>
+                    )}
+                </FormItem>
+            )}
+
+            <Formik
+                initialValues={initialValues}
+                validationSchema={validationSchema}
+                onSubmit={handleSubmit}
+            >
+                {({ values, touched, errors, isSubmitting, setFieldValue }) => (
+                    <Form>
+                        <FormContainer>
+                            <FormItem
+                                label="Fault"
+                                invalid={!!errors.fault && touched.fault}
+                                errorMessage={errors.fault}
+                            >
+                                <Field
+                                    textArea
+                                    name="fault"
+                                    placeholder="What is wrong with the item?"
+                                    component={Input}
+                                />
+                            </FormItem>
+                            <FormItem>
+                                <Checkbox
+                                    checked={values.warrantyClaim}
+                                    onChange={(checked) =>
+                                        setFieldValue('warrantyClaim', checked)
+                                    }
+                                >
+                                    Warranty claim with the supplier
+                                </Checkbox>
+                            </FormItem>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {values.warrantyClaim ? (
+                                    <FormItem
+                                        label="Vendor"
+                                        invalid={
+                                            !!errors.vendorId &&
+                                            !!touched.vendorId
+                                        }
+                                        errorMessage={errors.vendorId}
+                                    >
+                                        <VendorSelect
+                                            value={
+                                                values.vendorId
+                                                    ? {
+                                                          id: values.vendorId,
+                                                          name: values.vendor,
+                                                      }
+                                                    : null
+                                            }
+                                            onChange={(vendor) => {
+                                                setFieldValue(
+                                                    'vendorId',
+                                                    vendor?.id ?? null,
+                                                )
+                                                setFieldValue(
+                                                    'vendor',
+                                                    vendor?.name || '',
+                                                )
+                                            }}
+                                        />
+                                    </FormItem>
+                                ) : (
+                                    <FormItem label="Vendor">
+                                        <Field
+                                            name="vendor"
+                                            placeholder="Repair shop or vendor"
+                                            component={Input}
+                                        />
+                                    </FormItem>
+                                )}
+                                <FormItem label="Technician">
+                                    <Field
+                                        name="technician"
+                                        placeholder="Who is working on it"
+                                        component={Input}
+                                    />
+                                </FormItem>
+                                <FormItem
+                                    label="Estimated Cost"
+                                    invalid={!!errors.cost && touched.cost}
+                                    errorMessage={errors.cost}
+                                >
+                                    <Field
+                                        type="number"
+                                        name="cost"
+                                        min="0"
+                                        placeholder="0.00"
+                                        component={Input}
+                                    />
+                                </FormItem>
+                                <FormItem label="Opened">
+                                    <DatePicker
+                                        clearable={false}
+                                        value={values.openedAt}
+                                        maxDate={new Date()}
+                                        onChange={(date) =>
+                                            setFieldValue(
+                                                'openedAt',
+                                                date || new Date(),
+                                            )
+                                        }
+                                    />
+                                </FormItem>
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <Button type="button" onClick={onClose}>
+                                    Cancel
+                                </Button>
+                                <Button
+                                    variant="solid"
+                                    type="submit"
+                                    loading={isSubmitting}
+                                    disabled={!item}
+                                >
+                                    {ticket ? 'Save' : 'Open Ticket'}
+                                </Button>
+                            </div>
+                        </FormContainer>
+                    </Form>
+                )}
+            </Formik>
+        </Dialog>
+    )
+}
+
+export default MaintenanceTicketDialog
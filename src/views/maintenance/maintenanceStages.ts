@@ -0,0 +1,19 @@
+import type { MaintenanceStage } from '@/services/MaintenanceService'
+
+export type OpenMaintenanceStage = Exclude<MaintenanceStage, 'CLOSED'>
+
+/** Board columns, left to right */
+export const openMaintenanceStages: OpenMaintenanceStage[] = [
+    'OPEN',
+    'DIAGNOSING',
+    'WAITING_PARTS',
+    'IN_REPAIR',
+]
+
+export const maintenanceStageLabels: Record<MaintenanceStage, string> = {
+    OPEN: 'Open',
+    DIAGNOSING: 'Diagnosing',
+    WAITING_PARTS: 'Waiting for Parts',
+    IN_REPAIR: 'In Repair',
+    CLOSED: 'Closed',
+}
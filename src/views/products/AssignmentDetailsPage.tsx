@@ -7,10 +7,17 @@ import {
   Notification,
   toast,
 } from '@/components/ui';
-import { HiOutlineArrowLeft, HiOutlineCalendar, HiOutlineUser, HiOutlineCube, HiOutlineQrcode } from 'react-icons/hi';
+import { HiOutlineArrowLeft, HiOutlineCalendar, HiOutlineUser, HiOutlineCube, HiOutlineQrcode, HiOutlinePrinter } from 'react-icons/hi';
 import { ClipLoader } from 'react-spinners';
 import { format, differenceInDays, isAfter, isBefore } from 'date-fns';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import ThermalLabelDialog from './labels/ThermalLabelDialog';
+import AttachmentsPanel from '@/views/attachments/AttachmentsPanel';
+import { returnCheckSeverityLabels } from '@/utils/returnInspection';
+import type { ReturnCheckResult } from '@/utils/returnInspection';
+import AcknowledgementStatus from '@/views/acknowledgements/AcknowledgementStatus';
+import AcknowledgementDialog from '@/views/acknowledgements/AcknowledgementDialog';
+import type { AssignmentAcknowledgement } from '@/utils/assetAcknowledgement';
 
 interface AssignmentDetails {
   id: number;
@@ -19,6 +26,8 @@ interface AssignmentDetails {
   returnedAt?: string;
   expectedReturnAt?: string;
   returnCondition?: string;
+  returnInspection?: ReturnCheckResult[];
+  acknowledgement?: AssignmentAcknowledgement | null;
   notes?: string;
   pcName?: string;
   product: {
@@ -69,6 +78,8 @@ const conditionColorMap: Record<string, string> = {
 const AssignmentDetailsPage = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const [thermalLabelDialog, setThermalLabelDialog] = useState(false);
+  const [acknowledgementDialog, setAcknowledgementDialog] = useState(false);
 
   const {
     data: assignmentResponse,
@@ -216,6 +227,13 @@ const AssignmentDetailsPage = () => {
           >
             Generate QR Code
           </Button>
+          <Button
+            variant="twoTone"
+            icon={<HiOutlinePrinter />}
+            onClick={() => setThermalLabelDialog(true)}
+          >
+            Thermal Label
+          </Button>
         </div>
       </div>
 
@@ -232,6 +250,9 @@ const AssignmentDetailsPage = () => {
           {wasOverdue && (
             <div className="bg-orange-100 text-orange-800">WAS OVERDUE</div>
           )}
+          {!assignment.acknowledgement && (
+            <div className="text-amber-600">UNSIGNED</div>
+          )}
         </div>
       </div>
 
@@ -312,6 +333,22 @@ const AssignmentDetailsPage = () => {
                 </div>
               </div>
             )}
+
+            {assignment.returnInspection && assignment.returnInspection.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-500">Return Inspection</label>
+                <ul className="space-y-1">
+                  {(assignment.returnInspection as ReturnCheckResult[]).map((check) => (
+                    <li key={check.key} className="flex justify-between gap-2">
+                      <span>{check.label}</span>
+                      <span className={check.passed ? 'text-emerald-600' : 'text-red-600 font-semibold'}>
+                        {check.passed ? 'OK' : `Failed (${returnCheckSeverityLabels[check.severity]})`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </Card>
 
@@ -429,6 +466,46 @@ const AssignmentDetailsPage = () => {
           </div>
         </Card>
       </div>
+
+      {/* Employee's signed receipt */}
+      <Card className="mt-6">
+        <h2 className="text-xl font-semibold mb-4">Acknowledgement</h2>
+        <AcknowledgementStatus
+          assignmentId={assignment.id}
+          acknowledgement={assignment.acknowledgement}
+          canSign={!returnedDate}
+          onSignAtDesk={() => setAcknowledgementDialog(true)}
+        />
+      </Card>
+
+      {/* Handover photos, signed forms and the like */}
+      <Card className="mt-6">
+        <AttachmentsPanel ownerType="ASSIGNMENT" ownerId={assignment.id} />
+      </Card>
+
+      <ThermalLabelDialog
+        isOpen={thermalLabelDialog}
+        items={[{
+          type: 'assignment',
+          id: assignment.id,
+          productName: assignment.product.name,
+          model: assignment.product.model,
+          serialNumber: assignment.inventory?.serialNumber
+        }]}
+        onClose={() => setThermalLabelDialog(false)}
+      />
+
+      {acknowledgementDialog && (
+        <AcknowledgementDialog
+          assignment={{
+            id: assignment.id,
+            productName: assignment.product.name,
+            serialNumber: assignment.inventory?.serialNumber,
+            employeeName: assignment.employee.name
+          }}
+          onClose={() => setAcknowledgementDialog(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,46 @@
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { AdaptableCard, Loading } from '@/components/shared'
+import { apiGetEmployee } from '@/services/EmployeeService.ts'
+import BulkAssignmentForm from './BulkAssignmentForm'
+import type { EmployeeOption } from './BulkAssignmentForm'
+
+const BulkAssignment = () => {
+    const navigate = useNavigate()
+    const [searchParams] = useSearchParams()
+    // Opened from an employee profile: start with that employee picked
+    const employeeId = searchParams.get('employeeId')
+
+    const { data: employee, isLoading } = useQuery({
+        queryKey: ['employee', employeeId],
+        queryFn: async () => {
+            const response = await apiGetEmployee(employeeId as string)
+            return (response.data as { data?: EmployeeOption }).data ?? null
+        },
+        enabled: !!employeeId,
+    })
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <h3 className="mb-1">Bulk Assign</h3>
+            <p className="text-gray-500 mb-6">
+                Hand several units over to one employee in one go
+            </p>
+            <Loading loading={!!employeeId && isLoading}>
+                <BulkAssignmentForm
+                    employee={employee ?? undefined}
+                    onSubmit={() =>
+                        navigate(
+                            employeeId
+                                ? `/employees/view/${employeeId}`
+                                : '/assignments',
+                        )
+                    }
+                    onCancel={() => navigate(-1)}
+                />
+            </Loading>
+        </AdaptableCard>
+    )
+}
+
+export default BulkAssignment
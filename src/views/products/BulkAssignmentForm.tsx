@@ -1,69 +1,296 @@
-import { FormContainer, FormItem } from '@/components/ui/Form'
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { Field, Form, Formik } from 'formik'
 import * as Yup from 'yup'
-import { Select } from '@/components/ui'
-import Button from '@/components/ui/Button'
-import { useQuery } from '@tanstack/react-query'
+import {
+    HiOutlineArrowLeft,
+    HiOutlineCheckCircle,
+    HiOutlinePrinter,
+    HiOutlineTrash,
+    HiOutlineXCircle,
+} from 'react-icons/hi'
+import {
+    Alert,
+    Button,
+    DatePicker,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Select,
+    Table,
+    toast,
+} from '@/components/ui'
 import { apiGetEmployees } from '@/services/EmployeeService.ts'
-import ProductSelectTable from './ProductSelectTable'
-import { HiOutlineArrowLeft } from 'react-icons/hi'
-import { apiBulkAssignProducts } from '@/services/ProductAssignmentService'
-import toast from '@/components/ui/toast'
-import Notification from '@/components/ui/Notification'
-import { useNavigate } from 'react-router-dom'
-import { apiGetAvailableProducts } from '@/services/ProductService'
+import {
+    apiAssignProduct,
+    apiGenerateAssignmentQrCode,
+    apiGetProducts,
+} from '@/services/ProductService'
+import {
+    openPrintWindow,
+    writePrintWindow,
+} from '@/views/products/labels/labelSheet'
+import BulkUnitPicker from './bulkAssign/BulkUnitPicker'
+import { buildHandoverSheetHtml } from './bulkAssign/handoverSheet'
+import type { PickedUnit } from './bulkAssign/BulkUnitPicker'
+import type { HandoverItem } from './bulkAssign/handoverSheet'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+export interface EmployeeOption {
+    id: number
+    name: string
+    empId?: string
+}
+
+interface ProductOption {
+    id: number
+    name: string
+    model?: string
+    trackingType?: string
+    stockInfo?: { availableStock: number }
+}
+
+type LineResult =
+    | { status: 'success'; assignmentId: number; serialNumber?: string }
+    | { status: 'failed'; message: string }
+
+interface BulkLine extends PickedUnit {
+    key: number
+    productId: number
+    productName: string
+    model?: string
+    result?: LineResult
+}
+
+interface BulkAssignmentValues {
+    employeeId: number | null
+    expectedReturnAt: Date | null
+    pcName: string
+    notes: string
+}
 
 const validationSchema = Yup.object().shape({
-    employeeId: Yup.number().required('Employee is required'),
-    productIds: Yup.array()
-        .of(Yup.number())
-        .min(1, 'Select at least one product')
+    employeeId: Yup.number().nullable().required('Employee is required'),
+    expectedReturnAt: Yup.date()
+        .nullable()
+        .min(dayjs().startOf('day').toDate(), 'Pick a date in the future'),
+    pcName: Yup.string().max(100, 'Too Long!'),
+    notes: Yup.string().max(1000, 'Too Long!'),
 })
 
-const BulkAssignmentForm = ({ 
-    onSubmit, 
-    onCancel 
+let nextLineKey = 1
+
+const BulkAssignmentForm = ({
+    employee: initialEmployee,
+    onSubmit,
+    onCancel,
 }: {
+    /** Employee to start with, e.g. when opened from their profile */
+    employee?: EmployeeOption
+    /** Called when the user is done with the results */
     onSubmit?: () => void
     onCancel: () => void
 }) => {
-    const navigate = useNavigate()
-    const { data: employees } = useQuery(['employees-select'], () => 
-        apiGetEmployees({ limit: 1000 }).then(res => res.data.data)
+    const queryClient = useQueryClient()
+
+    const [employeeSearch, setEmployeeSearch] = useState('')
+    const [employee, setEmployee] = useState<EmployeeOption | null>(
+        initialEmployee ?? null,
     )
+    const [productSearch, setProductSearch] = useState('')
+    const [product, setProduct] = useState<ProductOption | null>(null)
+    const [lines, setLines] = useState<BulkLine[]>([])
+    const [isPrinting, setIsPrinting] = useState(false)
+
+    const { data: employees = [], isFetching: isLoadingEmployees } = useQuery({
+        queryKey: ['employees-for-assignment', employeeSearch],
+        queryFn: async () => {
+            const response = await apiGetEmployees({
+                page: 1,
+                limit: 50,
+                search: employeeSearch,
+            })
+            return (response.data as { data?: EmployeeOption[] }).data || []
+        },
+    })
+
+    const { data: products = [], isFetching: isLoadingProducts } = useQuery({
+        queryKey: ['products', 'bulk-assign', productSearch],
+        queryFn: async () => {
+            const response = await apiGetProducts({
+                page: 1,
+                limit: 20,
+                search: productSearch || undefined,
+            })
+            // Consumables are issued by quantity, not assigned per unit
+            return (
+                (response.data as { data?: ProductOption[] }).data || []
+            ).filter((option) => option.trackingType !== 'CONSUMABLE')
+        },
+    })
 
-    const { data: availableProducts } = useQuery(['available-products'], () =>
-        apiGetAvailableProducts().then(res => res.data.data)
+    const succeeded = lines.filter((line) => line.result?.status === 'success')
+    const failed = lines.filter((line) => line.result?.status === 'failed')
+    const pending = lines.filter((line) => line.result?.status !== 'success')
+    const productLines = lines.filter(
+        (line) => product && line.productId === product.id,
     )
 
-    const handleSubmit = async (values: any, { setSubmitting }: any) => {
-        try {
-            const response = await apiBulkAssignProducts(values)
-            if (response.data.success) {
-                toast.push(
-                    <Notification title="Success" type="success">
-                        {values.productIds.length} products assigned successfully
-                    </Notification>
-                )
-                if (onSubmit) onSubmit()
-                navigate('/product-assignments')
+    const handleAddUnits = (units: PickedUnit[]) => {
+        if (!product) {
+            return
+        }
+        setLines((prev) => [
+            ...prev,
+            ...units.map((unit) => ({
+                ...unit,
+                key: nextLineKey++,
+                productId: product.id,
+                productName: product.name,
+                model: product.model,
+            })),
+        ])
+    }
+
+    const handleRemoveLine = (key: number) =>
+        setLines((prev) => prev.filter((line) => line.key !== key))
+
+    // Units go one by one, specific picks first: an auto-selected line sent
+    // earlier could otherwise be handed a unit that a later line picked by serial
+    const handleSubmit = async (values: BulkAssignmentValues) => {
+        const ordered = [
+            ...pending.filter((line) => line.inventoryId),
+            ...pending.filter((line) => !line.inventoryId),
+        ]
+        for (const line of ordered) {
+            let result: LineResult
+            try {
+                const response = await apiAssignProduct({
+                    productId: line.productId,
+                    employeeId: values.employeeId as number,
+                    inventoryId: line.inventoryId,
+                    autoSelect: !line.inventoryId,
+                    expectedReturnAt: values.expectedReturnAt?.toISOString(),
+                    pcName: values.pcName.trim() || undefined,
+                    notes: values.notes.trim() || undefined,
+                })
+                const assignment = (
+                    response.data as {
+                        data?: {
+                            id: number
+                            inventory?: { serialNumber?: string }
+                        }
+                    }
+                ).data
+                result = {
+                    status: 'success',
+                    assignmentId: assignment?.id as number,
+                    serialNumber:
+                        line.serialNumber ||
+                        assignment?.inventory?.serialNumber,
+                }
+            } catch (error) {
+                result = {
+                    status: 'failed',
+                    message:
+                        (error as ApiError).response?.data?.message ||
+                        'Failed to assign',
+                }
             }
-        } catch (error: any) {
+            setLines((prev) =>
+                prev.map((current) =>
+                    current.key === line.key ? { ...current, result } : current,
+                ),
+            )
+        }
+
+        queryClient.invalidateQueries({ queryKey: ['active-assignments'] })
+        queryClient.invalidateQueries({ queryKey: ['products'] })
+        queryClient.invalidateQueries({ queryKey: ['product'] })
+        queryClient.invalidateQueries({ queryKey: ['available-inventory'] })
+    }
+
+    const handlePrintHandover = async (values: BulkAssignmentValues) => {
+        if (!employee) {
+            return
+        }
+        const printWindow = openPrintWindow('Generating handover sheet...')
+        if (!printWindow) {
             toast.push(
                 <Notification title="Error" type="danger">
-                    {error.response?.data?.message || 'Failed to assign products'}
-                </Notification>
+                    Allow pop-ups to print the handover sheet
+                </Notification>,
             )
-        } finally {
-            setSubmitting(false)
+            return
         }
+
+        setIsPrinting(true)
+        const items: HandoverItem[] = await Promise.all(
+            succeeded.map(async (line) => {
+                const result = line.result as Extract<
+                    LineResult,
+                    { status: 'success' }
+                >
+                let qrCode: string | undefined
+                try {
+                    const response = await apiGenerateAssignmentQrCode(
+                        result.assignmentId,
+                    )
+                    qrCode = (response.data as { qrCode?: string }).qrCode
+                } catch {
+                    // The sheet is still useful without a QR code for this unit
+                }
+                return {
+                    assignmentId: result.assignmentId,
+                    productName: line.productName,
+                    model: line.model,
+                    serialNumber: result.serialNumber,
+                    qrCode,
+                }
+            }),
+        )
+        setIsPrinting(false)
+
+        writePrintWindow(
+            printWindow,
+            buildHandoverSheetHtml(
+                {
+                    employee,
+                    expectedReturnAt: values.expectedReturnAt,
+                    pcName: values.pcName.trim() || undefined,
+                    notes: values.notes.trim() || undefined,
+                },
+                items,
+            ),
+        )
     }
 
+    const employeeOptions = employees.map((option) => ({
+        value: option.id,
+        label: option.empId ? `${option.name} (${option.empId})` : option.name,
+    }))
+
+    const productOptions = products.map((option) => ({
+        value: option.id,
+        label: `${option.name}${option.model ? ` · ${option.model}` : ''}${
+            option.stockInfo
+                ? ` (${option.stockInfo.availableStock} available)`
+                : ''
+        }`,
+        isDisabled: option.stockInfo?.availableStock === 0,
+    }))
+
     return (
         <Formik
             initialValues={{
-                employeeId: '',
-                productIds: []
+                employeeId: initialEmployee?.id ?? null,
+                expectedReturnAt: null,
+                pcName: '',
+                notes: '',
             }}
             validationSchema={validationSchema}
             onSubmit={handleSubmit}
@@ -71,56 +298,286 @@ const BulkAssignmentForm = ({
             {({ values, touched, errors, isSubmitting, setFieldValue }) => (
                 <Form>
                     <FormContainer>
-                        <div className="grid grid-cols-1 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <FormItem
                                 label="Employee"
-                                invalid={!!errors.employeeId && touched.employeeId}
-                                errorMessage={errors.employeeId as string}
+                                invalid={
+                                    !!errors.employeeId && !!touched.employeeId
+                                }
+                                errorMessage={errors.employeeId}
                             >
-                                <Field name="employeeId">
-                                    {({ field, form }: any) => (
-                                        <Select
-                                            placeholder="Select Employee"
-                                            options={employees?.map(e => ({
-                                                value: e.id,
-                                                label: `${e.name} (${e.empId})`
-                                            })) || []}
-                                            value={employees?.find(e => e.id === field.value)}
-                                            onChange={(option: any) => 
-                                                form.setFieldValue(field.name, option?.value)
-                                            }
-                                        />
-                                    )}
-                                </Field>
+                                <Select
+                                    placeholder="Search employee"
+                                    isLoading={isLoadingEmployees}
+                                    // Every unit on the sheet goes to the same person
+                                    isDisabled={succeeded.length > 0}
+                                    options={employeeOptions}
+                                    value={
+                                        employee
+                                            ? {
+                                                  value: employee.id,
+                                                  label: employee.empId
+                                                      ? `${employee.name} (${employee.empId})`
+                                                      : employee.name,
+                                              }
+                                            : null
+                                    }
+                                    onInputChange={(input) =>
+                                        setEmployeeSearch(input)
+                                    }
+                                    onChange={(option) => {
+                                        setEmployee(
+                                            employees.find(
+                                                (e) => e.id === option?.value,
+                                            ) || null,
+                                        )
+                                        setFieldValue(
+                                            'employeeId',
+                                            option?.value ?? null,
+                                        )
+                                    }}
+                                />
                             </FormItem>
-
                             <FormItem
-                                label="Products to Assign"
-                                invalid={!!errors.productIds && touched.productIds}
-                                errorMessage={errors.productIds as string}
+                                label="Expected Return"
+                                invalid={
+                                    !!errors.expectedReturnAt &&
+                                    !!touched.expectedReturnAt
+                                }
+                                errorMessage={errors.expectedReturnAt as string}
                             >
-                                <ProductSelectTable 
-                                    products={availableProducts || []}
-                                    selectedIds={values.productIds}
-                                    onSelectionChange={(ids) => setFieldValue('productIds', ids)}
+                                <DatePicker
+                                    placeholder="No return date"
+                                    value={values.expectedReturnAt}
+                                    minDate={new Date()}
+                                    onChange={(date) =>
+                                        setFieldValue('expectedReturnAt', date)
+                                    }
+                                />
+                            </FormItem>
+                            <FormItem
+                                label="PC Name"
+                                invalid={!!errors.pcName && touched.pcName}
+                                errorMessage={errors.pcName}
+                            >
+                                <Field
+                                    name="pcName"
+                                    autoComplete="off"
+                                    placeholder="Workstation the items are set up for"
+                                    component={Input}
+                                />
+                            </FormItem>
+                            <FormItem
+                                label="Notes"
+                                invalid={!!errors.notes && touched.notes}
+                                errorMessage={errors.notes}
+                            >
+                                <Field
+                                    name="notes"
+                                    autoComplete="off"
+                                    placeholder="Added to every assignment"
+                                    component={Input}
                                 />
                             </FormItem>
                         </div>
 
+                        <FormItem label="Add Items">
+                            <Select
+                                placeholder="Search products"
+                                isLoading={isLoadingProducts}
+                                options={productOptions}
+                                value={
+                                    product
+                                        ? productOptions.find(
+                                              (o) => o.value === product.id,
+                                          ) || {
+                                              value: product.id,
+                                              label: product.name,
+                                          }
+                                        : null
+                                }
+                                onInputChange={(input) =>
+                                    setProductSearch(input)
+                                }
+                                onChange={(option) =>
+                                    setProduct(
+                                        products.find(
+                                            (p) => p.id === option?.value,
+                                        ) || null,
+                                    )
+                                }
+                            />
+                        </FormItem>
+                        {product && (
+                            <div className="mb-6 p-4 rounded bg-gray-50 dark:bg-gray-700">
+                                <BulkUnitPicker
+                                    key={product.id}
+                                    productId={product.id}
+                                    pickedIds={productLines
+                                        .filter(
+                                            (line) =>
+                                                line.inventoryId &&
+                                                line.result?.status !==
+                                                    'success',
+                                        )
+                                        .map(
+                                            (line) =>
+                                                line.inventoryId as number,
+                                        )}
+                                    autoCount={
+                                        productLines.filter(
+                                            (line) =>
+                                                !line.inventoryId &&
+                                                line.result?.status !==
+                                                    'success',
+                                        ).length
+                                    }
+                                    onAdd={handleAddUnits}
+                                />
+                            </div>
+                        )}
+
+                        {lines.length > 0 && (
+                            <div className="border rounded-lg overflow-hidden mb-4 dark:border-gray-600">
+                                <Table>
+                                    <thead>
+                                        <tr>
+                                            <th>#</th>
+                                            <th>Product</th>
+                                            <th>Unit</th>
+                                            <th>Result</th>
+                                            <th />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {lines.map((line, index) => (
+                                            <tr key={line.key}>
+                                                <td>{index + 1}</td>
+                                                <td>
+                                                    <div className="font-semibold">
+                                                        {line.productName}
+                                                    </div>
+                                                    <div className="text-xs text-gray-500">
+                                                        {line.model}
+                                                    </div>
+                                                </td>
+                                                <td className="font-mono">
+                                                    {line.result?.status ===
+                                                    'success'
+                                                        ? line.result
+                                                              .serialNumber ||
+                                                          'Assigned'
+                                                        : line.serialNumber ||
+                                                          (line.inventoryId ? (
+                                                              `Item #${line.inventoryId}`
+                                                          ) : (
+                                                              <span className="font-sans text-gray-500">
+                                                                  Auto-select
+                                                              </span>
+                                                          ))}
+                                                </td>
+                                                <td>
+                                                    {line.result?.status ===
+                                                        'success' && (
+                                                        <span className="flex items-center gap-1 text-emerald-600">
+                                                            <HiOutlineCheckCircle />
+                                                            Assignment #
+                                                            {
+                                                                line.result
+                                                                    .assignmentId
+                                                            }
+                                                        </span>
+                                                    )}
+                                                    {line.result?.status ===
+                                                        'failed' && (
+                                                        <span className="flex items-center gap-1 text-red-600">
+                                                            <HiOutlineXCircle />
+                                                            {
+                                                                line.result
+                                                                    .message
+                                                            }
+                                                        </span>
+                                                    )}
+                                                    {!line.result && (
+                                                        <span className="text-gray-500">
+                                                            Pending
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="text-right">
+                                                    {line.result?.status !==
+                                                        'success' && (
+                                                        <span
+                                                            className="cursor-pointer p-2 hover:text-red-600"
+                                                            onClick={() =>
+                                                                handleRemoveLine(
+                                                                    line.key,
+                                                                )
+                                                            }
+                                                        >
+                                                            <HiOutlineTrash />
+                                                        </span>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </Table>
+                            </div>
+                        )}
+
+                        {succeeded.length + failed.length > 0 && (
+                            <Alert
+                                showIcon
+                                className="mb-4"
+                                type={failed.length > 0 ? 'warning' : 'success'}
+                            >
+                                {succeeded.length} of{' '}
+                                {succeeded.length + failed.length} item
+                                {succeeded.length + failed.length !== 1
+                                    ? 's'
+                                    : ''}{' '}
+                                assigned
+                                {failed.length > 0 &&
+                                    '. Fix or remove the failed lines and submit again to retry them.'}
+                            </Alert>
+                        )}
+
                         <div className="flex justify-end gap-2 mt-4">
                             <Button
                                 type="button"
-                                onClick={onCancel}
                                 icon={<HiOutlineArrowLeft />}
+                                onClick={
+                                    succeeded.length > 0
+                                        ? onSubmit || onCancel
+                                        : onCancel
+                                }
                             >
-                                Cancel
+                                {succeeded.length > 0 ? 'Done' : 'Cancel'}
                             </Button>
+                            {succeeded.length > 0 && (
+                                <Button
+                                    type="button"
+                                    icon={<HiOutlinePrinter />}
+                                    loading={isPrinting}
+                                    onClick={() => handlePrintHandover(values)}
+                                >
+                                    Print Handover Sheet
+                                </Button>
+                            )}
                             <Button
                                 variant="solid"
                                 type="submit"
                                 loading={isSubmitting}
+                                disabled={pending.length === 0}
                             >
-                                Assign {values.productIds.length} Products
+                                {failed.length > 0
+                                    ? `Retry ${pending.length} Item${
+                                          pending.length !== 1 ? 's' : ''
+                                      }`
+                                    : `Assign ${pending.length} Item${
+                                          pending.length !== 1 ? 's' : ''
+                                      }`}
                             </Button>
                         </div>
                     </FormContainer>
@@ -130,4 +587,4 @@ const BulkAssignmentForm = ({
     )
 }
 
-export default BulkAssignmentForm
\ No newline at end of file
+export default BulkAssignmentForm
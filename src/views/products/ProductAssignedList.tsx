@@ -1,12 +1,25 @@
+import { useNavigate } from 'react-router-dom'
+import { HiUserGroup } from 'react-icons/hi'
 import { AdaptableCard } from '@/components/shared'
+import { Button } from '@/components/ui'
 import ProductAssignedTable from './ProductAssignedTable'
 
 
 const ProductList = () => {
+    const navigate = useNavigate()
+
     return (
         <AdaptableCard className="h-full" bodyClass="h-full">
             <div className="lg:flex items-center justify-between mb-4">
                 <h3 className="mb-4 lg:mb-0">Product Assignments</h3>
+                <Button
+                    variant="solid"
+                    size="sm"
+                    icon={<HiUserGroup />}
+                    onClick={() => navigate('/assignments/bulk')}
+                >
+                    Bulk Assign
+                </Button>
             </div>
             <ProductAssignedTable />
         </AdaptableCard>
@@ -8,15 +8,16 @@ import debounce from 'lodash/debounce';
 import Input from '@/components/ui/Input';
 import { 
   apiGetActiveAssignments, 
-  apiReturnProduct, 
   apiGenerateAssignmentQrCode, 
   apiDeleteAssignment 
 } from '@/services/ProductService';
-import { Button, Dialog, Notification, toast, Select } from '@/components/ui';
-import { HiOutlineCheckCircle } from 'react-icons/hi';
+import { Button, Dialog, Notification, toast } from '@/components/ui';
 import { MdAssignmentReturn } from 'react-icons/md';
 import deepParseJson from '@/utils/deepParseJson';
 import { PERSIST_STORE_NAME } from '@/constants/app.constant';
+import ReturnInspectionDialog from './returns/ReturnInspectionDialog';
+import type { ReturnInspectionTarget } from './returns/ReturnInspectionDialog';
+import type { AssignmentAcknowledgement } from '@/utils/assetAcknowledgement';
 
 interface Assignment {
   id: number;
@@ -28,6 +29,7 @@ interface Assignment {
   notes?: string;
   isOverdue?: boolean;
   daysOverdue?: number;
+  acknowledgement?: Pick<AssignmentAcknowledgement, 'signerName' | 'signedAt'> | null;
   product: {
     id: number;
     name: string;
@@ -74,12 +76,7 @@ const AssignmentListTable = () => {
   const [pagination, setPagination] = useState({ page: 1, limit: 10 });
   const [overdueFilter, setOverdueFilter] = useState(false);
   const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
-  const [returnDialog, setReturnDialog] = useState({
-    open: false,
-    assignment: null as { id: number; productName: string; inventoryInfo: string } | null,
-    condition: 'GOOD' as 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR',
-    inventoryStatus: 'AVAILABLE' as 'AVAILABLE' | 'DAMAGED' | 'MAINTENANCE'
-  });
+  const [returnTarget, setReturnTarget] = useState<ReturnInspectionTarget | null>(null);
 
   const [deleteDialog, setDeleteDialog] = useState({
     open: false,
@@ -121,23 +118,6 @@ const AssignmentListTable = () => {
   });
 
   // Mutations
-  const returnMutation = useMutation({
-    mutationFn: (data: { assignmentId: number, condition?: string, notes?: string, inventoryStatus?: string }) => 
-      apiReturnProduct(data.assignmentId, {
-        condition: data.condition,
-        notes: data.notes,
-        inventoryStatus: data.inventoryStatus as 'AVAILABLE' | 'DAMAGED' | 'MAINTENANCE'
-      }),
-    onSuccess: () => {
-      showNotification('Product returned successfully', 'success');
-      queryClient.invalidateQueries(['active-assignments']);
-      resetReturnDialog();
-    },
-    onError: (error: any) => {
-      showNotification(error.response?.data?.message || 'Failed to return product', 'danger');
-    }
-  });
-
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: apiDeleteAssignment,
@@ -188,24 +168,12 @@ const AssignmentListTable = () => {
     []
   );
 
-  const resetReturnDialog = () => {
-    setReturnDialog({
-      open: false,
-      assignment: null,
-      condition: 'GOOD',
-      inventoryStatus: 'AVAILABLE'
-    });
-  };
-
   const handleReturnClick = (assignment: Assignment) => {
-    setReturnDialog({
-      ...returnDialog,
-      open: true,
-      assignment: {
-        id: assignment.id,
-        productName: assignment.product.name,
-        inventoryInfo: assignment.inventory.serialNumber || `Item #${assignment.inventory.id}`
-      }
+    setReturnTarget({
+      id: assignment.id,
+      productName: assignment.product.name,
+      inventoryInfo: assignment.inventory.serialNumber || `Item #${assignment.inventory.id}`,
+      categoryId: assignment.product.category?.id
     });
   };
 
@@ -226,20 +194,6 @@ const AssignmentListTable = () => {
     await deleteMutation.mutateAsync(deleteDialog.assignment.id);
   };
 
-  const handleReturnSubmit = async () => {
-    if (!returnDialog.assignment?.id) {
-      showNotification('No valid assignment selected', 'danger');
-      return;
-    }
-    
-    await returnMutation.mutateAsync({
-      assignmentId: returnDialog.assignment.id,
-      condition: returnDialog.condition,
-      inventoryStatus: returnDialog.inventoryStatus,
-      notes: `Returned in ${returnDialog.condition.toLowerCase()} condition. Inventory status: ${returnDialog.inventoryStatus.toLowerCase()}`
-    });
-  };
-
   const handlePrintAssignmentQrCode = (qrCodeData: string, assignmentInfo: any) => {
     const printWindow = window.open('', '_blank', 'width=600,height=700');
     if (printWindow) {
@@ -329,6 +283,9 @@ const AssignmentListTable = () => {
         <div>
           <span className="block">{props.row.original.employee.name}</span>
           <span className="text-xs text-gray-500">{props.row.original.employee.empId}</span>
+          {!props.row.original.acknowledgement && (
+            <span className="block text-xs font-semibold text-amber-600">Receipt not signed</span>
+          )}
         </div>
       ),
     },
@@ -437,89 +394,13 @@ const AssignmentListTable = () => {
         onSelectChange={(limit) => setPagination({ page: 1, limit })}
       />
 
-      {/* Return Product Dialog */}
-      <Dialog
-        isOpen={returnDialog.open}
-        onClose={resetReturnDialog}
-        onRequestClose={resetReturnDialog}
-        width={500}
-      >
-        <h4 className="mb-4">Return Product</h4>
-        {returnDialog.assignment && (
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-1">Product</label>
-              <p className="font-semibold">{returnDialog.assignment.productName}</p>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium mb-1">Inventory Item</label>
-              <p className="text-gray-600">{returnDialog.assignment.inventoryInfo}</p>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium mb-1">Return Condition</label>
-              <Select
-                value={{ 
-                  value: returnDialog.condition, 
-                  label: returnDialog.condition.charAt(0).toUpperCase() + 
-                         returnDialog.condition.slice(1).toLowerCase() 
-                }}
-                options={[
-                  { value: 'EXCELLENT', label: 'Excellent' },
-                  { value: 'GOOD', label: 'Good' },
-                  { value: 'FAIR', label: 'Fair' },
-                  { value: 'POOR', label: 'Poor' }
-                ]}
-                onChange={(option: any) => setReturnDialog({
-                  ...returnDialog, 
-                  condition: option.value
-                })}
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium mb-1">Inventory Status After Return</label>
-              <Select
-                value={{ 
-                  value: returnDialog.inventoryStatus, 
-                  label: returnDialog.inventoryStatus.charAt(0).toUpperCase() + 
-                         returnDialog.inventoryStatus.slice(1).toLowerCase() 
-                }}
-                options={[
-                  { value: 'AVAILABLE', label: 'Available' },
-                  { value: 'MAINTENANCE', label: 'Needs Maintenance' },
-                  { value: 'DAMAGED', label: 'Damaged' }
-                ]}
-                onChange={(option: any) => setReturnDialog({
-                  ...returnDialog, 
-                  inventoryStatus: option.value
-                })}
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Choose the status for the inventory item after return
-              </p>
-            </div>
-
-            <div className="flex justify-end gap-2 mt-6">
-              <Button
-                variant="plain"
-                onClick={resetReturnDialog}
-              >
-                Cancel
-              </Button>
-              <Button
-                variant="solid"
-                onClick={handleReturnSubmit}
-                loading={returnMutation.isLoading}
-                icon={<HiOutlineCheckCircle />}
-              >
-                Confirm Return
-              </Button>
-            </div>
-          </div>
-        )}
-      </Dialog>
+      {/* Return Inspection Dialog */}
+      {returnTarget && (
+        <ReturnInspectionDialog
+          assignment={returnTarget}
+          onClose={() => setReturnTarget(null)}
+        />
+      )}
 
       {/* Delete Confirmation Dialog */}
       <Dialog
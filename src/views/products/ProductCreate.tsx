@@ -1,19 +1,26 @@
 import { FormContainer, FormItem } from '@/components/ui/Form';
 import Button from '@/components/ui/Button';
-import { Field, Form, Formik, FieldArray } from 'formik';
+import { Field, Form, Formik } from 'formik';
 import * as Yup from 'yup';
 import { Input, Select, Checkbox, Card } from '@/components/ui';
 import { AdaptableCard } from '@/components/shared';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { apiCreateProduct } from '@/services/ProductService';
+import type { ProductTrackingType } from '@/services/ProductService';
 import toast from '@/components/ui/toast';
 import Notification from '@/components/ui/Notification';
 import { useQuery } from '@tanstack/react-query';
 import { apiGetCategories } from '@/services/CategoryService';
 import { apiGetBranches } from '@/services/BranchService';
 import { apiGetDepartments } from '@/services/DepartmentService';
-import { HiOutlinePlus, HiOutlineMinus } from 'react-icons/hi';
+import { HiOutlinePlus } from 'react-icons/hi';
 import { useState, useEffect } from 'react';
+import { toCustomAttributePayload, validateCustomAttributes } from '@/utils/customAttributes';
+import type { CustomAttributeValues } from '@/utils/customAttributes';
+import CustomAttributeFields from './attributes/CustomAttributeFields';
+import { getCategoryAttributes } from './attributes/categoryAttributes';
+import type { CategoryAttributeSettings } from '@/services/CategoryService';
+import SerialNumberEntry from './serials/SerialNumberEntry';
 
 const validationSchema = Yup.object().shape({
   name: Yup.string()
@@ -42,7 +49,11 @@ const validationSchema = Yup.object().shape({
 
 const ProductCreate = () => {
   const navigate = useNavigate();
-  const [showStockFields, setShowStockFields] = useState(false);
+  const [searchParams] = useSearchParams();
+  // A serial passed in from the scanner starts the form with one unit of stock
+  const scannedSerial = searchParams.get('serial') || '';
+  const [showStockFields, setShowStockFields] = useState(!!scannedSerial);
+  const [serialsValid, setSerialsValid] = useState(true);
 
   const { 
     data: categoriesData, 
@@ -52,6 +63,9 @@ const ProductCreate = () => {
     queryKey: ['categories'],
     queryFn: () => apiGetCategories({ page: 1, limit: 100 })
   });
+  const categorySchemas = (categoriesData?.data as {
+    data?: Array<{ id: number } & CategoryAttributeSettings>;
+  })?.data;
 
   const { 
     data: branchesData, 
@@ -71,7 +85,20 @@ const ProductCreate = () => {
     queryFn: () => apiGetDepartments({ page: 1, limit: 100 })
   });
 
+  // Serials are only entered for serialized products with initial stock
+  const hasSerialEntry = (values: { trackingType: ProductTrackingType; initialStock: number | null }) =>
+    showStockFields && values.trackingType !== 'CONSUMABLE' && Number(values.initialStock) > 0;
+
   const handleSubmit = async (values: any, { setSubmitting }: any) => {
+    if (hasSerialEntry(values) && !serialsValid) {
+      toast.push(
+        <Notification title="Duplicate serial numbers" type="warning">
+          Fix the highlighted serial numbers before creating the product
+        </Notification>
+      );
+      setSubmitting(false);
+      return;
+    }
     setSubmitting(true);
     try {
       const payload = {
@@ -84,9 +111,16 @@ const ProductCreate = () => {
         complianceStatus: Boolean(values.complianceStatus),
         description: values.description?.trim() || undefined,
         minStockLevel: Number(values.minStockLevel) || 0,
+        trackingType: values.trackingType,
+        attributes: toCustomAttributePayload(
+          getCategoryAttributes(categorySchemas, values.categoryId, 'PRODUCT'),
+          values.attributes
+        ),
         // Initial stock fields
         initialStock: Number(values.initialStock) || 0,
-        serialNumbers: values.serialNumbers?.filter((sn: string) => sn.trim()) || [],
+        serialNumbers: values.trackingType === 'CONSUMABLE'
+          ? []
+          : values.serialNumbers?.filter((sn: string) => sn.trim()) || [],
         purchaseDate: values.purchaseDate || undefined,
         location: values.location?.trim() || undefined
       };
@@ -140,19 +174,30 @@ const ProductCreate = () => {
           complianceStatus: false,
           description: '',
           minStockLevel: null,
+          trackingType: 'SERIALIZED' as ProductTrackingType,
+          attributes: {} as CustomAttributeValues,
           // Initial stock fields
-          initialStock: null,
-          serialNumbers: [''],
+          initialStock: scannedSerial ? 1 : null,
+          serialNumbers: [scannedSerial],
           purchaseDate: '',
           location: ''
         }}
         validationSchema={validationSchema}
+        validate={(values) => {
+          // The category decides which custom attributes exist and are required
+          const attributeErrors = validateCustomAttributes(
+            getCategoryAttributes(categorySchemas, values.categoryId, 'PRODUCT'),
+            values.attributes
+          );
+          return Object.keys(attributeErrors).length > 0 ? { attributes: attributeErrors } : {};
+        }}
         onSubmit={handleSubmit}
       >
-        {({ touched, errors, isSubmitting, values, setFieldValue }) => {
+        {({ touched, errors, isSubmitting, values, setFieldValue, submitCount }) => {
           const categories = categoriesData?.data?.data || [];
           const branches = branchesData?.data?.data || [];
           const departments = departmentsData?.data?.data || [];
+          const productAttributes = getCategoryAttributes(categories, values.categoryId, 'PRODUCT');
 
           // Automatically adjust serial number boxes based on initial stock
           useEffect(() => {
@@ -316,6 +361,16 @@ const ProductCreate = () => {
                       </Checkbox>
                     </FormItem>
 
+                    <FormItem label="Tracking">
+                      <Checkbox
+                        name="trackingType"
+                        checked={values.trackingType === 'CONSUMABLE'}
+                        onChange={(val) => setFieldValue('trackingType', val ? 'CONSUMABLE' : 'SERIALIZED')}
+                      >
+                        Consumable (tracked by quantity, no serial numbers)
+                      </Checkbox>
+                    </FormItem>
+
                     <FormItem label="Description">
                       <Field
                         as="textarea"
@@ -327,6 +382,20 @@ const ProductCreate = () => {
                   </div>
                 </Card>
 
+                {/* Category-defined attributes */}
+                {productAttributes.length > 0 && (
+                  <Card className="mb-6">
+                    <h4 className="mb-4">Specifications</h4>
+                    <CustomAttributeFields
+                      definitions={productAttributes}
+                      values={values.attributes}
+                      errors={errors.attributes as Record<string, string> | undefined}
+                      showErrors={submitCount > 0}
+                      onChange={(key, value) => setFieldValue(`attributes.${key}`, value)}
+                    />
+                  </Card>
+                )}
+
                 {/* Initial Stock Section */}
                 <Card className="mb-6">
                   <div className="flex items-center justify-between mb-4">
@@ -368,44 +437,18 @@ const ProductCreate = () => {
                       
 
                       {/* Serial Numbers - Automatically shown based on initial stock */}
-                      {Number(values.initialStock) > 0 && (
+                      {values.trackingType !== 'CONSUMABLE' && Number(values.initialStock) > 0 && (
                         <div className="md:col-span-2">
                           <FormItem label={`Serial Numbers (${values.serialNumbers.length} items)`}>
-                            <FieldArray name="serialNumbers">
-                              {({ remove }) => (
-                                <div className="space-y-2">
-                                  {values.serialNumbers.map((serialNumber: string, index: number) => (
-                                    <div key={index} className="flex gap-2">
-                                      <Field
-                                        type="text"
-                                        name={`serialNumbers.${index}`}
-                                        placeholder={`Serial number for item ${index + 1}`}
-                                        component={Input}
-                                        className="flex-1"
-                                      />
-                                      {values.serialNumbers.length > 1 && (
-                                        <Button
-                                          type="button"
-                                          size="sm"
-                                          variant="plain"
-                                          icon={<HiOutlineMinus />}
-                                          onClick={() => {
-                                            const newSerialNumbers = [...values.serialNumbers];
-                                            newSerialNumbers.splice(index, 1);
-                                            setFieldValue('serialNumbers', newSerialNumbers);
-                                            setFieldValue('initialStock', Math.max(0, Number(values.initialStock) - 1));
-                                          }}
-                                        />
-                                      )}
-                                    </div>
-                                  ))}
-                                  
-                                  <p className="text-xs text-gray-500">
-                                    Enter serial numbers for each item. Serial numbers are required for trackable items.
-                                  </p>
-                                </div>
-                              )}
-                            </FieldArray>
+                            <SerialNumberEntry
+                              max={1000}
+                              value={values.serialNumbers}
+                              onValidityChange={setSerialsValid}
+                              onChange={(serialNumbers) => {
+                                setFieldValue('serialNumbers', serialNumbers);
+                                setFieldValue('initialStock', serialNumbers.length);
+                              }}
+                            />
                           </FormItem>
                         </div>
                       )}
@@ -424,6 +467,7 @@ const ProductCreate = () => {
                     variant="solid"
                     type="submit"
                     loading={isSubmitting}
+                    disabled={hasSerialEntry(values) && !serialsValid}
                   >
                     Create Product
                   </Button>
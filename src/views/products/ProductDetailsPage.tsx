@@ -1,4 +1,4 @@
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import {
   apiGetProductById,
@@ -9,6 +9,9 @@ import {
   apiDeleteInventoryItem,
   apiBulkDeleteInventoryItems
 } from '@/services/ProductService';
+import { apiGetCategory } from '@/services/CategoryService';
+import calculateBookValue, { hasDepreciation } from '@/utils/depreciation';
+import type { DepreciationSettings } from '@/utils/depreciation';
 import {
   Button,
   Card,
@@ -21,23 +24,53 @@ import {
 } from '@/components/ui';
 import DataTable from '@/components/shared/DataTable';
 import type { ColumnDef } from '@/components/shared/DataTable';
-import { HiOutlineArrowLeft, HiOutlinePrinter, HiOutlinePlus, HiOutlinePencil, HiOutlineSearch, HiOutlineQrcode, HiOutlineTrash, HiOutlineEye } from 'react-icons/hi';
+import { HiOutlineArrowLeft, HiOutlinePrinter, HiOutlinePlus, HiOutlinePencil, HiOutlineSearch, HiOutlineQrcode, HiOutlineTrash, HiOutlineEye, HiOutlineTruck, HiOutlineSwitchHorizontal, HiOutlineCog, HiOutlineUserAdd, HiOutlineClock, HiOutlineArchive } from 'react-icons/hi';
 import { useNavigate } from 'react-router-dom';
 import { MdAssignment, MdInventory } from 'react-icons/md';
 import { BiBox } from 'react-icons/bi';
 import { ClipLoader } from 'react-spinners';
 import { useState, useMemo } from 'react';
+import LabelSheetDialog from './labels/LabelSheetDialog';
+import ThermalLabelDialog from './labels/ThermalLabelDialog';
+import MaintenanceTicketDialog from '@/views/maintenance/MaintenanceTicketDialog';
+import type { MaintenanceItem } from '@/views/maintenance/MaintenanceTicketDialog';
+import type { LabelItem } from './labels/types';
+import ConsumableMovementsCard from './consumables/ConsumableMovementsCard';
+import IssueConsumableDialog from './consumables/IssueConsumableDialog';
+import ReceiveConsumableDialog from './consumables/ReceiveConsumableDialog';
+import { consumableStockStatus, isConsumable } from './consumables/consumableStock';
+import VendorContact from '@/views/vendors/VendorContact';
+import VendorSelect from '@/views/vendors/VendorSelect';
+import type { VendorSummary } from '@/services/VendorService';
+import type { CategoryAttributeSettings } from '@/services/CategoryService';
+import {
+  attributesForScope,
+  describeCustomAttributes,
+  formatCustomAttribute,
+  toCustomAttributePayload,
+  validateCustomAttributes
+} from '@/utils/customAttributes';
+import type { CustomAttributeValues } from '@/utils/customAttributes';
+import CustomAttributeFields from './attributes/CustomAttributeFields';
+import AttachmentsPanel from '@/views/attachments/AttachmentsPanel';
+import ItemTimelineDrawer from './timeline/ItemTimelineDrawer';
+import SerialNumberEntry from './serials/SerialNumberEntry';
+import DisposalDialog from '@/views/disposals/DisposalDialog';
+import type { DisposalCandidate } from '@/views/disposals/DisposalDialog';
 
 interface InventoryItem {
   id: number;
   serialNumber?: string;
-  status: 'AVAILABLE' | 'ASSIGNED' | 'MAINTENANCE' | 'DAMAGED' | 'RETIRED';
+  status: 'AVAILABLE' | 'ASSIGNED' | 'MAINTENANCE' | 'DAMAGED' | 'RETIRED' | 'MISSING';
   condition: 'NEW' | 'GOOD' | 'FAIR' | 'POOR' | 'DAMAGED';
   purchaseDate?: string;
   purchasePrice?: number;
   warrantyExpiry?: string;
   location?: string;
   notes?: string;
+  vendorId?: number | null;
+  vendor?: VendorSummary | null;
+  attributes?: CustomAttributeValues;
   createdAt: string;
   assignments?: Assignment[];
 }
@@ -86,6 +119,9 @@ interface ProductDetails {
   complianceStatus: boolean;
   description?: string;
   minStockLevel: number;
+  trackingType?: 'SERIALIZED' | 'CONSUMABLE';
+  quantityOnHand?: number;
+  attributes?: CustomAttributeValues;
   createdAt: string;
   updatedAt: string;
   inventory: InventoryItem[];
@@ -105,7 +141,8 @@ const statusColorMap: Record<string, string> = {
   ASSIGNED: 'text-blue-600 bg-transparent  w-fit',
   MAINTENANCE: 'text-yellow-600 bg-transparent  w-fit',
   DAMAGED: 'text-red-600 bg-transparent  w-fit',
-  RETIRED: 'text-gray-600 bg-transparent  w-fit'
+  RETIRED: 'text-gray-600 bg-transparent  w-fit',
+  MISSING: 'text-purple-600 bg-transparent  w-fit'
 };
 
 const conditionColorMap: Record<string, string> = {
@@ -124,6 +161,7 @@ const assignmentStatusColorMap: Record<string, string> = {
 
 const ProductDetailsPage = () => {
   const { id } = useParams();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
 
   // Dialog states
@@ -131,17 +169,26 @@ const ProductDetailsPage = () => {
   const [editInventoryDialog, setEditInventoryDialog] = useState(false);
   const [deleteInventoryDialog, setDeleteInventoryDialog] = useState(false);
   const [bulkDeleteDialog, setBulkDeleteDialog] = useState(false);
+  const [labelSheetDialog, setLabelSheetDialog] = useState(false);
+  const [thermalLabelDialog, setThermalLabelDialog] = useState(false);
+  const [maintenanceItem, setMaintenanceItem] = useState<MaintenanceItem | null>(null);
+  const [timelineItem, setTimelineItem] = useState<InventoryItem | null>(null);
+  const [disposalItems, setDisposalItems] = useState<DisposalCandidate[] | null>(null);
+  const [consumableAction, setConsumableAction] = useState<'issue' | 'receive' | null>(null);
   const [selectedInventory, setSelectedInventory] = useState<InventoryItem | null>(null);
+  const [inventoryAttributeErrors, setInventoryAttributeErrors] = useState<Record<string, string> | null>(null);
   const [selectedInventoryIds, setSelectedInventoryIds] = useState<number[]>([]);
   const [stockForm, setStockForm] = useState({
     quantity: 1,
     serialNumbers: [''],
     purchasePrice: '',
-    location: ''
+    location: '',
+    vendor: null as VendorSummary | null
   });
+  const [stockSerialsValid, setStockSerialsValid] = useState(true);
 
-  // Search state for inventory items
-  const [inventorySearch, setInventorySearch] = useState('');
+  // Search state for inventory items (pre-filled when arriving from the scanner)
+  const [inventorySearch, setInventorySearch] = useState(searchParams.get('search') || '');
 
   const {
     data: productResponse,
@@ -367,7 +414,8 @@ const ProductDetailsPage = () => {
       quantity: 1,
       serialNumbers: [''],
       purchasePrice: '',
-      location: ''
+      location: '',
+      vendor: null
     });
   };
 
@@ -377,6 +425,7 @@ const ProductDetailsPage = () => {
       serialNumbers: stockForm.serialNumbers.filter(sn => sn.trim()),
       purchasePrice: stockForm.purchasePrice ? Number(stockForm.purchasePrice) : undefined,
       location: stockForm.location.trim() || undefined,
+      vendorId: stockForm.vendor?.id,
       reason: 'Manual stock addition'
     };
 
@@ -385,6 +434,7 @@ const ProductDetailsPage = () => {
 
   const handleEditInventory = (item: InventoryItem) => {
     setSelectedInventory(item);
+    setInventoryAttributeErrors(null);
     setEditInventoryDialog(true);
   };
 
@@ -408,6 +458,10 @@ const ProductDetailsPage = () => {
   const handleUpdateInventorySubmit = () => {
     if (!selectedInventory) return;
 
+    const attributeErrors = validateCustomAttributes(itemAttributes, selectedInventory.attributes);
+    setInventoryAttributeErrors(attributeErrors);
+    if (Object.keys(attributeErrors).length > 0) return;
+
     updateInventory({
       inventoryId: selectedInventory.id,
       updateData: {
@@ -416,6 +470,8 @@ const ProductDetailsPage = () => {
         location: selectedInventory.location,
         notes: selectedInventory.notes,
         serialNumber: selectedInventory.serialNumber,
+        vendorId: selectedInventory.vendorId ?? null,
+        attributes: toCustomAttributePayload(itemAttributes, selectedInventory.attributes),
         reason: 'Manual inventory update'
       }
     });
@@ -456,6 +512,18 @@ const ProductDetailsPage = () => {
   // Extract product data from response structure
   const product = productResponse?.data?.data || productResponse?.data;
 
+  // Depreciation settings and the custom attribute schema live on the category
+  const { data: categorySettings } = useQuery({
+    queryKey: ['category', product?.category?.id],
+    queryFn: async () => {
+      const response = await apiGetCategory(String(product?.category?.id));
+      return (response.data as { data?: DepreciationSettings & CategoryAttributeSettings }).data ?? null;
+    },
+    enabled: !!product?.category?.id
+  });
+  const productAttributes = attributesForScope(categorySettings?.customAttributes, 'PRODUCT');
+  const itemAttributes = attributesForScope(categorySettings?.customAttributes, 'ITEM');
+
   // Filtered inventory data based on search
   const filteredInventoryData = useMemo(() => {
     if (!product?.inventory || !inventorySearch.trim()) {
@@ -471,6 +539,8 @@ const ProductDetailsPage = () => {
       const condition = item.condition.toLowerCase();
       const location = item.location?.toLowerCase() || '';
       const notes = item.notes?.toLowerCase() || '';
+      const vendor = item.vendor?.name.toLowerCase() || '';
+      const attributes = Object.values(item.attributes || {}).join(' ').toLowerCase();
       const purchaseDate = item.purchaseDate ? new Date(item.purchaseDate).toLocaleDateString().toLowerCase() : '';
 
       return (
@@ -480,14 +550,41 @@ const ProductDetailsPage = () => {
         condition.includes(searchTerm) ||
         location.includes(searchTerm) ||
         notes.includes(searchTerm) ||
+        vendor.includes(searchTerm) ||
+        attributes.includes(searchTerm) ||
         purchaseDate.includes(searchTerm)
       );
     });
   }, [product?.inventory, inventorySearch]);
 
+  // Distinct vendors this product's units were bought from
+  const productVendors = useMemo(() => {
+    const vendors = new Map<number, VendorSummary>();
+    (product?.inventory || []).forEach((item: InventoryItem) => {
+      if (item.vendor) {
+        vendors.set(item.vendor.id, item.vendor);
+      }
+    });
+    return Array.from(vendors.values());
+  }, [product?.inventory]);
+
   // Get selected items count
   const selectedItemsCount = selectedInventoryIds.length;
 
+  // Labels are printed for the selected rows, or for every row in the current view when nothing is selected
+  const labelItems = useMemo<LabelItem[]>(() => {
+    const items = selectedItemsCount > 0
+      ? filteredInventoryData.filter((item: InventoryItem) => selectedInventoryIds.includes(item.id))
+      : filteredInventoryData;
+    return items.map((item: InventoryItem) => ({
+      type: 'inventory',
+      id: item.id,
+      productName: product?.name || '',
+      model: product?.model,
+      serialNumber: item.serialNumber
+    }));
+  }, [filteredInventoryData, selectedInventoryIds, selectedItemsCount, product?.name, product?.model]);
+
   // Table columns for inventory
   const inventoryColumns: ColumnDef<InventoryItem>[] = [
     {
@@ -515,7 +612,17 @@ const ProductDetailsPage = () => {
     {
       id: 'serialNumber',
       header: 'Serial Number',
-      cell: (props) => props.row.original.serialNumber || `Item #${props.row.original.id}`,
+      cell: (props) => {
+        const details = describeCustomAttributes(itemAttributes, props.row.original.attributes);
+        return (
+          <div>
+            {props.row.original.serialNumber || `Item #${props.row.original.id}`}
+            {details.length > 0 && (
+              <div className="text-xs text-gray-500">{details.join(' · ')}</div>
+            )}
+          </div>
+        );
+      },
     },
     {
       id: 'status',
@@ -544,6 +651,40 @@ const ProductDetailsPage = () => {
           : '-'
       ),
     },
+    {
+      id: 'vendor',
+      header: 'Purchased From',
+      cell: (props) => (
+        props.row.original.vendor ? (
+          <span
+            className="cursor-pointer hover:underline"
+            onClick={() => navigate(`/vendors/view/${props.row.original.vendor?.id}`)}
+          >
+            {props.row.original.vendor.name}
+          </span>
+        ) : '-'
+      ),
+    },
+    {
+      id: 'bookValue',
+      header: 'Book Value',
+      cell: (props) => {
+        const bookValue = calculateBookValue(props.row.original, categorySettings);
+        if (bookValue === undefined) {
+          return '-';
+        }
+        return (
+          <div>
+            {bookValue.toFixed(2)}
+            {hasDepreciation(categorySettings) && (
+              <div className="text-xs text-gray-500">
+                of {Number(props.row.original.purchasePrice).toFixed(2)}
+              </div>
+            )}
+          </div>
+        );
+      },
+    },
     {
       id: 'actions',
       header: 'Actions',
@@ -556,6 +697,49 @@ const ProductDetailsPage = () => {
             disabled={props.row.original.status === 'ASSIGNED'}
             title="Edit"
           />
+          <Button
+            size="xs"
+            icon={<HiOutlineClock />}
+            title="Item history"
+            onClick={() => setTimelineItem(props.row.original)}
+          />
+          <Button
+            size="xs"
+            icon={<HiOutlineTruck />}
+            disabled={props.row.original.status !== 'AVAILABLE'}
+            title="Transfer to another branch"
+            onClick={() => navigate(`/transfers/create?fromBranchId=${product?.branch?.id}&inventoryId=${props.row.original.id}`)}
+          />
+          <Button
+            size="xs"
+            icon={<HiOutlineSwitchHorizontal />}
+            title="Transfer history"
+            onClick={() => navigate(`/transfers?inventoryId=${props.row.original.id}`)}
+          />
+          <Button
+            size="xs"
+            icon={<HiOutlineCog />}
+            disabled={['ASSIGNED', 'MAINTENANCE'].includes(props.row.original.status)}
+            title="Open maintenance ticket"
+            onClick={() => setMaintenanceItem({
+              id: props.row.original.id,
+              serialNumber: props.row.original.serialNumber,
+              status: props.row.original.status,
+              productName: product?.name
+            })}
+          />
+          <Button
+            size="xs"
+            icon={<HiOutlineArchive />}
+            disabled={props.row.original.status === 'ASSIGNED'}
+            title="Dispose (sell, donate, scrap or write off)"
+            onClick={() => setDisposalItems([{
+              id: props.row.original.id,
+              serialNumber: props.row.original.serialNumber,
+              status: props.row.original.status,
+              productName: product?.name
+            }])}
+          />
           <Button
             size="xs"
             icon={<HiOutlineTrash />}
@@ -694,13 +878,33 @@ const ProductDetailsPage = () => {
         </Button>
 
         <div className="flex gap-2">
-          <Button
-            variant="twoTone"
-            icon={<HiOutlinePlus />}
-            onClick={() => setAddStockDialog(true)}
-          >
-            Add Stock
-          </Button>
+          {isConsumable(product) ? (
+            <>
+              <Button
+                variant="twoTone"
+                icon={<HiOutlinePlus />}
+                onClick={() => setConsumableAction('receive')}
+              >
+                Receive Stock
+              </Button>
+              <Button
+                variant="solid"
+                icon={<HiOutlineUserAdd />}
+                disabled={(product.quantityOnHand ?? 0) <= 0}
+                onClick={() => setConsumableAction('issue')}
+              >
+                Issue
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="twoTone"
+              icon={<HiOutlinePlus />}
+              onClick={() => setAddStockDialog(true)}
+            >
+              Add Stock
+            </Button>
+          )}
 
         </div>
       </div>
@@ -733,6 +937,45 @@ const ProductDetailsPage = () => {
                   <span className="ml-2">{product.warrantyDuration} months</span>
                 </div>
               )}
+              {productVendors.length > 0 && (
+                <>
+                  <div>
+                    <span className="font-semibold">Purchased From:</span>
+                    <span className="ml-2">
+                      {productVendors.map((vendor, index) => (
+                        <span key={vendor.id}>
+                          {index > 0 && ', '}
+                          <span
+                            className="cursor-pointer text-indigo-600 hover:underline"
+                            onClick={() => navigate(`/vendors/view/${vendor.id}`)}
+                          >
+                            {vendor.name}
+                          </span>
+                        </span>
+                      ))}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="font-semibold">Support Contact:</span>
+                    {productVendors.map((vendor) => (
+                      <div key={vendor.id} className="ml-2 mt-1">
+                        {productVendors.length > 1 && (
+                          <div className="text-xs font-semibold text-gray-500">{vendor.name}</div>
+                        )}
+                        <VendorContact vendor={vendor} />
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+              {productAttributes.map((definition) => (
+                <div key={definition.key}>
+                  <span className="font-semibold">{definition.label}:</span>
+                  <span className="ml-2">
+                    {formatCustomAttribute(definition, product.attributes?.[definition.key])}
+                  </span>
+                </div>
+              ))}
               <div>
                 <span className="font-semibold">Minimum Stock Level:</span>
                 <span className="ml-2">{product.minStockLevel}</span>
@@ -754,32 +997,47 @@ const ProductDetailsPage = () => {
             {/* Stock Statistics */}
             <div className=" p-4 rounded-lg mb-4">
               <h3 className="font-semibold mb-3">Stock Overview</h3>
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="text-gray-600">Total Stock:</span>
-                  <span className="ml-2 font-semibold">{product.stockStats?.totalStock || 0}</span>
-                </div>
-                <div>
-                  <span className="text-gray-600">Available:</span>
-                  <span className="ml-2 font-semibold text-green-600">{product.stockStats?.availableStock || 0}</span>
-                </div>
-                <div>
-                  <span className="text-gray-600">Assigned:</span>
-                  <span className="ml-2 font-semibold text-blue-600">{product.stockStats?.assignedStock || 0}</span>
-                </div>
-                <div>
-                  <span className="text-gray-600">Damaged:</span>
-                  <span className="ml-2 font-semibold text-red-600">{product.stockStats?.damagedStock || 0}</span>
-                </div>
-                <div>
-                  <span className="text-gray-600">Maintenance:</span>
-                  <span className="ml-2 font-semibold text-yellow-600">{product.stockStats?.maintenanceStock || 0}</span>
+              {isConsumable(product) ? (
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-600">On Hand:</span>
+                    <span className="ml-2 font-semibold text-green-600">{product.quantityOnHand ?? 0} units</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Status:</span>
+                    <span className="ml-2 font-semibold">
+                      {consumableStockStatus(product.quantityOnHand ?? 0, product.minStockLevel).replace(/_/g, ' ')}
+                    </span>
+                  </div>
                 </div>
-                <div>
-                  <span className="text-gray-600">Retired:</span>
-                  <span className="ml-2 font-semibold text-gray-600">{product.stockStats?.retiredStock || 0}</span>
+              ) : (
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-600">Total Stock:</span>
+                    <span className="ml-2 font-semibold">{product.stockStats?.totalStock || 0}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Available:</span>
+                    <span className="ml-2 font-semibold text-green-600">{product.stockStats?.availableStock || 0}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Assigned:</span>
+                    <span className="ml-2 font-semibold text-blue-600">{product.stockStats?.assignedStock || 0}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Damaged:</span>
+                    <span className="ml-2 font-semibold text-red-600">{product.stockStats?.damagedStock || 0}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Maintenance:</span>
+                    <span className="ml-2 font-semibold text-yellow-600">{product.stockStats?.maintenanceStock || 0}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Retired:</span>
+                    <span className="ml-2 font-semibold text-gray-600">{product.stockStats?.retiredStock || 0}</span>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
 
             <div className=" p-4 rounded-lg">
@@ -792,98 +1050,141 @@ const ProductDetailsPage = () => {
         </div>
       </Card>
 
+      {isConsumable(product) && <ConsumableMovementsCard productId={product.id} />}
+
       {/* Inventory Items */}
-      <Card className="mb-6">
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center gap-2">
-            <MdInventory />
-            <h3 className="text-xl font-semibold">Inventory Items</h3>
-            {selectedItemsCount > 0 && (
-              <span className="text-sm text-blue-600 bg-blue-100 px-2 py-1 rounded">
-                {selectedItemsCount} item{selectedItemsCount !== 1 ? 's' : ''} selected
-              </span>
-            )}
-          </div>
-          <div className="flex gap-">
-            {selectedItemsCount > 0 && (
+      {!isConsumable(product) && (
+        <Card className="mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <MdInventory />
+              <h3 className="text-xl font-semibold">Inventory Items</h3>
+              {selectedItemsCount > 0 && (
+                <span className="text-sm text-blue-600 bg-blue-100 px-2 py-1 rounded">
+                  {selectedItemsCount} item{selectedItemsCount !== 1 ? 's' : ''} selected
+                </span>
+              )}
+            </div>
+            <div className="flex gap-2">
               <Button
-                variant="solid"
-                color="red"
-                icon={<HiOutlineTrash />}
-                onClick={handleBulkDeleteInventory}
-                disabled={selectedItemsCount === 0}
+                variant="twoTone"
+                icon={<HiOutlinePrinter />}
+                disabled={labelItems.length === 0}
+                onClick={() => setLabelSheetDialog(true)}
               >
-                Delete Selected ({selectedItemsCount})
+                Print Labels ({labelItems.length})
               </Button>
-            )}
+              <Button
+                variant="twoTone"
+                icon={<HiOutlinePrinter />}
+                disabled={labelItems.length === 0}
+                onClick={() => setThermalLabelDialog(true)}
+              >
+                Thermal Labels
+              </Button>
+              {selectedItemsCount > 0 && (
+                <Button
+                  variant="twoTone"
+                  icon={<HiOutlineArchive />}
+                  onClick={() => setDisposalItems(
+                    (product.inventory || [])
+                      .filter((item: InventoryItem) => selectedInventoryIds.includes(item.id))
+                      .map((item: InventoryItem) => ({
+                        id: item.id,
+                        serialNumber: item.serialNumber,
+                        status: item.status,
+                        productName: product.name
+                      }))
+                  )}
+                >
+                  Dispose Selected ({selectedItemsCount})
+                </Button>
+              )}
+              {selectedItemsCount > 0 && (
+                <Button
+                  variant="solid"
+                  color="red"
+                  icon={<HiOutlineTrash />}
+                  disabled={selectedItemsCount === 0}
+                  onClick={handleBulkDeleteInventory}
+                >
+                  Delete Selected ({selectedItemsCount})
+                </Button>
+              )}
+            </div>
           </div>
-        </div>
 
-        {/* Search Input for Inventory */}
-        <div className="mb-4 max-w-md">
-          <Input
-            placeholder="Search inventory items..."
-            value={inventorySearch}
-            onChange={(e) => setInventorySearch(e.target.value)}
-            prefix={<HiOutlineSearch className="text-gray-400" />}
-            clearButton
-            onClear={() => setInventorySearch('')}
-          />
-        </div>
+          {/* Search Input for Inventory */}
+          <div className="mb-4 max-w-md">
+            <Input
+              clearButton
+              placeholder="Search inventory items..."
+              value={inventorySearch}
+              prefix={<HiOutlineSearch className="text-gray-400" />}
+              onChange={(e) => setInventorySearch(e.target.value)}
+              onClear={() => setInventorySearch('')}
+            />
+          </div>
 
-        {/* Search Results Info */}
-        {inventorySearch.trim() && (
-          <div className="mb-3 text-sm text-gray-600">
-            Showing {filteredInventoryData.length} of {product.inventory?.length || 0} items
-            {filteredInventoryData.length !== (product.inventory?.length || 0) && (
+          {/* Search Results Info */}
+          {inventorySearch.trim() && (
+            <div className="mb-3 text-sm text-gray-600">
+              Showing {filteredInventoryData.length} of {product.inventory?.length || 0} items
+              {filteredInventoryData.length !== (product.inventory?.length || 0) && (
+                <Button
+                  variant="plain"
+                  size="xs"
+                  className="ml-2"
+                  onClick={() => setInventorySearch('')}
+                >
+                  Clear search
+                </Button>
+              )}
+            </div>
+          )}
+
+          {!product.inventory || product.inventory.length === 0 ? (
+            <div className="text-center py-8">
+              <BiBox className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">No inventory items found for this product</p>
               <Button
+                className="mt-4"
+                variant="solid"
+                icon={<HiOutlinePlus />}
+                onClick={() => setAddStockDialog(true)}
+              >
+                Add First Stock
+              </Button>
+            </div>
+          ) : filteredInventoryData.length === 0 ? (
+            <div className="text-center py-8">
+              <HiOutlineSearch className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">No inventory items match your search</p>
+              <Button
+                className="mt-4"
                 variant="plain"
-                size="xs"
-                className="ml-2"
                 onClick={() => setInventorySearch('')}
               >
                 Clear search
               </Button>
-            )}
-          </div>
-        )}
+            </div>
+          ) : (
+            <DataTable
+              columns={inventoryColumns}
+              data={filteredInventoryData}
+              pagingData={{
+                total: filteredInventoryData.length,
+                pageIndex: 1,
+                pageSize: filteredInventoryData.length,
+              }}
+            />
+          )}
+        </Card>
+      )}
 
-        {!product.inventory || product.inventory.length === 0 ? (
-          <div className="text-center py-8">
-            <BiBox className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <p className="text-gray-500">No inventory items found for this product</p>
-            <Button
-              className="mt-4"
-              variant="solid"
-              icon={<HiOutlinePlus />}
-              onClick={() => setAddStockDialog(true)}
-            >
-              Add First Stock
-            </Button>
-          </div>
-        ) : filteredInventoryData.length === 0 ? (
-          <div className="text-center py-8">
-            <HiOutlineSearch className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <p className="text-gray-500">No inventory items match your search</p>
-            <Button
-              className="mt-4"
-              variant="plain"
-              onClick={() => setInventorySearch('')}
-            >
-              Clear search
-            </Button>
-          </div>
-        ) : (
-          <DataTable
-            columns={inventoryColumns}
-            data={filteredInventoryData}
-            pagingData={{
-              total: filteredInventoryData.length,
-              pageIndex: 1,
-              pageSize: filteredInventoryData.length,
-            }}
-          />
-        )}
+      {/* Invoices, warranty papers and photos for the product */}
+      <Card className="mb-6">
+        <AttachmentsPanel ownerType="PRODUCT" ownerId={product.id} />
       </Card>
 
       {/* Assignment History */}
@@ -910,6 +1211,13 @@ const ProductDetailsPage = () => {
         )}
       </Card>
 
+      {consumableAction === 'issue' && (
+        <IssueConsumableDialog product={product} onClose={() => setConsumableAction(null)} />
+      )}
+      {consumableAction === 'receive' && (
+        <ReceiveConsumableDialog product={product} onClose={() => setConsumableAction(null)} />
+      )}
+
       {/* Add Stock Dialog */}
       <Dialog
         isOpen={addStockDialog}
@@ -934,6 +1242,15 @@ const ProductDetailsPage = () => {
                 
               </div>
 
+              <div>
+                <label className="block text-sm font-medium mb-1">Purchased From</label>
+                <VendorSelect
+                  placeholder="Vendor (optional)"
+                  value={stockForm.vendor}
+                  onChange={(vendor) => setStockForm({ ...stockForm, vendor: vendor || null })}
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium mb-1">Quantity</label>
                 <Input
@@ -957,42 +1274,18 @@ const ProductDetailsPage = () => {
 
               <div>
                 <label className="block text-sm font-medium mb-1">
-                  Serial Numbers (Optional - {stockForm.serialNumbers.filter(sn => sn.trim()).length} of {stockForm.quantity} filled)
+                  Serial Numbers (Optional)
                 </label>
-
-                
-
-                {/* Container for serial inputs with its own scroll */}
-                <div
-                  className="max-h-60 overflow-y-auto border rounded p-3 "
-                  style={{
-                    scrollbarWidth: 'thin',
-                    scrollbarColor: '#cbd5e1 #f1f5f9'
-                  }}
-                >
-                  <div className="space-y-2">
-                    {Array.from({ length: stockForm.quantity }, (_, index) => (
-                      <div key={index} className="flex items-center gap-2">
-                        <span className="text-xs text-gray-500 w-8 flex-shrink-0">#{index + 1}</span>
-                        <Input
-                          type="text"
-                          placeholder={`Serial number ${index + 1}`}
-                          value={stockForm.serialNumbers[index] || ''}
-                          onChange={(e) => {
-                            const newSerialNumbers = [...stockForm.serialNumbers];
-                            newSerialNumbers[index] = e.target.value;
-                            setStockForm({ ...stockForm, serialNumbers: newSerialNumbers });
-                          }}
-                          className="flex-1"
-                          size="sm"
-                        />
-                      </div>
-                    ))}
-                  </div>
-                </div>
-                <p className="text-xs text-gray-500 mt-2">
-                  Leave empty for non-serialized items. Scroll within the box above for many items.
-                </p>
+                <SerialNumberEntry
+                  max={100}
+                  value={stockForm.serialNumbers}
+                  onValidityChange={setStockSerialsValid}
+                  onChange={(serialNumbers) => setStockForm({
+                    ...stockForm,
+                    quantity: serialNumbers.length,
+                    serialNumbers
+                  })}
+                />
               </div>
             </div>
           </div>
@@ -1012,6 +1305,7 @@ const ProductDetailsPage = () => {
               variant="solid"
               onClick={handleAddStockSubmit}
               loading={isAddingStock}
+              disabled={!stockSerialsValid}
               icon={<BiBox />}
             >
               Add Stock
@@ -1024,7 +1318,7 @@ const ProductDetailsPage = () => {
       <Dialog
         isOpen={editInventoryDialog}
         onClose={() => setEditInventoryDialog(false)}
-        width={400}
+        width={560}
       >
         <h4 className="mb-4">Edit Inventory Item</h4>
         {selectedInventory && (
@@ -1077,6 +1371,36 @@ const ProductDetailsPage = () => {
               />
             </div>
 
+            <CustomAttributeFields
+              className="grid grid-cols-1"
+              definitions={itemAttributes}
+              values={selectedInventory.attributes}
+              errors={inventoryAttributeErrors || undefined}
+              showErrors={!!inventoryAttributeErrors}
+              onChange={(key, value) => setSelectedInventory({
+                ...selectedInventory,
+                attributes: { ...selectedInventory.attributes, [key]: value }
+              })}
+            />
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Purchased From</label>
+              <VendorSelect
+                placeholder="Vendor (optional)"
+                value={selectedInventory.vendor}
+                onChange={(vendor) => setSelectedInventory({
+                  ...selectedInventory,
+                  vendorId: vendor?.id ?? null,
+                  vendor: vendor || null
+                })}
+              />
+              {selectedInventory.vendor && (
+                <div className="mt-2">
+                  <VendorContact compact vendor={selectedInventory.vendor} />
+                </div>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium mb-1">Notes</label>
               <Input
@@ -1091,6 +1415,15 @@ const ProductDetailsPage = () => {
               />
             </div>
 
+            <div className="pt-4 border-t dark:border-gray-600">
+              <AttachmentsPanel
+                compact
+                ownerType="INVENTORY"
+                ownerId={selectedInventory.id}
+                title="Item Attachments"
+              />
+            </div>
+
             <div className="flex justify-end gap-2 mt-6">
               <Button
                 variant="plain"
@@ -1210,6 +1543,44 @@ const ProductDetailsPage = () => {
           </div>
         </div>
       </Dialog>
+
+      {/* Label Sheet Dialog */}
+      <LabelSheetDialog
+        isOpen={labelSheetDialog}
+        items={labelItems}
+        onClose={() => setLabelSheetDialog(false)}
+      />
+
+      {/* Thermal Label Dialog */}
+      <ThermalLabelDialog
+        isOpen={thermalLabelDialog}
+        items={labelItems}
+        onClose={() => setThermalLabelDialog(false)}
+      />
+
+      {/* Maintenance Ticket Dialog */}
+      {maintenanceItem && (
+        <MaintenanceTicketDialog
+          item={maintenanceItem}
+          onClose={() => setMaintenanceItem(null)}
+        />
+      )}
+
+      {timelineItem && (
+        <ItemTimelineDrawer
+          item={timelineItem}
+          productName={product.name}
+          assignments={product.assignments || []}
+          onClose={() => setTimelineItem(null)}
+        />
+      )}
+
+      {disposalItems && (
+        <DisposalDialog
+          items={disposalItems}
+          onClose={() => setDisposalItems(null)}
+        />
+      )}
     </div>
   );
 };
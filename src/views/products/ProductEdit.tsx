@@ -13,6 +13,11 @@ import toast from '@/components/ui/toast';
 import Notification from '@/components/ui/Notification';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { ClipLoader } from 'react-spinners';
+import { toCustomAttributePayload, validateCustomAttributes } from '@/utils/customAttributes';
+import type { CustomAttributeValues } from '@/utils/customAttributes';
+import CustomAttributeFields from './attributes/CustomAttributeFields';
+import { getCategoryAttributes } from './attributes/categoryAttributes';
+import type { CategoryAttributeSettings } from '@/services/CategoryService';
 
 const validationSchema = Yup.object().shape({
   name: Yup.string()
@@ -61,6 +66,9 @@ const ProductEdit = () => {
     queryKey: ['categories'],
     queryFn: () => apiGetCategories({ page: 1, limit: 100 })
   });
+  const categorySchemas = (categoriesResponse?.data as {
+    data?: Array<{ id: number } & CategoryAttributeSettings>;
+  })?.data;
 
   const { 
     data: branchesResponse, 
@@ -120,7 +128,11 @@ const ProductEdit = () => {
       warrantyDuration: values.warrantyDuration ? Number(values.warrantyDuration) : undefined,
       complianceStatus: Boolean(values.complianceStatus),
       description: values.description?.trim() || undefined,
-      minStockLevel: Number(values.minStockLevel) || 0
+      minStockLevel: Number(values.minStockLevel) || 0,
+      attributes: toCustomAttributePayload(
+        getCategoryAttributes(categorySchemas, values.categoryId, 'PRODUCT'),
+        values.attributes
+      )
     };
 
     updateMutation.mutate(payload);
@@ -139,7 +151,8 @@ const ProductEdit = () => {
         warrantyDuration: '',
         complianceStatus: false,
         description: '',
-        minStockLevel: 0
+        minStockLevel: 0,
+        attributes: {} as CustomAttributeValues
       };
     }
 
@@ -154,7 +167,8 @@ const ProductEdit = () => {
       warrantyDuration: product.warrantyDuration || '',
       complianceStatus: product.complianceStatus || false,
       description: product.description || '',
-      minStockLevel: product.minStockLevel || 0
+      minStockLevel: product.minStockLevel || 0,
+      attributes: (product.attributes || {}) as CustomAttributeValues
     };
   };
 
@@ -204,13 +218,22 @@ const ProductEdit = () => {
         key={product.id}
         initialValues={getInitialValues()}
         validationSchema={validationSchema}
+        validate={(values) => {
+          // The category decides which custom attributes exist and are required
+          const attributeErrors = validateCustomAttributes(
+            getCategoryAttributes(categorySchemas, values.categoryId, 'PRODUCT'),
+            values.attributes
+          );
+          return Object.keys(attributeErrors).length > 0 ? { attributes: attributeErrors } : {};
+        }}
         onSubmit={handleSubmit}
         enableReinitialize
       >
-        {({ touched, errors, isSubmitting, values, setFieldValue }) => {
+        {({ touched, errors, isSubmitting, values, setFieldValue, submitCount }) => {
           const categories = categoriesResponse?.data?.data || [];
           const branches = branchesResponse?.data?.data || [];
           const departments = departmentsResponse?.data?.data || [];
+          const productAttributes = getCategoryAttributes(categories, values.categoryId, 'PRODUCT');
 
           return (
             <Form>
@@ -369,6 +392,20 @@ const ProductEdit = () => {
                   </div>
                 </Card>
 
+                {/* Category-defined attributes */}
+                {productAttributes.length > 0 && (
+                  <Card className="mb-6">
+                    <h4 className="mb-4">Specifications</h4>
+                    <CustomAttributeFields
+                      definitions={productAttributes}
+                      values={values.attributes}
+                      errors={errors.attributes as Record<string, string> | undefined}
+                      showErrors={submitCount > 0}
+                      onChange={(key, value) => setFieldValue(`attributes.${key}`, value)}
+                    />
+                  </Card>
+                )}
+
                 {/* Stock Information - Display Only */}
                 {product.stockInfo && (
                   <Card className="mb-6">
@@ -1,6 +1,6 @@
-import { useState, useMemo, useRef, useEffect } from 'react';
+import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import DataTable from '@/components/shared/DataTable';
-import { HiOutlineEye, HiOutlinePencil, HiOutlineUserAdd, HiOutlineRefresh, HiOutlinePlus, HiOutlineTrash } from 'react-icons/hi';
+import { HiOutlineEye, HiOutlinePencil, HiOutlineUserAdd, HiOutlineRefresh, HiOutlinePlus, HiOutlineTrash, HiOutlinePrinter } from 'react-icons/hi';
 import useThemeClass from '@/utils/hooks/useThemeClass';
 import { useNavigate } from 'react-router-dom';
 import type { DataTableResetHandle, ColumnDef } from '@/components/shared/DataTable';
@@ -16,14 +16,28 @@ import {
   apiDeleteProduct
 } from '@/services/ProductService';
 import { apiGetEmployees } from '@/services/EmployeeService.ts';
+import { apiGetCategories } from '@/services/CategoryService';
+import type { CategoryAttributeSettings } from '@/services/CategoryService';
+import { describeCustomAttributes } from '@/utils/customAttributes';
+import type { CustomAttributeValues } from '@/utils/customAttributes';
+import ProductAttributeFilter from './attributes/ProductAttributeFilter';
+import type { ProductAttributeFilterValue } from './attributes/ProductAttributeFilter';
+import { getCategoryAttributes } from './attributes/categoryAttributes';
 import type { ApiResponse } from '@/@types';
 import Badge from '@/components/ui/Badge';
-import { Button, Select, Dialog, Notification, toast, DatePicker, Card } from '@/components/ui';
+import { Button, Select, Dialog, Notification, toast, DatePicker, Card, Checkbox } from '@/components/ui';
 import { HiOutlineCheckCircle, HiExclamation } from 'react-icons/hi';
 import { MdAssignmentReturn } from 'react-icons/md';
 import { BiBox } from 'react-icons/bi';
 import deepParseJson from '@/utils/deepParseJson';
 import { PERSIST_STORE_NAME } from '@/constants/app.constant';
+import LabelSheetDialog from './labels/LabelSheetDialog';
+import type { LabelItem } from './labels/types';
+import IssueConsumableDialog from './consumables/IssueConsumableDialog';
+import ReceiveConsumableDialog from './consumables/ReceiveConsumableDialog';
+import { consumableStockStatus, isConsumable } from './consumables/consumableStock';
+import type { ConsumableProduct } from './consumables/consumableStock';
+import SerialNumberEntry from './serials/SerialNumberEntry';
 
 interface StockInfo {
   totalStock: number;
@@ -54,6 +68,9 @@ interface Product {
   complianceStatus: boolean;
   description?: string;
   minStockLevel: number;
+  trackingType?: 'SERIALIZED' | 'CONSUMABLE';
+  quantityOnHand?: number;
+  attributes?: CustomAttributeValues;
   createdAt: string;
   stockInfo: StockInfo;
 }
@@ -93,6 +110,13 @@ interface CurrentUser {
   email: string;
 }
 
+const toLabelItem = (product: Product): LabelItem => ({
+  type: 'product',
+  id: product.id,
+  productName: product.name,
+  model: product.model
+});
+
 const ProductTable = () => {
   const tableRef = useRef<DataTableResetHandle>(null);
   const navigate = useNavigate();
@@ -105,6 +129,10 @@ const ProductTable = () => {
     limit: 10,
   });
   const [stockFilter, setStockFilter] = useState('');
+  const [attributeFilter, setAttributeFilter] = useState<ProductAttributeFilterValue>({});
+  // Kept across pages so labels can be printed for products from several pages at once
+  const [selectedLabelProducts, setSelectedLabelProducts] = useState<LabelItem[]>([]);
+  const [labelSheetDialogOpen, setLabelSheetDialogOpen] = useState(false);
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
   const [returnDialogOpen, setReturnDialogOpen] = useState(false);
   const [addStockDialogOpen, setAddStockDialogOpen] = useState(false);
@@ -133,7 +161,12 @@ const ProductTable = () => {
   const [selectedInventoryId, setSelectedInventoryId] = useState<number | null>(null);
   const [stockQuantity, setStockQuantity] = useState(1);
   const [stockSerialNumbers, setStockSerialNumbers] = useState<string[]>(['']);
+  const [stockSerialsValid, setStockSerialsValid] = useState(true);
   const [employeeSearchTerm, setEmployeeSearchTerm] = useState('');
+  const [consumableAction, setConsumableAction] = useState<{
+    type: 'issue' | 'receive';
+    product: ConsumableProduct;
+  } | null>(null);
 
   useEffect(() => {
     const rawPersistData = localStorage.getItem(PERSIST_STORE_NAME)
@@ -160,16 +193,31 @@ const ProductTable = () => {
     error,
     refetch
   } = useQuery({
-    queryKey: ['products', pagination, searchTerm, stockFilter],
+    queryKey: ['products', pagination, searchTerm, stockFilter, attributeFilter],
     queryFn: () => apiGetProducts({
       page: pagination.page,
       limit: pagination.limit,
       search: searchTerm,
       stockStatus: stockFilter || undefined,
+      category: attributeFilter.categoryId,
+      attributeKey: attributeFilter.attributeValue ? attributeFilter.attributeKey : undefined,
+      attributeValue: attributeFilter.attributeKey ? attributeFilter.attributeValue : undefined,
     }),
     keepPreviousData: true
   });
 
+  // Categories carry the custom attribute schema used for filtering and display
+  const { data: categoriesResponse } = useQuery({
+    queryKey: ['categories'],
+    queryFn: () => apiGetCategories({ page: 1, limit: 100 })
+  });
+  const categories = useMemo(
+    () => ((categoriesResponse?.data as { data?: unknown })?.data || []) as Array<
+      { id: number; name: string } & CategoryAttributeSettings
+    >,
+    [categoriesResponse]
+  );
+
   const { data: employeesResponse, refetch: refetchEmployees } = useQuery<ApiResponse<Employee[]>>({
     queryKey: ['employees-for-assignment', employeeSearchTerm],
     queryFn: () => apiGetEmployees({
@@ -275,6 +323,11 @@ const ProductTable = () => {
     []
   );
 
+  const handleAttributeFilterChange = useCallback((value: ProductAttributeFilterValue) => {
+    setAttributeFilter(value);
+    setPagination(prev => ({ ...prev, page: 1 }));
+  }, []);
+
   const debouncedEmployeeSearch = useMemo(
     () => debounce((value: string) => {
       setEmployeeSearchTerm(value);
@@ -338,8 +391,10 @@ const ProductTable = () => {
   };
 
   const handleDeleteClick = (product: Product) => {
-    const hasStock = product.stockInfo.totalStock > 0;
-    const hasActiveAssignments = product.stockInfo.assignedStock > 0;
+    const hasStock = isConsumable(product)
+      ? (product.quantityOnHand ?? 0) > 0
+      : product.stockInfo.totalStock > 0;
+    const hasActiveAssignments = !isConsumable(product) && product.stockInfo.assignedStock > 0;
 
     setProductToDelete({
       id: product.id,
@@ -462,17 +517,68 @@ const ProductTable = () => {
   console.log('Current user in render:', currentUser);
   console.log('Is super admin:', isSuperAdmin);
 
+  const pageProducts: Product[] = useMemo(
+    () => productsResponse?.data?.data || [],
+    [productsResponse]
+  );
+  const selectedLabelIds = useMemo(
+    () => selectedLabelProducts.map(item => item.id),
+    [selectedLabelProducts]
+  );
+  const pageSelectedCount = pageProducts.filter(p => selectedLabelIds.includes(p.id)).length;
+
+  const handleSelectProduct = useCallback((product: Product, checked: boolean) => {
+    setSelectedLabelProducts(prev =>
+      checked
+        ? [...prev.filter(item => item.id !== product.id), toLabelItem(product)]
+        : prev.filter(item => item.id !== product.id)
+    );
+  }, []);
+
+  const handleSelectPageProducts = useCallback((checked: boolean) => {
+    const pageIds = pageProducts.map(p => p.id);
+    setSelectedLabelProducts(prev => {
+      const others = prev.filter(item => !pageIds.includes(item.id));
+      return checked ? [...others, ...pageProducts.map(toLabelItem)] : others;
+    });
+  }, [pageProducts]);
+
   const columns: ColumnDef<Product>[] = useMemo(() => [
     {
-      header: 'Product',
-      accessorKey: 'name',
+      id: 'select',
+      header: () => (
+        <Checkbox
+          checked={pageProducts.length > 0 && pageSelectedCount === pageProducts.length}
+          disabled={pageProducts.length === 0}
+          onChange={handleSelectPageProducts}
+        />
+      ),
       cell: (props) => (
-        <div>
-          <span className="font-semibold">{props.row.original.name}</span>
-          <div className="text-xs text-gray-500">{props.row.original.model}</div>
-        </div>
+        <Checkbox
+          checked={selectedLabelIds.includes(props.row.original.id)}
+          onChange={(checked) => handleSelectProduct(props.row.original, checked)}
+        />
       ),
     },
+    {
+      header: 'Product',
+      accessorKey: 'name',
+      cell: (props) => {
+        const details = describeCustomAttributes(
+          getCategoryAttributes(categories, props.row.original.category?.id, 'PRODUCT'),
+          props.row.original.attributes
+        );
+        return (
+          <div>
+            <span className="font-semibold">{props.row.original.name}</span>
+            <div className="text-xs text-gray-500">{props.row.original.model}</div>
+            {details.length > 0 && (
+              <div className="text-xs text-gray-500">{details.join(' · ')}</div>
+            )}
+          </div>
+        );
+      },
+    },
     {
       header: 'Category',
       cell: (props) => props.row.original.category?.name || '-',
@@ -485,6 +591,21 @@ const ProductTable = () => {
       header: 'Stock Status',
       cell: (props) => {
         const stockInfo = props.row.original.stockInfo;
+        if (isConsumable(props.row.original)) {
+          const quantity = props.row.original.quantityOnHand ?? 0;
+          return (
+            <div>
+              {getStockBadge({
+                ...stockInfo,
+                stockStatus: consumableStockStatus(quantity, props.row.original.minStockLevel),
+                availableStock: quantity
+              })}
+              <div className="text-xs text-gray-500 mt-1">
+                Consumable | On hand: {quantity}
+              </div>
+            </div>
+          );
+        }
         return (
           <div>
             {getStockBadge(stockInfo)}
@@ -513,8 +634,11 @@ const ProductTable = () => {
       id: 'action',
       cell: (props) => {
         const product = props.row.original;
-        const hasAvailableStock = product.stockInfo.availableStock > 0;
-        const hasActiveAssignments = product.stockInfo.assignedStock > 0;
+        const consumable = isConsumable(product);
+        const hasAvailableStock = consumable
+          ? (product.quantityOnHand ?? 0) > 0
+          : product.stockInfo.availableStock > 0;
+        const hasActiveAssignments = !consumable && product.stockInfo.assignedStock > 0;
 
         return (
           <div className="flex justify-end text-lg gap-1">
@@ -533,13 +657,26 @@ const ProductTable = () => {
             <Button
               size="xs"
               icon={<HiOutlinePlus />}
-              onClick={() => handleAddStockClick(product)}
+              onClick={() => consumable
+                ? setConsumableAction({ type: 'receive', product })
+                : handleAddStockClick(product)}
               variant="twoTone"
-              title="Add Stock"
+              title={consumable ? 'Receive Stock' : 'Add Stock'}
             >
               Stock
             </Button>
-            {hasAvailableStock ? (
+            {consumable ? (
+              <Button
+                size="xs"
+                icon={<HiOutlineUserAdd />}
+                onClick={() => setConsumableAction({ type: 'issue', product })}
+                variant="solid"
+                disabled={!hasAvailableStock}
+                title={hasAvailableStock ? 'Issue Units' : 'No stock available'}
+              >
+                Issue
+              </Button>
+            ) : hasAvailableStock ? (
               <Button
                 size="xs"
                 icon={<HiOutlineUserAdd />}
@@ -577,7 +714,7 @@ const ProductTable = () => {
         );
       },
     },
-  ], [navigate, textTheme, currentUser, isSuperAdmin]); // FIXED: Added currentUser and isSuperAdmin to dependencies
+  ], [navigate, textTheme, currentUser, isSuperAdmin, pageProducts, pageSelectedCount, selectedLabelIds, handleSelectPageProducts, handleSelectProduct, categories]); // FIXED: Added currentUser and isSuperAdmin to dependencies
 
   if (error) {
     return (
@@ -609,19 +746,35 @@ const ProductTable = () => {
             className="min-w-[200px]"
             isClearable
           />
+          <ProductAttributeFilter
+            categories={categories}
+            value={attributeFilter}
+            onChange={handleAttributeFilterChange}
+          />
+        </div>
+        <div className="flex gap-2">
+          {selectedLabelProducts.length > 0 && (
+            <Button
+              variant="twoTone"
+              icon={<HiOutlinePrinter />}
+              onClick={() => setLabelSheetDialogOpen(true)}
+            >
+              Print Labels ({selectedLabelProducts.length})
+            </Button>
+          )}
+          <Button
+            icon={<HiOutlineRefresh />}
+            onClick={() => refetch()}
+          >
+            Refresh
+          </Button>
         </div>
-        <Button
-          icon={<HiOutlineRefresh />}
-          onClick={() => refetch()}
-        >
-          Refresh
-        </Button>
       </div>
 
       <DataTable
         ref={tableRef}
         columns={columns}
-        data={productsResponse?.data?.data || []}
+        data={pageProducts}
         loading={isLoading}
         pagingData={{
           total: productsResponse?.data?.pagination?.total || 0,
@@ -879,39 +1032,17 @@ const ProductTable = () => {
 
                   <div>
                     <label className="block text-sm font-medium mb-1">
-                      Serial Numbers (Optional - {stockSerialNumbers.filter(sn => sn.trim()).length} of {stockQuantity} filled)
+                      Serial Numbers (Optional)
                     </label>
-
-                    <div
-                      className="max-h-60 overflow-y-auto border rounded p-3 bg-gray-50"
-                      style={{
-                        scrollbarWidth: 'thin',
-                        scrollbarColor: '#cbd5e1 #f1f5f9'
+                    <SerialNumberEntry
+                      max={100}
+                      value={stockSerialNumbers}
+                      onValidityChange={setStockSerialsValid}
+                      onChange={(serialNumbers) => {
+                        setStockQuantity(serialNumbers.length);
+                        setStockSerialNumbers(serialNumbers);
                       }}
-                    >
-                      <div className="space-y-2">
-                        {Array.from({ length: stockQuantity }, (_, index) => (
-                          <div key={index} className="flex items-center gap-2">
-                            <span className="text-xs text-gray-500 w-8 flex-shrink-0">#{index + 1}</span>
-                            <Input
-                              type="text"
-                              placeholder={`Serial number ${index + 1}`}
-                              value={stockSerialNumbers[index] || ''}
-                              onChange={(e) => {
-                                const newSerialNumbers = [...stockSerialNumbers];
-                                newSerialNumbers[index] = e.target.value;
-                                setStockSerialNumbers(newSerialNumbers);
-                              }}
-                              className="flex-1"
-                              size="sm"
-                            />
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                    <p className="text-xs text-gray-500 mt-2">
-                      Leave empty for non-serialized items. Scroll within the box above for many items.
-                    </p>
+                    />
                   </div>
                 </div>
               </div>
@@ -927,6 +1058,7 @@ const ProductTable = () => {
                   variant="solid"
                   onClick={handleAddStockSubmit}
                   loading={addStockMutation.isLoading}
+                  disabled={!stockSerialsValid}
                   icon={<BiBox />}
                 >
                   Add Stock
@@ -985,6 +1117,26 @@ const ProductTable = () => {
           </div>
         )}
       </Dialog>
+
+      {consumableAction?.type === 'issue' && (
+        <IssueConsumableDialog
+          product={consumableAction.product}
+          onClose={() => setConsumableAction(null)}
+        />
+      )}
+      {consumableAction?.type === 'receive' && (
+        <ReceiveConsumableDialog
+          product={consumableAction.product}
+          onClose={() => setConsumableAction(null)}
+        />
+      )}
+
+      {/* Label Sheet Dialog */}
+      <LabelSheetDialog
+        isOpen={labelSheetDialogOpen}
+        items={selectedLabelProducts}
+        onClose={() => setLabelSheetDialogOpen(false)}
+      />
     </>
   );
 };
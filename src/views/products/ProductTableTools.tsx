@@ -1,5 +1,5 @@
 import { Button } from '@/components/ui'
-import { HiPlusCircle } from 'react-icons/hi'
+import { HiOutlineChartBar, HiOutlineUpload, HiPlusCircle } from 'react-icons/hi'
 import { useNavigate } from 'react-router-dom'
 
 const ProductTableTools = () => {
@@ -15,6 +15,20 @@ const ProductTableTools = () => {
             >
                 Add Product
             </Button>
+            <Button
+                size="sm"
+                icon={<HiOutlineUpload />}
+                onClick={() => navigate('/products/import')}
+            >
+                Import
+            </Button>
+            <Button
+                size="sm"
+                icon={<HiOutlineChartBar />}
+                onClick={() => navigate('/products/consumption')}
+            >
+                Consumable Usage
+            </Button>
         </div>
     )
 }
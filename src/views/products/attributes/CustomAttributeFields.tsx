@@ -0,0 +1,104 @@
+import dayjs from 'dayjs'
+import { DatePicker, FormItem, Input, Select } from '@/components/ui'
+import type {
+    CustomAttributeDefinition,
+    CustomAttributeValues,
+} from '@/utils/customAttributes'
+
+interface CustomAttributeFieldsProps {
+    definitions: CustomAttributeDefinition[]
+    values?: Partial<CustomAttributeValues> | null
+    /** From validateCustomAttributes, keyed by attribute key */
+    errors?: Record<string, string>
+    /** Errors are only shown once the user tried to submit */
+    showErrors?: boolean
+    onChange: (key: string, value: string | number) => void
+    className?: string
+}
+
+const CustomAttributeFields = ({
+    definitions,
+    values,
+    errors = {},
+    showErrors = true,
+    onChange,
+    className = 'grid grid-cols-1 md:grid-cols-2 gap-4',
+}: CustomAttributeFieldsProps) => {
+    if (definitions.length === 0) {
+        return null
+    }
+
+    return (
+        <div className={className}>
+            {definitions.map((definition) => {
+                const value = values?.[definition.key] ?? ''
+                const error = showErrors ? errors[definition.key] : undefined
+
+                let control
+                if (definition.type === 'DATE') {
+                    control = (
+                        <DatePicker
+                            clearable
+                            value={value ? dayjs(String(value)).toDate() : null}
+                            onChange={(date) =>
+                                onChange(
+                                    definition.key,
+                                    date
+                                        ? dayjs(date).format('YYYY-MM-DD')
+                                        : '',
+                                )
+                            }
+                        />
+                    )
+                } else if (definition.type === 'SELECT') {
+                    const options = (definition.options || []).map(
+                        (option) => ({ value: option, label: option }),
+                    )
+                    control = (
+                        <Select
+                            isClearable={!definition.required}
+                            placeholder={`Select ${definition.label}`}
+                            options={options}
+                            value={
+                                options.find(
+                                    (option) => option.value === String(value),
+                                ) || null
+                            }
+                            onChange={(option) =>
+                                onChange(definition.key, option?.value || '')
+                            }
+                        />
+                    )
+                } else {
+                    control = (
+                        <Input
+                            type={
+                                definition.type === 'NUMBER' ? 'number' : 'text'
+                            }
+                            autoComplete="off"
+                            placeholder={definition.label}
+                            value={value}
+                            onChange={(e) =>
+                                onChange(definition.key, e.target.value)
+                            }
+                        />
+                    )
+                }
+
+                return (
+                    <FormItem
+                        key={definition.key}
+                        asterisk={definition.required}
+                        label={definition.label}
+                        invalid={!!error}
+                        errorMessage={error}
+                    >
+                        {control}
+                    </FormItem>
+                )
+            })}
+        </div>
+    )
+}
+
+export default CustomAttributeFields
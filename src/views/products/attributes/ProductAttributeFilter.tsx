@@ -0,0 +1,129 @@
+import { useMemo } from 'react'
+import debounce from 'lodash/debounce'
+import { Input, Select } from '@/components/ui'
+import { attributesForScope } from '@/utils/customAttributes'
+import type { CategoryAttributeSettings } from '@/services/CategoryService'
+
+export interface ProductAttributeFilterValue {
+    categoryId?: number
+    attributeKey?: string
+    attributeValue?: string
+}
+
+interface ProductAttributeFilterProps {
+    categories: Array<{ id: number; name: string } & CategoryAttributeSettings>
+    value: ProductAttributeFilterValue
+    onChange: (value: ProductAttributeFilterValue) => void
+}
+
+/** Category filter that, once a category is picked, also filters on one of its product attributes */
+const ProductAttributeFilter = ({
+    categories,
+    value,
+    onChange,
+}: ProductAttributeFilterProps) => {
+    const categoryOptions = categories.map((category) => ({
+        value: category.id,
+        label: category.name,
+    }))
+    const attributes = attributesForScope(
+        categories.find((category) => category.id === value.categoryId)
+            ?.customAttributes,
+        'PRODUCT',
+    )
+    const attributeOptions = attributes.map((attribute) => ({
+        value: attribute.key,
+        label: attribute.label,
+    }))
+    const attribute = attributes.find((a) => a.key === value.attributeKey)
+
+    const debouncedChange = useMemo(
+        () =>
+            debounce(
+                (next: ProductAttributeFilterValue) => onChange(next),
+                500,
+            ),
+        [onChange],
+    )
+
+    return (
+        <>
+            <Select
+                isClearable
+                placeholder="All categories"
+                className="min-w-[180px]"
+                options={categoryOptions}
+                value={
+                    categoryOptions.find(
+                        (option) => option.value === value.categoryId,
+                    ) || null
+                }
+                onChange={(option) => onChange({ categoryId: option?.value })}
+            />
+            {attributeOptions.length > 0 && (
+                <Select
+                    isClearable
+                    placeholder="Attribute"
+                    className="min-w-[160px]"
+                    options={attributeOptions}
+                    value={
+                        attributeOptions.find(
+                            (option) => option.value === value.attributeKey,
+                        ) || null
+                    }
+                    onChange={(option) =>
+                        onChange({
+                            categoryId: value.categoryId,
+                            attributeKey: option?.value,
+                        })
+                    }
+                />
+            )}
+            {attribute?.type === 'SELECT' && (
+                <Select
+                    isClearable
+                    placeholder="Any value"
+                    className="min-w-[140px]"
+                    options={(attribute.options || []).map((option) => ({
+                        value: option,
+                        label: option,
+                    }))}
+                    value={
+                        value.attributeValue
+                            ? {
+                                  value: value.attributeValue,
+                                  label: value.attributeValue,
+                              }
+                            : null
+                    }
+                    onChange={(option) =>
+                        onChange({ ...value, attributeValue: option?.value })
+                    }
+                />
+            )}
+            {attribute && attribute.type !== 'SELECT' && (
+                <Input
+                    key={attribute.key}
+                    className="max-w-[160px]"
+                    type={
+                        attribute.type === 'NUMBER'
+                            ? 'number'
+                            : attribute.type === 'DATE'
+                              ? 'date'
+                              : 'text'
+                    }
+                    placeholder={attribute.label}
+                    defaultValue={value.attributeValue}
+                    onChange={(e) =>
+                        debouncedChange({
+                            ...value,
+                            attributeValue: e.target.value.trim() || undefined,
+                        })
+                    }
+                />
+            )}
+        </>
+    )
+}
+
+export default ProductAttributeFilter
@@ -0,0 +1,20 @@
+import { attributesForScope } from '@/utils/customAttributes'
+import type { CategoryAttributeSettings } from '@/services/CategoryService'
+import type { CustomAttributeScope } from '@/utils/customAttributes'
+
+type CategoryWithAttributes = {
+    id: number | string
+} & CategoryAttributeSettings
+
+/** The attributes a category defines for products or for their items */
+export const getCategoryAttributes = (
+    categories: CategoryWithAttributes[] | null | undefined,
+    categoryId: number | string | null | undefined,
+    scope: CustomAttributeScope,
+) =>
+    attributesForScope(
+        (categories || []).find(
+            (category) => Number(category.id) === Number(categoryId),
+        )?.customAttributes,
+        scope,
+    )
@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { HiPlus } from 'react-icons/hi'
+import { Button, Checkbox, Input, Spinner } from '@/components/ui'
+import { apiGetAvailableInventory } from '@/services/ProductService'
+
+export interface PickedUnit {
+    /** Left out for units the server auto-selects */
+    inventoryId?: number
+    serialNumber?: string
+}
+
+interface AvailableUnit {
+    id: number
+    serialNumber?: string
+    condition?: string
+    location?: string
+}
+
+interface BulkUnitPickerProps {
+    productId: number
+    /** Units of this product already on the list */
+    pickedIds: number[]
+    /** Auto-selected units of this product already on the list */
+    autoCount: number
+    onAdd: (units: PickedUnit[]) => void
+}
+
+const BulkUnitPicker = ({
+    productId,
+    pickedIds,
+    autoCount,
+    onAdd,
+}: BulkUnitPickerProps) => {
+    const [selectedIds, setSelectedIds] = useState<number[]>([])
+    const [quantity, setQuantity] = useState('1')
+
+    const { data: units = [], isLoading } = useQuery({
+        queryKey: ['available-inventory', productId],
+        queryFn: async () => {
+            const response = await apiGetAvailableInventory(productId)
+            return (response.data as { data?: AvailableUnit[] }).data || []
+        },
+    })
+
+    const unpicked = units.filter((unit) => !pickedIds.includes(unit.id))
+    // Auto-selected lines will take some of the unpicked units server side
+    const autoCapacity = Math.max(unpicked.length - autoCount, 0)
+    const autoQuantity = Number(quantity)
+    const isAutoQuantityValid =
+        Number.isInteger(autoQuantity) &&
+        autoQuantity >= 1 &&
+        autoQuantity <= autoCapacity
+
+    const toggle = (id: number, checked: boolean) =>
+        setSelectedIds((prev) =>
+            checked
+                ? [...prev, id]
+                : prev.filter((selected) => selected !== id),
+        )
+
+    const handleAddSelected = () => {
+        onAdd(
+            unpicked
+                .filter((unit) => selectedIds.includes(unit.id))
+                .map((unit) => ({
+                    inventoryId: unit.id,
+                    serialNumber: unit.serialNumber,
+                })),
+        )
+        setSelectedIds([])
+    }
+
+    const handleAddAuto = () => {
+        onAdd(Array.from({ length: autoQuantity }, () => ({})))
+        setQuantity('1')
+    }
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-4">
+                <Spinner size={30} />
+            </div>
+        )
+    }
+
+    if (unpicked.length === 0) {
+        return (
+            <p className="text-gray-500 py-2">
+                No more available units of this product.
+            </p>
+        )
+    }
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="lg:col-span-2">
+                <div className="text-sm font-semibold mb-2">
+                    Pick specific units
+                </div>
+                <div className="border rounded max-h-60 overflow-y-auto divide-y dark:border-gray-600 dark:divide-gray-600">
+                    {unpicked.map((unit) => (
+                        <div key={unit.id} className="px-3 py-2">
+                            <Checkbox
+                                checked={selectedIds.includes(unit.id)}
+                                onChange={(checked) => toggle(unit.id, checked)}
+                            >
+                                <span className="font-mono">
+                                    {unit.serialNumber || `Item #${unit.id}`}
+                                </span>
+                                {unit.condition && (
+                                    <span className="ml-2 text-xs text-gray-500">
+                                        {unit.condition}
+                                        {unit.location
+                                            ? ` · ${unit.location}`
+                                            : ''}
+                                    </span>
+                                )}
+                            </Checkbox>
+                        </div>
+                    ))}
+                </div>
+                <Button
+                    className="mt-2"
+                    size="sm"
+                    icon={<HiPlus />}
+                    disabled={selectedIds.length === 0}
+                    onClick={handleAddSelected}
+                >
+                    Add {selectedIds.length || ''} selected
+                </Button>
+            </div>
+            <div>
+                <div className="text-sm font-semibold mb-2">
+                    Or let the system pick
+                </div>
+                <Input
+                    type="number"
+                    min={1}
+                    max={autoCapacity}
+                    value={quantity}
+                    invalid={!isAutoQuantityValid}
+                    onChange={(e) => setQuantity(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                    {autoCapacity} unit{autoCapacity !== 1 ? 's' : ''} left to
+                    auto-select
+                </p>
+                <Button
+                    className="mt-2"
+                    size="sm"
+                    icon={<HiPlus />}
+                    disabled={!isAutoQuantityValid}
+                    onClick={handleAddAuto}
+                >
+                    Add auto-selected
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+export default BulkUnitPicker
@@ -0,0 +1,119 @@
+import dayjs from 'dayjs'
+import { escapeHtml } from '@/views/products/labels/labelSheet'
+
+export interface HandoverItem {
+    assignmentId: number
+    productName: string
+    model?: string
+    serialNumber?: string
+    /** Assignment QR code as a data URL; the cell stays empty when missing */
+    qrCode?: string
+}
+
+export interface HandoverDetails {
+    employee: { name: string; empId?: string }
+    expectedReturnAt?: Date | null
+    pcName?: string
+    notes?: string
+}
+
+/**
+ * One handover slip for everything issued to an employee in a single go,
+ * with the QR code of every assignment so each unit can be scanned back in.
+ */
+export const buildHandoverSheetHtml = (
+    details: HandoverDetails,
+    items: HandoverItem[],
+) => {
+    const rows = items
+        .map(
+            (item, index) => `
+                <tr>
+                    <td>${index + 1}</td>
+                    <td>${escapeHtml(item.productName)}</td>
+                    <td>${escapeHtml(item.model || '')}</td>
+                    <td>${escapeHtml(item.serialNumber || '-')}</td>
+                    <td class="qr">${
+                        item.qrCode
+                            ? `<img src="${item.qrCode}" alt="Assignment ${item.assignmentId}" />`
+                            : ''
+                    }<div>#${item.assignmentId}</div></td>
+                </tr>`,
+        )
+        .join('')
+
+    return `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Equipment Handover - ${escapeHtml(
+                details.employee.name,
+            )}</title>
+            <style>
+              @page { size: A4; margin: 15mm; }
+              body { font-family: Arial, sans-serif; font-size: 11pt; color: #111; }
+              h1 { font-size: 18pt; margin: 0 0 4mm; }
+              .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 1mm 8mm; margin-bottom: 6mm; }
+              .meta span { color: #555; }
+              table { width: 100%; border-collapse: collapse; }
+              th, td { border: 1px solid #999; padding: 2mm; text-align: left; vertical-align: middle; }
+              th { background: #f0f0f0; }
+              tr { page-break-inside: avoid; }
+              .qr { width: 28mm; text-align: center; font-size: 8pt; color: #555; }
+              .qr img { width: 24mm; height: 24mm; display: block; margin: 0 auto; }
+              .notes { margin-top: 6mm; white-space: pre-line; }
+              .statement { margin-top: 8mm; }
+              .signatures { display: flex; gap: 20mm; margin-top: 20mm; }
+              .signature { flex: 1; border-top: 1px solid #111; padding-top: 2mm; }
+            </style>
+          </head>
+          <body onload="window.print()">
+            <h1>Equipment Handover</h1>
+            <div class="meta">
+              <div><span>Employee:</span> ${escapeHtml(details.employee.name)}${
+                  details.employee.empId
+                      ? ` (${escapeHtml(details.employee.empId)})`
+                      : ''
+              }</div>
+              <div><span>Date:</span> ${dayjs().format('DD MMM YYYY')}</div>
+              <div><span>PC Name:</span> ${escapeHtml(
+                  details.pcName || '-',
+              )}</div>
+              <div><span>Expected Return:</span> ${
+                  details.expectedReturnAt
+                      ? dayjs(details.expectedReturnAt).format('DD MMM YYYY')
+                      : '-'
+              }</div>
+            </div>
+            <table>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Product</th>
+                  <th>Model</th>
+                  <th>Serial Number</th>
+                  <th>Assignment</th>
+                </tr>
+              </thead>
+              <tbody>${rows}</tbody>
+            </table>
+            ${
+                details.notes
+                    ? `<div class="notes"><strong>Notes:</strong> ${escapeHtml(
+                          details.notes,
+                      )}</div>`
+                    : ''
+            }
+            <p class="statement">
+              I confirm that I have received the ${items.length} item${
+                  items.length !== 1 ? 's' : ''
+              } listed above in working order and will return them on request.
+            </p>
+            <div class="signatures">
+              <div class="signature">Issued by</div>
+              <div class="signature">Received by</div>
+            </div>
+          </body>
+        </html>
+      `
+}
@@ -0,0 +1,100 @@
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { MdInventory } from 'react-icons/md'
+import { Card, Spinner, Table } from '@/components/ui'
+import { apiGetConsumableMovements } from '@/services/ProductService'
+import type { ConsumableMovement } from './buildConsumptionReport'
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+interface ConsumableMovementsCardProps {
+    productId: number
+}
+
+const ConsumableMovementsCard = ({
+    productId,
+}: ConsumableMovementsCardProps) => {
+    const { data: movements = [], isLoading } = useQuery({
+        queryKey: ['consumable-movements', 'product', productId],
+        queryFn: async () => {
+            const response = await apiGetConsumableMovements({
+                productId,
+                limit: 50,
+            })
+            return ((response.data as { data?: ConsumableMovement[] }).data ||
+                []) as ConsumableMovement[]
+        },
+    })
+
+    return (
+        <Card className="mb-6">
+            <div className="flex items-center gap-2 mb-4">
+                <MdInventory />
+                <h3 className="text-xl font-semibold">
+                    Recent Stock Movements
+                </h3>
+            </div>
+            {isLoading ? (
+                <div className="flex justify-center py-4">
+                    <Spinner size={30} />
+                </div>
+            ) : movements.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">
+                    No stock has been received or issued yet
+                </p>
+            ) : (
+                <Table compact>
+                    <THead>
+                        <Tr>
+                            <Th>Date</Th>
+                            <Th>Type</Th>
+                            <Th className="text-right">Quantity</Th>
+                            <Th>Issued To / Reference</Th>
+                            <Th>By</Th>
+                            <Th>Notes</Th>
+                        </Tr>
+                    </THead>
+                    <TBody>
+                        {movements.map((movement) => (
+                            <Tr key={movement.id}>
+                                <Td>
+                                    {dayjs(movement.createdAt).format(
+                                        'DD MMM YYYY HH:mm',
+                                    )}
+                                </Td>
+                                <Td>
+                                    <span
+                                        className={
+                                            movement.type === 'ISSUE'
+                                                ? 'text-blue-600'
+                                                : 'text-emerald-600'
+                                        }
+                                    >
+                                        {movement.type === 'ISSUE'
+                                            ? 'Issued'
+                                            : 'Received'}
+                                    </span>
+                                </Td>
+                                <Td className="text-right font-semibold">
+                                    {movement.type === 'ISSUE' ? '-' : '+'}
+                                    {movement.quantity}
+                                </Td>
+                                <Td>
+                                    {movement.type === 'ISSUE'
+                                        ? movement.employee?.name ||
+                                          movement.department?.name ||
+                                          '-'
+                                        : movement.reference || '-'}
+                                </Td>
+                                <Td>{movement.performedBy?.username || '-'}</Td>
+                                <Td>{movement.notes || '-'}</Td>
+                            </Tr>
+                        ))}
+                    </TBody>
+                </Table>
+            )}
+        </Card>
+    )
+}
+
+export default ConsumableMovementsCard
@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { HiOutlineDownload } from 'react-icons/hi'
+import { AdaptableCard, Loading } from '@/components/shared'
+import { Button, DatePicker, Segment, Select, Table } from '@/components/ui'
+import { apiGetBranches } from '@/services/BranchService'
+import { apiGetAllConsumableMovements } from '@/services/ProductService'
+import { downloadWorkbook } from '@/utils/downloadSpreadsheet'
+import buildConsumptionReport from './buildConsumptionReport'
+import type {
+    ConsumableMovement,
+    ConsumptionGrouping,
+    ConsumptionRow,
+} from './buildConsumptionReport'
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+const groupingLabels: Record<ConsumptionGrouping, string> = {
+    product: 'Product',
+    department: 'Department',
+    employee: 'Employee',
+}
+
+const toSheet = (rows: ConsumptionRow[], label: string) =>
+    rows.map((row) => ({
+        [label]: row.name,
+        'Times Issued': row.issues,
+        'Units Issued': row.units,
+        Cost: row.cost,
+    }))
+
+const ConsumptionReport = () => {
+    const [fromDate, setFromDate] = useState(dayjs().startOf('month').toDate())
+    const [toDate, setToDate] = useState(new Date())
+    const [branchId, setBranchId] = useState<number>()
+    const [grouping, setGrouping] = useState<ConsumptionGrouping>('product')
+
+    const { data: branchesData } = useQuery({
+        queryKey: ['branches'],
+        queryFn: () => apiGetBranches({ page: 1, limit: 100 }),
+    })
+    const branchOptions = (
+        (branchesData?.data?.data || []) as Array<{ id: number; name: string }>
+    ).map((branch) => ({ value: branch.id, label: branch.name }))
+
+    const range = {
+        fromDate: dayjs(fromDate).format('YYYY-MM-DD'),
+        toDate: dayjs(toDate).format('YYYY-MM-DD'),
+    }
+
+    const { data: movements = [], isFetching } = useQuery({
+        queryKey: ['consumable-movements', 'ISSUE', range, branchId],
+        queryFn: () =>
+            apiGetAllConsumableMovements<ConsumableMovement>({
+                ...range,
+                branchId,
+                type: 'ISSUE',
+            }),
+    })
+
+    const rows = useMemo(
+        () => buildConsumptionReport(movements, grouping),
+        [movements, grouping],
+    )
+    const totalUnits = rows.reduce((sum, row) => sum + row.units, 0)
+    const totalCost = rows.reduce((sum, row) => sum + row.cost, 0)
+
+    const handleExport = () =>
+        downloadWorkbook(
+            {
+                'By Product': toSheet(
+                    buildConsumptionReport(movements, 'product'),
+                    'Product',
+                ),
+                'By Department': toSheet(
+                    buildConsumptionReport(movements, 'department'),
+                    'Department',
+                ),
+                'By Employee': toSheet(
+                    buildConsumptionReport(movements, 'employee'),
+                    'Employee',
+                ),
+                Movements: movements.map((movement) => ({
+                    Date: dayjs(movement.createdAt).format('YYYY-MM-DD HH:mm'),
+                    Product: movement.product?.name || '',
+                    Quantity: movement.quantity,
+                    Employee: movement.employee?.name || '',
+                    Department: movement.department?.name || '',
+                    'Issued By': movement.performedBy?.username || '',
+                    Notes: movement.notes || '',
+                })),
+            },
+            `consumption-${range.fromDate}-to-${range.toDate}.xlsx`,
+        )
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Consumable Usage</h3>
+                <Button
+                    size="sm"
+                    icon={<HiOutlineDownload />}
+                    disabled={movements.length === 0}
+                    onClick={handleExport}
+                >
+                    Export to Excel
+                </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <DatePicker
+                    size="sm"
+                    className="max-w-[180px]"
+                    clearable={false}
+                    value={fromDate}
+                    maxDate={toDate}
+                    onChange={(date) => date && setFromDate(date)}
+                />
+                <span className="text-gray-500">to</span>
+                <DatePicker
+                    size="sm"
+                    className="max-w-[180px]"
+                    clearable={false}
+                    value={toDate}
+                    minDate={fromDate}
+                    onChange={(date) => date && setToDate(date)}
+                />
+                <Select
+                    isClearable
+                    size="sm"
+                    className="min-w-[200px]"
+                    placeholder="All branches"
+                    options={branchOptions}
+                    value={
+                        branchOptions.find((o) => o.value === branchId) || null
+                    }
+                    onChange={(option) => setBranchId(option?.value)}
+                />
+                <Segment
+                    size="sm"
+                    value={[grouping]}
+                    onChange={(val) =>
+                        setGrouping(val[0] as ConsumptionGrouping)
+                    }
+                >
+                    {(Object.keys(groupingLabels) as ConsumptionGrouping[]).map(
+                        (key) => (
+                            <Segment.Item key={key} value={key}>
+                                By {groupingLabels[key]}
+                            </Segment.Item>
+                        ),
+                    )}
+                </Segment>
+            </div>
+
+            <Loading loading={isFetching}>
+                <Table compact>
+                    <THead>
+                        <Tr>
+                            <Th>{groupingLabels[grouping]}</Th>
+                            <Th className="text-right">Times Issued</Th>
+                            <Th className="text-right">Units</Th>
+                            <Th className="text-right">Cost</Th>
+                        </Tr>
+                    </THead>
+                    <TBody>
+                        {rows.length === 0 && (
+                            <Tr>
+                                <Td
+                                    colSpan={4}
+                                    className="text-center text-gray-500"
+                                >
+                                    Nothing issued in this period
+                                </Td>
+                            </Tr>
+                        )}
+                        {rows.map((row) => (
+                            <Tr key={row.name}>
+                                <Td>{row.name}</Td>
+                                <Td className="text-right">{row.issues}</Td>
+                                <Td className="text-right font-semibold">
+                                    {row.units}
+                                </Td>
+                                <Td className="text-right">
+                                    {row.cost ? row.cost.toFixed(2) : '-'}
+                                </Td>
+                            </Tr>
+                        ))}
+                        {rows.length > 0 && (
+                            <Tr className="font-semibold">
+                                <Td>Total</Td>
+                                <Td />
+                                <Td className="text-right">{totalUnits}</Td>
+                                <Td className="text-right">
+                                    {totalCost ? totalCost.toFixed(2) : '-'}
+                                </Td>
+                            </Tr>
+                        )}
+                    </TBody>
+                </Table>
+            </Loading>
+        </AdaptableCard>
+    )
+}
+
+export default ConsumptionReport
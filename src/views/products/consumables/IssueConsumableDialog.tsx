@@ -0,0 +1,201 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+    Button,
+    Dialog,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Radio,
+    Select,
+    toast,
+} from '@/components/ui'
+import { apiGetDepartments } from '@/services/DepartmentService'
+import { apiGetEmployees } from '@/services/EmployeeService.ts'
+import { apiIssueConsumable } from '@/services/ProductService'
+import type { ConsumableProduct } from './consumableStock'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+type IssueTarget = 'employee' | 'department'
+
+interface IssueConsumableDialogProps {
+    product: ConsumableProduct
+    onClose: () => void
+}
+
+const toOptions = (
+    response: { data?: unknown } | undefined,
+    label: (record: { id: number; name: string; empId?: string }) => string,
+) =>
+    (
+        ((response?.data as { data?: unknown })?.data || []) as Array<{
+            id: number
+            name: string
+            empId?: string
+        }>
+    ).map((record) => ({ value: record.id, label: label(record) }))
+
+const IssueConsumableDialog = ({
+    product,
+    onClose,
+}: IssueConsumableDialogProps) => {
+    const queryClient = useQueryClient()
+    const onHand = product.quantityOnHand ?? 0
+
+    const [target, setTarget] = useState<IssueTarget>('employee')
+    const [employeeSearch, setEmployeeSearch] = useState('')
+    const [employeeId, setEmployeeId] = useState<number>()
+    const [departmentId, setDepartmentId] = useState<number>()
+    const [quantity, setQuantity] = useState('1')
+    const [notes, setNotes] = useState('')
+
+    const { data: employeesData, isFetching: isLoadingEmployees } = useQuery({
+        queryKey: ['employees-for-issue', employeeSearch],
+        queryFn: () =>
+            apiGetEmployees({ page: 1, limit: 50, search: employeeSearch }),
+        enabled: target === 'employee',
+    })
+    const employeeOptions = toOptions(employeesData, (employee) =>
+        employee.empId ? `${employee.name} (${employee.empId})` : employee.name,
+    )
+
+    const { data: departmentsData } = useQuery({
+        queryKey: ['departments'],
+        queryFn: () => apiGetDepartments({ page: 1, limit: 100 }),
+        enabled: target === 'department',
+    })
+    const departmentOptions = toOptions(
+        departmentsData,
+        (department) => department.name,
+    )
+
+    const issueMutation = useMutation({
+        mutationFn: () =>
+            apiIssueConsumable(product.id, {
+                quantity: Number(quantity),
+                employeeId: target === 'employee' ? employeeId : undefined,
+                departmentId:
+                    target === 'department' ? departmentId : undefined,
+                notes: notes.trim() || undefined,
+            }),
+        onSuccess: () => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    Issued {quantity} × {product.name}
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['products'] })
+            queryClient.invalidateQueries({ queryKey: ['product'] })
+            queryClient.invalidateQueries({
+                queryKey: ['consumable-movements'],
+            })
+            onClose()
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to issue stock'}
+                </Notification>,
+            )
+        },
+    })
+
+    const units = Number(quantity)
+    const quantityError =
+        !Number.isInteger(units) || units < 1
+            ? 'Enter a whole number of units'
+            : units > onHand
+              ? `Only ${onHand} on hand`
+              : undefined
+    const hasRecipient = target === 'employee' ? !!employeeId : !!departmentId
+
+    return (
+        <Dialog isOpen width={460} onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-1">Issue Stock</h5>
+            <p className="text-gray-500 mb-4">
+                {product.name} · {onHand} on hand
+            </p>
+            <FormContainer>
+                <FormItem label="Issue to">
+                    <Radio.Group
+                        value={target}
+                        onChange={(value: IssueTarget) => setTarget(value)}
+                    >
+                        <Radio value="employee">Employee</Radio>
+                        <Radio value="department">Department</Radio>
+                    </Radio.Group>
+                </FormItem>
+                {target === 'employee' ? (
+                    <FormItem label="Employee">
+                        <Select
+                            placeholder="Search employee"
+                            isLoading={isLoadingEmployees}
+                            options={employeeOptions}
+                            value={
+                                employeeOptions.find(
+                                    (o) => o.value === employeeId,
+                                ) || null
+                            }
+                            onInputChange={(value) => setEmployeeSearch(value)}
+                            onChange={(option) => setEmployeeId(option?.value)}
+                        />
+                    </FormItem>
+                ) : (
+                    <FormItem label="Department">
+                        <Select
+                            placeholder="Select department"
+                            options={departmentOptions}
+                            value={
+                                departmentOptions.find(
+                                    (o) => o.value === departmentId,
+                                ) || null
+                            }
+                            onChange={(option) =>
+                                setDepartmentId(option?.value)
+                            }
+                        />
+                    </FormItem>
+                )}
+                <FormItem
+                    label="Quantity"
+                    invalid={!!quantity && !!quantityError}
+                    errorMessage={quantityError}
+                >
+                    <Input
+                        type="number"
+                        min={1}
+                        max={onHand}
+                        value={quantity}
+                        onChange={(e) => setQuantity(e.target.value)}
+                    />
+                </FormItem>
+                <FormItem label="Notes">
+                    <Input
+                        textArea
+                        value={notes}
+                        placeholder="Optional"
+                        onChange={(e) => setNotes(e.target.value)}
+                    />
+                </FormItem>
+            </FormContainer>
+            <div className="flex justify-end gap-2">
+                <Button variant="plain" onClick={onClose}>
+                    Cancel
+                </Button>
+                <Button
+                    variant="solid"
+                    disabled={!hasRecipient || !!quantityError}
+                    loading={issueMutation.isPending}
+                    onClick={() => issueMutation.mutate()}
+                >
+                    Issue
+                </Button>
+            </div>
+        </Dialog>
+    )
+}
+
+export default IssueConsumableDialog
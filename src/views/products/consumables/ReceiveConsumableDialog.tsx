@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+    Button,
+    Dialog,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    toast,
+} from '@/components/ui'
+import { apiReceiveConsumable } from '@/services/ProductService'
+import type { ConsumableProduct } from './consumableStock'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface ReceiveConsumableDialogProps {
+    product: ConsumableProduct
+    onClose: () => void
+}
+
+const ReceiveConsumableDialog = ({
+    product,
+    onClose,
+}: ReceiveConsumableDialogProps) => {
+    const queryClient = useQueryClient()
+
+    const [quantity, setQuantity] = useState('')
+    const [unitPrice, setUnitPrice] = useState('')
+    const [reference, setReference] = useState('')
+    const [notes, setNotes] = useState('')
+
+    const receiveMutation = useMutation({
+        mutationFn: () =>
+            apiReceiveConsumable(product.id, {
+                quantity: Number(quantity),
+                purchasePrice: unitPrice ? Number(unitPrice) : undefined,
+                reference: reference.trim() || undefined,
+                notes: notes.trim() || undefined,
+            }),
+        onSuccess: () => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    Received {quantity} × {product.name}
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['products'] })
+            queryClient.invalidateQueries({ queryKey: ['product'] })
+            queryClient.invalidateQueries({
+                queryKey: ['consumable-movements'],
+            })
+            onClose()
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to receive stock'}
+                </Notification>,
+            )
+        },
+    })
+
+    const isValid = Number.isInteger(Number(quantity)) && Number(quantity) > 0
+
+    return (
+        <Dialog isOpen width={460} onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-1">Receive Stock</h5>
+            <p className="text-gray-500 mb-4">
+                {product.name} · {product.quantityOnHand ?? 0} on hand
+            </p>
+            <FormContainer>
+                <div className="grid grid-cols-2 gap-4">
+                    <FormItem label="Quantity">
+                        <Input
+                            type="number"
+                            min={1}
+                            value={quantity}
+                            placeholder="Units received"
+                            onChange={(e) => setQuantity(e.target.value)}
+                        />
+                    </FormItem>
+                    <FormItem label="Unit Price">
+                        <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={unitPrice}
+                            placeholder="Optional"
+                            onChange={(e) => setUnitPrice(e.target.value)}
+                        />
+                    </FormItem>
+                </div>
+                <FormItem label="Reference">
+                    <Input
+                        value={reference}
+                        placeholder="Invoice or delivery note number"
+                        onChange={(e) => setReference(e.target.value)}
+                    />
+                </FormItem>
+                <FormItem label="Notes">
+                    <Input
+                        textArea
+                        value={notes}
+                        placeholder="Optional"
+                        onChange={(e) => setNotes(e.target.value)}
+                    />
+                </FormItem>
+            </FormContainer>
+            <div className="flex justify-end gap-2">
+                <Button variant="plain" onClick={onClose}>
+                    Cancel
+                </Button>
+                <Button
+                    variant="solid"
+                    disabled={!isValid}
+                    loading={receiveMutation.isPending}
+                    onClick={() => receiveMutation.mutate()}
+                >
+                    Receive
+                </Button>
+            </div>
+        </Dialog>
+    )
+}
+
+export default ReceiveConsumableDialog
@@ -0,0 +1,62 @@
+export type ConsumptionGrouping = 'product' | 'department' | 'employee'
+
+export interface ConsumableMovement {
+    id: number
+    type: 'ISSUE' | 'RECEIVE'
+    quantity: number
+    /** Average cost per unit at the time of the movement, when known */
+    unitCost?: number | null
+    createdAt: string
+    notes?: string
+    reference?: string
+    product?: { id: number; name: string; model?: string }
+    employee?: { id: number; name: string; empId?: string }
+    department?: { id: number; name: string }
+    performedBy?: { id: number; username: string }
+}
+
+export interface ConsumptionRow {
+    name: string
+    issues: number
+    units: number
+    cost: number
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const groupName = (
+    movement: ConsumableMovement,
+    grouping: ConsumptionGrouping,
+) => {
+    switch (grouping) {
+        case 'product':
+            return movement.product?.name || 'Unknown product'
+        case 'department':
+            return movement.department?.name || 'No department'
+        default:
+            return movement.employee?.name || 'Issued to department'
+    }
+}
+
+/** Totals issued units per product, department or employee, most used first */
+export default function buildConsumptionReport(
+    movements: ConsumableMovement[],
+    grouping: ConsumptionGrouping,
+): ConsumptionRow[] {
+    const rows = new Map<string, ConsumptionRow>()
+
+    movements
+        .filter((movement) => movement.type === 'ISSUE')
+        .forEach((movement) => {
+            const name = groupName(movement, grouping)
+            const row = rows.get(name) || { name, issues: 0, units: 0, cost: 0 }
+            row.issues += 1
+            row.units += movement.quantity
+            row.cost = round(
+                row.cost + movement.quantity * Number(movement.unitCost || 0),
+            )
+            rows.set(name, row)
+        })
+
+    return [...rows.values()].sort((a, b) => b.units - a.units)
+}
@@ -0,0 +1,22 @@
+export type ConsumableStockStatus = 'AVAILABLE' | 'LOW_STOCK' | 'OUT_OF_STOCK'
+
+export interface ConsumableProduct {
+    id: number
+    name: string
+    quantityOnHand?: number
+    minStockLevel?: number
+}
+
+export const isConsumable = (product?: { trackingType?: string } | null) =>
+    product?.trackingType === 'CONSUMABLE'
+
+/** Same thresholds the per-unit stock status uses, applied to quantity */
+export const consumableStockStatus = (
+    quantityOnHand = 0,
+    minStockLevel = 0,
+): ConsumableStockStatus => {
+    if (quantityOnHand <= 0) {
+        return 'OUT_OF_STOCK'
+    }
+    return quantityOnHand <= minStockLevel ? 'LOW_STOCK' : 'AVAILABLE'
+}
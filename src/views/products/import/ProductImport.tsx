@@ -0,0 +1,788 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+    HiOutlineArrowLeft,
+    HiOutlineDocumentDownload,
+    HiOutlineUpload,
+} from 'react-icons/hi'
+import {
+    AdaptableCard,
+    ColumnMapper,
+    DataTable,
+    SpreadsheetUpload,
+} from '@/components/shared'
+import {
+    Alert,
+    Button,
+    Checkbox,
+    Notification,
+    Progress,
+    Steps,
+    toast,
+} from '@/components/ui'
+import {
+    apiAddStock,
+    apiCheckSerialNumbers,
+    apiCreateProduct,
+} from '@/services/ProductService'
+import { apiGetCategories } from '@/services/CategoryService'
+import { apiGetBranches } from '@/services/BranchService'
+import { apiGetDepartments } from '@/services/DepartmentService'
+import autoMapColumns from '@/utils/autoMapColumns'
+import downloadSpreadsheet from '@/utils/downloadSpreadsheet'
+import paginate from '@/utils/paginate'
+import { productImportFields } from './productImportFields'
+import {
+    buildImportRows,
+    groupImportRows,
+    matchNames,
+    normalizeName,
+    splitSerialNumbers,
+} from './buildProductImport'
+import ResolveNamesStep from './ResolveNamesStep'
+import type { ColumnDef } from '@/components/shared'
+import type { ColumnMapping } from '@/utils/autoMapColumns'
+import type { SpreadsheetData } from '@/utils/readSpreadsheet'
+import type { ProductImportField } from './productImportFields'
+import type {
+    ImportLookups,
+    LookupType,
+    NamedRecord,
+    ProductImportGroup,
+    ProductImportRow,
+} from './buildProductImport'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+type ImportStatus = 'Created' | 'Failed' | 'Skipped'
+
+interface ImportRowResult {
+    rowNumber: number
+    name: string
+    model: string
+    serialNumbers: string
+    status: ImportStatus
+    message: string
+    productId?: number
+}
+
+enum ImportStep {
+    Upload,
+    MapColumns,
+    ResolveNames,
+    Preview,
+    Results,
+}
+
+const PAGE_SIZE = 25
+
+const emptyLookups: ImportLookups = {
+    category: {},
+    branch: {},
+    department: {},
+}
+
+const statusClassMap: Record<ImportStatus, string> = {
+    Created: 'text-emerald-600',
+    Failed: 'text-red-600',
+    Skipped: 'text-amber-600',
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+    (error as ApiError).response?.data?.message ||
+    (error as Error).message ||
+    fallback
+
+const toRecords = (response?: { data?: unknown }): NamedRecord[] =>
+    (response?.data as { data?: NamedRecord[] })?.data || []
+
+const downloadTemplate = () => {
+    downloadSpreadsheet(
+        [
+            {
+                'Product Name': 'Latitude 5440',
+                Model: 'LAT-5440',
+                Category: 'Laptops',
+                Branch: 'Head Office',
+                Department: 'IT',
+                'Warranty (months)': 36,
+                Compliant: 'yes',
+                Description: '',
+                'Min Stock Level': 2,
+                Quantity: 2,
+                'Serial Numbers': 'SN-0001; SN-0002',
+                'Purchase Date': '2024-01-15',
+                'Purchase Price': 950,
+                Location: 'Store room',
+            },
+        ],
+        'product-import-template.xlsx',
+        'Products',
+    )
+}
+
+const ProductImport = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [step, setStep] = useState(ImportStep.Upload)
+    const [sheet, setSheet] = useState<SpreadsheetData | null>(null)
+    const [fileName, setFileName] = useState('')
+    const [mapping, setMapping] = useState<ColumnMapping<ProductImportField>>(
+        {},
+    )
+    const [lookups, setLookups] = useState<ImportLookups>(emptyLookups)
+    const [existingSerials, setExistingSerials] = useState<Set<string>>(
+        new Set(),
+    )
+    const [serialCheckFailed, setSerialCheckFailed] = useState(false)
+    const [isCheckingSerials, setIsCheckingSerials] = useState(false)
+    const [showErrorsOnly, setShowErrorsOnly] = useState(false)
+    const [page, setPage] = useState(1)
+    const [isImporting, setIsImporting] = useState(false)
+    const [importProgress, setImportProgress] = useState(0)
+    const [results, setResults] = useState<ImportRowResult[]>([])
+
+    const { data: categoriesData } = useQuery({
+        queryKey: ['categories'],
+        queryFn: () => apiGetCategories({ page: 1, limit: 100 }),
+    })
+    const { data: branchesData } = useQuery({
+        queryKey: ['branches'],
+        queryFn: () => apiGetBranches({ page: 1, limit: 100 }),
+    })
+    const { data: departmentsData } = useQuery({
+        queryKey: ['departments'],
+        queryFn: () => apiGetDepartments({ page: 1, limit: 100 }),
+    })
+
+    const records = useMemo<Record<LookupType, NamedRecord[]>>(
+        () => ({
+            category: toRecords(categoriesData),
+            branch: toRecords(branchesData),
+            department: toRecords(departmentsData),
+        }),
+        [categoriesData, branchesData, departmentsData],
+    )
+
+    const fileNames = useMemo<Record<LookupType, string[]>>(() => {
+        const distinct = (field: ProductImportField) => {
+            const header = mapping[field]
+            if (!sheet || !header) {
+                return []
+            }
+            const names = new Map<string, string>()
+            sheet.rows.forEach(({ values }) => {
+                const value = values[header]?.trim()
+                if (value && !names.has(normalizeName(value))) {
+                    names.set(normalizeName(value), value)
+                }
+            })
+            return Array.from(names.values())
+        }
+        return {
+            category: distinct('category'),
+            branch: distinct('branch'),
+            department: distinct('department'),
+        }
+    }, [sheet, mapping])
+
+    const rows = useMemo(
+        () =>
+            sheet
+                ? buildImportRows(sheet.rows, mapping, lookups, existingSerials)
+                : [],
+        [sheet, mapping, lookups, existingSerials],
+    )
+    const groups = useMemo(() => groupImportRows(rows), [rows])
+
+    const errorRowCount = rows.filter((row) => row.errors.length > 0).length
+    const validGroups = groups.filter((group) => !group.hasErrors)
+    const previewRows = showErrorsOnly
+        ? rows.filter((row) => row.errors.length > 0)
+        : rows
+
+    const missingRequired = productImportFields.filter(
+        (field) => field.required && !mapping[field.key],
+    )
+
+    const handleLoaded = (data: SpreadsheetData, file: File) => {
+        setSheet(data)
+        setFileName(file.name)
+        setMapping(autoMapColumns(productImportFields, data.headers))
+        setLookups(emptyLookups)
+        setStep(ImportStep.MapColumns)
+    }
+
+    const goToResolveNames = () => {
+        setLookups({
+            category: matchNames(
+                fileNames.category,
+                records.category,
+                lookups.category,
+            ),
+            branch: matchNames(
+                fileNames.branch,
+                records.branch,
+                lookups.branch,
+            ),
+            department: matchNames(
+                fileNames.department,
+                records.department,
+                lookups.department,
+            ),
+        })
+        setStep(ImportStep.ResolveNames)
+    }
+
+    const goToPreview = async () => {
+        const serials = Array.from(
+            new Set(
+                (sheet?.rows || []).flatMap(({ values }) =>
+                    mapping.serialNumbers
+                        ? splitSerialNumbers(
+                              values[mapping.serialNumbers] || '',
+                          )
+                        : [],
+                ),
+            ),
+        )
+
+        setIsCheckingSerials(true)
+        setSerialCheckFailed(false)
+        try {
+            const existing =
+                serials.length > 0
+                    ? (await apiCheckSerialNumbers(serials)).data?.data
+                          ?.existing || []
+                    : []
+            setExistingSerials(new Set(existing.map(normalizeName)))
+        } catch (error) {
+            console.error('Serial number check failed:', error)
+            setExistingSerials(new Set())
+            setSerialCheckFailed(true)
+        } finally {
+            setIsCheckingSerials(false)
+        }
+
+        setPage(1)
+        setShowErrorsOnly(false)
+        setStep(ImportStep.Preview)
+    }
+
+    const importGroup = async (
+        group: ProductImportGroup,
+    ): Promise<ImportRowResult[]> => {
+        const [first] = group.rows
+        const [firstBatch, ...otherBatches] = group.batches
+        const resultFor = (
+            row: ProductImportRow,
+            status: ImportStatus,
+            message: string,
+            productId?: number,
+        ): ImportRowResult => ({
+            rowNumber: row.rowNumber,
+            name: row.name,
+            model: row.model,
+            serialNumbers: row.serialNumbers.join('; '),
+            status,
+            message,
+            productId,
+        })
+        const batchRows = (rowNumbers: number[]) =>
+            group.rows.filter((row) => rowNumbers.includes(row.rowNumber))
+
+        let productId: number | undefined
+        try {
+            const response = await apiCreateProduct({
+                name: first.name,
+                model: first.model,
+                categoryId: first.categoryId as number,
+                branchId: first.branchId as number,
+                departmentId: first.departmentId,
+                warrantyDuration: group.rows.find(
+                    (row) => row.warrantyDuration !== undefined,
+                )?.warrantyDuration,
+                complianceStatus: group.rows.some(
+                    (row) => row.complianceStatus,
+                ),
+                description: group.rows.find((row) => row.description)
+                    ?.description,
+                minStockLevel:
+                    group.rows.find((row) => row.minStockLevel !== undefined)
+                        ?.minStockLevel ?? 0,
+                initialStock: firstBatch.quantity,
+                serialNumbers: firstBatch.serialNumbers,
+                purchaseDate: firstBatch.purchaseDate,
+                purchasePrice: firstBatch.purchasePrice,
+                location: firstBatch.location,
+            })
+            productId = (response.data as { data?: { id?: number } })?.data?.id
+        } catch (error) {
+            const message = getErrorMessage(error, 'Failed to create product')
+            return group.rows.map((row) => resultFor(row, 'Failed', message))
+        }
+
+        const results = batchRows(firstBatch.rowNumbers).map((row) =>
+            resultFor(row, 'Created', 'Product created', productId),
+        )
+
+        for (const batch of otherBatches) {
+            if (!productId) {
+                results.push(
+                    ...batchRows(batch.rowNumbers).map((row) =>
+                        resultFor(
+                            row,
+                            'Failed',
+                            'Product created, but the server did not return its id to add this stock to',
+                        ),
+                    ),
+                )
+                continue
+            }
+
+            try {
+                await apiAddStock(productId, {
+                    quantity: batch.quantity,
+                    serialNumbers: batch.serialNumbers,
+                    purchaseDate: batch.purchaseDate,
+                    purchasePrice: batch.purchasePrice,
+                    location: batch.location,
+                    reason: `Imported from ${fileName}`,
+                })
+                results.push(
+                    ...batchRows(batch.rowNumbers).map((row) =>
+                        resultFor(row, 'Created', 'Stock added', productId),
+                    ),
+                )
+            } catch (error) {
+                const message = getErrorMessage(error, 'Failed to add stock')
+                results.push(
+                    ...batchRows(batch.rowNumbers).map((row) =>
+                        resultFor(
+                            row,
+                            'Failed',
+                            `Product created, but adding stock failed: ${message}`,
+                            productId,
+                        ),
+                    ),
+                )
+            }
+        }
+
+        return results
+    }
+
+    const handleImport = async () => {
+        setIsImporting(true)
+        setImportProgress(0)
+
+        const allResults: ImportRowResult[] = []
+        groups
+            .filter((group) => group.hasErrors)
+            .forEach((group) =>
+                group.rows.forEach((row) =>
+                    allResults.push({
+                        rowNumber: row.rowNumber,
+                        name: row.name,
+                        model: row.model,
+                        serialNumbers: row.serialNumbers.join('; '),
+                        status: 'Skipped',
+                        message:
+                            row.errors.join('; ') ||
+                            'Another row for this product has errors',
+                    }),
+                ),
+            )
+
+        // One product at a time keeps the load on the server predictable
+        for (let i = 0; i < validGroups.length; i++) {
+            allResults.push(...(await importGroup(validGroups[i])))
+            setImportProgress(Math.round(((i + 1) / validGroups.length) * 100))
+        }
+
+        allResults.sort((a, b) => a.rowNumber - b.rowNumber)
+        setResults(allResults)
+        setIsImporting(false)
+        setPage(1)
+        setStep(ImportStep.Results)
+        queryClient.invalidateQueries({ queryKey: ['products'] })
+
+        const failed = allResults.filter((r) => r.status === 'Failed').length
+        toast.push(
+            <Notification
+                title="Import finished"
+                type={failed > 0 ? 'warning' : 'success'}
+            >
+                {allResults.filter((r) => r.status === 'Created').length} rows
+                imported, {failed} failed
+            </Notification>,
+        )
+    }
+
+    const handleDownloadReport = () => {
+        downloadSpreadsheet(
+            results.map((result) => ({
+                Row: result.rowNumber,
+                'Product Name': result.name,
+                Model: result.model,
+                'Serial Numbers': result.serialNumbers,
+                Status: result.status,
+                Message: result.message,
+                'Product ID': result.productId ?? '',
+            })),
+            `product-import-report-${
+                new Date().toISOString().split('T')[0]
+            }.xlsx`,
+            'Import Report',
+        )
+    }
+
+    const resetWizard = () => {
+        setSheet(null)
+        setFileName('')
+        setMapping({})
+        setLookups(emptyLookups)
+        setResults([])
+        setStep(ImportStep.Upload)
+    }
+
+    const previewColumns: ColumnDef<ProductImportRow>[] = [
+        {
+            header: 'Row',
+            accessorKey: 'rowNumber',
+        },
+        {
+            header: 'Product',
+            cell: (props) => (
+                <div>
+                    <span className="font-semibold">
+                        {props.row.original.name || '-'}
+                    </span>
+                    <div className="text-xs text-gray-500">
+                        {props.row.original.model}
+                    </div>
+                </div>
+            ),
+        },
+        {
+            header: 'Category',
+            cell: (props) => props.row.original.category || '-',
+        },
+        {
+            header: 'Branch',
+            cell: (props) => props.row.original.branch || '-',
+        },
+        {
+            header: 'Qty',
+            accessorKey: 'quantity',
+        },
+        {
+            header: 'Serial Numbers',
+            cell: (props) => (
+                <span className="text-xs">
+                    {props.row.original.serialNumbers.join(', ') || '-'}
+                </span>
+            ),
+        },
+        {
+            header: 'Validation',
+            cell: (props) =>
+                props.row.original.errors.length === 0 ? (
+                    <span className="text-emerald-600">OK</span>
+                ) : (
+                    <ul className="text-xs text-red-600 list-disc list-inside">
+                        {props.row.original.errors.map((error) => (
+                            <li key={error}>{error}</li>
+                        ))}
+                    </ul>
+                ),
+        },
+    ]
+
+    const resultColumns: ColumnDef<ImportRowResult>[] = [
+        {
+            header: 'Row',
+            accessorKey: 'rowNumber',
+        },
+        {
+            header: 'Product',
+            cell: (props) => (
+                <div>
+                    <span className="font-semibold">
+                        {props.row.original.name || '-'}
+                    </span>
+                    <div className="text-xs text-gray-500">
+                        {props.row.original.model}
+                    </div>
+                </div>
+            ),
+        },
+        {
+            header: 'Status',
+            cell: (props) => (
+                <span
+                    className={`font-semibold ${
+                        statusClassMap[props.row.original.status]
+                    }`}
+                >
+                    {props.row.original.status}
+                </span>
+            ),
+        },
+        {
+            header: 'Message',
+            cell: (props) => (
+                <span className="text-sm">{props.row.original.message}</span>
+            ),
+        },
+        {
+            header: '',
+            id: 'action',
+            cell: (props) =>
+                props.row.original.productId ? (
+                    <Button
+                        size="xs"
+                        variant="plain"
+                        onClick={() =>
+                            navigate(
+                                `/products/view/${props.row.original.productId}`,
+                            )
+                        }
+                    >
+                        View
+                    </Button>
+                ) : null,
+        },
+    ]
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Import Products</h3>
+                <Button
+                    size="sm"
+                    variant="plain"
+                    icon={<HiOutlineArrowLeft />}
+                    onClick={() => navigate('/products')}
+                >
+                    Back to products
+                </Button>
+            </div>
+
+            <Steps current={step} className="mb-8">
+                <Steps.Item title="Upload" />
+                <Steps.Item title="Map Columns" />
+                <Steps.Item title="Resolve Names" />
+                <Steps.Item title="Preview" />
+                <Steps.Item title="Results" />
+            </Steps>
+
+            {step === ImportStep.Upload && (
+                <SpreadsheetUpload
+                    tip="One row per product or per item. Rows with the same product name, model, category, branch and department are imported as one product with all their serial numbers."
+                    onLoaded={handleLoaded}
+                    onDownloadTemplate={downloadTemplate}
+                />
+            )}
+
+            {step === ImportStep.MapColumns && sheet && (
+                <div className="space-y-4">
+                    <p className="text-gray-500">
+                        {fileName}: {sheet.rows.length} data row
+                        {sheet.rows.length !== 1 ? 's' : ''}. Choose which
+                        column holds each field.
+                    </p>
+                    <ColumnMapper
+                        fields={productImportFields}
+                        headers={sheet.headers}
+                        mapping={mapping}
+                        sampleRow={sheet.rows[0]?.values}
+                        onChange={setMapping}
+                    />
+                    {missingRequired.length > 0 && (
+                        <Alert showIcon type="warning">
+                            Map the required fields:{' '}
+                            {missingRequired.map((f) => f.label).join(', ')}
+                        </Alert>
+                    )}
+                    <div className="flex justify-between">
+                        <Button onClick={resetWizard}>
+                            Choose another file
+                        </Button>
+                        <Button
+                            variant="solid"
+                            disabled={missingRequired.length > 0}
+                            onClick={goToResolveNames}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {step === ImportStep.ResolveNames && (
+                <div className="space-y-4">
+                    <ResolveNamesStep
+                        names={fileNames}
+                        records={records}
+                        lookups={lookups}
+                        onChange={setLookups}
+                    />
+                    <div className="flex justify-between">
+                        <Button onClick={() => setStep(ImportStep.MapColumns)}>
+                            Back
+                        </Button>
+                        <Button
+                            variant="solid"
+                            loading={isCheckingSerials}
+                            onClick={goToPreview}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {step === ImportStep.Preview && (
+                <div className="space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div>
+                            <span className="font-semibold">
+                                {validGroups.length}
+                            </span>{' '}
+                            product{validGroups.length !== 1 ? 's' : ''} ready
+                            to import from {rows.length} row
+                            {rows.length !== 1 ? 's' : ''}
+                            {errorRowCount > 0 && (
+                                <span className="text-red-600">
+                                    {' '}
+                                    · {errorRowCount} row
+                                    {errorRowCount !== 1 ? 's' : ''} with errors
+                                </span>
+                            )}
+                        </div>
+                        <Checkbox
+                            checked={showErrorsOnly}
+                            onChange={(checked) => {
+                                setShowErrorsOnly(checked)
+                                setPage(1)
+                            }}
+                        >
+                            Show only rows with errors
+                        </Checkbox>
+                    </div>
+
+                    {serialCheckFailed && (
+                        <Alert showIcon type="warning">
+                            Serial numbers could not be checked against existing
+                            inventory. Duplicates will be reported per row when
+                            importing.
+                        </Alert>
+                    )}
+                    {errorRowCount > 0 && (
+                        <Alert showIcon type="info">
+                            Products with an error in any of their rows are
+                            skipped. Fix the file and import it again, or import
+                            the valid products now.
+                        </Alert>
+                    )}
+
+                    <DataTable
+                        columns={previewColumns}
+                        data={paginate(previewRows, PAGE_SIZE, page)}
+                        pagingData={{
+                            total: previewRows.length,
+                            pageIndex: page,
+                            pageSize: PAGE_SIZE,
+                        }}
+                        pageSizes={[PAGE_SIZE]}
+                        onPaginationChange={setPage}
+                    />
+
+                    {isImporting && <Progress percent={importProgress} />}
+
+                    <div className="flex justify-between">
+                        <Button
+                            disabled={isImporting}
+                            onClick={() => setStep(ImportStep.ResolveNames)}
+                        >
+                            Back
+                        </Button>
+                        <Button
+                            variant="solid"
+                            icon={<HiOutlineUpload />}
+                            loading={isImporting}
+                            disabled={validGroups.length === 0}
+                            onClick={handleImport}
+                        >
+                            Import {validGroups.length} product
+                            {validGroups.length !== 1 ? 's' : ''}
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {step === ImportStep.Results && (
+                <div className="space-y-4">
+                    <div className="flex flex-wrap gap-6">
+                        {(['Created', 'Failed', 'Skipped'] as const).map(
+                            (status) => (
+                                <div key={status}>
+                                    <span
+                                        className={`text-2xl font-bold ${statusClassMap[status]}`}
+                                    >
+                                        {
+                                            results.filter(
+                                                (r) => r.status === status,
+                                            ).length
+                                        }
+                                    </span>
+                                    <span className="ml-2 text-gray-500">
+                                        {status}
+                                    </span>
+                                </div>
+                            ),
+                        )}
+                    </div>
+
+                    <DataTable
+                        columns={resultColumns}
+                        data={paginate(results, PAGE_SIZE, page)}
+                        pagingData={{
+                            total: results.length,
+                            pageIndex: page,
+                            pageSize: PAGE_SIZE,
+                        }}
+                        pageSizes={[PAGE_SIZE]}
+                        onPaginationChange={setPage}
+                    />
+
+                    <div className="flex justify-between">
+                        <Button onClick={resetWizard}>
+                            Import another file
+                        </Button>
+                        <div className="flex gap-2">
+                            <Button
+                                icon={<HiOutlineDocumentDownload />}
+                                onClick={handleDownloadReport}
+                            >
+                                Download report
+                            </Button>
+                            <Button
+                                variant="solid"
+                                onClick={() => navigate('/products')}
+                            >
+                                Go to products
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </AdaptableCard>
+    )
+}
+
+export default ProductImport
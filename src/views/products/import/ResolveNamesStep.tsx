@@ -0,0 +1,125 @@
+import { HiOutlineCheckCircle, HiOutlineExclamation } from 'react-icons/hi'
+import { Select, Table } from '@/components/ui'
+import { normalizeName } from './buildProductImport'
+import type {
+    ImportLookups,
+    LookupType,
+    NamedRecord,
+} from './buildProductImport'
+
+interface ResolveNamesStepProps {
+    /** Distinct names found in the file for each lookup */
+    names: Record<LookupType, string[]>
+    records: Record<LookupType, NamedRecord[]>
+    lookups: ImportLookups
+    onChange: (lookups: ImportLookups) => void
+}
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+const sections: Array<{ type: LookupType; title: string }> = [
+    { type: 'category', title: 'Categories' },
+    { type: 'branch', title: 'Branches' },
+    { type: 'department', title: 'Departments' },
+]
+
+const ResolveNamesStep = ({
+    names,
+    records,
+    lookups,
+    onChange,
+}: ResolveNamesStepProps) => {
+    const handleChange = (type: LookupType, name: string, id?: number) => {
+        onChange({
+            ...lookups,
+            [type]: { ...lookups[type], [normalizeName(name)]: id },
+        })
+    }
+
+    return (
+        <div className="space-y-6">
+            <p className="text-gray-500">
+                Names in the file are matched to existing records. Pick the
+                right record for anything that was not matched; rows with an
+                unresolved name are reported as errors.
+            </p>
+            {sections.map(({ type, title }) => {
+                if (names[type].length === 0) {
+                    return null
+                }
+
+                const options = records[type].map((r) => ({
+                    value: r.id,
+                    label: r.name,
+                }))
+                const unresolved = names[type].filter(
+                    (name) => lookups[type][normalizeName(name)] === undefined,
+                ).length
+
+                return (
+                    <div key={type}>
+                        <h5 className="mb-2">
+                            {title}
+                            {unresolved > 0 && (
+                                <span className="ml-2 text-sm font-normal text-amber-600">
+                                    {unresolved} unresolved
+                                </span>
+                            )}
+                        </h5>
+                        <Table compact>
+                            <THead>
+                                <Tr>
+                                    <Th>Name in file</Th>
+                                    <Th>Existing record</Th>
+                                </Tr>
+                            </THead>
+                            <TBody>
+                                {names[type].map((name) => {
+                                    const id =
+                                        lookups[type][normalizeName(name)]
+                                    return (
+                                        <Tr key={name}>
+                                            <Td>
+                                                <div className="flex items-center gap-2">
+                                                    {id === undefined ? (
+                                                        <HiOutlineExclamation className="text-lg text-amber-500" />
+                                                    ) : (
+                                                        <HiOutlineCheckCircle className="text-lg text-emerald-500" />
+                                                    )}
+                                                    {name}
+                                                </div>
+                                            </Td>
+                                            <Td className="min-w-[260px]">
+                                                <Select
+                                                    isClearable
+                                                    size="sm"
+                                                    placeholder="Select a record"
+                                                    options={options}
+                                                    value={
+                                                        options.find(
+                                                            (o) =>
+                                                                o.value === id,
+                                                        ) || null
+                                                    }
+                                                    onChange={(option) =>
+                                                        handleChange(
+                                                            type,
+                                                            name,
+                                                            option?.value,
+                                                        )
+                                                    }
+                                                />
+                                            </Td>
+                                        </Tr>
+                                    )
+                                })}
+                            </TBody>
+                        </Table>
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
+
+export default ResolveNamesStep
@@ -0,0 +1,349 @@
+import dayjs from 'dayjs'
+import type { ProductImportField } from './productImportFields'
+import type { ColumnMapping } from '@/utils/autoMapColumns'
+import type { SpreadsheetRow } from '@/utils/readSpreadsheet'
+
+export type LookupType = 'category' | 'branch' | 'department'
+
+/** Lower-cased name from the file to the id it was resolved to */
+export type NameLookup = Record<string, number | undefined>
+
+export type ImportLookups = Record<LookupType, NameLookup>
+
+export interface NamedRecord {
+    id: number
+    name: string
+}
+
+export interface ProductImportRow {
+    /** Row number as shown in the spreadsheet */
+    rowNumber: number
+    name: string
+    model: string
+    category: string
+    branch: string
+    department: string
+    categoryId?: number
+    branchId?: number
+    departmentId?: number
+    warrantyDuration?: number
+    complianceStatus: boolean
+    description?: string
+    minStockLevel?: number
+    quantity: number
+    serialNumbers: string[]
+    purchaseDate?: string
+    purchasePrice?: number
+    location?: string
+    errors: string[]
+}
+
+/** Stock that shares purchase details and can be added in one request */
+export interface StockBatch {
+    rowNumbers: number[]
+    quantity: number
+    serialNumbers: string[]
+    purchaseDate?: string
+    purchasePrice?: number
+    location?: string
+}
+
+/** Rows describing the same product, created with a single product record */
+export interface ProductImportGroup {
+    key: string
+    rows: ProductImportRow[]
+    batches: StockBatch[]
+    hasErrors: boolean
+}
+
+const MAX_QUANTITY = 1000
+
+export const normalizeName = (value: string) => value.trim().toLowerCase()
+
+export const splitSerialNumbers = (value: string) =>
+    value
+        .split(/[;,|\n]+/)
+        .map((serial) => serial.trim())
+        .filter(Boolean)
+
+/** Matches names from the file to existing records, ignoring case */
+export const matchNames = (
+    names: string[],
+    records: NamedRecord[],
+    previous: NameLookup = {},
+): NameLookup =>
+    Object.fromEntries(
+        names.map((name) => {
+            const key = normalizeName(name)
+            return [
+                key,
+                key in previous
+                    ? previous[key]
+                    : records.find((r) => normalizeName(r.name) === key)?.id,
+            ]
+        }),
+    )
+
+const parseNumber = (
+    value: string,
+    label: string,
+    errors: string[],
+    options: { integer?: boolean; min?: number; max?: number } = {},
+) => {
+    if (!value) {
+        return undefined
+    }
+
+    // Only currency symbols and correctly grouped thousands separators are
+    // dropped, so "1,5" or "12abc" is reported instead of read as 15 or 12
+    let cleaned = value.replace(/[\s$€£¥₹]/g, '')
+    if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(cleaned)) {
+        cleaned = cleaned.replace(/,/g, '')
+    }
+    const number = Number(cleaned)
+    if (
+        !/^-?\d+(\.\d+)?$/.test(cleaned) ||
+        (options.integer && !Number.isInteger(number))
+    ) {
+        errors.push(
+            `${label} must be a${
+                options.integer ? ' whole' : ''
+            } number, not "${value}"`,
+        )
+        return undefined
+    }
+    if (options.min !== undefined && number < options.min) {
+        errors.push(`${label} cannot be less than ${options.min}`)
+        return undefined
+    }
+    if (options.max !== undefined && number > options.max) {
+        errors.push(`${label} cannot be more than ${options.max}`)
+        return undefined
+    }
+    return number
+}
+
+const parseBoolean = (value: string) =>
+    ['yes', 'y', 'true', '1', 'compliant'].includes(value.toLowerCase())
+
+const parseDate = (value: string, errors: string[]) => {
+    if (!value) {
+        return undefined
+    }
+
+    const date = dayjs(value)
+    if (!date.isValid()) {
+        errors.push(
+            `Purchase date "${value}" is not a valid date (use YYYY-MM-DD)`,
+        )
+        return undefined
+    }
+    return date.format('YYYY-MM-DD')
+}
+
+const resolveName = (
+    value: string,
+    lookup: NameLookup,
+    label: string,
+    errors: string[],
+) => {
+    if (!value) {
+        return undefined
+    }
+
+    const id = lookup[normalizeName(value)]
+    if (id === undefined) {
+        errors.push(`Unknown ${label} "${value}"`)
+    }
+    return id
+}
+
+/**
+ * Turns mapped spreadsheet rows into product rows and validates them.
+ * `existingSerials` holds serial numbers already present in inventory.
+ */
+export const buildImportRows = (
+    sheetRows: SpreadsheetRow[],
+    mapping: ColumnMapping<ProductImportField>,
+    lookups: ImportLookups,
+    existingSerials: Set<string>,
+): ProductImportRow[] => {
+    const get = (row: Record<string, string>, field: ProductImportField) => {
+        const header = mapping[field]
+        return header ? (row[header] ?? '').trim() : ''
+    }
+
+    const rows = sheetRows.map(({ rowNumber, values: sheetRow }) => {
+        const errors: string[] = []
+
+        const name = get(sheetRow, 'name')
+        const model = get(sheetRow, 'model')
+        const category = get(sheetRow, 'category')
+        const branch = get(sheetRow, 'branch')
+        const department = get(sheetRow, 'department')
+
+        if (!name) errors.push('Product name is required')
+        if (!model) errors.push('Model is required')
+        if (!category) errors.push('Category is required')
+        if (!branch) errors.push('Branch is required')
+
+        const serialNumbers = splitSerialNumbers(get(sheetRow, 'serialNumbers'))
+        const quantity =
+            parseNumber(get(sheetRow, 'quantity'), 'Quantity', errors, {
+                integer: true,
+                min: 0,
+                max: MAX_QUANTITY,
+            }) ?? serialNumbers.length
+
+        if (serialNumbers.length > quantity) {
+            errors.push(
+                `Quantity (${quantity}) is less than the number of serial numbers (${serialNumbers.length})`,
+            )
+        }
+
+        serialNumbers
+            .filter((serial) => existingSerials.has(normalizeName(serial)))
+            .forEach((serial) =>
+                errors.push(
+                    `Serial number "${serial}" already exists in inventory`,
+                ),
+            )
+
+        return {
+            rowNumber,
+            name,
+            model,
+            category,
+            branch,
+            department,
+            categoryId: resolveName(
+                category,
+                lookups.category,
+                'category',
+                errors,
+            ),
+            branchId: resolveName(branch, lookups.branch, 'branch', errors),
+            departmentId: resolveName(
+                department,
+                lookups.department,
+                'department',
+                errors,
+            ),
+            warrantyDuration: parseNumber(
+                get(sheetRow, 'warrantyDuration'),
+                'Warranty',
+                errors,
+                { integer: true, min: 0, max: 120 },
+            ),
+            complianceStatus: parseBoolean(get(sheetRow, 'complianceStatus')),
+            description: get(sheetRow, 'description') || undefined,
+            minStockLevel: parseNumber(
+                get(sheetRow, 'minStockLevel'),
+                'Min stock level',
+                errors,
+                { integer: true, min: 0 },
+            ),
+            quantity,
+            serialNumbers,
+            purchaseDate: parseDate(get(sheetRow, 'purchaseDate'), errors),
+            purchasePrice: parseNumber(
+                get(sheetRow, 'purchasePrice'),
+                'Purchase price',
+                errors,
+                { min: 0 },
+            ),
+            location: get(sheetRow, 'location') || undefined,
+            errors,
+        }
+    })
+
+    // Serial numbers have to be unique across the whole file
+    const serialRows = new Map<string, number[]>()
+    rows.forEach((row) =>
+        row.serialNumbers.forEach((serial) => {
+            const key = normalizeName(serial)
+            serialRows.set(key, [...(serialRows.get(key) || []), row.rowNumber])
+        }),
+    )
+    rows.forEach((row) =>
+        row.serialNumbers.forEach((serial) => {
+            const others = (serialRows.get(normalizeName(serial)) || []).filter(
+                (rowNumber) => rowNumber !== row.rowNumber,
+            )
+            if (others.length > 0) {
+                row.errors.push(
+                    `Serial number "${serial}" is also used in row ${others.join(
+                        ', ',
+                    )}`,
+                )
+            } else if (
+                row.serialNumbers.filter(
+                    (s) => normalizeName(s) === normalizeName(serial),
+                ).length > 1
+            ) {
+                row.errors.push(`Serial number "${serial}" is listed twice`)
+            }
+        }),
+    )
+
+    return rows.map((row) => ({
+        ...row,
+        errors: Array.from(new Set(row.errors)),
+    }))
+}
+
+/**
+ * Rows with the same name, model, category, branch and department become
+ * one product. Within a product, rows with the same purchase details are
+ * added as one stock batch.
+ */
+export const groupImportRows = (rows: ProductImportRow[]) => {
+    const groups = new Map<string, ProductImportGroup>()
+
+    rows.forEach((row) => {
+        const key = [
+            row.name,
+            row.model,
+            row.category,
+            row.branch,
+            row.department,
+        ]
+            .map(normalizeName)
+            .join('|')
+
+        const group = groups.get(key) || {
+            key,
+            rows: [],
+            batches: [],
+            hasErrors: false,
+        }
+        group.rows.push(row)
+        group.hasErrors = group.hasErrors || row.errors.length > 0
+
+        const batch = group.batches.find(
+            (b) =>
+                b.purchaseDate === row.purchaseDate &&
+                b.purchasePrice === row.purchasePrice &&
+                normalizeName(b.location || '') ===
+                    normalizeName(row.location || ''),
+        )
+        if (batch) {
+            batch.rowNumbers.push(row.rowNumber)
+            batch.quantity += row.quantity
+            batch.serialNumbers.push(...row.serialNumbers)
+        } else {
+            group.batches.push({
+                rowNumbers: [row.rowNumber],
+                quantity: row.quantity,
+                serialNumbers: [...row.serialNumbers],
+                purchaseDate: row.purchaseDate,
+                purchasePrice: row.purchasePrice,
+                location: row.location,
+            })
+        }
+
+        groups.set(key, group)
+    })
+
+    return Array.from(groups.values())
+}
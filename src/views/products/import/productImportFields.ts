@@ -0,0 +1,99 @@
+import type { ImportFieldDefinition } from '@/utils/autoMapColumns'
+
+export type ProductImportField =
+    | 'name'
+    | 'model'
+    | 'category'
+    | 'branch'
+    | 'department'
+    | 'warrantyDuration'
+    | 'complianceStatus'
+    | 'description'
+    | 'minStockLevel'
+    | 'quantity'
+    | 'serialNumbers'
+    | 'purchaseDate'
+    | 'purchasePrice'
+    | 'location'
+
+export const productImportFields: ImportFieldDefinition<ProductImportField>[] =
+    [
+        {
+            key: 'name',
+            label: 'Product Name',
+            required: true,
+            aliases: ['name', 'product', 'item', 'item name'],
+        },
+        {
+            key: 'model',
+            label: 'Model',
+            required: true,
+            aliases: ['model number', 'model no'],
+        },
+        {
+            key: 'category',
+            label: 'Category',
+            required: true,
+            aliases: ['category name', 'type'],
+        },
+        {
+            key: 'branch',
+            label: 'Branch',
+            required: true,
+            aliases: ['branch name', 'office', 'site'],
+        },
+        {
+            key: 'department',
+            label: 'Department',
+            aliases: ['department name', 'dept'],
+        },
+        {
+            key: 'warrantyDuration',
+            label: 'Warranty (months)',
+            aliases: ['warranty', 'warranty duration', 'warranty months'],
+        },
+        {
+            key: 'complianceStatus',
+            label: 'Compliant',
+            hint: 'yes / no',
+            aliases: ['compliance', 'compliance status'],
+        },
+        {
+            key: 'description',
+            label: 'Description',
+            aliases: ['notes', 'details'],
+        },
+        {
+            key: 'minStockLevel',
+            label: 'Min Stock Level',
+            aliases: ['min stock', 'minimum stock', 'reorder level'],
+        },
+        {
+            key: 'quantity',
+            label: 'Quantity',
+            hint: 'defaults to the number of serial numbers',
+            aliases: ['qty', 'initial stock', 'stock', 'count'],
+        },
+        {
+            key: 'serialNumbers',
+            label: 'Serial Numbers',
+            hint: 'separate several with ; or ,',
+            aliases: ['serial', 'serial number', 'serial no', 'sn', 's/n'],
+        },
+        {
+            key: 'purchaseDate',
+            label: 'Purchase Date',
+            hint: 'YYYY-MM-DD',
+            aliases: ['purchased', 'purchased on', 'date purchased'],
+        },
+        {
+            key: 'purchasePrice',
+            label: 'Purchase Price',
+            aliases: ['price', 'cost', 'unit price'],
+        },
+        {
+            key: 'location',
+            label: 'Location',
+            aliases: ['storage location', 'room', 'shelf'],
+        },
+    ]
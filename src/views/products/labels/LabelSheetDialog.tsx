@@ -0,0 +1,325 @@
+import { useMemo, useState } from 'react'
+import { HiOutlinePrinter } from 'react-icons/hi'
+import {
+    Button,
+    Dialog,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Select,
+    toast,
+} from '@/components/ui'
+import {
+    apiGenerateAssignmentQrCode,
+    apiGenerateInventoryQrCode,
+    apiGenerateProductQrCode,
+} from '@/services/ProductService'
+import {
+    CUSTOM_TEMPLATE_ID,
+    buildCustomTemplate,
+    defaultCustomTemplate,
+    labelTemplates,
+} from './labelTemplates'
+import {
+    buildLabelSheetHtml,
+    openPrintWindow,
+    writePrintWindow,
+} from './labelSheet'
+import type { CustomTemplateValues, PageSize } from './labelTemplates'
+import type { LabelContent } from './labelSheet'
+import type { LabelItem } from './types'
+
+interface LabelSheetDialogProps {
+    isOpen: boolean
+    items: LabelItem[]
+    onClose: () => void
+}
+
+const FETCH_BATCH_SIZE = 5
+
+const templateOptions = [
+    ...labelTemplates.map((t) => ({ value: t.id, label: t.name })),
+    { value: CUSTOM_TEMPLATE_ID, label: 'Custom layout' },
+]
+
+const pageSizeOptions: Array<{ value: PageSize; label: string }> = [
+    { value: 'A4', label: 'A4' },
+    { value: 'Letter', label: 'Letter' },
+]
+
+const customFields: Array<{ key: keyof CustomTemplateValues; label: string }> =
+    [
+        { key: 'columns', label: 'Columns' },
+        { key: 'rows', label: 'Rows' },
+        { key: 'marginTop', label: 'Top margin (mm)' },
+        { key: 'marginBottom', label: 'Bottom margin (mm)' },
+        { key: 'marginLeft', label: 'Left margin (mm)' },
+        { key: 'marginRight', label: 'Right margin (mm)' },
+        { key: 'columnGap', label: 'Column gap (mm)' },
+        { key: 'rowGap', label: 'Row gap (mm)' },
+    ]
+
+const fetchQrCode = async (item: LabelItem): Promise<string> => {
+    switch (item.type) {
+        case 'inventory':
+            return (
+                (await apiGenerateInventoryQrCode(item.id)) as {
+                    qrCode: string
+                }
+            ).qrCode
+        case 'assignment': {
+            const response = await apiGenerateAssignmentQrCode(item.id)
+            const qrCode = (response.data as { qrCode?: string })?.qrCode
+            if (!qrCode) {
+                throw new Error('Invalid QR code data received from server')
+            }
+            return qrCode
+        }
+        default:
+            return (
+                (await apiGenerateProductQrCode(item.id)) as { qrCode: string }
+            ).qrCode
+    }
+}
+
+const toLabelContent = (item: LabelItem, qrCode: string): LabelContent => {
+    const lines: string[] = []
+    if (item.type === 'product') {
+        if (item.model) {
+            lines.push(item.model)
+        }
+        lines.push(`Product ID: ${item.id}`)
+    } else {
+        lines.push(`S/N: ${item.serialNumber || '-'}`)
+        lines.push(
+            item.type === 'inventory'
+                ? `Asset ID: ${item.id}`
+                : `Assignment #${item.id}`,
+        )
+    }
+    return { qrCode, title: item.productName, lines }
+}
+
+const LabelSheetDialog = ({
+    isOpen,
+    items,
+    onClose,
+}: LabelSheetDialogProps) => {
+    const [templateId, setTemplateId] = useState(labelTemplates[0].id)
+    const [customValues, setCustomValues] = useState(defaultCustomTemplate)
+    const [startPosition, setStartPosition] = useState(1)
+    const [isPrinting, setIsPrinting] = useState(false)
+    const [progress, setProgress] = useState(0)
+
+    const template = useMemo(
+        () =>
+            templateId === CUSTOM_TEMPLATE_ID
+                ? buildCustomTemplate(customValues)
+                : labelTemplates.find((t) => t.id === templateId) ||
+                  labelTemplates[0],
+        [templateId, customValues],
+    )
+
+    const perSheet = template.columns * template.rows
+    const skip = Math.min(Math.max(startPosition, 1), perSheet) - 1
+    const sheetCount = Math.ceil((items.length + skip) / perSheet)
+
+    const handlePrint = async () => {
+        if (items.length === 0) return
+
+        const printWindow = openPrintWindow()
+        if (!printWindow) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    The print window was blocked. Allow popups for this site and
+                    try again.
+                </Notification>,
+            )
+            return
+        }
+
+        setIsPrinting(true)
+        setProgress(0)
+
+        const labels: LabelContent[] = []
+        const failed: LabelItem[] = []
+        for (let i = 0; i < items.length; i += FETCH_BATCH_SIZE) {
+            const batch = items.slice(i, i + FETCH_BATCH_SIZE)
+            const results = await Promise.allSettled(batch.map(fetchQrCode))
+            results.forEach((result, index) => {
+                if (result.status === 'fulfilled') {
+                    labels.push(toLabelContent(batch[index], result.value))
+                } else {
+                    failed.push(batch[index])
+                }
+            })
+            setProgress(Math.min(i + FETCH_BATCH_SIZE, items.length))
+        }
+
+        setIsPrinting(false)
+
+        if (labels.length === 0) {
+            printWindow.close()
+            toast.push(
+                <Notification title="Error" type="danger">
+                    Failed to generate QR codes for the selected items
+                </Notification>,
+            )
+            return
+        }
+
+        writePrintWindow(
+            printWindow,
+            buildLabelSheetHtml(labels, template, skip),
+        )
+
+        if (failed.length > 0) {
+            toast.push(
+                <Notification title="Warning" type="warning">
+                    {failed.length} label{failed.length !== 1 ? 's' : ''} could
+                    not be generated and {failed.length !== 1 ? 'were' : 'was'}{' '}
+                    left out
+                </Notification>,
+            )
+        }
+        onClose()
+    }
+
+    // Esc and overlay clicks are ignored too while the sheet is rendering
+    const handleRequestClose = () => {
+        if (!isPrinting) {
+            onClose()
+        }
+    }
+
+    return (
+        <Dialog
+            isOpen={isOpen}
+            width={600}
+            closable={!isPrinting}
+            onClose={handleRequestClose}
+            onRequestClose={handleRequestClose}
+        >
+            <h4 className="mb-4">Print Label Sheet</h4>
+            <FormContainer>
+                <p className="text-gray-600 mb-4">
+                    {items.length} label{items.length !== 1 ? 's' : ''} selected
+                </p>
+
+                <FormItem label="Label template">
+                    <Select
+                        options={templateOptions}
+                        value={templateOptions.find(
+                            (o) => o.value === templateId,
+                        )}
+                        isDisabled={isPrinting}
+                        onChange={(option) =>
+                            option && setTemplateId(option.value)
+                        }
+                    />
+                </FormItem>
+
+                {templateId === CUSTOM_TEMPLATE_ID && (
+                    <div className="grid grid-cols-2 gap-x-4">
+                        <FormItem label="Page size">
+                            <Select
+                                options={pageSizeOptions}
+                                value={pageSizeOptions.find(
+                                    (o) => o.value === customValues.pageSize,
+                                )}
+                                isDisabled={isPrinting}
+                                onChange={(option) =>
+                                    option &&
+                                    setCustomValues({
+                                        ...customValues,
+                                        pageSize: option.value,
+                                    })
+                                }
+                            />
+                        </FormItem>
+                        {customFields.map(({ key, label }) => (
+                            <FormItem key={key} label={label}>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    step={
+                                        key === 'columns' || key === 'rows'
+                                            ? 1
+                                            : 0.1
+                                    }
+                                    value={customValues[key]}
+                                    disabled={isPrinting}
+                                    onChange={(e) =>
+                                        setCustomValues({
+                                            ...customValues,
+                                            [key]: Number(e.target.value) || 0,
+                                        })
+                                    }
+                                />
+                            </FormItem>
+                        ))}
+                    </div>
+                )}
+
+                <FormItem
+                    label="Start at label position"
+                    extra={
+                        <span className="text-xs text-gray-500 ml-2">
+                            Skip labels already used on the first sheet
+                        </span>
+                    }
+                >
+                    <Input
+                        type="number"
+                        min={1}
+                        max={perSheet}
+                        value={startPosition}
+                        disabled={isPrinting}
+                        onChange={(e) =>
+                            setStartPosition(Number(e.target.value) || 1)
+                        }
+                    />
+                </FormItem>
+
+                <div className="text-sm text-gray-500 mb-4">
+                    {perSheet} labels per sheet · {sheetCount} sheet
+                    {sheetCount !== 1 ? 's' : ''} · label size{' '}
+                    {template.labelWidth.toFixed(1)} ×{' '}
+                    {template.labelHeight.toFixed(1)} mm
+                </div>
+
+                {isPrinting && (
+                    <p className="text-sm text-blue-600 mb-4">
+                        Generating QR codes... {progress} of {items.length}
+                    </p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    <Button
+                        variant="plain"
+                        disabled={isPrinting}
+                        onClick={onClose}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="solid"
+                        icon={<HiOutlinePrinter />}
+                        loading={isPrinting}
+                        disabled={
+                            items.length === 0 ||
+                            template.labelWidth <= 0 ||
+                            template.labelHeight <= 0
+                        }
+                        onClick={handlePrint}
+                    >
+                        Print
+                    </Button>
+                </div>
+            </FormContainer>
+        </Dialog>
+    )
+}
+
+export default LabelSheetDialog
@@ -0,0 +1,258 @@
+import { useMemo, useState } from 'react'
+import { HiOutlineDownload, HiOutlinePrinter } from 'react-icons/hi'
+import {
+    Button,
+    Dialog,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Select,
+    toast,
+} from '@/components/ui'
+import { apiSendToPrintAgent } from '@/services/PrintAgentService'
+import {
+    buildThermalLabels,
+    printerResolutions,
+    thermalLabelSizes,
+} from './thermalLabels'
+import type { ThermalLanguage } from './thermalLabels'
+import type { LabelItem } from './types'
+import type { AxiosError } from 'axios'
+
+interface ThermalLabelDialogProps {
+    isOpen: boolean
+    items: LabelItem[]
+    onClose: () => void
+}
+
+interface ThermalPrinterSettings {
+    language: ThermalLanguage
+    sizeId: string
+    dpi: number
+    agentUrl: string
+}
+
+const SETTINGS_STORAGE_KEY = 'thermalPrinterSettings'
+
+const defaultSettings: ThermalPrinterSettings = {
+    language: 'zpl',
+    sizeId: thermalLabelSizes[0].id,
+    dpi: printerResolutions[0],
+    agentUrl: '',
+}
+
+const languageOptions: Array<{ value: ThermalLanguage; label: string }> = [
+    { value: 'zpl', label: 'ZPL (Zebra)' },
+    { value: 'epl', label: 'EPL2' },
+]
+
+const sizeOptions = thermalLabelSizes.map((size) => ({
+    value: size.id,
+    label: size.name,
+}))
+
+const dpiOptions = printerResolutions.map((dpi) => ({
+    value: dpi,
+    label: `${dpi} dpi`,
+}))
+
+// Printer setup differs per branch, so it is remembered on this device
+const loadSettings = (): ThermalPrinterSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY)
+        return stored
+            ? { ...defaultSettings, ...JSON.parse(stored) }
+            : defaultSettings
+    } catch {
+        return defaultSettings
+    }
+}
+
+const ThermalLabelDialog = ({
+    isOpen,
+    items,
+    onClose,
+}: ThermalLabelDialogProps) => {
+    const [settings, setSettings] = useState(loadSettings)
+    const [showPreview, setShowPreview] = useState(false)
+    const [isSending, setIsSending] = useState(false)
+
+    const updateSettings = (values: Partial<ThermalPrinterSettings>) => {
+        const next = { ...settings, ...values }
+        setSettings(next)
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next))
+    }
+
+    const size =
+        thermalLabelSizes.find((s) => s.id === settings.sizeId) ||
+        thermalLabelSizes[0]
+
+    const commands = useMemo(
+        () =>
+            isOpen
+                ? buildThermalLabels(
+                      items,
+                      settings.language,
+                      size,
+                      settings.dpi,
+                  )
+                : '',
+        [isOpen, items, settings.language, size, settings.dpi],
+    )
+
+    const handleDownload = () => {
+        const blob = new Blob([commands], { type: 'text/plain' })
+        const url = window.URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+
+        const timestamp = new Date().toISOString().split('T')[0]
+        link.download = `labels-${timestamp}.${settings.language}`
+
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+        window.URL.revokeObjectURL(url)
+    }
+
+    const handleSend = async () => {
+        setIsSending(true)
+        try {
+            await apiSendToPrintAgent(settings.agentUrl.trim(), commands)
+            toast.push(
+                <Notification title="Success" type="success">
+                    {items.length} label{items.length !== 1 ? 's' : ''} sent to
+                    the printer
+                </Notification>,
+            )
+            onClose()
+        } catch (error) {
+            console.error('Print agent error:', error)
+            const status = (error as AxiosError).response?.status
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {status
+                        ? `The print agent rejected the job (HTTP ${status})`
+                        : 'Could not reach the print agent. Check that it is running and the URL is correct.'}
+                </Notification>,
+            )
+        } finally {
+            setIsSending(false)
+        }
+    }
+
+    return (
+        <Dialog
+            isOpen={isOpen}
+            width={600}
+            onClose={onClose}
+            onRequestClose={onClose}
+        >
+            <h4 className="mb-4">Thermal Printer Labels</h4>
+            <FormContainer>
+                <p className="text-gray-600 mb-4">
+                    {items.length} label{items.length !== 1 ? 's' : ''}
+                </p>
+
+                <div className="grid grid-cols-2 gap-x-4">
+                    <FormItem label="Printer language">
+                        <Select
+                            options={languageOptions}
+                            value={languageOptions.find(
+                                (o) => o.value === settings.language,
+                            )}
+                            onChange={(option) =>
+                                option &&
+                                updateSettings({ language: option.value })
+                            }
+                        />
+                    </FormItem>
+                    <FormItem label="Print resolution">
+                        <Select
+                            options={dpiOptions}
+                            value={dpiOptions.find(
+                                (o) => o.value === settings.dpi,
+                            )}
+                            onChange={(option) =>
+                                option && updateSettings({ dpi: option.value })
+                            }
+                        />
+                    </FormItem>
+                </div>
+
+                <FormItem label="Label size">
+                    <Select
+                        options={sizeOptions}
+                        value={sizeOptions.find(
+                            (o) => o.value === settings.sizeId,
+                        )}
+                        onChange={(option) =>
+                            option && updateSettings({ sizeId: option.value })
+                        }
+                    />
+                </FormItem>
+
+                <FormItem
+                    label="Print agent URL"
+                    extra={
+                        <span className="text-xs text-gray-500 ml-2">
+                            Receives the raw commands as plain text
+                        </span>
+                    }
+                >
+                    <Input
+                        placeholder="http://localhost:9100/print"
+                        value={settings.agentUrl}
+                        onChange={(e) =>
+                            updateSettings({ agentUrl: e.target.value })
+                        }
+                    />
+                </FormItem>
+
+                <Button
+                    size="xs"
+                    variant="plain"
+                    className="mb-2"
+                    onClick={() => setShowPreview(!showPreview)}
+                >
+                    {showPreview ? 'Hide' : 'Show'} printer commands
+                </Button>
+                {showPreview && (
+                    <Input
+                        readOnly
+                        textArea
+                        className="font-mono text-xs h-48 mb-4"
+                        value={commands}
+                    />
+                )}
+
+                <div className="flex justify-end gap-2 mt-4">
+                    <Button variant="plain" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button
+                        icon={<HiOutlineDownload />}
+                        disabled={items.length === 0}
+                        onClick={handleDownload}
+                    >
+                        Download .{settings.language}
+                    </Button>
+                    <Button
+                        variant="solid"
+                        icon={<HiOutlinePrinter />}
+                        loading={isSending}
+                        disabled={
+                            items.length === 0 || !settings.agentUrl.trim()
+                        }
+                        onClick={handleSend}
+                    >
+                        Send to Printer
+                    </Button>
+                </div>
+            </FormContainer>
+        </Dialog>
+    )
+}
+
+export default ThermalLabelDialog
@@ -0,0 +1,129 @@
+import type { LabelTemplate } from './labelTemplates'
+
+export interface LabelContent {
+    /** QR code image as returned by the API (data URL) */
+    qrCode: string
+    title: string
+    lines: string[]
+}
+
+export const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+
+const renderLabel = (label: LabelContent | null) => {
+    if (!label) {
+        return '<div class="label"></div>'
+    }
+
+    return `
+        <div class="label">
+            <img class="qr" src="${escapeHtml(label.qrCode)}" alt="QR Code" />
+            <div class="text">
+                <div class="title">${escapeHtml(label.title)}</div>
+                ${label.lines
+                    .map(
+                        (line) => `<div class="line">${escapeHtml(line)}</div>`,
+                    )
+                    .join('')}
+            </div>
+        </div>`
+}
+
+/**
+ * Lays labels out on as many sheets as needed. `skip` leaves the first
+ * positions of the first sheet empty so part-used sheets can be reused.
+ */
+export const buildLabelSheetHtml = (
+    labels: LabelContent[],
+    template: LabelTemplate,
+    skip = 0,
+) => {
+    const perSheet = template.columns * template.rows
+    const slots: Array<LabelContent | null> = [
+        ...Array.from({ length: Math.min(skip, perSheet - 1) }, () => null),
+        ...labels,
+    ]
+
+    const sheets: string[] = []
+    for (let i = 0; i < slots.length; i += perSheet) {
+        sheets.push(
+            `<div class="sheet">${slots
+                .slice(i, i + perSheet)
+                .map(renderLabel)
+                .join('')}</div>`,
+        )
+    }
+
+    const qrSize = Math.min(template.labelHeight - 4, template.labelWidth / 2)
+    const fontSize = Math.max(6, Math.min(10, template.labelHeight / 4))
+
+    return `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Labels (${labels.length})</title>
+            <style>
+              @page { size: ${template.pageSize}; margin: 0; }
+              * { box-sizing: border-box; }
+              body { margin: 0; font-family: Arial, sans-serif; }
+              .sheet {
+                display: grid;
+                grid-template-columns: repeat(${template.columns}, ${
+                    template.labelWidth
+                }mm);
+                grid-auto-rows: ${template.labelHeight}mm;
+                column-gap: ${template.columnGap}mm;
+                row-gap: ${template.rowGap}mm;
+                padding-top: ${template.marginTop}mm;
+                padding-left: ${template.marginLeft}mm;
+                page-break-after: always;
+                break-after: page;
+              }
+              .sheet:last-child { page-break-after: auto; break-after: auto; }
+              .label {
+                display: flex;
+                align-items: center;
+                gap: 2mm;
+                padding: 2mm;
+                overflow: hidden;
+              }
+              .qr { width: ${qrSize}mm; height: ${qrSize}mm; flex-shrink: 0; }
+              .text { min-width: 0; font-size: ${fontSize}pt; line-height: 1.25; }
+              .title { font-weight: bold; }
+              .title, .line { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+            </style>
+          </head>
+          <body onload="window.print()">
+            ${sheets.join('')}
+          </body>
+        </html>
+      `
+}
+
+/**
+ * Opens the print window straight away, while we are still inside the click
+ * handler, so popup blockers let it through. Content is written once the QR
+ * codes have been fetched.
+ */
+export const openPrintWindow = (message = 'Generating labels...') => {
+    const printWindow = window.open('', '_blank', 'width=900,height=700')
+    if (printWindow) {
+        printWindow.document.write(
+            `<p style="font-family: Arial, sans-serif; padding: 20px;">${escapeHtml(
+                message,
+            )}</p>`,
+        )
+    }
+    return printWindow
+}
+
+export const writePrintWindow = (printWindow: Window, html: string) => {
+    printWindow.document.open()
+    printWindow.document.write(html)
+    printWindow.document.close()
+}
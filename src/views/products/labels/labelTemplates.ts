@@ -0,0 +1,152 @@
+export type PageSize = 'A4' | 'Letter'
+
+/** All measurements are in millimetres */
+export interface LabelTemplate {
+    id: string
+    name: string
+    pageSize: PageSize
+    columns: number
+    rows: number
+    marginTop: number
+    marginLeft: number
+    labelWidth: number
+    labelHeight: number
+    columnGap: number
+    rowGap: number
+}
+
+export interface CustomTemplateValues {
+    pageSize: PageSize
+    columns: number
+    rows: number
+    marginTop: number
+    marginBottom: number
+    marginLeft: number
+    marginRight: number
+    columnGap: number
+    rowGap: number
+}
+
+export const PAGE_DIMENSIONS: Record<
+    PageSize,
+    { width: number; height: number }
+> = {
+    A4: { width: 210, height: 297 },
+    Letter: { width: 215.9, height: 279.4 },
+}
+
+export const CUSTOM_TEMPLATE_ID = 'custom'
+
+export const labelTemplates: LabelTemplate[] = [
+    {
+        id: 'avery-l7160',
+        name: 'Avery L7160 (A4, 3 × 7, 63.5 × 38.1 mm)',
+        pageSize: 'A4',
+        columns: 3,
+        rows: 7,
+        marginTop: 15.1,
+        marginLeft: 7.2,
+        labelWidth: 63.5,
+        labelHeight: 38.1,
+        columnGap: 2.5,
+        rowGap: 0,
+    },
+    {
+        id: 'avery-l7163',
+        name: 'Avery L7163 (A4, 2 × 7, 99.1 × 38.1 mm)',
+        pageSize: 'A4',
+        columns: 2,
+        rows: 7,
+        marginTop: 15.1,
+        marginLeft: 4.7,
+        labelWidth: 99.1,
+        labelHeight: 38.1,
+        columnGap: 2.5,
+        rowGap: 0,
+    },
+    {
+        id: 'avery-l7651',
+        name: 'Avery L7651 (A4, 5 × 13, 38.1 × 21.2 mm)',
+        pageSize: 'A4',
+        columns: 5,
+        rows: 13,
+        marginTop: 10.7,
+        marginLeft: 4.7,
+        labelWidth: 38.1,
+        labelHeight: 21.2,
+        columnGap: 2.5,
+        rowGap: 0,
+    },
+    {
+        id: 'avery-5160',
+        name: 'Avery 5160 (Letter, 3 × 10, 2⅝ × 1 in)',
+        pageSize: 'Letter',
+        columns: 3,
+        rows: 10,
+        marginTop: 12.7,
+        marginLeft: 4.8,
+        labelWidth: 66.7,
+        labelHeight: 25.4,
+        columnGap: 3.2,
+        rowGap: 0,
+    },
+    {
+        id: 'avery-5163',
+        name: 'Avery 5163 (Letter, 2 × 5, 4 × 2 in)',
+        pageSize: 'Letter',
+        columns: 2,
+        rows: 5,
+        marginTop: 12.7,
+        marginLeft: 4,
+        labelWidth: 101.6,
+        labelHeight: 50.8,
+        columnGap: 4.8,
+        rowGap: 0,
+    },
+]
+
+export const defaultCustomTemplate: CustomTemplateValues = {
+    pageSize: 'A4',
+    columns: 3,
+    rows: 8,
+    marginTop: 10,
+    marginBottom: 10,
+    marginLeft: 8,
+    marginRight: 8,
+    columnGap: 3,
+    rowGap: 3,
+}
+
+/** Derives the label size for a custom sheet from its grid and margins */
+export const buildCustomTemplate = (
+    values: CustomTemplateValues,
+): LabelTemplate => {
+    const page = PAGE_DIMENSIONS[values.pageSize]
+    const columns = Math.max(1, Math.floor(values.columns))
+    const rows = Math.max(1, Math.floor(values.rows))
+
+    const usableWidth =
+        page.width -
+        values.marginLeft -
+        values.marginRight -
+        values.columnGap * (columns - 1)
+    const usableHeight =
+        page.height -
+        values.marginTop -
+        values.marginBottom -
+        values.rowGap * (rows - 1)
+
+    return {
+        id: CUSTOM_TEMPLATE_ID,
+        name: 'Custom',
+        pageSize: values.pageSize,
+        columns,
+        rows,
+        marginTop: values.marginTop,
+        marginLeft: values.marginLeft,
+        labelWidth: Math.max(0, usableWidth / columns),
+        labelHeight: Math.max(0, usableHeight / rows),
+        columnGap: values.columnGap,
+        rowGap: values.rowGap,
+    }
+}
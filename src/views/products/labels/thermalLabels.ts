@@ -0,0 +1,266 @@
+import type { LabelItem } from './types'
+
+export type ThermalLanguage = 'zpl' | 'epl'
+
+export interface ThermalLabelSize {
+    id: string
+    name: string
+    /** Label stock size in inches */
+    width: number
+    height: number
+}
+
+export const thermalLabelSizes: ThermalLabelSize[] = [
+    { id: '2x1', name: '2 × 1 in (51 × 25 mm)', width: 2, height: 1 },
+    {
+        id: '2.25x1.25',
+        name: '2.25 × 1.25 in (57 × 32 mm)',
+        width: 2.25,
+        height: 1.25,
+    },
+    { id: '3x2', name: '3 × 2 in (76 × 51 mm)', width: 3, height: 2 },
+    { id: '4x2', name: '4 × 2 in (102 × 51 mm)', width: 4, height: 2 },
+]
+
+export const printerResolutions = [203, 300]
+
+/** Text printed next to the QR code, top to bottom */
+interface ThermalLabelText {
+    title: string
+    lines: string[]
+}
+
+interface LabelLayout {
+    widthDots: number
+    heightDots: number
+    margin: number
+    qrX: number
+    qrY: number
+    qrMagnification: number
+    textX: number
+    textWidth: number
+}
+
+// Byte-mode capacity of QR versions 1-10 at error correction level M
+const QR_CAPACITY_M = [14, 26, 42, 62, 84, 106, 122, 152, 180, 213]
+
+const estimateQrModules = (length: number) => {
+    const index = QR_CAPACITY_M.findIndex((capacity) => length <= capacity)
+    const version = index === -1 ? QR_CAPACITY_M.length : index + 1
+    return 17 + version * 4
+}
+
+/**
+ * The payload our scanner understands: assignments link to the public view
+ * so a phone camera can open them too, everything else is a small JSON.
+ */
+export const getQrPayload = (item: LabelItem) => {
+    switch (item.type) {
+        case 'assignment':
+            return `${window.location.origin}/product-public-view/${item.id}`
+        case 'inventory':
+            return JSON.stringify({
+                inventoryId: item.id,
+                serialNumber: item.serialNumber || undefined,
+            })
+        default:
+            return JSON.stringify({ productId: item.id })
+    }
+}
+
+const getLabelText = (item: LabelItem): ThermalLabelText => {
+    const lines: string[] = []
+    if (item.model) {
+        lines.push(item.model)
+    }
+    if (item.type !== 'product') {
+        lines.push(`S/N: ${item.serialNumber || '-'}`)
+    }
+    if (item.type === 'assignment') {
+        lines.push(`Assignment #${item.id}`)
+    } else if (item.type === 'inventory') {
+        lines.push(`Asset ID: ${item.id}`)
+    }
+    return { title: item.productName, lines }
+}
+
+const getLayout = (
+    size: ThermalLabelSize,
+    dpi: number,
+    payload: string,
+): LabelLayout => {
+    const widthDots = Math.round(size.width * dpi)
+    const heightDots = Math.round(size.height * dpi)
+    const margin = Math.round(dpi / 16)
+
+    const qrArea = Math.min(heightDots - margin * 2, widthDots / 2)
+    const modules = estimateQrModules(payload.length)
+    const qrMagnification = Math.max(
+        1,
+        Math.min(10, Math.floor(qrArea / modules)),
+    )
+    const qrSize = qrMagnification * modules
+
+    return {
+        widthDots,
+        heightDots,
+        margin,
+        qrX: margin,
+        qrY: Math.max(margin, Math.round((heightDots - qrSize) / 2)),
+        qrMagnification,
+        textX: margin * 2 + qrSize,
+        textWidth: widthDots - qrSize - margin * 3,
+    }
+}
+
+const truncate = (value: string, maxChars: number) =>
+    value.length > maxChars
+        ? `${value.slice(0, Math.max(1, maxChars - 2))}..`
+        : value
+
+// ZPL field data uses ^ and ~ as command prefixes, so those (and the
+// ^FH escape character itself) are written as hex
+const escapeZpl = (value: string) =>
+    value.replace(
+        /[_^~]/g,
+        (char) => `_${char.charCodeAt(0).toString(16).toUpperCase()}`,
+    )
+
+const escapeEpl = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+
+const buildZplLabel = (
+    payload: string,
+    text: ThermalLabelText,
+    layout: LabelLayout,
+) => {
+    const titleHeight = Math.round(layout.heightDots / 7)
+    const lineHeight = Math.round(titleHeight * 0.75)
+    const titleChars = Math.floor(layout.textWidth / (titleHeight * 0.5))
+    const lineChars = Math.floor(layout.textWidth / (lineHeight * 0.5))
+
+    const commands = [
+        '^XA',
+        '^CI28',
+        `^PW${layout.widthDots}`,
+        `^LL${layout.heightDots}`,
+        `^FO${layout.qrX},${layout.qrY}^BQN,2,${
+            layout.qrMagnification
+        }^FH_^FDMA,${escapeZpl(payload)}^FS`,
+    ]
+
+    let y = layout.margin
+    commands.push(
+        `^FO${
+            layout.textX
+        },${y}^A0N,${titleHeight},${titleHeight}^FH_^FD${escapeZpl(
+            truncate(text.title, titleChars),
+        )}^FS`,
+    )
+    y += titleHeight + Math.round(lineHeight / 3)
+
+    text.lines.forEach((line) => {
+        if (y + lineHeight > layout.heightDots - layout.margin) {
+            return
+        }
+        commands.push(
+            `^FO${
+                layout.textX
+            },${y}^A0N,${lineHeight},${lineHeight}^FH_^FD${escapeZpl(
+                truncate(line, lineChars),
+            )}^FS`,
+        )
+        y += lineHeight + Math.round(lineHeight / 4)
+    })
+
+    commands.push('^XZ')
+    return commands.join('\n')
+}
+
+// Resident EPL2 fonts 1-4 as [width, height] in dots at 203 dpi. Font 5
+// only has upper case letters, so it is never used.
+const EPL_FONTS: Array<[number, number]> = [
+    [8, 12],
+    [10, 16],
+    [12, 20],
+    [14, 24],
+]
+
+const pickEplFont = (maxHeight: number) => {
+    let font = 1
+    EPL_FONTS.forEach(([, height], index) => {
+        if (height <= maxHeight) {
+            font = index + 1
+        }
+    })
+    return font
+}
+
+const buildEplLabel = (
+    payload: string,
+    text: ThermalLabelText,
+    layout: LabelLayout,
+    dpi: number,
+) => {
+    // EPL fonts are defined at 203 dpi and scale up on 300 dpi heads
+    const scale = dpi / 203
+    const titleFont = pickEplFont(layout.heightDots / 5 / scale)
+    const lineFont = Math.max(1, titleFont - 1)
+    const [titleWidth, titleHeight] = EPL_FONTS[titleFont - 1].map(
+        (dots) => dots * scale,
+    )
+    const [lineWidth, lineHeight] = EPL_FONTS[lineFont - 1].map(
+        (dots) => dots * scale,
+    )
+
+    const commands = [
+        '',
+        'N',
+        `q${layout.widthDots}`,
+        `Q${layout.heightDots},24`,
+        `b${layout.qrX},${layout.qrY},Q,m2,s${
+            layout.qrMagnification
+        },eM,"${escapeEpl(payload)}"`,
+    ]
+
+    let y = layout.margin
+    commands.push(
+        `A${layout.textX},${y},0,${titleFont},1,1,N,"${escapeEpl(
+            truncate(text.title, Math.floor(layout.textWidth / titleWidth)),
+        )}"`,
+    )
+    y += Math.round(titleHeight * 1.3)
+
+    text.lines.forEach((line) => {
+        if (y + lineHeight > layout.heightDots - layout.margin) {
+            return
+        }
+        commands.push(
+            `A${layout.textX},${y},0,${lineFont},1,1,N,"${escapeEpl(
+                truncate(line, Math.floor(layout.textWidth / lineWidth)),
+            )}"`,
+        )
+        y += Math.round(lineHeight * 1.25)
+    })
+
+    commands.push('P1')
+    return commands.join('\n')
+}
+
+/** Builds one printer job containing a label for every item */
+export const buildThermalLabels = (
+    items: LabelItem[],
+    language: ThermalLanguage,
+    size: ThermalLabelSize,
+    dpi: number,
+) =>
+    items
+        .map((item) => {
+            const payload = getQrPayload(item)
+            const layout = getLayout(size, dpi, payload)
+            const text = getLabelText(item)
+            return language === 'zpl'
+                ? buildZplLabel(payload, text, layout)
+                : buildEplLabel(payload, text, layout, dpi)
+        })
+        .join('\n') + '\n'
@@ -0,0 +1,7 @@
+export interface LabelItem {
+    type: 'inventory' | 'product' | 'assignment'
+    id: number
+    productName: string
+    model?: string
+    serialNumber?: string
+}
@@ -0,0 +1,432 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+    HiOutlineCamera,
+    HiOutlineCheckCircle,
+    HiOutlineX,
+} from 'react-icons/hi'
+import {
+    Alert,
+    Button,
+    Dialog,
+    Input,
+    Notification,
+    Select,
+    Spinner,
+    toast,
+} from '@/components/ui'
+import { apiUploadAttachment } from '@/services/AttachmentService'
+import { apiGetCategory } from '@/services/CategoryService'
+import { apiReturnProduct } from '@/services/ProductService'
+import {
+    defaultReturnChecklist,
+    failedChecks,
+    returnCheckSeverityLabels,
+    suggestReturnOutcome,
+} from '@/utils/returnInspection'
+import type { CategoryInspectionSettings } from '@/services/CategoryService'
+import type {
+    ReturnCheckResult,
+    ReturnCondition,
+    ReturnInventoryStatus,
+} from '@/utils/returnInspection'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+export interface ReturnInspectionTarget {
+    /** Assignment id */
+    id: number
+    productName: string
+    inventoryInfo: string
+    categoryId?: number
+}
+
+interface ReturnInspectionDialogProps {
+    assignment: ReturnInspectionTarget
+    onClose: () => void
+}
+
+const conditionOptions: Array<{ value: ReturnCondition; label: string }> = [
+    { value: 'EXCELLENT', label: 'Excellent' },
+    { value: 'GOOD', label: 'Good' },
+    { value: 'FAIR', label: 'Fair' },
+    { value: 'POOR', label: 'Poor' },
+]
+
+const statusOptions: Array<{ value: ReturnInventoryStatus; label: string }> = [
+    { value: 'AVAILABLE', label: 'Available' },
+    { value: 'MAINTENANCE', label: 'Needs Maintenance' },
+    { value: 'DAMAGED', label: 'Damaged' },
+]
+
+type Photo = { file: File; url: string }
+
+const ReturnInspectionDialog = ({
+    assignment,
+    onClose,
+}: ReturnInspectionDialogProps) => {
+    const queryClient = useQueryClient()
+    const cameraInputRef = useRef<HTMLInputElement>(null)
+
+    // Passed or failed per check key; unanswered checks are missing
+    const [answers, setAnswers] = useState<Record<string, boolean>>({})
+    const [outcome, setOutcome] = useState<{
+        condition: ReturnCondition
+        inventoryStatus: ReturnInventoryStatus
+    }>({ condition: 'GOOD', inventoryStatus: 'AVAILABLE' })
+    const [outcomeEdited, setOutcomeEdited] = useState(false)
+    const [notes, setNotes] = useState('')
+    const [photos, setPhotos] = useState<Photo[]>([])
+    const [isSubmitting, setIsSubmitting] = useState(false)
+
+    const { data: categorySettings, isLoading } = useQuery({
+        queryKey: ['category', assignment.categoryId],
+        queryFn: async () => {
+            const response = await apiGetCategory(String(assignment.categoryId))
+            return (
+                (response.data as { data?: CategoryInspectionSettings }).data ??
+                null
+            )
+        },
+        enabled: !!assignment.categoryId,
+    })
+
+    const checklist = categorySettings?.returnChecklist?.length
+        ? categorySettings.returnChecklist
+        : defaultReturnChecklist
+
+    const results: ReturnCheckResult[] = useMemo(
+        () =>
+            checklist
+                .filter((check) => answers[check.key] !== undefined)
+                .map((check) => ({ ...check, passed: answers[check.key] })),
+        [checklist, answers],
+    )
+    const isComplete = results.length === checklist.length
+    const failed = failedChecks(results)
+    const suggestion = suggestReturnOutcome(results)
+
+    // Follow the checklist until the inspector picks an outcome themselves
+    useEffect(() => {
+        if (!outcomeEdited) {
+            setOutcome(suggestion)
+        }
+    }, [outcomeEdited, suggestion.condition, suggestion.inventoryStatus]) // eslint-disable-line react-hooks/exhaustive-deps
+
+    const photosRef = useRef(photos)
+    photosRef.current = photos
+    useEffect(
+        () => () =>
+            photosRef.current.forEach((photo) =>
+                URL.revokeObjectURL(photo.url),
+            ),
+        [],
+    )
+
+    const handleAnswer = (key: string, passed: boolean) =>
+        setAnswers((prev) => ({ ...prev, [key]: passed }))
+
+    const handlePassAll = () =>
+        setAnswers(
+            Object.fromEntries(checklist.map((check) => [check.key, true])),
+        )
+
+    const handlePhotos = (files: FileList | null) => {
+        const added = Array.from(files || []).map((file) => ({
+            file,
+            url: URL.createObjectURL(file),
+        }))
+        setPhotos((prev) => [...prev, ...added])
+        if (cameraInputRef.current) {
+            cameraInputRef.current.value = ''
+        }
+    }
+
+    const handleRemovePhoto = (photo: Photo) => {
+        URL.revokeObjectURL(photo.url)
+        setPhotos((prev) => prev.filter((p) => p !== photo))
+    }
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true)
+        try {
+            await apiReturnProduct(assignment.id, {
+                condition: outcome.condition,
+                inventoryStatus: outcome.inventoryStatus,
+                inspection: results,
+                notes: [
+                    `Returned in ${outcome.condition.toLowerCase()} condition. Inventory status: ${outcome.inventoryStatus.toLowerCase()}`,
+                    failed.length > 0 &&
+                        `Failed checks: ${failed
+                            .map((check) => check.label)
+                            .join(', ')}`,
+                    notes.trim(),
+                ]
+                    .filter(Boolean)
+                    .join('\n'),
+            })
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to return product'}
+                </Notification>,
+            )
+            setIsSubmitting(false)
+            return
+        }
+
+        const uploads = await Promise.allSettled(
+            photos.map((photo) =>
+                apiUploadAttachment({
+                    ownerType: 'ASSIGNMENT',
+                    ownerId: assignment.id,
+                    type: 'PHOTO',
+                    file: photo.file,
+                }),
+            ),
+        )
+        const failedUploads = uploads.filter(
+            (upload) => upload.status === 'rejected',
+        ).length
+
+        toast.push(
+            failedUploads > 0 ? (
+                <Notification title="Returned" type="warning">
+                    Product returned, but {failedUploads} photo
+                    {failedUploads !== 1 ? 's' : ''} could not be uploaded. Add
+                    them from the assignment page.
+                </Notification>
+            ) : (
+                <Notification title="Success" type="success">
+                    Product returned successfully
+                </Notification>
+            ),
+        )
+        queryClient.invalidateQueries({ queryKey: ['active-assignments'] })
+        queryClient.invalidateQueries({ queryKey: ['employee-assignments'] })
+        queryClient.invalidateQueries({
+            queryKey: ['attachments', 'ASSIGNMENT', assignment.id],
+        })
+        setIsSubmitting(false)
+        onClose()
+    }
+
+    return (
+        <Dialog isOpen width={600} onClose={onClose} onRequestClose={onClose}>
+            <div className="max-h-[80vh] overflow-y-auto pr-2">
+                <h4 className="mb-4">Return Product</h4>
+                <div className="mb-4">
+                    <p className="font-semibold">{assignment.productName}</p>
+                    <p className="text-gray-600">{assignment.inventoryInfo}</p>
+                </div>
+
+                <div className="flex items-center justify-between mb-2">
+                    <h6>Inspection</h6>
+                    <Button size="xs" onClick={handlePassAll}>
+                        All OK
+                    </Button>
+                </div>
+                {isLoading ? (
+                    <div className="flex justify-center py-4">
+                        <Spinner size={30} />
+                    </div>
+                ) : (
+                    <div className="border rounded divide-y dark:border-gray-600 dark:divide-gray-600 mb-4">
+                        {checklist.map((check) => (
+                            <div
+                                key={check.key}
+                                className="flex items-center justify-between gap-2 p-2"
+                            >
+                                <div>
+                                    <div>{check.label}</div>
+                                    <div className="text-xs text-gray-500">
+                                        If failed:{' '}
+                                        {
+                                            returnCheckSeverityLabels[
+                                                check.severity
+                                            ]
+                                        }
+                                    </div>
+                                </div>
+                                <div className="flex gap-1 flex-shrink-0">
+                                    <Button
+                                        size="xs"
+                                        variant={
+                                            answers[check.key] === true
+                                                ? 'solid'
+                                                : 'default'
+                                        }
+                                        color="emerald"
+                                        onClick={() =>
+                                            handleAnswer(check.key, true)
+                                        }
+                                    >
+                                        OK
+                                    </Button>
+                                    <Button
+                                        size="xs"
+                                        variant={
+                                            answers[check.key] === false
+                                                ? 'solid'
+                                                : 'default'
+                                        }
+                                        color="red"
+                                        onClick={() =>
+                                            handleAnswer(check.key, false)
+                                        }
+                                    >
+                                        Failed
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="mb-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <h6>Damage Photos</h6>
+                        <Button
+                            size="xs"
+                            icon={<HiOutlineCamera />}
+                            onClick={() => cameraInputRef.current?.click()}
+                        >
+                            Take Photo
+                        </Button>
+                        <input
+                            ref={cameraInputRef}
+                            hidden
+                            multiple
+                            type="file"
+                            accept="image/*"
+                            capture="environment"
+                            onChange={(e) => handlePhotos(e.target.files)}
+                        />
+                    </div>
+                    {photos.length > 0 ? (
+                        <div className="grid grid-cols-4 gap-2">
+                            {photos.map((photo) => (
+                                <div key={photo.url} className="relative">
+                                    <img
+                                        src={photo.url}
+                                        alt={photo.file.name}
+                                        className="h-20 w-full object-cover rounded"
+                                    />
+                                    <span
+                                        className="absolute top-1 right-1 p-0.5 rounded-full bg-white/80 cursor-pointer hover:text-red-600"
+                                        onClick={() => handleRemovePhoto(photo)}
+                                    >
+                                        <HiOutlineX />
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p
+                            className={`text-xs ${
+                                failed.length > 0
+                                    ? 'text-amber-600'
+                                    : 'text-gray-500'
+                            }`}
+                        >
+                            {failed.length > 0
+                                ? 'Photograph the damage; the photos are kept with the assignment as evidence.'
+                                : 'No photos taken.'}
+                        </p>
+                    )}
+                </div>
+
+                {failed.length > 0 && (
+                    <Alert showIcon type="warning" className="mb-4">
+                        {failed.length} check{failed.length !== 1 ? 's' : ''}{' '}
+                        failed. Suggested:{' '}
+                        {conditionOptions
+                            .find((o) => o.value === suggestion.condition)
+                            ?.label.toLowerCase()}{' '}
+                        condition,{' '}
+                        {statusOptions
+                            .find((o) => o.value === suggestion.inventoryStatus)
+                            ?.label.toLowerCase()}
+                        .
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-1">
+                            Return Condition
+                        </label>
+                        <Select
+                            options={conditionOptions}
+                            value={conditionOptions.find(
+                                (o) => o.value === outcome.condition,
+                            )}
+                            onChange={(option) => {
+                                setOutcomeEdited(true)
+                                setOutcome((prev) => ({
+                                    ...prev,
+                                    condition: option?.value || prev.condition,
+                                }))
+                            }}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">
+                            Inventory Status After Return
+                        </label>
+                        <Select
+                            options={statusOptions}
+                            value={statusOptions.find(
+                                (o) => o.value === outcome.inventoryStatus,
+                            )}
+                            onChange={(option) => {
+                                setOutcomeEdited(true)
+                                setOutcome((prev) => ({
+                                    ...prev,
+                                    inventoryStatus:
+                                        option?.value || prev.inventoryStatus,
+                                }))
+                            }}
+                        />
+                    </div>
+                </div>
+
+                <div className="mb-4">
+                    <label className="block text-sm font-medium mb-1">
+                        Inspector Notes
+                    </label>
+                    <Input
+                        textArea
+                        value={notes}
+                        placeholder="Describe any damage and what the employee said about it"
+                        onChange={(e) => setNotes(e.target.value)}
+                    />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <Button variant="plain" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="solid"
+                        icon={<HiOutlineCheckCircle />}
+                        loading={isSubmitting}
+                        disabled={!isComplete || isLoading}
+                        onClick={handleSubmit}
+                    >
+                        Confirm Return
+                    </Button>
+                </div>
+                {!isComplete && !isLoading && (
+                    <p className="text-xs text-gray-500 text-right mt-2">
+                        Answer every check to confirm the return
+                    </p>
+                )}
+            </div>
+        </Dialog>
+    )
+}
+
+export default ReturnInspectionDialog
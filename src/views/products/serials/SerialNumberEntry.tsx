@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { HiOutlineMinus } from 'react-icons/hi'
+import { Button, Input, Spinner } from '@/components/ui'
+import { apiCheckSerialNumbers } from '@/services/ProductService'
+import {
+    expandSerialRange,
+    fillSerials,
+    findDuplicateSerials,
+    parseSerialList,
+    placeSerials,
+} from './serialNumberInput'
+import type { ClipboardEvent, KeyboardEvent } from 'react'
+
+interface SerialNumberEntryProps {
+    /** One entry per unit; blank entries are units without a serial */
+    value: string[]
+    /** Called with the new list; its length is the new quantity */
+    onChange: (serials: string[]) => void
+    /** Most units that can be entered at once */
+    max: number
+    /** False while serials are being checked or any of them is a duplicate */
+    onValidityChange?: (isValid: boolean) => void
+}
+
+const CHECK_DELAY = 400
+
+const SerialNumberEntry = ({
+    value,
+    onChange,
+    max,
+    onValidityChange,
+}: SerialNumberEntryProps) => {
+    const containerRef = useRef<HTMLDivElement>(null)
+    const [range, setRange] = useState('')
+    const [notice, setNotice] = useState('')
+    const [focusIndex, setFocusIndex] = useState<number>()
+
+    const serials = useMemo(
+        () => [...new Set(value.map((s) => s.trim()).filter(Boolean))].sort(),
+        [value],
+    )
+    const [checkedSerials, setCheckedSerials] = useState(serials)
+
+    // Waits for typing or scanning to pause before asking the server
+    useEffect(() => {
+        const timer = setTimeout(() => setCheckedSerials(serials), CHECK_DELAY)
+        return () => clearTimeout(timer)
+    }, [serials])
+
+    const { data: existing = [], isFetching } = useQuery({
+        queryKey: ['serial-check', checkedSerials],
+        queryFn: async () =>
+            (await apiCheckSerialNumbers(checkedSerials)).data.data.existing,
+        enabled: checkedSerials.length > 0,
+    })
+
+    const duplicates = useMemo(() => findDuplicateSerials(value), [value])
+    const existingSet = useMemo(
+        () => new Set(checkedSerials.length ? existing : []),
+        [existing, checkedSerials],
+    )
+    const isChecking = isFetching || checkedSerials !== serials
+    const isValid =
+        !isChecking &&
+        duplicates.size === 0 &&
+        !serials.some((serial) => existingSet.has(serial))
+
+    useEffect(() => {
+        onValidityChange?.(isValid)
+    }, [isValid, onValidityChange])
+
+    useEffect(() => {
+        if (focusIndex === undefined) {
+            return
+        }
+        containerRef.current
+            ?.querySelector<HTMLInputElement>(
+                `[data-serial-index="${focusIndex}"]`,
+            )
+            ?.focus()
+        setFocusIndex(undefined)
+    }, [focusIndex, value.length])
+
+    const reportSkipped = (skipped: number) =>
+        setNotice(
+            skipped > 0
+                ? `${skipped} serial number${
+                      skipped !== 1 ? 's' : ''
+                  } did not fit, at most ${max} units can be added at once`
+                : '',
+        )
+
+    const handleGenerate = () => {
+        const result = expandSerialRange(range, max)
+        if ('error' in result) {
+            setNotice(result.error)
+            return
+        }
+        const filled = fillSerials(value, result.serials, max)
+        onChange(filled.serials)
+        reportSkipped(filled.skipped)
+        setRange('')
+    }
+
+    const handleChange = (index: number, serial: string) => {
+        const next = [...value]
+        next[index] = serial
+        onChange(next)
+    }
+
+    // A pasted column is spread over this box and the ones below it
+    const handlePaste = (
+        index: number,
+        e: ClipboardEvent<HTMLInputElement>,
+    ) => {
+        const pasted = parseSerialList(e.clipboardData.getData('text'))
+        if (pasted.length < 2) {
+            return
+        }
+        e.preventDefault()
+        const placed = placeSerials(value, pasted, index, max)
+        onChange(placed.serials)
+        reportSkipped(placed.skipped)
+    }
+
+    // Scanners type the code followed by Enter, which moves to the next box
+    const handleKeyDown = (
+        index: number,
+        e: KeyboardEvent<HTMLInputElement>,
+    ) => {
+        if (e.key !== 'Enter') {
+            return
+        }
+        e.preventDefault()
+        if (!value[index]?.trim()) {
+            return
+        }
+        if (index + 1 < value.length) {
+            setFocusIndex(index + 1)
+        } else if (value.length < max) {
+            onChange([...value, ''])
+            setFocusIndex(index + 1)
+        }
+    }
+
+    const handleRemove = (index: number) =>
+        onChange(value.filter((_, i) => i !== index))
+
+    const rowError = (serial: string) => {
+        const trimmed = serial.trim()
+        if (!trimmed) {
+            return undefined
+        }
+        if (duplicates.has(trimmed)) {
+            return 'Entered more than once'
+        }
+        if (existingSet.has(trimmed)) {
+            return 'Already in inventory'
+        }
+        return undefined
+    }
+
+    const filledCount = value.filter((serial) => serial.trim()).length
+    const conflictCount = value.filter((serial) => rowError(serial)).length
+
+    return (
+        <div ref={containerRef}>
+            <div className="flex gap-2 mb-2">
+                <Input
+                    size="sm"
+                    placeholder="Range, e.g. SN-0001..SN-0050"
+                    value={range}
+                    onChange={(e) => setRange(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault()
+                            handleGenerate()
+                        }
+                    }}
+                />
+                <Button
+                    type="button"
+                    size="sm"
+                    disabled={!range.trim()}
+                    onClick={handleGenerate}
+                >
+                    Generate
+                </Button>
+            </div>
+            {notice && <p className="text-xs text-amber-600 mb-2">{notice}</p>}
+
+            <div className="max-h-60 overflow-y-auto border rounded p-3 space-y-2 dark:border-gray-600">
+                {value.map((serial, index) => {
+                    const error = rowError(serial)
+                    return (
+                        <div key={index}>
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs text-gray-500 w-8 flex-shrink-0">
+                                    #{index + 1}
+                                </span>
+                                <Input
+                                    size="sm"
+                                    className="flex-1"
+                                    data-serial-index={index}
+                                    placeholder={`Serial number ${index + 1}`}
+                                    invalid={!!error}
+                                    value={serial}
+                                    onChange={(e) =>
+                                        handleChange(index, e.target.value)
+                                    }
+                                    onPaste={(e) => handlePaste(index, e)}
+                                    onKeyDown={(e) => handleKeyDown(index, e)}
+                                />
+                                {value.length > 1 && (
+                                    <Button
+                                        type="button"
+                                        size="xs"
+                                        variant="plain"
+                                        icon={<HiOutlineMinus />}
+                                        title="Remove this unit"
+                                        onClick={() => handleRemove(index)}
+                                    />
+                                )}
+                            </div>
+                            {error && (
+                                <p className="text-xs text-red-600 ml-10">
+                                    {error}
+                                </p>
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 mt-2 text-xs">
+                <span className="text-gray-500">
+                    {filledCount} of {value.length} filled. Paste a column into
+                    any box; scanning moves to the next box.
+                </span>
+                {isChecking && serials.length > 0 ? (
+                    <span className="flex items-center gap-1 text-gray-500">
+                        <Spinner size={12} /> Checking
+                    </span>
+                ) : (
+                    conflictCount > 0 && (
+                        <span className="text-red-600 font-semibold whitespace-nowrap">
+                            {conflictCount} duplicate
+                            {conflictCount !== 1 ? 's' : ''}
+                        </span>
+                    )
+                )}
+            </div>
+        </div>
+    )
+}
+
+export default SerialNumberEntry
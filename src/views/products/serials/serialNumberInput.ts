@@ -0,0 +1,131 @@
+export type SerialRange = { serials: string[] } | { error: string }
+
+const RANGE_SEPARATOR = '..'
+
+// Splits e.g. "SN-0042-B" into "SN-", "0042" and "-B" around the last number
+const splitSerial = (serial: string) => {
+    const match = serial.match(/^(.*?)(\d+)(\D*)$/)
+    return match
+        ? { prefix: match[1], digits: match[2], suffix: match[3] }
+        : undefined
+}
+
+/**
+ * Expands "SN-0001..SN-0050" (or the short form "SN-0001..50") into every
+ * serial in between, keeping the zero padding of the first serial.
+ */
+export const expandSerialRange = (
+    input: string,
+    limit: number,
+): SerialRange => {
+    const [from, to, ...rest] = input
+        .split(RANGE_SEPARATOR)
+        .map((part) => part.trim())
+    if (!from || !to || rest.length) {
+        return { error: `Use the form SN-0001${RANGE_SEPARATOR}SN-0050` }
+    }
+
+    const start = splitSerial(from)
+    const end = /^\d+$/.test(to)
+        ? start && { ...start, digits: to }
+        : splitSerial(to)
+    if (!start || !end) {
+        return { error: 'Both ends of the range need a number' }
+    }
+    if (start.prefix !== end.prefix || start.suffix !== end.suffix) {
+        return { error: 'Both ends of the range must share the same prefix' }
+    }
+
+    const first = Number(start.digits)
+    const last = Number(end.digits)
+    if (last < first) {
+        return { error: 'The range must count upwards' }
+    }
+    if (last - first + 1 > limit) {
+        return {
+            error: `The range has ${
+                last - first + 1
+            } serials, at most ${limit} fit`,
+        }
+    }
+
+    const width = start.digits.length
+    return {
+        serials: Array.from(
+            { length: last - first + 1 },
+            (_, i) =>
+                `${start.prefix}${String(first + i).padStart(width, '0')}${
+                    start.suffix
+                }`,
+        ),
+    }
+}
+
+/** Serials from a pasted spreadsheet column, list or comma separated text */
+export const parseSerialList = (text: string) =>
+    text
+        .split(/[\r\n\t,;]+/)
+        .map((serial) => serial.trim())
+        .filter(Boolean)
+
+/** Serials entered more than once, compared after trimming */
+export const findDuplicateSerials = (serials: string[]) => {
+    const seen = new Set<string>()
+    const duplicates = new Set<string>()
+    serials
+        .map((serial) => serial.trim())
+        .filter(Boolean)
+        .forEach((serial) => {
+            if (seen.has(serial)) {
+                duplicates.add(serial)
+            }
+            seen.add(serial)
+        })
+    return duplicates
+}
+
+/**
+ * Writes serials into the boxes starting at index, adding boxes as needed
+ * up to limit. Returns the new list and how many serials did not fit.
+ */
+export const placeSerials = (
+    current: string[],
+    serials: string[],
+    index: number,
+    limit: number,
+) => {
+    const next = [...current]
+    let placed = 0
+    for (const serial of serials) {
+        const at = index + placed
+        if (at >= limit) {
+            break
+        }
+        next[at] = serial
+        placed++
+    }
+    return {
+        serials: Array.from({ length: next.length }, (_, i) => next[i] || ''),
+        skipped: serials.length - placed,
+    }
+}
+
+/** Fills the empty boxes first, then appends */
+export const fillSerials = (
+    current: string[],
+    serials: string[],
+    limit: number,
+) => {
+    const next = [...current]
+    const remaining = [...serials]
+    next.forEach((serial, i) => {
+        if (!serial.trim() && remaining.length) {
+            next[i] = remaining.shift() as string
+        }
+    })
+    const room = Math.max(0, limit - next.length)
+    return {
+        serials: [...next, ...remaining.slice(0, room)],
+        skipped: Math.max(0, remaining.length - room),
+    }
+}
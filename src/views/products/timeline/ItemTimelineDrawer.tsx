@@ -0,0 +1,171 @@
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import {
+    HiOutlineArrowCircleLeft,
+    HiOutlineArrowCircleRight,
+    HiOutlineCheckCircle,
+    HiOutlineCog,
+    HiOutlineCube,
+    HiOutlineExclamation,
+    HiOutlinePlusCircle,
+    HiOutlineSwitchHorizontal,
+} from 'react-icons/hi'
+import { Avatar, Drawer, Spinner, Timeline } from '@/components/ui'
+import { apiGetMaintenanceTickets } from '@/services/MaintenanceService'
+import { apiGetAllStockTransactions } from '@/services/ProductService'
+import buildItemTimeline from './buildItemTimeline'
+import type {
+    ItemAssignment,
+    ItemStockTransaction,
+    ItemTimelineKind,
+} from './buildItemTimeline'
+import type { ReactNode } from 'react'
+
+interface ItemTimelineDrawerProps {
+    item: {
+        id: number
+        serialNumber?: string
+        status: string
+        condition: string
+        createdAt?: string
+    }
+    productName?: string
+    /** The product's assignments; only those of this item are shown */
+    assignments: Array<ItemAssignment & { inventory?: { id: number } }>
+    onClose: () => void
+}
+
+const kindIcons: Record<ItemTimelineKind, ReactNode> = {
+    CREATED: <HiOutlinePlusCircle />,
+    STOCK: <HiOutlineCube />,
+    ASSIGNED: <HiOutlineArrowCircleRight />,
+    RETURNED: <HiOutlineArrowCircleLeft />,
+    STATUS: <HiOutlineSwitchHorizontal />,
+    CONDITION: <HiOutlineSwitchHorizontal />,
+    MAINTENANCE_OPENED: <HiOutlineCog />,
+    MAINTENANCE_CLOSED: <HiOutlineCheckCircle />,
+}
+
+const kindClassMap: Record<ItemTimelineKind, string> = {
+    CREATED: 'bg-emerald-100 text-emerald-600',
+    STOCK: 'bg-gray-100 text-gray-600',
+    ASSIGNED: 'bg-blue-100 text-blue-600',
+    RETURNED: 'bg-indigo-100 text-indigo-600',
+    STATUS: 'bg-purple-100 text-purple-600',
+    CONDITION: 'bg-purple-100 text-purple-600',
+    MAINTENANCE_OPENED: 'bg-amber-100 text-amber-600',
+    MAINTENANCE_CLOSED: 'bg-amber-100 text-amber-600',
+}
+
+const ItemTimelineDrawer = ({
+    item,
+    productName,
+    assignments,
+    onClose,
+}: ItemTimelineDrawerProps) => {
+    const navigate = useNavigate()
+
+    const { data: transactions = [], isLoading: isLoadingTransactions } =
+        useQuery({
+            queryKey: ['stock-transactions', 'inventory', item.id],
+            queryFn: () =>
+                apiGetAllStockTransactions<ItemStockTransaction>({
+                    inventoryId: item.id,
+                }),
+        })
+
+    const { data: ticketsResponse, isLoading: isLoadingTickets } = useQuery({
+        queryKey: ['maintenance-tickets', 'inventory', item.id],
+        queryFn: () =>
+            apiGetMaintenanceTickets({ inventoryId: item.id, limit: 100 }),
+    })
+
+    const events = buildItemTimeline({
+        createdAt: item.createdAt,
+        transactions,
+        assignments: assignments.filter(
+            (assignment) => assignment.inventory?.id === item.id,
+        ),
+        tickets: ticketsResponse?.data?.data || [],
+    })
+
+    return (
+        <Drawer
+            isOpen
+            width={480}
+            title={
+                <div>
+                    <h5>{productName || `Item #${item.id}`}</h5>
+                    <div className="text-xs text-gray-500 font-normal">
+                        SN: {item.serialNumber || 'N/A'} · {item.status} ·{' '}
+                        {item.condition}
+                    </div>
+                </div>
+            }
+            bodyClass="p-6"
+            onClose={onClose}
+            onRequestClose={onClose}
+        >
+            {isLoadingTransactions || isLoadingTickets ? (
+                <div className="flex justify-center py-8">
+                    <Spinner size={40} />
+                </div>
+            ) : events.length === 0 ? (
+                <p className="text-gray-500">No history recorded yet.</p>
+            ) : (
+                <Timeline>
+                    {events.map((event) => (
+                        <Timeline.Item
+                            key={event.key}
+                            media={
+                                <Avatar
+                                    size={28}
+                                    shape="circle"
+                                    className={
+                                        event.isProblem
+                                            ? 'bg-red-100 text-red-600'
+                                            : kindClassMap[event.kind]
+                                    }
+                                    icon={
+                                        event.isProblem ? (
+                                            <HiOutlineExclamation />
+                                        ) : (
+                                            kindIcons[event.kind]
+                                        )
+                                    }
+                                />
+                            }
+                        >
+                            <div
+                                className={`font-semibold ${
+                                    event.isProblem ? 'text-red-600' : ''
+                                } ${
+                                    event.link
+                                        ? 'cursor-pointer hover:underline'
+                                        : ''
+                                }`}
+                                onClick={() =>
+                                    event.link && navigate(event.link)
+                                }
+                            >
+                                {event.title}
+                            </div>
+                            {event.detail && (
+                                <div className="text-sm whitespace-pre-line">
+                                    {event.detail}
+                                </div>
+                            )}
+                            <div className="text-xs text-gray-500">
+                                {dayjs(event.at).format('DD MMM YYYY HH:mm')}
+                                {event.by && ` by ${event.by}`}
+                            </div>
+                        </Timeline.Item>
+                    ))}
+                </Timeline>
+            )}
+        </Drawer>
+    )
+}
+
+export default ItemTimelineDrawer
@@ -0,0 +1,221 @@
+import dayjs from 'dayjs'
+import type { MaintenanceTicket } from '@/services/MaintenanceService'
+
+export interface ItemStockTransaction {
+    id: number
+    type: string
+    quantity?: number
+    reason?: string
+    /** Transfer number, PO number etc. the movement came from */
+    reference?: string
+    createdAt: string
+    performedBy?: string
+    // Set on the transactions the backend records when an item is edited
+    previousStatus?: string
+    newStatus?: string
+    previousCondition?: string
+    newCondition?: string
+}
+
+export interface ItemAssignment {
+    id: number
+    status: string
+    assignedAt: string
+    returnedAt?: string
+    returnCondition?: string
+    notes?: string
+    employee: { id: number; name: string; empId?: string }
+    assignedBy?: { id: number; username: string }
+}
+
+export type ItemTimelineKind =
+    | 'CREATED'
+    | 'STOCK'
+    | 'ASSIGNED'
+    | 'RETURNED'
+    | 'STATUS'
+    | 'CONDITION'
+    | 'MAINTENANCE_OPENED'
+    | 'MAINTENANCE_CLOSED'
+
+export interface ItemTimelineEvent {
+    key: string
+    at: string
+    kind: ItemTimelineKind
+    title: string
+    detail?: string
+    by?: string
+    /** Route with more detail, e.g. the assignment page */
+    link?: string
+    /** Damage, loss or a failed repair */
+    isProblem?: boolean
+}
+
+const problemStates = ['DAMAGED', 'POOR', 'MISSING', 'LOST']
+
+const isProblemState = (value?: string) =>
+    !!value && problemStates.includes(value)
+
+const transactionTypeLabels: Record<string, string> = {
+    IN: 'Stock in',
+    OUT: 'Stock out',
+    TRANSFER_OUT: 'Dispatched to another branch',
+    TRANSFER_IN: 'Received from another branch',
+    ADJUSTMENT: 'Stock adjustment',
+}
+
+export const formatTransactionType = (type: string) =>
+    transactionTypeLabels[type] ||
+    type.charAt(0) + type.slice(1).toLowerCase().replace(/_/g, ' ')
+
+const transactionEvents = (
+    transaction: ItemStockTransaction,
+): ItemTimelineEvent[] => {
+    const base = {
+        at: transaction.createdAt,
+        by: transaction.performedBy,
+    }
+    const events: ItemTimelineEvent[] = []
+
+    if (
+        transaction.newStatus &&
+        transaction.newStatus !== transaction.previousStatus
+    ) {
+        events.push({
+            ...base,
+            key: `transaction-${transaction.id}-status`,
+            kind: 'STATUS',
+            title: `Status changed to ${transaction.newStatus}`,
+            detail: transaction.previousStatus
+                ? `Was ${transaction.previousStatus}`
+                : transaction.reason,
+            isProblem: isProblemState(transaction.newStatus),
+        })
+    }
+    if (
+        transaction.newCondition &&
+        transaction.newCondition !== transaction.previousCondition
+    ) {
+        events.push({
+            ...base,
+            key: `transaction-${transaction.id}-condition`,
+            kind: 'CONDITION',
+            title: `Condition changed to ${transaction.newCondition}`,
+            detail: transaction.previousCondition
+                ? `Was ${transaction.previousCondition}`
+                : transaction.reason,
+            isProblem: isProblemState(transaction.newCondition),
+        })
+    }
+
+    // Plain stock movements, or an edit that only touched other fields
+    if (!events.length) {
+        events.push({
+            ...base,
+            key: `transaction-${transaction.id}`,
+            kind: 'STOCK',
+            title: formatTransactionType(transaction.type),
+            detail: [transaction.reason, transaction.reference]
+                .filter(Boolean)
+                .join(' · '),
+        })
+    }
+
+    return events
+}
+
+const assignmentEvents = (assignment: ItemAssignment): ItemTimelineEvent[] => {
+    const link = `/assignments/${assignment.id}`
+    const employee = assignment.employee.empId
+        ? `${assignment.employee.name} (${assignment.employee.empId})`
+        : assignment.employee.name
+    const events: ItemTimelineEvent[] = [
+        {
+            key: `assignment-${assignment.id}`,
+            at: assignment.assignedAt,
+            kind: 'ASSIGNED',
+            title: `Assigned to ${employee}`,
+            detail: assignment.notes,
+            by: assignment.assignedBy?.username,
+            link,
+        },
+    ]
+
+    if (assignment.returnedAt) {
+        events.push({
+            key: `assignment-${assignment.id}-return`,
+            at: assignment.returnedAt,
+            kind: 'RETURNED',
+            title: `Returned by ${employee}`,
+            detail: assignment.returnCondition
+                ? `Condition on return: ${assignment.returnCondition}`
+                : undefined,
+            link,
+            isProblem: isProblemState(assignment.returnCondition),
+        })
+    }
+
+    return events
+}
+
+const maintenanceEvents = (ticket: MaintenanceTicket): ItemTimelineEvent[] => {
+    const events: ItemTimelineEvent[] = [
+        {
+            key: `maintenance-${ticket.id}`,
+            at: ticket.openedAt,
+            kind: 'MAINTENANCE_OPENED',
+            title: `Maintenance ticket ${ticket.ticketNumber} opened`,
+            detail: ticket.fault,
+            by: ticket.createdBy?.username,
+        },
+    ]
+
+    if (ticket.closedAt) {
+        events.push({
+            key: `maintenance-${ticket.id}-closed`,
+            at: ticket.closedAt,
+            kind: 'MAINTENANCE_CLOSED',
+            title: `Maintenance ticket ${ticket.ticketNumber} closed`,
+            detail: [
+                ticket.resolution,
+                ticket.closedStatus && `Returned as ${ticket.closedStatus}`,
+            ]
+                .filter(Boolean)
+                .join(' · '),
+            isProblem: ticket.closedStatus === 'DAMAGED',
+        })
+    }
+
+    return events
+}
+
+/** Merges everything that happened to one inventory item, oldest first */
+export default function buildItemTimeline({
+    createdAt,
+    transactions,
+    assignments,
+    tickets,
+}: {
+    createdAt?: string
+    transactions: ItemStockTransaction[]
+    assignments: ItemAssignment[]
+    tickets: MaintenanceTicket[]
+}): ItemTimelineEvent[] {
+    const events = [
+        ...transactions.flatMap(transactionEvents),
+        ...assignments.flatMap(assignmentEvents),
+        ...tickets.flatMap(maintenanceEvents),
+    ]
+
+    // Items added before stock transactions were recorded have no IN entry
+    if (createdAt && !transactions.some((t) => t.type === 'IN')) {
+        events.push({
+            key: 'created',
+            at: createdAt,
+            kind: 'CREATED',
+            title: 'Added to inventory',
+        })
+    }
+
+    return events.sort((a, b) => dayjs(a.at).valueOf() - dayjs(b.at).valueOf())
+}
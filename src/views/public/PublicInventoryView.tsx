@@ -1,7 +1,9 @@
 // PublicAssignmentView.tsx
 import React, { useState, useEffect } from 'react'
-import { useParams } from 'react-router-dom'
-import { apiGetPublicAssignmentInfo } from '@/services/PublicProductService'
+import { useParams, useSearchParams } from 'react-router-dom'
+import { apiAcknowledgePublicAssignment, apiGetPublicAssignmentInfo } from '@/services/PublicProductService'
+import AcknowledgementForm from '@/views/acknowledgements/AcknowledgementForm'
+import type { AcknowledgementPayload, AssignmentAcknowledgement } from '@/utils/assetAcknowledgement'
 
 // TypeScript interfaces
 interface PublicAssignmentInfo {
@@ -16,6 +18,7 @@ interface PublicAssignmentInfo {
     isOverdue: boolean;
     daysOverdue: number;
     pcName:string;
+    acknowledgement?: AssignmentAcknowledgement | null;
   };
   employee: {
     id: number;
@@ -55,9 +58,13 @@ interface PublicAssignmentInfo {
 
 const PublicAssignmentView: React.FC = () => {
     const { assignmentId } = useParams<{ assignmentId: string }>()
+    // Only present on the signing link IT sends; the QR label alone cannot sign
+    const [searchParams] = useSearchParams()
+    const signingToken = searchParams.get('token')
     const [assignmentInfo, setAssignmentInfo] = useState<PublicAssignmentInfo | null>(null)
     const [isLoading, setIsLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
+    const [acknowledgementError, setAcknowledgementError] = useState<string | null>(null)
 
     useEffect(() => {
         const fetchAssignment = async () => {
@@ -91,6 +98,20 @@ const PublicAssignmentView: React.FC = () => {
         fetchAssignment()
     }, [assignmentId])
 
+    const handleAcknowledge = async (payload: AcknowledgementPayload) => {
+        if (!assignmentInfo || !signingToken) return
+        setAcknowledgementError(null)
+        try {
+            const response = await apiAcknowledgePublicAssignment(signingToken, payload)
+            setAssignmentInfo({
+                ...assignmentInfo,
+                assignment: { ...assignmentInfo.assignment, acknowledgement: response.data }
+            })
+        } catch (err) {
+            setAcknowledgementError((err as Error).message || 'Failed to save acknowledgement')
+        }
+    }
+
     const formatDate = (dateString: string): string => {
         if (!dateString) return 'Not specified'
         return new Date(dateString).toLocaleDateString('en-GB', {
@@ -263,6 +284,40 @@ const PublicAssignmentView: React.FC = () => {
                             </div>
                         </div>
                     </div>
+
+                    {/* Acknowledgement */}
+                    {assignment.acknowledgement ? (
+                        <div className="p-4 md:p-6 rounded-lg md:rounded-xl bg-green-50 border border-green-200">
+                            <h3 className="text-base md:text-lg font-semibold text-green-800">Receipt Acknowledged</h3>
+                            <p className="text-sm md:text-base text-green-700 mt-1">
+                                Signed by {assignment.acknowledgement.signerName} on {formatDate(assignment.acknowledgement.signedAt)}
+                            </p>
+                        </div>
+                    ) : !assignment.returnedAt && !signingToken ? (
+                        <div className="p-4 md:p-6 rounded-lg md:rounded-xl bg-amber-50 border border-amber-200">
+                            <h3 className="text-base md:text-lg font-semibold text-amber-800">Receipt Not Signed</h3>
+                            <p className="text-sm md:text-base text-amber-700 mt-1">
+                                To sign for this item, open the signing link sent to you by the IT team.
+                            </p>
+                        </div>
+                    ) : !assignment.returnedAt && (
+                        <div className="bg-white p-4 md:p-6 rounded-lg md:rounded-xl border border-amber-200 shadow-sm">
+                            <div className="mb-3 md:mb-5 pb-2 md:pb-3 border-b border-gray-100">
+                                <h3 className="text-base md:text-lg font-semibold text-gray-800">Acknowledge Receipt</h3>
+                                <p className="text-sm text-gray-600 mt-1">
+                                    Please read the policy, then sign below to confirm you have received this item.
+                                </p>
+                            </div>
+                            {acknowledgementError && (
+                                <p className="mb-4 text-sm text-red-600">{acknowledgementError}</p>
+                            )}
+                            <AcknowledgementForm
+                                channel="PUBLIC"
+                                employeeName={employee.name}
+                                onSubmit={handleAcknowledge}
+                            />
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,434 @@
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import dayjs from 'dayjs'
+import { Field, FieldArray, Form, Formik } from 'formik'
+import * as Yup from 'yup'
+import { HiOutlinePlus, HiOutlineTrash } from 'react-icons/hi'
+import { AdaptableCard, Loading } from '@/components/shared'
+import {
+    Button,
+    DatePicker,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Select,
+    toast,
+} from '@/components/ui'
+import { apiGetProducts } from '@/services/ProductService'
+import { apiCreatePurchaseOrder } from '@/services/PurchaseOrderService'
+import { apiGetRequisition } from '@/services/RequisitionService'
+import { apiGetVendors } from '@/services/VendorService'
+import VendorSelect from '@/views/vendors/VendorSelect'
+import type { FormikErrors, FormikTouched } from 'formik'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface PurchaseOrderFormValues {
+    vendorId: number | null
+    vendorName: string
+    expectedDate: Date | null
+    notes: string
+    lines: Array<{
+        productId: number | null
+        quantity: number | ''
+        unitPrice: number | ''
+    }>
+}
+
+type LineValues = PurchaseOrderFormValues['lines'][number]
+
+const emptyLine: LineValues = { productId: null, quantity: 1, unitPrice: '' }
+
+const validationSchema = Yup.object().shape({
+    vendorId: Yup.number().nullable().required('Select a vendor'),
+    notes: Yup.string().max(1000, 'Too Long!'),
+    lines: Yup.array()
+        .of(
+            Yup.object().shape({
+                productId: Yup.number().nullable().required('Select a product'),
+                quantity: Yup.number()
+                    .required('Quantity is required')
+                    .integer('Whole units only')
+                    .min(1, 'At least 1'),
+                unitPrice: Yup.number()
+                    .required('Unit price is required')
+                    .min(0, 'Cannot be negative'),
+            }),
+        )
+        .min(1, 'Add at least one line'),
+})
+
+interface PurchaseOrderLineRowProps {
+    index: number
+    line: LineValues
+    options: Array<{ value: number; label: string }>
+    errors?: string | FormikErrors<LineValues>
+    touched?: FormikTouched<LineValues>
+    canRemove: boolean
+    onProductChange: (productId: number | null) => void
+    onRemove: () => void
+}
+
+const PurchaseOrderLineRow = ({
+    index,
+    line,
+    options,
+    errors,
+    touched,
+    canRemove,
+    onProductChange,
+    onRemove,
+}: PurchaseOrderLineRowProps) => {
+    const rowErrors = typeof errors === 'object' ? errors : {}
+
+    return (
+        <div className="flex items-start gap-2">
+            <div className="flex-1">
+                <Select
+                    placeholder="Select product"
+                    options={options}
+                    value={
+                        options.find((o) => o.value === line.productId) || null
+                    }
+                    onChange={(option) =>
+                        onProductChange(option?.value ?? null)
+                    }
+                />
+                {touched?.productId && rowErrors.productId && (
+                    <div className="text-red-500 text-sm mt-1">
+                        {rowErrors.productId}
+                    </div>
+                )}
+            </div>
+            <div className="w-24">
+                <Field
+                    type="number"
+                    name={`lines.${index}.quantity`}
+                    placeholder="Qty"
+                    component={Input}
+                />
+                {touched?.quantity && rowErrors.quantity && (
+                    <div className="text-red-500 text-sm mt-1">
+                        {rowErrors.quantity}
+                    </div>
+                )}
+            </div>
+            <div className="w-32">
+                <Field
+                    type="number"
+                    step="0.01"
+                    name={`lines.${index}.unitPrice`}
+                    placeholder="Unit price"
+                    component={Input}
+                />
+                {touched?.unitPrice && rowErrors.unitPrice && (
+                    <div className="text-red-500 text-sm mt-1">
+                        {rowErrors.unitPrice}
+                    </div>
+                )}
+            </div>
+            <Button
+                type="button"
+                variant="plain"
+                icon={<HiOutlineTrash />}
+                disabled={!canRemove}
+                onClick={onRemove}
+            />
+        </div>
+    )
+}
+
+const PurchaseOrderCreate = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+    const [searchParams] = useSearchParams()
+    // Raised from a submitted requisition: start from its vendor and lines
+    const requisitionId = searchParams.get('requisitionId')
+
+    const { data: productsData } = useQuery({
+        queryKey: ['products-for-purchase-orders'],
+        queryFn: () => apiGetProducts({ page: 1, limit: 100 }),
+    })
+    const productOptions = (
+        ((productsData?.data as { data?: unknown })?.data || []) as Array<{
+            id: number
+            name: string
+            model?: string
+        }>
+    ).map((product) => ({
+        value: product.id,
+        label: product.model
+            ? `${product.name} (${product.model})`
+            : product.name,
+    }))
+
+    const { data: requisition, isLoading: isLoadingRequisition } = useQuery({
+        queryKey: ['requisition', requisitionId],
+        queryFn: async () => {
+            const response = await apiGetRequisition(requisitionId as string)
+            return response.data.data
+        },
+        enabled: !!requisitionId,
+    })
+
+    // Requisitions carry a free-text vendor; match it to the directory entry
+    const { data: requisitionVendor, isLoading: isLoadingVendor } = useQuery({
+        queryKey: ['vendors', 'match', requisition?.vendorName],
+        queryFn: async () => {
+            const response = await apiGetVendors({
+                page: 1,
+                limit: 20,
+                search: requisition?.vendorName,
+            })
+            return (
+                response.data.data.find(
+                    (vendor) =>
+                        vendor.name.toLowerCase() ===
+                        requisition?.vendorName?.toLowerCase(),
+                ) || null
+            )
+        },
+        enabled: !!requisition?.vendorName,
+    })
+
+    const initialValues: PurchaseOrderFormValues = {
+        vendorId: requisitionVendor?.id ?? null,
+        vendorName: requisitionVendor?.name || '',
+        expectedDate: null,
+        notes: requisition
+            ? `From requisition ${requisition.requisitionNumber}`
+            : '',
+        lines: requisition
+            ? requisition.lines.map((line) => ({
+                  productId: line.productId,
+                  quantity: line.quantity,
+                  unitPrice: line.unitPrice ?? '',
+              }))
+            : [emptyLine],
+    }
+
+    const handleSubmit = async (values: PurchaseOrderFormValues) => {
+        try {
+            const response = await apiCreatePurchaseOrder({
+                vendorId: values.vendorId as number,
+                vendorName: values.vendorName,
+                expectedDate: values.expectedDate
+                    ? dayjs(values.expectedDate).format('YYYY-MM-DD')
+                    : undefined,
+                notes: values.notes.trim() || undefined,
+                requisitionId: requisition?.id,
+                lines: values.lines.map((line) => ({
+                    productId: line.productId as number,
+                    quantity: Number(line.quantity),
+                    unitPrice: Number(line.unitPrice),
+                })),
+            })
+            toast.push(
+                <Notification title="Success" type="success">
+                    Purchase order {response.data.data.poNumber} created
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+            navigate(`/purchase-orders/view/${response.data.data.id}`)
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to create purchase order'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3>New Purchase Order</h3>
+            </div>
+            <Loading
+                loading={
+                    !!requisitionId &&
+                    (isLoadingRequisition ||
+                        (!!requisition?.vendorName && isLoadingVendor))
+                }
+            >
+                <Formik
+                    enableReinitialize
+                    initialValues={initialValues}
+                    validationSchema={validationSchema}
+                    onSubmit={handleSubmit}
+                >
+                    {({
+                        values,
+                        touched,
+                        errors,
+                        isSubmitting,
+                        setFieldValue,
+                    }) => (
+                        <Form>
+                            <FormContainer>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <FormItem
+                                        label="Vendor"
+                                        invalid={
+                                            !!errors.vendorId &&
+                                            touched.vendorId
+                                        }
+                                        errorMessage={errors.vendorId}
+                                    >
+                                        <VendorSelect
+                                            value={
+                                                values.vendorId
+                                                    ? {
+                                                          id: values.vendorId,
+                                                          name: values.vendorName,
+                                                      }
+                                                    : null
+                                            }
+                                            onChange={(vendor) => {
+                                                setFieldValue(
+                                                    'vendorId',
+                                                    vendor?.id ?? null,
+                                                )
+                                                setFieldValue(
+                                                    'vendorName',
+                                                    vendor?.name || '',
+                                                )
+                                            }}
+                                        />
+                                        {requisition?.vendorName &&
+                                            !requisitionVendor && (
+                                                <div className="text-xs text-gray-500 mt-1">
+                                                    The requisition names &quot;
+                                                    {requisition.vendorName}
+                                                    &quot;, which is not in the
+                                                    vendor directory.
+                                                </div>
+                                            )}
+                                    </FormItem>
+                                    <FormItem label="Expected Delivery">
+                                        <DatePicker
+                                            clearable
+                                            value={values.expectedDate}
+                                            minDate={new Date()}
+                                            placeholder="Optional"
+                                            onChange={(date) =>
+                                                setFieldValue(
+                                                    'expectedDate',
+                                                    date,
+                                                )
+                                            }
+                                        />
+                                    </FormItem>
+                                </div>
+                                <FormItem
+                                    label="Notes"
+                                    invalid={!!errors.notes && touched.notes}
+                                    errorMessage={errors.notes}
+                                >
+                                    <Field
+                                        name="notes"
+                                        placeholder="Invoice or quote reference, delivery instructions..."
+                                        component={Input}
+                                    />
+                                </FormItem>
+
+                                <FormItem
+                                    label="Lines"
+                                    invalid={
+                                        typeof errors.lines === 'string' &&
+                                        !!touched.lines
+                                    }
+                                    errorMessage={
+                                        typeof errors.lines === 'string'
+                                            ? errors.lines
+                                            : undefined
+                                    }
+                                >
+                                    <FieldArray name="lines">
+                                        {({ push, remove }) => (
+                                            <div className="space-y-2">
+                                                {values.lines.map(
+                                                    (line, index) => (
+                                                        <PurchaseOrderLineRow
+                                                            key={index}
+                                                            index={index}
+                                                            line={line}
+                                                            options={
+                                                                productOptions
+                                                            }
+                                                            errors={
+                                                                errors.lines?.[
+                                                                    index
+                                                                ]
+                                                            }
+                                                            touched={
+                                                                Array.isArray(
+                                                                    touched.lines,
+                                                                )
+                                                                    ? touched
+                                                                          .lines[
+                                                                          index
+                                                                      ]
+                                                                    : undefined
+                                                            }
+                                                            canRemove={
+                                                                values.lines
+                                                                    .length > 1
+                                                            }
+                                                            onProductChange={(
+                                                                id,
+                                                            ) =>
+                                                                setFieldValue(
+                                                                    `lines.${index}.productId`,
+                                                                    id,
+                                                                )
+                                                            }
+                                                            onRemove={() =>
+                                                                remove(index)
+                                                            }
+                                                        />
+                                                    ),
+                                                )}
+                                                <Button
+                                                    type="button"
+                                                    size="sm"
+                                                    icon={<HiOutlinePlus />}
+                                                    onClick={() =>
+                                                        push(emptyLine)
+                                                    }
+                                                >
+                                                    Add Line
+                                                </Button>
+                                            </div>
+                                        )}
+                                    </FieldArray>
+                                </FormItem>
+
+                                <div className="flex justify-end gap-2 mt-4">
+                                    <Button
+                                        type="button"
+                                        onClick={() => navigate(-1)}
+                                    >
+                                        Cancel
+                                    </Button>
+                                    <Button
+                                        variant="solid"
+                                        type="submit"
+                                        loading={isSubmitting}
+                                    >
+                                        Create Purchase Order
+                                    </Button>
+                                </div>
+                            </FormContainer>
+                        </Form>
+                    )}
+                </Formik>
+            </Loading>
+        </AdaptableCard>
+    )
+}
+
+export default PurchaseOrderCreate
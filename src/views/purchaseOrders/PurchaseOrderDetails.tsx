@@ -0,0 +1,283 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { HiOutlineArrowLeft, HiOutlineInboxIn } from 'react-icons/hi'
+import { AdaptableCard, ConfirmDialog, Loading } from '@/components/shared'
+import { Button, Card, Notification, Table, toast } from '@/components/ui'
+import {
+    apiCancelPurchaseOrder,
+    apiGetPurchaseOrder,
+} from '@/services/PurchaseOrderService'
+import {
+    outstandingQuantity,
+    purchaseOrderOutstanding,
+    purchaseOrderStatusClassMap,
+    purchaseOrderStatusLabels,
+    purchaseOrderTotal,
+} from './purchaseOrderStatus'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const { Tr, Th, Td, THead, TBody, TFoot } = Table
+
+const PurchaseOrderDetails = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [isCancelOpen, setIsCancelOpen] = useState(false)
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['purchase-order', id],
+        queryFn: () => apiGetPurchaseOrder(id as string),
+        enabled: !!id,
+    })
+    const order = data?.data?.data
+
+    const cancelMutation = useMutation({
+        mutationFn: () => apiCancelPurchaseOrder(order!.id),
+        onSuccess: () => {
+            setIsCancelOpen(false)
+            toast.push(
+                <Notification title="Success" type="success">
+                    Purchase order cancelled
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['purchase-order', id] })
+            queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message ||
+                        'Failed to cancel purchase order'}
+                </Notification>,
+            )
+        },
+    })
+
+    if (isLoading) {
+        return <Loading loading />
+    }
+
+    if (error || !order) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Purchase order not found</span>
+            </div>
+        )
+    }
+
+    const outstanding = purchaseOrderOutstanding(order)
+    const canReceive =
+        (order.status === 'OPEN' || order.status === 'PARTIALLY_RECEIVED') &&
+        outstanding > 0
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3>Purchase Order {order.poNumber}</h3>
+                    <div className="flex items-center gap-2 mt-1 text-gray-500">
+                        {order.vendorId ? (
+                            <span
+                                className="cursor-pointer hover:underline"
+                                onClick={() =>
+                                    navigate(`/vendors/view/${order.vendorId}`)
+                                }
+                            >
+                                {order.vendorName}
+                            </span>
+                        ) : (
+                            order.vendorName
+                        )}
+                        <span
+                            className={`ml-2 font-semibold ${
+                                purchaseOrderStatusClassMap[order.status]
+                            }`}
+                        >
+                            {purchaseOrderStatusLabels[order.status]}
+                        </span>
+                    </div>
+                </div>
+                <div className="flex gap-2 mt-4 lg:mt-0">
+                    <Button
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineArrowLeft />}
+                        onClick={() => navigate('/purchase-orders')}
+                    >
+                        Back
+                    </Button>
+                    {order.status === 'OPEN' && (
+                        <Button size="sm" onClick={() => setIsCancelOpen(true)}>
+                            Cancel Order
+                        </Button>
+                    )}
+                    {canReceive && (
+                        <Button
+                            size="sm"
+                            variant="solid"
+                            icon={<HiOutlineInboxIn />}
+                            onClick={() =>
+                                navigate(`/purchase-orders/receive/${order.id}`)
+                            }
+                        >
+                            Receive Goods
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <Card className="lg:col-span-2">
+                    <h5 className="mb-4">Lines ({order.lines.length})</h5>
+                    <Table compact>
+                        <THead>
+                            <Tr>
+                                <Th>Product</Th>
+                                <Th className="text-right">Ordered</Th>
+                                <Th className="text-right">Received</Th>
+                                <Th className="text-right">Outstanding</Th>
+                                <Th className="text-right">Unit Price</Th>
+                                <Th className="text-right">Total</Th>
+                            </Tr>
+                        </THead>
+                        <TBody>
+                            {order.lines.map((line) => (
+                                <Tr key={line.id}>
+                                    <Td>
+                                        <span
+                                            className="font-semibold cursor-pointer hover:underline"
+                                            onClick={() =>
+                                                navigate(
+                                                    `/products/view/${line.productId}`,
+                                                )
+                                            }
+                                        >
+                                            {line.product?.name ||
+                                                `Product #${line.productId}`}
+                                        </span>
+                                        {line.product?.model && (
+                                            <div className="text-xs text-gray-500">
+                                                {line.product.model}
+                                            </div>
+                                        )}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {line.quantity}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {line.receivedQuantity}
+                                    </Td>
+                                    <Td
+                                        className={`text-right font-semibold ${
+                                            outstandingQuantity(line) > 0
+                                                ? 'text-amber-600'
+                                                : 'text-emerald-600'
+                                        }`}
+                                    >
+                                        {outstandingQuantity(line)}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {line.unitPrice.toFixed(2)}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {(
+                                            line.unitPrice * line.quantity
+                                        ).toFixed(2)}
+                                    </Td>
+                                </Tr>
+                            ))}
+                        </TBody>
+                        <TFoot>
+                            <Tr>
+                                <Td colSpan={3} className="font-semibold">
+                                    Total
+                                </Td>
+                                <Td className="text-right font-semibold">
+                                    {outstanding}
+                                </Td>
+                                <Td />
+                                <Td className="text-right font-semibold">
+                                    {purchaseOrderTotal(order).toFixed(2)}
+                                </Td>
+                            </Tr>
+                        </TFoot>
+                    </Table>
+                </Card>
+
+                <Card>
+                    <h5 className="mb-4">Details</h5>
+                    <div className="space-y-2 text-sm">
+                        <div>
+                            <span className="font-semibold">Raised:</span>{' '}
+                            {dayjs(order.createdAt).format('DD MMM YYYY')}
+                            {order.createdBy &&
+                                ` by ${order.createdBy.username}`}
+                        </div>
+                        <div>
+                            <span className="font-semibold">
+                                Expected delivery:
+                            </span>{' '}
+                            {order.expectedDate
+                                ? dayjs(order.expectedDate).format(
+                                      'DD MMM YYYY',
+                                  )
+                                : '-'}
+                        </div>
+                        {order.requisitionId && (
+                            <div>
+                                <span className="font-semibold">
+                                    Requisition:
+                                </span>{' '}
+                                <span
+                                    className="cursor-pointer text-indigo-600 hover:underline"
+                                    onClick={() =>
+                                        navigate(
+                                            `/requisitions/view/${order.requisitionId}`,
+                                        )
+                                    }
+                                >
+                                    View
+                                </span>
+                            </div>
+                        )}
+                        <div className="text-gray-500">
+                            Stock received against this order carries the
+                            reference {order.poNumber}.
+                        </div>
+                    </div>
+                    {order.notes && (
+                        <div className="mt-4">
+                            <div className="text-sm font-semibold">Notes</div>
+                            <p className="text-sm whitespace-pre-line">
+                                {order.notes}
+                            </p>
+                        </div>
+                    )}
+                </Card>
+            </div>
+
+            <ConfirmDialog
+                isOpen={isCancelOpen}
+                type="danger"
+                title="Cancel purchase order"
+                confirmText="Cancel Order"
+                onClose={() => setIsCancelOpen(false)}
+                onRequestClose={() => setIsCancelOpen(false)}
+                onCancel={() => setIsCancelOpen(false)}
+                onConfirm={() => cancelMutation.mutate()}
+            >
+                <p>
+                    Cancel {order.poNumber}? Nothing has been received against
+                    it yet.
+                </p>
+            </ConfirmDialog>
+        </AdaptableCard>
+    )
+}
+
+export default PurchaseOrderDetails
@@ -0,0 +1,17 @@
+import { AdaptableCard } from '@/components/shared'
+import PurchaseOrderTable from './PurchaseOrderTable'
+import PurchaseOrderTableTools from './PurchaseOrderTableTools'
+
+const PurchaseOrderList = () => {
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Purchase Orders</h3>
+                <PurchaseOrderTableTools />
+            </div>
+            <PurchaseOrderTable />
+        </AdaptableCard>
+    )
+}
+
+export default PurchaseOrderList
@@ -0,0 +1,404 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { HiOutlineArrowLeft, HiX } from 'react-icons/hi'
+import { AdaptableCard, CodeScanner, Loading } from '@/components/shared'
+import {
+    Alert,
+    Button,
+    Card,
+    DatePicker,
+    FormItem,
+    Input,
+    Notification,
+    Radio,
+    toast,
+} from '@/components/ui'
+import { apiCheckSerialNumbers } from '@/services/ProductService'
+import {
+    apiGetPurchaseOrder,
+    apiReceivePurchaseOrder,
+} from '@/services/PurchaseOrderService'
+import { outstandingQuantity } from './purchaseOrderStatus'
+import type { PurchaseOrderLine } from '@/services/PurchaseOrderService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface LineReceipt {
+    quantity: string
+    serialNumbers: string[]
+}
+
+const isConsumableLine = (line: PurchaseOrderLine) =>
+    line.product?.trackingType === 'CONSUMABLE'
+
+const PurchaseOrderReceive = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [receipts, setReceipts] = useState<Record<number, LineReceipt>>({})
+    const [scanLineId, setScanLineId] = useState<number>()
+    const [purchaseDate, setPurchaseDate] = useState<Date | null>(new Date())
+    const [location, setLocation] = useState('')
+    const [existingSerials, setExistingSerials] = useState<string[]>([])
+    const [isSubmitting, setIsSubmitting] = useState(false)
+
+    const { data: order, isLoading } = useQuery({
+        queryKey: ['purchase-order', id],
+        queryFn: async () => {
+            const response = await apiGetPurchaseOrder(id as string)
+            return response.data.data
+        },
+        enabled: !!id,
+    })
+
+    if (isLoading) {
+        return <Loading loading />
+    }
+
+    if (!order) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Purchase order not found</span>
+            </div>
+        )
+    }
+
+    const openLines = order.lines.filter(
+        (line) => outstandingQuantity(line) > 0,
+    )
+    const serializedLines = openLines.filter((line) => !isConsumableLine(line))
+    const activeScanLineId = scanLineId ?? serializedLines[0]?.id
+
+    const receiptFor = (line: PurchaseOrderLine): LineReceipt =>
+        receipts[line.id] || { quantity: '', serialNumbers: [] }
+
+    const updateReceipt = (lineId: number, changes: Partial<LineReceipt>) =>
+        setReceipts((prev) => ({
+            ...prev,
+            [lineId]: {
+                ...(prev[lineId] || { quantity: '', serialNumbers: [] }),
+                ...changes,
+            },
+        }))
+
+    const allSerials = openLines.flatMap(
+        (line) => receiptFor(line).serialNumbers,
+    )
+
+    const handleDetected = (code: string) => {
+        const serial = code.trim()
+        const line = serializedLines.find((l) => l.id === activeScanLineId)
+        if (!serial || !line) {
+            return
+        }
+        if (allSerials.includes(serial)) {
+            toast.push(
+                <Notification title="Already scanned" type="warning">
+                    {serial} is already on this receipt
+                </Notification>,
+            )
+            return
+        }
+        const receipt = receiptFor(line)
+        if (receipt.serialNumbers.length >= outstandingQuantity(line)) {
+            toast.push(
+                <Notification title="Line complete" type="warning">
+                    All outstanding units of {line.product?.name} have a serial
+                    number
+                </Notification>,
+            )
+            return
+        }
+        const serialNumbers = [...receipt.serialNumbers, serial]
+        updateReceipt(line.id, {
+            serialNumbers,
+            quantity: String(
+                Math.max(Number(receipt.quantity) || 0, serialNumbers.length),
+            ),
+        })
+    }
+
+    const lineError = (line: PurchaseOrderLine) => {
+        const receipt = receiptFor(line)
+        if (!receipt.quantity) {
+            return undefined
+        }
+        const quantity = Number(receipt.quantity)
+        if (!Number.isInteger(quantity) || quantity < 0) {
+            return 'Enter a whole number'
+        }
+        if (quantity > outstandingQuantity(line)) {
+            return `Only ${outstandingQuantity(line)} outstanding`
+        }
+        if (receipt.serialNumbers.length > quantity) {
+            return 'More serial numbers than units'
+        }
+        return undefined
+    }
+
+    const linesToReceive = openLines.filter(
+        (line) => Number(receiptFor(line).quantity) > 0,
+    )
+    const hasErrors = openLines.some((line) => !!lineError(line))
+
+    const handleReceiveAll = () =>
+        setReceipts((prev) =>
+            Object.fromEntries(
+                openLines.map((line) => [
+                    line.id,
+                    {
+                        serialNumbers: prev[line.id]?.serialNumbers || [],
+                        quantity: String(outstandingQuantity(line)),
+                    },
+                ]),
+            ),
+        )
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true)
+        try {
+            if (allSerials.length > 0) {
+                const response = await apiCheckSerialNumbers(allSerials)
+                const existing = response.data.data.existing
+                setExistingSerials(existing)
+                if (existing.length > 0) {
+                    return
+                }
+            }
+
+            // Stock and the PO receipt are written together, so a failure
+            // leaves both untouched and the form can simply be resubmitted.
+            const lines = linesToReceive.map((line) => {
+                const receipt = receiptFor(line)
+                return {
+                    lineId: line.id,
+                    quantity: Number(receipt.quantity),
+                    serialNumbers: isConsumableLine(line)
+                        ? []
+                        : receipt.serialNumbers,
+                }
+            })
+            await apiReceivePurchaseOrder(order.id, {
+                lines,
+                purchaseDate: purchaseDate
+                    ? dayjs(purchaseDate).format('YYYY-MM-DD')
+                    : undefined,
+                location: location.trim() || undefined,
+            })
+            queryClient.invalidateQueries({ queryKey: ['purchase-order', id] })
+            queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+            queryClient.invalidateQueries({ queryKey: ['products'] })
+
+            toast.push(
+                <Notification title="Success" type="success">
+                    {lines.reduce((sum, line) => sum + line.quantity, 0)} units
+                    received on {order.poNumber}
+                </Notification>,
+            )
+            navigate(`/purchase-orders/view/${order.id}`)
+        } catch (error) {
+            toast.push(
+                <Notification title="Nothing received" type="danger">
+                    <div>
+                        {(error as ApiError).response?.data?.message ||
+                            'Failed to receive goods'}
+                    </div>
+                    <div>
+                        No stock was added; correct the lines and try again.
+                    </div>
+                </Notification>,
+            )
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3>Receive {order.poNumber}</h3>
+                    <div className="text-gray-500 mt-1">{order.vendorName}</div>
+                </div>
+                <div className="flex gap-2 mt-4 lg:mt-0">
+                    <Button
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineArrowLeft />}
+                        onClick={() =>
+                            navigate(`/purchase-orders/view/${order.id}`)
+                        }
+                    >
+                        Back
+                    </Button>
+                    <Button size="sm" onClick={handleReceiveAll}>
+                        Receive All Outstanding
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="solid"
+                        disabled={linesToReceive.length === 0 || hasErrors}
+                        loading={isSubmitting}
+                        onClick={handleSubmit}
+                    >
+                        Receive into Stock
+                    </Button>
+                </div>
+            </div>
+
+            {existingSerials.length > 0 && (
+                <Alert showIcon type="danger" className="mb-4">
+                    Already in inventory: {existingSerials.join(', ')}. Remove
+                    them before receiving.
+                </Alert>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="lg:col-span-2 space-y-4">
+                    {openLines.length === 0 && (
+                        <Card>
+                            <p className="text-center text-gray-500">
+                                Everything on this order has been received
+                            </p>
+                        </Card>
+                    )}
+                    {openLines.map((line) => {
+                        const receipt = receiptFor(line)
+                        const error = lineError(line)
+                        return (
+                            <Card key={line.id}>
+                                <div className="flex items-start justify-between gap-4">
+                                    <div>
+                                        <div className="font-semibold">
+                                            {line.product?.name ||
+                                                `Product #${line.productId}`}
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                            {line.receivedQuantity} of{' '}
+                                            {line.quantity} received ·{' '}
+                                            {outstandingQuantity(line)}{' '}
+                                            outstanding
+                                            {isConsumableLine(line) &&
+                                                ' · consumable'}
+                                        </div>
+                                    </div>
+                                    <FormItem
+                                        className="mb-0 w-32"
+                                        invalid={!!error}
+                                        errorMessage={error}
+                                    >
+                                        <Input
+                                            size="sm"
+                                            type="number"
+                                            min={0}
+                                            max={outstandingQuantity(line)}
+                                            placeholder="Qty"
+                                            value={receipt.quantity}
+                                            onChange={(e) =>
+                                                updateReceipt(line.id, {
+                                                    quantity: e.target.value,
+                                                })
+                                            }
+                                        />
+                                    </FormItem>
+                                </div>
+                                {!isConsumableLine(line) && (
+                                    <div className="flex flex-wrap gap-2 mt-3">
+                                        {receipt.serialNumbers.map((serial) => (
+                                            <span
+                                                key={serial}
+                                                className={`flex items-center gap-1 px-2 py-1 rounded text-xs ${
+                                                    existingSerials.includes(
+                                                        serial,
+                                                    )
+                                                        ? 'bg-red-100 text-red-700'
+                                                        : 'bg-gray-100 dark:bg-gray-700'
+                                                }`}
+                                            >
+                                                {serial}
+                                                <HiX
+                                                    className="cursor-pointer"
+                                                    onClick={() =>
+                                                        updateReceipt(line.id, {
+                                                            serialNumbers:
+                                                                receipt.serialNumbers.filter(
+                                                                    (s) =>
+                                                                        s !==
+                                                                        serial,
+                                                                ),
+                                                        })
+                                                    }
+                                                />
+                                            </span>
+                                        ))}
+                                        {receipt.serialNumbers.length === 0 && (
+                                            <span className="text-xs text-gray-500">
+                                                No serial numbers scanned yet
+                                            </span>
+                                        )}
+                                    </div>
+                                )}
+                            </Card>
+                        )
+                    })}
+                </div>
+
+                <div className="space-y-4">
+                    {serializedLines.length > 0 && (
+                        <Card>
+                            <h5 className="mb-2">Scan Serial Numbers</h5>
+                            <FormItem label="Scanning into">
+                                <Radio.Group
+                                    vertical
+                                    value={activeScanLineId}
+                                    onChange={(value: number) =>
+                                        setScanLineId(value)
+                                    }
+                                >
+                                    {serializedLines.map((line) => (
+                                        <Radio key={line.id} value={line.id}>
+                                            {line.product?.name ||
+                                                `Product #${line.productId}`}{' '}
+                                            (
+                                            {
+                                                receiptFor(line).serialNumbers
+                                                    .length
+                                            }
+                                            /{outstandingQuantity(line)})
+                                        </Radio>
+                                    ))}
+                                </Radio.Group>
+                            </FormItem>
+                            <CodeScanner
+                                manualEntryPlaceholder="Type or scan a serial number and press Enter"
+                                onDetected={handleDetected}
+                            />
+                        </Card>
+                    )}
+                    <Card>
+                        <FormItem label="Purchase Date">
+                            <DatePicker
+                                value={purchaseDate}
+                                maxDate={new Date()}
+                                onChange={setPurchaseDate}
+                            />
+                        </FormItem>
+                        <FormItem label="Location" className="mb-0">
+                            <Input
+                                value={location}
+                                placeholder="Where the goods are stored"
+                                onChange={(e) => setLocation(e.target.value)}
+                            />
+                        </FormItem>
+                    </Card>
+                </div>
+            </div>
+        </AdaptableCard>
+    )
+}
+
+export default PurchaseOrderReceive
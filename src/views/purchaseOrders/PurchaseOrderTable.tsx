@@ -0,0 +1,199 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import { HiOutlineEye } from 'react-icons/hi'
+import { DataTable } from '@/components/shared'
+import { Input, Select } from '@/components/ui'
+import { apiGetPurchaseOrders } from '@/services/PurchaseOrderService'
+import {
+    purchaseOrderOutstanding,
+    purchaseOrderStatusClassMap,
+    purchaseOrderStatusLabels,
+} from './purchaseOrderStatus'
+import type { ColumnDef } from '@/components/shared'
+import type {
+    PurchaseOrder,
+    PurchaseOrderStatus,
+} from '@/services/PurchaseOrderService'
+
+const statusOptions = (
+    Object.keys(purchaseOrderStatusLabels) as PurchaseOrderStatus[]
+).map((status) => ({ value: status, label: purchaseOrderStatusLabels[status] }))
+
+const PurchaseOrderTable = () => {
+    const navigate = useNavigate()
+
+    const [status, setStatus] = useState<PurchaseOrderStatus>()
+    const [search, setSearch] = useState('')
+    const [pagination, setPagination] = useState({ page: 1, limit: 10 })
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['purchase-orders', pagination, status, search],
+        queryFn: () =>
+            apiGetPurchaseOrders({
+                page: pagination.page,
+                limit: pagination.limit,
+                status,
+                search: search.trim() || undefined,
+            }),
+    })
+
+    const columns: ColumnDef<PurchaseOrder>[] = useMemo(
+        () => [
+            {
+                header: 'PO Number',
+                accessorKey: 'poNumber',
+                cell: (props) => (
+                    <span className="font-semibold">
+                        {props.row.original.poNumber}
+                    </span>
+                ),
+            },
+            {
+                header: 'Vendor',
+                accessorKey: 'vendorName',
+            },
+            {
+                header: 'Ordered',
+                id: 'ordered',
+                cell: (props) =>
+                    (props.row.original.lines || []).reduce(
+                        (sum, line) => sum + line.quantity,
+                        0,
+                    ),
+            },
+            {
+                header: 'Outstanding',
+                id: 'outstanding',
+                cell: (props) => {
+                    const outstanding = purchaseOrderOutstanding({
+                        ...props.row.original,
+                        lines: props.row.original.lines || [],
+                    })
+                    return (
+                        <span
+                            className={
+                                outstanding > 0 &&
+                                props.row.original.status !== 'CANCELLED'
+                                    ? 'font-semibold text-amber-600'
+                                    : 'text-gray-500'
+                            }
+                        >
+                            {outstanding}
+                        </span>
+                    )
+                },
+            },
+            {
+                header: 'Expected',
+                accessorKey: 'expectedDate',
+                cell: (props) => {
+                    const { expectedDate, status } = props.row.original
+                    if (!expectedDate) {
+                        return '-'
+                    }
+                    const isLate =
+                        (status === 'OPEN' ||
+                            status === 'PARTIALLY_RECEIVED') &&
+                        dayjs(expectedDate).isBefore(dayjs(), 'day')
+                    return (
+                        <span className={isLate ? 'text-red-600' : ''}>
+                            {dayjs(expectedDate).format('DD MMM YYYY')}
+                        </span>
+                    )
+                },
+            },
+            {
+                header: 'Status',
+                accessorKey: 'status',
+                cell: (props) => (
+                    <span
+                        className={`font-semibold ${
+                            purchaseOrderStatusClassMap[
+                                props.row.original.status
+                            ]
+                        }`}
+                    >
+                        {purchaseOrderStatusLabels[props.row.original.status]}
+                    </span>
+                ),
+            },
+            {
+                header: '',
+                id: 'action',
+                cell: (props) => (
+                    <div className="flex justify-end text-lg">
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            onClick={() =>
+                                navigate(
+                                    `/purchase-orders/view/${props.row.original.id}`,
+                                )
+                            }
+                        >
+                            <HiOutlineEye />
+                        </span>
+                    </div>
+                ),
+            },
+        ],
+        [navigate],
+    )
+
+    if (error) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Error: {error.message}</span>
+            </div>
+        )
+    }
+
+    return (
+        <>
+            <div className="flex flex-col lg:flex-row gap-2 mb-4">
+                <Input
+                    size="sm"
+                    className="max-w-md"
+                    placeholder="Search PO number or vendor..."
+                    value={search}
+                    onChange={(e) => {
+                        setSearch(e.target.value)
+                        setPagination((prev) => ({ ...prev, page: 1 }))
+                    }}
+                />
+                <Select
+                    isClearable
+                    size="sm"
+                    className="min-w-[200px]"
+                    placeholder="All statuses"
+                    options={statusOptions}
+                    value={
+                        statusOptions.find((o) => o.value === status) || null
+                    }
+                    onChange={(option) => {
+                        setStatus(option?.value)
+                        setPagination((prev) => ({ ...prev, page: 1 }))
+                    }}
+                />
+            </div>
+
+            <DataTable
+                columns={columns}
+                data={data?.data?.data || []}
+                loading={isLoading}
+                pagingData={{
+                    total: data?.data?.pagination?.total || 0,
+                    pageIndex: pagination.page,
+                    pageSize: pagination.limit,
+                }}
+                onPaginationChange={(page) =>
+                    setPagination((prev) => ({ ...prev, page }))
+                }
+                onSelectChange={(limit) => setPagination({ page: 1, limit })}
+            />
+        </>
+    )
+}
+
+export default PurchaseOrderTable
@@ -0,0 +1,29 @@
+import type {
+    PurchaseOrder,
+    PurchaseOrderLine,
+    PurchaseOrderStatus,
+} from '@/services/PurchaseOrderService'
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+    OPEN: 'Open',
+    PARTIALLY_RECEIVED: 'Partially Received',
+    RECEIVED: 'Received',
+    CANCELLED: 'Cancelled',
+}
+
+export const purchaseOrderStatusClassMap: Record<PurchaseOrderStatus, string> =
+    {
+        OPEN: 'text-blue-600',
+        PARTIALLY_RECEIVED: 'text-amber-600',
+        RECEIVED: 'text-emerald-600',
+        CANCELLED: 'text-gray-500',
+    }
+
+export const outstandingQuantity = (line: PurchaseOrderLine) =>
+    Math.max(line.quantity - line.receivedQuantity, 0)
+
+export const purchaseOrderOutstanding = (order: PurchaseOrder) =>
+    order.lines.reduce((sum, line) => sum + outstandingQuantity(line), 0)
+
+export const purchaseOrderTotal = (order: PurchaseOrder) =>
+    order.lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0)
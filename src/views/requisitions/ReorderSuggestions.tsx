@@ -0,0 +1,375 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { HiOutlineArrowLeft, HiOutlineDocumentAdd } from 'react-icons/hi'
+import { AdaptableCard, Loading } from '@/components/shared'
+import {
+    Alert,
+    Button,
+    Checkbox,
+    Input,
+    Notification,
+    Segment,
+    Table,
+    toast,
+} from '@/components/ui'
+import {
+    apiGetAllConsumableMovements,
+    apiGetAllStockTransactions,
+    apiGetStockSummary,
+} from '@/services/ProductService'
+import { apiCreateRequisition } from '@/services/RequisitionService'
+import buildReorderSuggestions from './buildReorderSuggestions'
+import type { LowStockProduct, UsageEntry } from './buildReorderSuggestions'
+import type { RequisitionPayload } from '@/services/RequisitionService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+const UNASSIGNED_VENDOR = 'Unassigned vendor'
+
+const lookbackOptions = [30, 60, 90]
+
+interface StockTransaction {
+    type: string
+    quantity?: number
+    productId?: number
+    inventory?: { productId?: number; product?: { id?: number } }
+}
+
+type StockSummary = { lowStockProducts?: LowStockProduct[] }
+
+interface LineDraft {
+    selected: boolean
+    quantity: string
+    vendorName: string
+    unitPrice: string
+}
+
+const ReorderSuggestions = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [lookbackDays, setLookbackDays] = useState(30)
+    const [coverDays, setCoverDays] = useState('30')
+    const [drafts, setDrafts] = useState<Record<number, Partial<LineDraft>>>({})
+
+    const { data: summaryResponse, isLoading: isLoadingSummary } = useQuery({
+        queryKey: ['stock-summary'],
+        queryFn: apiGetStockSummary,
+    })
+    // As on the dashboard, the summary may or may not come wrapped in data
+    const summaryBody = summaryResponse?.data as
+        | (StockSummary & { data?: StockSummary })
+        | undefined
+    const lowStockProducts =
+        summaryBody?.data?.lowStockProducts ?? summaryBody?.lowStockProducts
+
+    const fromDate = dayjs().subtract(lookbackDays, 'day').format('YYYY-MM-DD')
+
+    const { data: usage = [], isFetching: isLoadingUsage } = useQuery({
+        queryKey: ['reorder-usage', fromDate],
+        queryFn: async (): Promise<UsageEntry[]> => {
+            const [transactions, movements] = await Promise.all([
+                apiGetAllStockTransactions<StockTransaction>({
+                    type: 'OUT',
+                    fromDate,
+                }),
+                apiGetAllConsumableMovements<{
+                    quantity: number
+                    product?: { id: number }
+                }>({ type: 'ISSUE', fromDate }),
+            ])
+            return [
+                ...transactions.map((transaction) => ({
+                    productId:
+                        transaction.productId ??
+                        transaction.inventory?.productId ??
+                        transaction.inventory?.product?.id,
+                    quantity: transaction.quantity ?? 1,
+                })),
+                ...movements.map((movement) => ({
+                    productId: movement.product?.id,
+                    quantity: movement.quantity,
+                })),
+            ]
+        },
+    })
+
+    const suggestions = useMemo(
+        () =>
+            buildReorderSuggestions(lowStockProducts || [], usage, {
+                lookbackDays,
+                coverDays: Number(coverDays) || 0,
+            }),
+        [lowStockProducts, usage, lookbackDays, coverDays],
+    )
+
+    const lines = suggestions.map((suggestion) => {
+        const draft = drafts[suggestion.id] || {}
+        return {
+            suggestion,
+            selected: draft.selected ?? true,
+            quantity: draft.quantity ?? String(suggestion.suggestedQuantity),
+            vendorName: draft.vendorName ?? '',
+            unitPrice: draft.unitPrice ?? '',
+        }
+    })
+    const selectedLines = lines.filter((line) => line.selected)
+    const hasInvalidQuantity = selectedLines.some(
+        (line) =>
+            !Number.isInteger(Number(line.quantity)) ||
+            Number(line.quantity) < 1,
+    )
+
+    const updateDraft = (productId: number, changes: Partial<LineDraft>) =>
+        setDrafts((prev) => ({
+            ...prev,
+            [productId]: { ...prev[productId], ...changes },
+        }))
+
+    const createMutation = useMutation({
+        mutationFn: () => {
+            const byVendor = new Map<string, RequisitionPayload['lines']>()
+            selectedLines.forEach((line) => {
+                const vendorName = line.vendorName.trim() || UNASSIGNED_VENDOR
+                byVendor.set(vendorName, [
+                    ...(byVendor.get(vendorName) || []),
+                    {
+                        productId: line.suggestion.id,
+                        quantity: Number(line.quantity),
+                        unitPrice: line.unitPrice
+                            ? Number(line.unitPrice)
+                            : undefined,
+                    },
+                ])
+            })
+            return Promise.all(
+                [...byVendor].map(([vendorName, vendorLines]) =>
+                    apiCreateRequisition({ vendorName, lines: vendorLines }),
+                ),
+            )
+        },
+        onSuccess: (responses) => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    Created {responses.length} draft requisition
+                    {responses.length !== 1 ? 's' : ''}
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['requisitions'] })
+            navigate('/requisitions')
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message ||
+                        'Failed to create requisitions'}
+                </Notification>,
+            )
+        },
+    })
+
+    const vendorCount = new Set(
+        selectedLines.map(
+            (line) => line.vendorName.trim() || UNASSIGNED_VENDOR,
+        ),
+    ).size
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Reorder Suggestions</h3>
+                <div className="flex gap-2">
+                    <Button
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineArrowLeft />}
+                        onClick={() => navigate('/requisitions')}
+                    >
+                        Back
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="solid"
+                        icon={<HiOutlineDocumentAdd />}
+                        disabled={
+                            selectedLines.length === 0 || hasInvalidQuantity
+                        }
+                        loading={createMutation.isPending}
+                        onClick={() => createMutation.mutate()}
+                    >
+                        Create {vendorCount || ''} Requisition
+                        {vendorCount !== 1 ? 's' : ''}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mb-4">
+                <div className="flex items-center gap-2">
+                    <span className="text-gray-500">Usage over last</span>
+                    <Segment
+                        size="sm"
+                        value={[String(lookbackDays)]}
+                        onChange={(val) => setLookbackDays(Number(val[0]))}
+                    >
+                        {lookbackOptions.map((days) => (
+                            <Segment.Item key={days} value={String(days)}>
+                                {days} days
+                            </Segment.Item>
+                        ))}
+                    </Segment>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-gray-500">Cover</span>
+                    <Input
+                        size="sm"
+                        type="number"
+                        min={0}
+                        className="w-20"
+                        value={coverDays}
+                        onChange={(e) => setCoverDays(e.target.value)}
+                    />
+                    <span className="text-gray-500">days of usage</span>
+                </div>
+            </div>
+
+            <Alert showIcon type="info" className="mb-4">
+                Suggested quantities bring stock back to the minimum level plus
+                the cover period at the recent rate of use. Lines with the same
+                vendor go on one requisition.
+            </Alert>
+
+            <Loading loading={isLoadingSummary || isLoadingUsage}>
+                <Table compact>
+                    <THead>
+                        <Tr>
+                            <Th />
+                            <Th>Product</Th>
+                            <Th className="text-right">Stock / Min</Th>
+                            <Th className="text-right">Used</Th>
+                            <Th className="text-right">Suggested</Th>
+                            <Th>Order Qty</Th>
+                            <Th>Vendor</Th>
+                            <Th>Unit Price</Th>
+                        </Tr>
+                    </THead>
+                    <TBody>
+                        {lines.length === 0 && (
+                            <Tr>
+                                <Td
+                                    colSpan={8}
+                                    className="text-center text-gray-500"
+                                >
+                                    No products are below their minimum stock
+                                    level
+                                </Td>
+                            </Tr>
+                        )}
+                        {lines.map(
+                            ({
+                                suggestion,
+                                selected,
+                                quantity,
+                                vendorName,
+                                unitPrice,
+                            }) => (
+                                <Tr key={suggestion.id}>
+                                    <Td>
+                                        <Checkbox
+                                            checked={selected}
+                                            onChange={(checked) =>
+                                                updateDraft(suggestion.id, {
+                                                    selected: checked,
+                                                })
+                                            }
+                                        />
+                                    </Td>
+                                    <Td>
+                                        <div className="font-semibold">
+                                            {suggestion.name}
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                            {[
+                                                suggestion.model,
+                                                suggestion.category,
+                                            ]
+                                                .filter(Boolean)
+                                                .join(' · ')}
+                                        </div>
+                                    </Td>
+                                    <Td
+                                        className={`text-right ${
+                                            suggestion.currentStock === 0
+                                                ? 'text-red-600'
+                                                : 'text-amber-600'
+                                        }`}
+                                    >
+                                        {suggestion.currentStock} /{' '}
+                                        {suggestion.minStock}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {suggestion.usedInPeriod}
+                                    </Td>
+                                    <Td className="text-right font-semibold">
+                                        {suggestion.suggestedQuantity}
+                                    </Td>
+                                    <Td>
+                                        <Input
+                                            size="sm"
+                                            type="number"
+                                            min={1}
+                                            className="w-24"
+                                            disabled={!selected}
+                                            value={quantity}
+                                            onChange={(e) =>
+                                                updateDraft(suggestion.id, {
+                                                    quantity: e.target.value,
+                                                })
+                                            }
+                                        />
+                                    </Td>
+                                    <Td>
+                                        <Input
+                                            size="sm"
+                                            placeholder={UNASSIGNED_VENDOR}
+                                            disabled={!selected}
+                                            value={vendorName}
+                                            onChange={(e) =>
+                                                updateDraft(suggestion.id, {
+                                                    vendorName: e.target.value,
+                                                })
+                                            }
+                                        />
+                                    </Td>
+                                    <Td>
+                                        <Input
+                                            size="sm"
+                                            type="number"
+                                            min={0}
+                                            step="0.01"
+                                            className="w-28"
+                                            placeholder="Optional"
+                                            disabled={!selected}
+                                            value={unitPrice}
+                                            onChange={(e) =>
+                                                updateDraft(suggestion.id, {
+                                                    unitPrice: e.target.value,
+                                                })
+                                            }
+                                        />
+                                    </Td>
+                                </Tr>
+                            ),
+                        )}
+                    </TBody>
+                </Table>
+            </Loading>
+        </AdaptableCard>
+    )
+}
+
+export default ReorderSuggestions
@@ -0,0 +1,507 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+    HiOutlineArrowLeft,
+    HiOutlineDownload,
+    HiOutlinePrinter,
+    HiOutlineShoppingCart,
+    HiOutlineTrash,
+} from 'react-icons/hi'
+import { AdaptableCard, ConfirmDialog, Loading } from '@/components/shared'
+import {
+    Button,
+    Card,
+    Input,
+    Notification,
+    Table,
+    Timeline,
+    toast,
+} from '@/components/ui'
+import {
+    apiDeleteRequisition,
+    apiGetRequisition,
+    apiUpdateRequisition,
+    apiUpdateRequisitionStatus,
+} from '@/services/RequisitionService'
+import downloadSpreadsheet from '@/utils/downloadSpreadsheet'
+import {
+    openPrintWindow,
+    writePrintWindow,
+} from '@/views/products/labels/labelSheet'
+import {
+    buildRequisitionHtml,
+    requisitionSheetRows,
+    requisitionTotal,
+} from './requisitionDocument'
+import {
+    requisitionStatusClassMap,
+    requisitionStatusLabels,
+} from './requisitionStatus'
+import type { Requisition } from '@/services/RequisitionService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const { Tr, Th, Td, THead, TBody, TFoot } = Table
+
+const formatDate = (date: string) => dayjs(date).format('DD MMM YYYY HH:mm')
+
+const RequisitionDetails = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    // Unsaved edits to a draft, keyed by line index
+    const [quantities, setQuantities] = useState<Record<number, string>>({})
+    const [removedLines, setRemovedLines] = useState<number[]>([])
+    const [vendorName, setVendorName] = useState<string>()
+    const [isSubmitOpen, setIsSubmitOpen] = useState(false)
+    const [isReceiveOpen, setIsReceiveOpen] = useState(false)
+    const [isDeleteOpen, setIsDeleteOpen] = useState(false)
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['requisition', id],
+        queryFn: () => apiGetRequisition(id as string),
+        enabled: !!id,
+    })
+    const requisition = data?.data?.data
+
+    const resetEdits = () => {
+        setQuantities({})
+        setRemovedLines([])
+        setVendorName(undefined)
+    }
+
+    const onStepSuccess = (message: string) => {
+        toast.push(
+            <Notification title="Success" type="success">
+                {message}
+            </Notification>,
+        )
+        resetEdits()
+        queryClient.invalidateQueries({ queryKey: ['requisition', id] })
+        queryClient.invalidateQueries({ queryKey: ['requisitions'] })
+    }
+
+    const onStepError = (error: ApiError) => {
+        toast.push(
+            <Notification title="Error" type="danger">
+                {error.response?.data?.message ||
+                    'Failed to update requisition'}
+            </Notification>,
+        )
+    }
+
+    const editedLines = (requisition?.lines || [])
+        .map((line, index) => ({
+            ...line,
+            index,
+            quantity: quantities[index] ?? String(line.quantity),
+        }))
+        .filter((line) => !removedLines.includes(line.index))
+    const isDirty =
+        Object.keys(quantities).length > 0 ||
+        removedLines.length > 0 ||
+        vendorName !== undefined
+    const hasInvalidQuantity = editedLines.some(
+        (line) =>
+            !Number.isInteger(Number(line.quantity)) ||
+            Number(line.quantity) < 1,
+    )
+
+    const saveMutation = useMutation({
+        mutationFn: () =>
+            apiUpdateRequisition(requisition!.id, {
+                vendorName: (vendorName ?? requisition!.vendorName).trim(),
+                notes: requisition!.notes,
+                lines: editedLines.map((line) => ({
+                    productId: line.productId,
+                    quantity: Number(line.quantity),
+                    unitPrice: line.unitPrice,
+                    notes: line.notes,
+                })),
+            }),
+        onSuccess: () => onStepSuccess('Requisition saved'),
+        onError: onStepError,
+    })
+
+    const statusMutation = useMutation({
+        mutationFn: (status: 'SUBMITTED' | 'RECEIVED') =>
+            apiUpdateRequisitionStatus(requisition!.id, status),
+        onSuccess: (_, status) => {
+            setIsSubmitOpen(false)
+            setIsReceiveOpen(false)
+            onStepSuccess(
+                status === 'SUBMITTED'
+                    ? 'Requisition submitted'
+                    : 'Requisition marked as received',
+            )
+        },
+        onError: onStepError,
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: () => apiDeleteRequisition(requisition!.id),
+        onSuccess: () => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    Requisition deleted
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['requisitions'] })
+            navigate('/requisitions')
+        },
+        onError: onStepError,
+    })
+
+    if (isLoading) {
+        return <Loading loading />
+    }
+
+    if (error || !requisition) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Requisition not found</span>
+            </div>
+        )
+    }
+
+    const isDraft = requisition.status === 'DRAFT'
+    const total = requisitionTotal(requisition)
+
+    const handlePrint = (current: Requisition) => {
+        const printWindow = openPrintWindow('Preparing requisition...')
+        if (printWindow) {
+            writePrintWindow(printWindow, buildRequisitionHtml(current))
+        }
+    }
+
+    const steps = [
+        {
+            at: requisition.createdAt,
+            label: 'Drafted',
+            by: requisition.createdBy?.username,
+        },
+        {
+            at: requisition.submittedAt,
+            label: 'Submitted',
+            by: requisition.submittedBy?.username,
+        },
+        {
+            at: requisition.receivedAt,
+            label: 'Received',
+            by: requisition.receivedBy?.username,
+        },
+    ].filter((step): step is typeof step & { at: string } => !!step.at)
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3>Requisition {requisition.requisitionNumber}</h3>
+                    <div className="flex items-center gap-2 mt-1 text-gray-500">
+                        {requisition.vendorName}
+                        <span
+                            className={`ml-2 font-semibold ${
+                                requisitionStatusClassMap[requisition.status]
+                            }`}
+                        >
+                            {requisitionStatusLabels[requisition.status]}
+                        </span>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-4 lg:mt-0">
+                    <Button
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineArrowLeft />}
+                        onClick={() => navigate('/requisitions')}
+                    >
+                        Back
+                    </Button>
+                    <Button
+                        size="sm"
+                        icon={<HiOutlinePrinter />}
+                        disabled={isDirty}
+                        onClick={() => handlePrint(requisition)}
+                    >
+                        Print / PDF
+                    </Button>
+                    <Button
+                        size="sm"
+                        icon={<HiOutlineDownload />}
+                        disabled={isDirty}
+                        onClick={() =>
+                            downloadSpreadsheet(
+                                requisitionSheetRows(requisition),
+                                `${requisition.requisitionNumber}.xlsx`,
+                                'Requisition',
+                            )
+                        }
+                    >
+                        Export XLSX
+                    </Button>
+                    {isDraft && (
+                        <>
+                            <Button
+                                size="sm"
+                                color="red"
+                                icon={<HiOutlineTrash />}
+                                onClick={() => setIsDeleteOpen(true)}
+                            >
+                                Delete
+                            </Button>
+                            {isDirty ? (
+                                <>
+                                    <Button size="sm" onClick={resetEdits}>
+                                        Discard
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="solid"
+                                        disabled={
+                                            hasInvalidQuantity ||
+                                            editedLines.length === 0 ||
+                                            !(
+                                                vendorName ??
+                                                requisition.vendorName
+                                            ).trim()
+                                        }
+                                        loading={saveMutation.isPending}
+                                        onClick={() => saveMutation.mutate()}
+                                    >
+                                        Save Changes
+                                    </Button>
+                                </>
+                            ) : (
+                                <Button
+                                    size="sm"
+                                    variant="solid"
+                                    onClick={() => setIsSubmitOpen(true)}
+                                >
+                                    Submit
+                                </Button>
+                            )}
+                        </>
+                    )}
+                    {requisition.status === 'SUBMITTED' && (
+                        <>
+                            <Button
+                                size="sm"
+                                icon={<HiOutlineShoppingCart />}
+                                onClick={() =>
+                                    navigate(
+                                        `/purchase-orders/create?requisitionId=${requisition.id}`,
+                                    )
+                                }
+                            >
+                                Raise Purchase Order
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="solid"
+                                onClick={() => setIsReceiveOpen(true)}
+                            >
+                                Mark Received
+                            </Button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <Card className="lg:col-span-2">
+                    {isDraft && (
+                        <div className="mb-4 max-w-md">
+                            <div className="text-sm font-semibold mb-1">
+                                Vendor
+                            </div>
+                            <Input
+                                size="sm"
+                                value={vendorName ?? requisition.vendorName}
+                                onChange={(e) => setVendorName(e.target.value)}
+                            />
+                        </div>
+                    )}
+                    <h5 className="mb-4">Lines ({editedLines.length})</h5>
+                    <Table compact>
+                        <THead>
+                            <Tr>
+                                <Th>Product</Th>
+                                <Th className="text-right">Quantity</Th>
+                                <Th className="text-right">Unit Price</Th>
+                                <Th className="text-right">Total</Th>
+                                {isDraft && <Th />}
+                            </Tr>
+                        </THead>
+                        <TBody>
+                            {editedLines.map((line) => (
+                                <Tr key={line.index}>
+                                    <Td>
+                                        <span
+                                            className="font-semibold cursor-pointer hover:underline"
+                                            onClick={() =>
+                                                navigate(
+                                                    `/products/view/${line.productId}`,
+                                                )
+                                            }
+                                        >
+                                            {line.product?.name ||
+                                                `Product #${line.productId}`}
+                                        </span>
+                                        {line.product?.model && (
+                                            <div className="text-xs text-gray-500">
+                                                {line.product.model}
+                                            </div>
+                                        )}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {isDraft ? (
+                                            <Input
+                                                size="sm"
+                                                type="number"
+                                                min={1}
+                                                className="w-24 ml-auto"
+                                                value={line.quantity}
+                                                onChange={(e) =>
+                                                    setQuantities((prev) => ({
+                                                        ...prev,
+                                                        [line.index]:
+                                                            e.target.value,
+                                                    }))
+                                                }
+                                            />
+                                        ) : (
+                                            line.quantity
+                                        )}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {line.unitPrice
+                                            ? line.unitPrice.toFixed(2)
+                                            : '-'}
+                                    </Td>
+                                    <Td className="text-right">
+                                        {line.unitPrice
+                                            ? (
+                                                  line.unitPrice *
+                                                  Number(line.quantity)
+                                              ).toFixed(2)
+                                            : '-'}
+                                    </Td>
+                                    {isDraft && (
+                                        <Td className="text-right">
+                                            <Button
+                                                size="xs"
+                                                variant="plain"
+                                                icon={<HiOutlineTrash />}
+                                                disabled={
+                                                    editedLines.length === 1
+                                                }
+                                                onClick={() =>
+                                                    setRemovedLines((prev) => [
+                                                        ...prev,
+                                                        line.index,
+                                                    ])
+                                                }
+                                            />
+                                        </Td>
+                                    )}
+                                </Tr>
+                            ))}
+                        </TBody>
+                        {!isDirty && (
+                            <TFoot>
+                                <Tr>
+                                    <Td colSpan={3} className="font-semibold">
+                                        Estimated total
+                                    </Td>
+                                    <Td className="text-right font-semibold">
+                                        {total ? total.toFixed(2) : '-'}
+                                    </Td>
+                                    {isDraft && <Td />}
+                                </Tr>
+                            </TFoot>
+                        )}
+                    </Table>
+                </Card>
+
+                <Card>
+                    <h5 className="mb-4">History</h5>
+                    <Timeline>
+                        {steps.map((step) => (
+                            <Timeline.Item key={step.label}>
+                                <div className="font-semibold">
+                                    {step.label}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                    {formatDate(step.at)}
+                                    {step.by && ` by ${step.by}`}
+                                </div>
+                            </Timeline.Item>
+                        ))}
+                    </Timeline>
+                    {requisition.notes && (
+                        <div className="mt-4">
+                            <div className="text-sm font-semibold">Notes</div>
+                            <p className="text-sm whitespace-pre-line">
+                                {requisition.notes}
+                            </p>
+                        </div>
+                    )}
+                </Card>
+            </div>
+
+            <ConfirmDialog
+                isOpen={isSubmitOpen}
+                type="info"
+                title="Submit requisition"
+                confirmText="Submit"
+                onClose={() => setIsSubmitOpen(false)}
+                onRequestClose={() => setIsSubmitOpen(false)}
+                onCancel={() => setIsSubmitOpen(false)}
+                onConfirm={() => statusMutation.mutate('SUBMITTED')}
+            >
+                <p>
+                    Once submitted to {requisition.vendorName} the lines can no
+                    longer be edited.
+                </p>
+            </ConfirmDialog>
+
+            <ConfirmDialog
+                isOpen={isReceiveOpen}
+                type="success"
+                title="Mark as received"
+                confirmText="Mark Received"
+                onClose={() => setIsReceiveOpen(false)}
+                onRequestClose={() => setIsReceiveOpen(false)}
+                onCancel={() => setIsReceiveOpen(false)}
+                onConfirm={() => statusMutation.mutate('RECEIVED')}
+            >
+                <p>
+                    This closes the requisition. Units ordered on a purchase
+                    order are added to stock when that order is received.
+                </p>
+            </ConfirmDialog>
+
+            <ConfirmDialog
+                isOpen={isDeleteOpen}
+                type="danger"
+                title="Delete requisition"
+                confirmText="Delete"
+                onClose={() => setIsDeleteOpen(false)}
+                onRequestClose={() => setIsDeleteOpen(false)}
+                onCancel={() => setIsDeleteOpen(false)}
+                onConfirm={() => deleteMutation.mutate()}
+            >
+                <p>
+                    Delete draft {requisition.requisitionNumber}? This cannot be
+                    undone.
+                </p>
+            </ConfirmDialog>
+        </AdaptableCard>
+    )
+}
+
+export default RequisitionDetails
@@ -0,0 +1,17 @@
+import { AdaptableCard } from '@/components/shared'
+import RequisitionTable from './RequisitionTable'
+import RequisitionTableTools from './RequisitionTableTools'
+
+const RequisitionList = () => {
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Purchase Requisitions</h3>
+                <RequisitionTableTools />
+            </div>
+            <RequisitionTable />
+        </AdaptableCard>
+    )
+}
+
+export default RequisitionList
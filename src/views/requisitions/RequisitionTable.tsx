@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import { HiOutlineEye } from 'react-icons/hi'
+import { DataTable } from '@/components/shared'
+import { Select } from '@/components/ui'
+import { apiGetRequisitions } from '@/services/RequisitionService'
+import {
+    requisitionStatusClassMap,
+    requisitionStatusLabels,
+} from './requisitionStatus'
+import type { ColumnDef } from '@/components/shared'
+import type {
+    Requisition,
+    RequisitionStatus,
+} from '@/services/RequisitionService'
+
+const statusOptions = (
+    Object.keys(requisitionStatusLabels) as RequisitionStatus[]
+).map((status) => ({ value: status, label: requisitionStatusLabels[status] }))
+
+const RequisitionTable = () => {
+    const navigate = useNavigate()
+
+    const [status, setStatus] = useState<RequisitionStatus>()
+    const [pagination, setPagination] = useState({ page: 1, limit: 10 })
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['requisitions', pagination, status],
+        queryFn: () =>
+            apiGetRequisitions({
+                page: pagination.page,
+                limit: pagination.limit,
+                status,
+            }),
+    })
+
+    const columns: ColumnDef<Requisition>[] = useMemo(
+        () => [
+            {
+                header: 'Requisition',
+                accessorKey: 'requisitionNumber',
+                cell: (props) => (
+                    <span className="font-semibold">
+                        {props.row.original.requisitionNumber}
+                    </span>
+                ),
+            },
+            {
+                header: 'Vendor',
+                accessorKey: 'vendorName',
+            },
+            {
+                header: 'Lines',
+                id: 'lines',
+                cell: (props) => props.row.original.lines?.length ?? 0,
+            },
+            {
+                header: 'Units',
+                id: 'units',
+                cell: (props) =>
+                    (props.row.original.lines || []).reduce(
+                        (sum, line) => sum + line.quantity,
+                        0,
+                    ),
+            },
+            {
+                header: 'Status',
+                accessorKey: 'status',
+                cell: (props) => (
+                    <span
+                        className={`font-semibold ${
+                            requisitionStatusClassMap[props.row.original.status]
+                        }`}
+                    >
+                        {requisitionStatusLabels[props.row.original.status]}
+                    </span>
+                ),
+            },
+            {
+                header: 'Raised',
+                accessorKey: 'createdAt',
+                cell: (props) =>
+                    dayjs(props.row.original.createdAt).format('DD MMM YYYY'),
+            },
+            {
+                header: '',
+                id: 'action',
+                cell: (props) => (
+                    <div className="flex justify-end text-lg">
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            onClick={() =>
+                                navigate(
+                                    `/requisitions/view/${props.row.original.id}`,
+                                )
+                            }
+                        >
+                            <HiOutlineEye />
+                        </span>
+                    </div>
+                ),
+            },
+        ],
+        [navigate],
+    )
+
+    if (error) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Error: {error.message}</span>
+            </div>
+        )
+    }
+
+    return (
+        <>
+            <div className="flex flex-col lg:flex-row gap-2 mb-4">
+                <Select
+                    isClearable
+                    size="sm"
+                    className="min-w-[180px]"
+                    placeholder="All statuses"
+                    options={statusOptions}
+                    value={
+                        statusOptions.find((o) => o.value === status) || null
+                    }
+                    onChange={(option) => {
+                        setStatus(option?.value)
+                        setPagination((prev) => ({ ...prev, page: 1 }))
+                    }}
+                />
+            </div>
+
+            <DataTable
+                columns={columns}
+                data={data?.data?.data || []}
+                loading={isLoading}
+                pagingData={{
+                    total: data?.data?.pagination?.total || 0,
+                    pageIndex: pagination.page,
+                    pageSize: pagination.limit,
+                }}
+                onPaginationChange={(page) =>
+                    setPagination((prev) => ({ ...prev, page }))
+                }
+                onSelectChange={(limit) => setPagination({ page: 1, limit })}
+            />
+        </>
+    )
+}
+
+export default RequisitionTable
@@ -0,0 +1,22 @@
+import { Button } from '@/components/ui'
+import { HiOutlineLightBulb } from 'react-icons/hi'
+import { useNavigate } from 'react-router-dom'
+
+const RequisitionTableTools = () => {
+    const navigate = useNavigate()
+
+    return (
+        <div className="flex flex-col lg:flex-row lg:items-center gap-2">
+            <Button
+                variant="solid"
+                size="sm"
+                icon={<HiOutlineLightBulb />}
+                onClick={() => navigate('/requisitions/reorder')}
+            >
+                Reorder Suggestions
+            </Button>
+        </div>
+    )
+}
+
+export default RequisitionTableTools
@@ -0,0 +1,71 @@
+export interface LowStockProduct {
+    id: number
+    name: string
+    model: string
+    category: string
+    currentStock: number
+    minStock: number
+}
+
+/** Units that left stock for one product, from transactions or consumable issues */
+export interface UsageEntry {
+    productId?: number
+    quantity: number
+}
+
+export interface ReorderOptions {
+    /** Days of history the usage entries cover */
+    lookbackDays: number
+    /** Days of usage the order should cover on top of the reorder point */
+    coverDays: number
+}
+
+export interface ReorderSuggestion extends LowStockProduct {
+    usedInPeriod: number
+    dailyUsage: number
+    suggestedQuantity: number
+}
+
+/**
+ * Orders back up to the reorder point (minStock) plus enough to cover the
+ * recent rate of usage for `coverDays`. A product that is already flagged as
+ * low always gets at least one unit.
+ */
+const buildReorderSuggestions = (
+    products: LowStockProduct[],
+    usage: UsageEntry[],
+    { lookbackDays, coverDays }: ReorderOptions,
+): ReorderSuggestion[] => {
+    const usedByProduct = new Map<number, number>()
+    usage.forEach((entry) => {
+        if (entry.productId === undefined) {
+            return
+        }
+        usedByProduct.set(
+            entry.productId,
+            (usedByProduct.get(entry.productId) || 0) + entry.quantity,
+        )
+    })
+
+    return products
+        .map((product) => {
+            const usedInPeriod = usedByProduct.get(product.id) || 0
+            const dailyUsage =
+                lookbackDays > 0 ? usedInPeriod / lookbackDays : 0
+            const target = product.minStock + Math.ceil(dailyUsage * coverDays)
+
+            return {
+                ...product,
+                usedInPeriod,
+                dailyUsage,
+                suggestedQuantity: Math.max(target - product.currentStock, 1),
+            }
+        })
+        .sort(
+            (a, b) =>
+                a.currentStock - a.minStock - (b.currentStock - b.minStock) ||
+                a.name.localeCompare(b.name),
+        )
+}
+
+export default buildReorderSuggestions
@@ -0,0 +1,134 @@
+import dayjs from 'dayjs'
+import { escapeHtml } from '@/views/products/labels/labelSheet'
+import { requisitionStatusLabels } from './requisitionStatus'
+import type { Requisition } from '@/services/RequisitionService'
+
+const lineTotal = (line: Requisition['lines'][number]) =>
+    line.unitPrice ? line.unitPrice * line.quantity : 0
+
+export const requisitionTotal = (requisition: Requisition) =>
+    requisition.lines.reduce((sum, line) => sum + lineTotal(line), 0)
+
+/** One row per line, for the XLSX export */
+export const requisitionSheetRows = (requisition: Requisition) =>
+    requisition.lines.map((line) => ({
+        Requisition: requisition.requisitionNumber,
+        Vendor: requisition.vendorName,
+        Product: line.product?.name || `Product #${line.productId}`,
+        Model: line.product?.model || '',
+        Quantity: line.quantity,
+        'Unit Price': line.unitPrice ?? '',
+        'Line Total': line.unitPrice ? lineTotal(line) : '',
+        Notes: line.notes || '',
+    }))
+
+/**
+ * A printable requisition. The browser print dialog doubles as the PDF
+ * export ("Save as PDF"), the same way labels and handover slips are printed.
+ */
+export const buildRequisitionHtml = (requisition: Requisition) => {
+    const total = requisitionTotal(requisition)
+    const rows = requisition.lines
+        .map(
+            (line, index) => `
+                <tr>
+                    <td>${index + 1}</td>
+                    <td>${escapeHtml(
+                        line.product?.name || `Product #${line.productId}`,
+                    )}</td>
+                    <td>${escapeHtml(line.product?.model || '')}</td>
+                    <td class="num">${line.quantity}</td>
+                    <td class="num">${
+                        line.unitPrice ? line.unitPrice.toFixed(2) : '-'
+                    }</td>
+                    <td class="num">${
+                        line.unitPrice ? lineTotal(line).toFixed(2) : '-'
+                    }</td>
+                    <td>${escapeHtml(line.notes || '')}</td>
+                </tr>`,
+        )
+        .join('')
+
+    return `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Requisition ${escapeHtml(
+                requisition.requisitionNumber,
+            )}</title>
+            <style>
+              @page { size: A4; margin: 15mm; }
+              body { font-family: Arial, sans-serif; font-size: 11pt; color: #111; }
+              h1 { font-size: 18pt; margin: 0 0 4mm; }
+              .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 1mm 8mm; margin-bottom: 6mm; }
+              .meta span { color: #555; }
+              table { width: 100%; border-collapse: collapse; }
+              th, td { border: 1px solid #999; padding: 2mm; text-align: left; }
+              th { background: #f0f0f0; }
+              .num { text-align: right; }
+              tfoot td { font-weight: bold; }
+              .notes { margin-top: 6mm; white-space: pre-line; }
+              .signatures { display: flex; gap: 20mm; margin-top: 20mm; }
+              .signature { flex: 1; border-top: 1px solid #111; padding-top: 2mm; }
+            </style>
+          </head>
+          <body onload="window.print()">
+            <h1>Purchase Requisition ${escapeHtml(
+                requisition.requisitionNumber,
+            )}</h1>
+            <div class="meta">
+              <div><span>Vendor:</span> ${escapeHtml(
+                  requisition.vendorName,
+              )}</div>
+              <div><span>Status:</span> ${
+                  requisitionStatusLabels[requisition.status]
+              }</div>
+              <div><span>Raised:</span> ${dayjs(requisition.createdAt).format(
+                  'DD MMM YYYY',
+              )}${
+                  requisition.createdBy
+                      ? ` by ${escapeHtml(requisition.createdBy.username)}`
+                      : ''
+              }</div>
+              <div><span>Submitted:</span> ${
+                  requisition.submittedAt
+                      ? dayjs(requisition.submittedAt).format('DD MMM YYYY')
+                      : '-'
+              }</div>
+            </div>
+            <table>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Product</th>
+                  <th>Model</th>
+                  <th class="num">Qty</th>
+                  <th class="num">Unit Price</th>
+                  <th class="num">Total</th>
+                  <th>Notes</th>
+                </tr>
+              </thead>
+              <tbody>${rows}</tbody>
+              <tfoot>
+                <tr>
+                  <td colspan="5">Estimated total</td>
+                  <td class="num">${total ? total.toFixed(2) : '-'}</td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+            ${
+                requisition.notes
+                    ? `<div class="notes"><strong>Notes:</strong> ${escapeHtml(
+                          requisition.notes,
+                      )}</div>`
+                    : ''
+            }
+            <div class="signatures">
+              <div class="signature">Requested by</div>
+              <div class="signature">Approved by</div>
+            </div>
+          </body>
+        </html>
+      `
+}
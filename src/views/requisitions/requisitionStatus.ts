@@ -0,0 +1,13 @@
+import type { RequisitionStatus } from '@/services/RequisitionService'
+
+export const requisitionStatusLabels: Record<RequisitionStatus, string> = {
+    DRAFT: 'Draft',
+    SUBMITTED: 'Submitted',
+    RECEIVED: 'Received',
+}
+
+export const requisitionStatusClassMap: Record<RequisitionStatus, string> = {
+    DRAFT: 'text-gray-500',
+    SUBMITTED: 'text-blue-600',
+    RECEIVED: 'text-emerald-600',
+}
@@ -0,0 +1,305 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import debounce from 'lodash/debounce'
+import { HiOutlinePlus, HiOutlineQuestionMarkCircle } from 'react-icons/hi'
+import { BiBox } from 'react-icons/bi'
+import { AdaptableCard, CodeScanner } from '@/components/shared'
+import {
+    Button,
+    Card,
+    Dialog,
+    Notification,
+    Select,
+    toast,
+} from '@/components/ui'
+import {
+    apiAddStock,
+    apiGetProducts,
+    apiLookupInventory,
+} from '@/services/ProductService'
+import parseScanCode from './parseScanCode'
+import type { ScanTarget } from './parseScanCode'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface ProductSummary {
+    id: number
+    name: string
+    model: string
+}
+
+interface LookupResult {
+    id: number
+    serialNumber?: string
+    productId?: number
+    product?: ProductSummary
+}
+
+const productViewPath = (productId: number, search?: string) =>
+    search
+        ? `/products/view/${productId}?search=${encodeURIComponent(search)}`
+        : `/products/view/${productId}`
+
+const ScannerPage = () => {
+    const navigate = useNavigate()
+    const [lastCode, setLastCode] = useState('')
+    const [unknownSerial, setUnknownSerial] = useState<string | null>(null)
+    const [addDialogOpen, setAddDialogOpen] = useState(false)
+    const [productSearch, setProductSearch] = useState('')
+    const [selectedProductId, setSelectedProductId] = useState<number | null>(
+        null,
+    )
+
+    const { data: productsResponse, isLoading: isLoadingProducts } = useQuery({
+        queryKey: ['scanner-products', productSearch],
+        queryFn: () =>
+            apiGetProducts({ page: 1, limit: 50, search: productSearch }),
+        enabled: addDialogOpen,
+    })
+
+    const productOptions = useMemo(
+        () =>
+            (
+                (productsResponse?.data as { data?: ProductSummary[] })?.data ||
+                []
+            ).map((p) => ({
+                value: p.id,
+                label: `${p.name} (${p.model})`,
+            })),
+        [productsResponse],
+    )
+
+    const debouncedProductSearch = useMemo(
+        () => debounce((value: string) => setProductSearch(value), 300),
+        [],
+    )
+
+    const { mutate: lookup, isPending: isLookingUp } = useMutation({
+        mutationFn: async (
+            target: Extract<ScanTarget, { type: 'inventory' | 'serial' }>,
+        ) => {
+            try {
+                const response = await apiLookupInventory(
+                    target.type === 'inventory'
+                        ? { inventoryId: target.id }
+                        : { serialNumber: target.value },
+                )
+                const body = response.data as { data?: LookupResult | null }
+                return body?.data ?? null
+            } catch (error) {
+                if ((error as ApiError).response?.status === 404) {
+                    return null
+                }
+                throw error
+            }
+        },
+        onSuccess: (item, target) => {
+            const productId = item?.product?.id ?? item?.productId
+            if (item && productId) {
+                navigate(productViewPath(productId, item.serialNumber))
+                return
+            }
+            if (target.type === 'serial') {
+                setUnknownSerial(target.value)
+            } else {
+                toast.push(
+                    <Notification title="Not found" type="warning">
+                        Inventory item #{target.id} does not exist
+                    </Notification>,
+                )
+            }
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message ||
+                        'Failed to look up the scanned code'}
+                </Notification>,
+            )
+        },
+    })
+
+    const { mutate: addStock, isPending: isAddingStock } = useMutation({
+        mutationFn: (data: { productId: number; serial: string }) =>
+            apiAddStock(data.productId, {
+                quantity: 1,
+                serialNumbers: [data.serial],
+                reason: 'Added from scanner',
+            }),
+        onSuccess: (_, data) => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    Inventory item {data.serial} created
+                </Notification>,
+            )
+            navigate(productViewPath(data.productId, data.serial))
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to add stock'}
+                </Notification>,
+            )
+        },
+    })
+
+    const handleDetected = (code: string) => {
+        setLastCode(code)
+        setUnknownSerial(null)
+
+        const target = parseScanCode(code)
+        switch (target.type) {
+            case 'assignment':
+                navigate(`/assignments/${target.id}`)
+                break
+            case 'product':
+                navigate(productViewPath(target.id))
+                break
+            default:
+                lookup(target)
+        }
+    }
+
+    const closeAddDialog = () => {
+        setAddDialogOpen(false)
+        setSelectedProductId(null)
+        setProductSearch('')
+    }
+
+    const handleAddSubmit = () => {
+        if (!unknownSerial || !selectedProductId) return
+        addStock({ productId: selectedProductId, serial: unknownSerial })
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Scan Code</h3>
+            </div>
+            <p className="text-gray-500 mb-4">
+                Scan a product, inventory or assignment QR code, or a Code128
+                serial label, to open the matching record.
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <CodeScanner
+                    manualEntryPlaceholder="Type or scan a serial number and press Enter"
+                    onDetected={handleDetected}
+                />
+
+                <div className="space-y-4">
+                    {lastCode && (
+                        <Card>
+                            <span className="text-sm text-gray-500">
+                                Last scanned code
+                            </span>
+                            <p className="font-semibold break-all">
+                                {lastCode}
+                            </p>
+                            {isLookingUp && (
+                                <p className="text-sm text-gray-500 mt-2">
+                                    Looking up inventory...
+                                </p>
+                            )}
+                        </Card>
+                    )}
+
+                    {unknownSerial && (
+                        <Card>
+                            <div className="flex items-center gap-2 mb-2">
+                                <HiOutlineQuestionMarkCircle className="text-2xl text-amber-500" />
+                                <h5>Unknown code</h5>
+                            </div>
+                            <p className="text-gray-600 mb-4">
+                                No inventory item has the serial number{' '}
+                                <span className="font-semibold">
+                                    {unknownSerial}
+                                </span>
+                                .
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                                <Button
+                                    variant="solid"
+                                    icon={<BiBox />}
+                                    onClick={() => setAddDialogOpen(true)}
+                                >
+                                    Create inventory with this serial
+                                </Button>
+                                <Button
+                                    icon={<HiOutlinePlus />}
+                                    onClick={() =>
+                                        navigate(
+                                            `/products/create?serial=${encodeURIComponent(
+                                                unknownSerial,
+                                            )}`,
+                                        )
+                                    }
+                                >
+                                    New product
+                                </Button>
+                            </div>
+                        </Card>
+                    )}
+                </div>
+            </div>
+
+            <Dialog
+                isOpen={addDialogOpen}
+                width={500}
+                onClose={closeAddDialog}
+                onRequestClose={closeAddDialog}
+            >
+                <h4 className="mb-4">Create Inventory Item</h4>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-1">
+                            Serial Number
+                        </label>
+                        <p className="font-semibold">{unknownSerial}</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">
+                            Product
+                        </label>
+                        <Select
+                            isSearchable
+                            placeholder="Search and select product"
+                            options={productOptions}
+                            isLoading={isLoadingProducts}
+                            value={
+                                productOptions.find(
+                                    (o: { value: number }) =>
+                                        o.value === selectedProductId,
+                                ) || null
+                            }
+                            onChange={(option: { value: number } | null) =>
+                                setSelectedProductId(option?.value ?? null)
+                            }
+                            onInputChange={(value) =>
+                                debouncedProductSearch(value)
+                            }
+                        />
+                    </div>
+                    <div className="flex justify-end gap-2 mt-6">
+                        <Button variant="plain" onClick={closeAddDialog}>
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="solid"
+                            icon={<BiBox />}
+                            loading={isAddingStock}
+                            disabled={!selectedProductId}
+                            onClick={handleAddSubmit}
+                        >
+                            Add Stock
+                        </Button>
+                    </div>
+                </div>
+            </Dialog>
+        </AdaptableCard>
+    )
+}
+
+export default ScannerPage
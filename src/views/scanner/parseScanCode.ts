@@ -0,0 +1,84 @@
+export type ScanTarget =
+    | { type: 'assignment'; id: number }
+    | { type: 'product'; id: number }
+    | { type: 'inventory'; id: number }
+    | { type: 'serial'; value: string }
+
+const URL_PATTERNS: Array<{
+    pattern: RegExp
+    type: 'assignment' | 'product' | 'inventory'
+}> = [
+    { pattern: /\/product-public-view\/(\d+)/, type: 'assignment' },
+    { pattern: /\/assignments\/(\d+)/, type: 'assignment' },
+    { pattern: /\/product-assignments\/(\d+)/, type: 'assignment' },
+    { pattern: /\/products\/inventory\/(\d+)/, type: 'inventory' },
+    { pattern: /\/products\/view\/(\d+)/, type: 'product' },
+    { pattern: /\/products\/(\d+)/, type: 'product' },
+]
+
+const toId = (value: unknown) => {
+    const id = Number(value)
+    return Number.isInteger(id) && id > 0 ? id : null
+}
+
+const parseUrl = (code: string): ScanTarget | null => {
+    let path: string
+    try {
+        path = new URL(code).pathname
+    } catch {
+        return null
+    }
+
+    for (const { pattern, type } of URL_PATTERNS) {
+        const match = path.match(pattern)
+        if (match) {
+            return { type, id: Number(match[1]) }
+        }
+    }
+    return null
+}
+
+const parseJson = (code: string): ScanTarget | null => {
+    if (!code.startsWith('{')) {
+        return null
+    }
+
+    let payload: Record<string, unknown>
+    try {
+        payload = JSON.parse(code)
+    } catch {
+        return null
+    }
+
+    const assignmentId = toId(payload.assignmentId)
+    if (assignmentId) {
+        return { type: 'assignment', id: assignmentId }
+    }
+    const inventoryId = toId(payload.inventoryId)
+    if (inventoryId) {
+        return { type: 'inventory', id: inventoryId }
+    }
+    const productId = toId(payload.productId)
+    if (productId) {
+        return { type: 'product', id: productId }
+    }
+    if (
+        typeof payload.serialNumber === 'string' &&
+        payload.serialNumber.trim()
+    ) {
+        return { type: 'serial', value: payload.serialNumber.trim() }
+    }
+    return null
+}
+
+/**
+ * Works out what a scanned QR/Code128 payload points at. Our own QR codes
+ * carry either a link to the app or a small JSON payload; anything else is
+ * treated as a printed serial number.
+ */
+const parseScanCode = (rawCode: string): ScanTarget => {
+    const code = rawCode.trim()
+    return parseUrl(code) || parseJson(code) || { type: 'serial', value: code }
+}
+
+export default parseScanCode
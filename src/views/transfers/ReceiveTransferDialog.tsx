@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+    Button,
+    Checkbox,
+    Dialog,
+    FormItem,
+    Input,
+    Notification,
+    toast,
+} from '@/components/ui'
+import { apiReceiveTransfer } from '@/services/TransferService'
+import type { Transfer } from '@/services/TransferService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface ReceiveTransferDialogProps {
+    transfer: Transfer
+    onClose: () => void
+}
+
+const ReceiveTransferDialog = ({
+    transfer,
+    onClose,
+}: ReceiveTransferDialogProps) => {
+    const queryClient = useQueryClient()
+    const pendingItems = transfer.items.filter((item) => !item.receivedAt)
+
+    // Mounted fresh for every receipt, so everything starts ticked
+    const [receivedIds, setReceivedIds] = useState(() =>
+        pendingItems.map((item) => item.inventoryId),
+    )
+    const [location, setLocation] = useState('')
+    const [notes, setNotes] = useState('')
+
+    const receiveMutation = useMutation({
+        mutationFn: () =>
+            apiReceiveTransfer(transfer.id, {
+                inventoryIds: receivedIds,
+                location: location.trim() || undefined,
+                notes: notes.trim() || undefined,
+            }),
+        onSuccess: () => {
+            const outstanding = pendingItems.length - receivedIds.length
+            toast.push(
+                <Notification title="Receipt confirmed" type="success">
+                    {receivedIds.length} item
+                    {receivedIds.length !== 1 ? 's' : ''} received
+                    {outstanding > 0 && `, ${outstanding} still in transit`}
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['transfer'] })
+            queryClient.invalidateQueries({ queryKey: ['transfers'] })
+            queryClient.invalidateQueries({ queryKey: ['products'] })
+            onClose()
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message ||
+                        'Failed to confirm receipt'}
+                </Notification>,
+            )
+        },
+    })
+
+    const toggleItem = (inventoryId: number, checked: boolean) =>
+        setReceivedIds((ids) =>
+            checked
+                ? [...ids, inventoryId]
+                : ids.filter((id) => id !== inventoryId),
+        )
+
+    return (
+        <Dialog isOpen width={600} onClose={onClose} onRequestClose={onClose}>
+            <h5 className="mb-2">Confirm Receipt</h5>
+            <p className="mb-4 text-gray-500">
+                Tick the items that arrived at{' '}
+                {transfer.toBranch?.name || 'the destination'}. Anything left
+                unticked stays in transit.
+            </p>
+
+            <div className="space-y-2 max-h-72 overflow-y-auto mb-4">
+                {pendingItems.map((item) => (
+                    <Checkbox
+                        key={item.id}
+                        className="flex"
+                        checked={receivedIds.includes(item.inventoryId)}
+                        onChange={(checked) =>
+                            toggleItem(item.inventoryId, checked)
+                        }
+                    >
+                        {item.inventory?.product?.name ||
+                            `Item #${item.inventoryId}`}
+                        <span className="ml-2 text-gray-500">
+                            SN: {item.inventory?.serialNumber || 'N/A'}
+                        </span>
+                    </Checkbox>
+                ))}
+            </div>
+
+            <FormItem label="Location at destination">
+                <Input
+                    placeholder="e.g. IT store room"
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                />
+            </FormItem>
+            <FormItem label="Notes">
+                <Input
+                    textArea
+                    placeholder="Condition on arrival, courier reference..."
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                />
+            </FormItem>
+
+            <div className="flex justify-end gap-2">
+                <Button onClick={onClose}>Cancel</Button>
+                <Button
+                    variant="solid"
+                    loading={receiveMutation.isPending}
+                    disabled={receivedIds.length === 0}
+                    onClick={() => receiveMutation.mutate()}
+                >
+                    Confirm {receivedIds.length} item
+                    {receivedIds.length !== 1 ? 's' : ''}
+                </Button>
+            </div>
+        </Dialog>
+    )
+}
+
+export default ReceiveTransferDialog
@@ -0,0 +1,234 @@
+import { useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Field, Form, Formik } from 'formik'
+import * as Yup from 'yup'
+import { AdaptableCard } from '@/components/shared'
+import {
+    Button,
+    FormContainer,
+    FormItem,
+    Input,
+    Notification,
+    Select,
+    Spinner,
+    toast,
+} from '@/components/ui'
+import { apiGetBranches } from '@/services/BranchService'
+import { apiGetAllInventoryItems } from '@/services/ProductService'
+import { apiCreateTransfer } from '@/services/TransferService'
+import TransferItemPicker from './TransferItemPicker'
+import type { TransferableItem } from './TransferItemPicker'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+interface TransferFormValues {
+    fromBranchId: number | null
+    toBranchId: number | null
+    inventoryIds: number[]
+    notes: string
+}
+
+const validationSchema = Yup.object().shape({
+    fromBranchId: Yup.number().nullable().required('Source branch is required'),
+    toBranchId: Yup.number()
+        .nullable()
+        .required('Destination branch is required')
+        .notOneOf(
+            [Yup.ref('fromBranchId')],
+            'Destination must differ from the source branch',
+        ),
+    inventoryIds: Yup.array().min(1, 'Pick at least one item'),
+})
+
+const TransferCreate = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+    const [searchParams] = useSearchParams()
+
+    const initialValues: TransferFormValues = {
+        fromBranchId: Number(searchParams.get('fromBranchId')) || null,
+        toBranchId: null,
+        inventoryIds: searchParams.get('inventoryId')
+            ? [Number(searchParams.get('inventoryId'))]
+            : [],
+        notes: '',
+    }
+    const [fromBranchId, setFromBranchId] = useState(initialValues.fromBranchId)
+
+    const { data: branchesData } = useQuery({
+        queryKey: ['branches'],
+        queryFn: () => apiGetBranches({ page: 1, limit: 100 }),
+    })
+    const branchOptions = (
+        (branchesData?.data?.data || []) as Array<{ id: number; name: string }>
+    ).map((branch) => ({ value: branch.id, label: branch.name }))
+
+    // Only items on the shelf can be moved; assigned stock has to come back first
+    const { data: items = [], isFetching: isLoadingItems } = useQuery({
+        queryKey: ['transferable-inventory', fromBranchId],
+        queryFn: () =>
+            apiGetAllInventoryItems<TransferableItem>({
+                branchId: fromBranchId as number,
+                status: 'AVAILABLE',
+            }),
+        enabled: fromBranchId !== null,
+    })
+
+    const handleSubmit = async (values: TransferFormValues) => {
+        try {
+            const response = await apiCreateTransfer({
+                fromBranchId: values.fromBranchId as number,
+                toBranchId: values.toBranchId as number,
+                inventoryIds: values.inventoryIds,
+                notes: values.notes || undefined,
+            })
+            toast.push(
+                <Notification title="Success" type="success">
+                    Transfer {response.data.data.transferNumber} requested
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['transfers'] })
+            navigate(`/transfers/view/${response.data.data.id}`)
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to create transfer'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3>New Transfer</h3>
+            </div>
+
+            <Formik
+                initialValues={initialValues}
+                validationSchema={validationSchema}
+                onSubmit={handleSubmit}
+            >
+                {({ values, touched, errors, isSubmitting, setFieldValue }) => (
+                    <Form>
+                        <FormContainer>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <FormItem
+                                    label="From Branch"
+                                    invalid={
+                                        !!errors.fromBranchId &&
+                                        !!touched.fromBranchId
+                                    }
+                                    errorMessage={errors.fromBranchId}
+                                >
+                                    <Select
+                                        placeholder="Select source branch"
+                                        options={branchOptions}
+                                        value={
+                                            branchOptions.find(
+                                                (o) =>
+                                                    o.value ===
+                                                    values.fromBranchId,
+                                            ) || null
+                                        }
+                                        onChange={(option) => {
+                                            const id = option?.value ?? null
+                                            setFieldValue('fromBranchId', id)
+                                            setFieldValue('inventoryIds', [])
+                                            setFromBranchId(id)
+                                        }}
+                                    />
+                                </FormItem>
+                                <FormItem
+                                    label="To Branch"
+                                    invalid={
+                                        !!errors.toBranchId &&
+                                        !!touched.toBranchId
+                                    }
+                                    errorMessage={errors.toBranchId}
+                                >
+                                    <Select
+                                        placeholder="Select destination branch"
+                                        options={branchOptions.filter(
+                                            (o) =>
+                                                o.value !== values.fromBranchId,
+                                        )}
+                                        value={
+                                            branchOptions.find(
+                                                (o) =>
+                                                    o.value ===
+                                                    values.toBranchId,
+                                            ) || null
+                                        }
+                                        onChange={(option) =>
+                                            setFieldValue(
+                                                'toBranchId',
+                                                option?.value ?? null,
+                                            )
+                                        }
+                                    />
+                                </FormItem>
+                            </div>
+
+                            <FormItem
+                                label={`Items (${values.inventoryIds.length} selected)`}
+                                invalid={
+                                    !!errors.inventoryIds &&
+                                    !!touched.inventoryIds
+                                }
+                                errorMessage={errors.inventoryIds as string}
+                            >
+                                {fromBranchId === null ? (
+                                    <p className="text-gray-500">
+                                        Select the source branch to see its
+                                        available items.
+                                    </p>
+                                ) : isLoadingItems ? (
+                                    <Spinner size={30} />
+                                ) : (
+                                    <TransferItemPicker
+                                        items={items}
+                                        selectedIds={values.inventoryIds}
+                                        onChange={(ids) =>
+                                            setFieldValue('inventoryIds', ids)
+                                        }
+                                    />
+                                )}
+                            </FormItem>
+
+                            <FormItem label="Notes">
+                                <Field
+                                    textArea
+                                    name="notes"
+                                    placeholder="Reason for the transfer, courier details..."
+                                    component={Input}
+                                />
+                            </FormItem>
+
+                            <div className="flex justify-end gap-2 mt-4">
+                                <Button
+                                    type="button"
+                                    onClick={() => navigate(-1)}
+                                >
+                                    Cancel
+                                </Button>
+                                <Button
+                                    variant="solid"
+                                    type="submit"
+                                    loading={isSubmitting}
+                                >
+                                    Request Transfer
+                                </Button>
+                            </div>
+                        </FormContainer>
+                    </Form>
+                )}
+            </Formik>
+        </AdaptableCard>
+    )
+}
+
+export default TransferCreate
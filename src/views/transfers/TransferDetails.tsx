@@ -0,0 +1,311 @@
+import { useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+    HiOutlineArrowLeft,
+    HiOutlineArrowRight,
+    HiOutlineTruck,
+} from 'react-icons/hi'
+import { AdaptableCard, ConfirmDialog, Loading } from '@/components/shared'
+import {
+    Button,
+    Card,
+    Dialog,
+    FormItem,
+    Input,
+    Notification,
+    Table,
+    Timeline,
+    toast,
+} from '@/components/ui'
+import {
+    apiCancelTransfer,
+    apiDispatchTransfer,
+    apiGetTransfer,
+} from '@/services/TransferService'
+import ReceiveTransferDialog from './ReceiveTransferDialog'
+import { transferStatusClassMap, transferStatusLabels } from './transferStatus'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+const formatDate = (date: string) => dayjs(date).format('DD MMM YYYY HH:mm')
+
+const TransferDetails = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [isDispatchOpen, setIsDispatchOpen] = useState(false)
+    const [isReceiveOpen, setIsReceiveOpen] = useState(false)
+    const [isCancelOpen, setIsCancelOpen] = useState(false)
+    const [cancelReason, setCancelReason] = useState('')
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['transfer', id],
+        queryFn: () => apiGetTransfer(id as string),
+        enabled: !!id,
+    })
+    const transfer = data?.data?.data
+
+    const onStepSuccess = (message: string) => {
+        toast.push(
+            <Notification title="Success" type="success">
+                {message}
+            </Notification>,
+        )
+        queryClient.invalidateQueries({ queryKey: ['transfer', id] })
+        queryClient.invalidateQueries({ queryKey: ['transfers'] })
+        queryClient.invalidateQueries({ queryKey: ['products'] })
+    }
+
+    const onStepError = (error: ApiError) => {
+        toast.push(
+            <Notification title="Error" type="danger">
+                {error.response?.data?.message || 'Failed to update transfer'}
+            </Notification>,
+        )
+    }
+
+    const dispatchMutation = useMutation({
+        mutationFn: () => apiDispatchTransfer(transfer!.id),
+        onSuccess: () => {
+            setIsDispatchOpen(false)
+            onStepSuccess('Items marked as in transit')
+        },
+        onError: onStepError,
+    })
+
+    const cancelMutation = useMutation({
+        mutationFn: () =>
+            apiCancelTransfer(transfer!.id, { reason: cancelReason.trim() }),
+        onSuccess: () => {
+            setIsCancelOpen(false)
+            onStepSuccess('Transfer cancelled')
+        },
+        onError: onStepError,
+    })
+
+    if (isLoading) {
+        return <Loading loading />
+    }
+
+    if (error || !transfer) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Transfer not found</span>
+            </div>
+        )
+    }
+
+    const steps = [
+        {
+            at: transfer.requestedAt,
+            label: 'Requested',
+            by: transfer.requestedBy?.username,
+        },
+        {
+            at: transfer.dispatchedAt,
+            label: 'Dispatched',
+            by: transfer.dispatchedBy?.username,
+        },
+        {
+            at: transfer.receivedAt,
+            label: 'Received',
+            by: transfer.receivedBy?.username,
+        },
+        {
+            at: transfer.cancelledAt,
+            label: `Cancelled${
+                transfer.cancelReason ? `: ${transfer.cancelReason}` : ''
+            }`,
+        },
+    ].filter((step): step is typeof step & { at: string } => !!step.at)
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3>Transfer {transfer.transferNumber}</h3>
+                    <div className="flex items-center gap-2 mt-1 text-gray-500">
+                        {transfer.fromBranch?.name}
+                        <HiOutlineArrowRight />
+                        {transfer.toBranch?.name}
+                        <span
+                            className={`ml-2 font-semibold ${
+                                transferStatusClassMap[transfer.status]
+                            }`}
+                        >
+                            {transferStatusLabels[transfer.status]}
+                        </span>
+                    </div>
+                </div>
+                <div className="flex gap-2 mt-4 lg:mt-0">
+                    <Button
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineArrowLeft />}
+                        onClick={() => navigate('/transfers')}
+                    >
+                        Back
+                    </Button>
+                    {transfer.status === 'REQUESTED' && (
+                        <>
+                            <Button
+                                size="sm"
+                                onClick={() => {
+                                    setCancelReason('')
+                                    setIsCancelOpen(true)
+                                }}
+                            >
+                                Cancel Transfer
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="solid"
+                                icon={<HiOutlineTruck />}
+                                onClick={() => setIsDispatchOpen(true)}
+                            >
+                                Dispatch
+                            </Button>
+                        </>
+                    )}
+                    {transfer.status === 'IN_TRANSIT' && (
+                        <Button
+                            size="sm"
+                            variant="solid"
+                            onClick={() => setIsReceiveOpen(true)}
+                        >
+                            Confirm Receipt
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <Card className="lg:col-span-2">
+                    <h5 className="mb-4">Items ({transfer.items.length})</h5>
+                    <Table compact>
+                        <THead>
+                            <Tr>
+                                <Th>Product</Th>
+                                <Th>Serial Number</Th>
+                                <Th>Received</Th>
+                            </Tr>
+                        </THead>
+                        <TBody>
+                            {transfer.items.map((item) => (
+                                <Tr key={item.id}>
+                                    <Td>
+                                        <span
+                                            className="font-semibold cursor-pointer hover:underline"
+                                            onClick={() =>
+                                                item.inventory?.product &&
+                                                navigate(
+                                                    `/products/view/${item.inventory.product.id}`,
+                                                )
+                                            }
+                                        >
+                                            {item.inventory?.product?.name ||
+                                                `Item #${item.inventoryId}`}
+                                        </span>
+                                    </Td>
+                                    <Td>
+                                        {item.inventory?.serialNumber || 'N/A'}
+                                    </Td>
+                                    <Td>
+                                        {item.receivedAt
+                                            ? formatDate(item.receivedAt)
+                                            : '-'}
+                                    </Td>
+                                </Tr>
+                            ))}
+                        </TBody>
+                    </Table>
+                </Card>
+
+                <Card>
+                    <h5 className="mb-4">History</h5>
+                    <Timeline>
+                        {steps.map((step) => (
+                            <Timeline.Item key={step.label}>
+                                <div className="font-semibold">
+                                    {step.label}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                    {formatDate(step.at)}
+                                    {step.by && ` by ${step.by}`}
+                                </div>
+                            </Timeline.Item>
+                        ))}
+                    </Timeline>
+                    {transfer.notes && (
+                        <div className="mt-4">
+                            <div className="text-sm font-semibold">Notes</div>
+                            <p className="text-sm whitespace-pre-line">
+                                {transfer.notes}
+                            </p>
+                        </div>
+                    )}
+                </Card>
+            </div>
+
+            <ConfirmDialog
+                isOpen={isDispatchOpen}
+                type="info"
+                title="Dispatch transfer"
+                confirmText="Dispatch"
+                onClose={() => setIsDispatchOpen(false)}
+                onRequestClose={() => setIsDispatchOpen(false)}
+                onCancel={() => setIsDispatchOpen(false)}
+                onConfirm={() => dispatchMutation.mutate()}
+            >
+                <p>
+                    The {transfer.items.length} item
+                    {transfer.items.length !== 1 ? 's' : ''} will leave{' '}
+                    {transfer.fromBranch?.name} and stay in transit until{' '}
+                    {transfer.toBranch?.name} confirms receipt.
+                </p>
+            </ConfirmDialog>
+
+            <Dialog
+                isOpen={isCancelOpen}
+                onClose={() => setIsCancelOpen(false)}
+                onRequestClose={() => setIsCancelOpen(false)}
+            >
+                <h5 className="mb-4">Cancel Transfer</h5>
+                <FormItem label="Reason">
+                    <Input
+                        textArea
+                        value={cancelReason}
+                        onChange={(e) => setCancelReason(e.target.value)}
+                    />
+                </FormItem>
+                <div className="flex justify-end gap-2">
+                    <Button onClick={() => setIsCancelOpen(false)}>Back</Button>
+                    <Button
+                        variant="solid"
+                        color="red"
+                        loading={cancelMutation.isPending}
+                        disabled={!cancelReason.trim()}
+                        onClick={() => cancelMutation.mutate()}
+                    >
+                        Cancel Transfer
+                    </Button>
+                </div>
+            </Dialog>
+
+            {isReceiveOpen && (
+                <ReceiveTransferDialog
+                    transfer={transfer}
+                    onClose={() => setIsReceiveOpen(false)}
+                />
+            )}
+        </AdaptableCard>
+    )
+}
+
+export default TransferDetails
@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react'
+import { HiOutlineSearch } from 'react-icons/hi'
+import { Checkbox, Input, Table } from '@/components/ui'
+
+export interface TransferableItem {
+    id: number
+    serialNumber?: string
+    location?: string
+    product?: { id: number; name: string; model?: string }
+}
+
+interface TransferItemPickerProps {
+    items: TransferableItem[]
+    selectedIds: number[]
+    onChange: (selectedIds: number[]) => void
+}
+
+const { Tr, Th, Td, THead, TBody } = Table
+
+const TransferItemPicker = ({
+    items,
+    selectedIds,
+    onChange,
+}: TransferItemPickerProps) => {
+    const [search, setSearch] = useState('')
+
+    const visibleItems = useMemo(() => {
+        const term = search.trim().toLowerCase()
+        return term
+            ? items.filter((item) =>
+                  [
+                      item.product?.name,
+                      item.product?.model,
+                      item.serialNumber,
+                      item.location,
+                  ]
+                      .filter(Boolean)
+                      .some((value) =>
+                          (value as string).toLowerCase().includes(term),
+                      ),
+              )
+            : items
+    }, [items, search])
+
+    const visibleIds = visibleItems.map((item) => item.id)
+    const allVisibleSelected =
+        visibleIds.length > 0 &&
+        visibleIds.every((id) => selectedIds.includes(id))
+
+    const toggleItem = (id: number, checked: boolean) =>
+        onChange(
+            checked
+                ? [...selectedIds, id]
+                : selectedIds.filter((selected) => selected !== id),
+        )
+
+    const toggleVisible = (checked: boolean) =>
+        onChange(
+            checked
+                ? [...new Set([...selectedIds, ...visibleIds])]
+                : selectedIds.filter((id) => !visibleIds.includes(id)),
+        )
+
+    return (
+        <>
+            <Input
+                size="sm"
+                className="mb-2 max-w-md"
+                placeholder="Search by product, serial number or location"
+                prefix={<HiOutlineSearch />}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+            />
+            <div className="max-h-96 overflow-y-auto">
+                <Table compact>
+                    <THead>
+                        <Tr>
+                            <Th className="w-10">
+                                <Checkbox
+                                    checked={allVisibleSelected}
+                                    onChange={toggleVisible}
+                                />
+                            </Th>
+                            <Th>Product</Th>
+                            <Th>Serial Number</Th>
+                            <Th>Location</Th>
+                        </Tr>
+                    </THead>
+                    <TBody>
+                        {visibleItems.length === 0 && (
+                            <Tr>
+                                <Td
+                                    colSpan={4}
+                                    className="text-center text-gray-500"
+                                >
+                                    No available items
+                                </Td>
+                            </Tr>
+                        )}
+                        {visibleItems.map((item) => (
+                            <Tr key={item.id}>
+                                <Td>
+                                    <Checkbox
+                                        checked={selectedIds.includes(item.id)}
+                                        onChange={(checked) =>
+                                            toggleItem(item.id, checked)
+                                        }
+                                    />
+                                </Td>
+                                <Td>
+                                    <span className="font-semibold">
+                                        {item.product?.name || '-'}
+                                    </span>
+                                    {item.product?.model && (
+                                        <span className="ml-1 text-gray-500">
+                                            {item.product.model}
+                                        </span>
+                                    )}
+                                </Td>
+                                <Td>{item.serialNumber || 'N/A'}</Td>
+                                <Td>{item.location || '-'}</Td>
+                            </Tr>
+                        ))}
+                    </TBody>
+                </Table>
+            </div>
+        </>
+    )
+}
+
+export default TransferItemPicker
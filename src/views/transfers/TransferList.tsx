@@ -0,0 +1,17 @@
+import { AdaptableCard } from '@/components/shared'
+import TransferTable from './TransferTable'
+import TransferTableTools from './TransferTableTools'
+
+const TransferList = () => {
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Transfers</h3>
+                <TransferTableTools />
+            </div>
+            <TransferTable />
+        </AdaptableCard>
+    )
+}
+
+export default TransferList
@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { HiOutlineArrowRight, HiOutlineEye, HiX } from 'react-icons/hi'
+import { DataTable } from '@/components/shared'
+import { Button, Select } from '@/components/ui'
+import { apiGetBranches } from '@/services/BranchService'
+import { apiGetTransfers } from '@/services/TransferService'
+import { transferStatusClassMap, transferStatusLabels } from './transferStatus'
+import type { ColumnDef } from '@/components/shared'
+import type { Transfer, TransferStatus } from '@/services/TransferService'
+
+const statusOptions = (
+    Object.keys(transferStatusLabels) as TransferStatus[]
+).map((status) => ({ value: status, label: transferStatusLabels[status] }))
+
+const TransferTable = () => {
+    const navigate = useNavigate()
+    const [searchParams, setSearchParams] = useSearchParams()
+    const inventoryId = Number(searchParams.get('inventoryId')) || undefined
+
+    const [status, setStatus] = useState<TransferStatus>()
+    const [branchId, setBranchId] = useState<number>()
+    const [pagination, setPagination] = useState({ page: 1, limit: 10 })
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['transfers', pagination, status, branchId, inventoryId],
+        queryFn: () =>
+            apiGetTransfers({
+                page: pagination.page,
+                limit: pagination.limit,
+                status,
+                branchId,
+                inventoryId,
+            }),
+    })
+
+    const { data: branchesData } = useQuery({
+        queryKey: ['branches'],
+        queryFn: () => apiGetBranches({ page: 1, limit: 100 }),
+    })
+    const branchOptions = (
+        (branchesData?.data?.data || []) as Array<{ id: number; name: string }>
+    ).map((branch) => ({ value: branch.id, label: branch.name }))
+
+    const columns: ColumnDef<Transfer>[] = useMemo(
+        () => [
+            {
+                header: 'Transfer',
+                accessorKey: 'transferNumber',
+                cell: (props) => (
+                    <span className="font-semibold">
+                        {props.row.original.transferNumber}
+                    </span>
+                ),
+            },
+            {
+                header: 'Route',
+                id: 'route',
+                cell: (props) => (
+                    <div className="flex items-center gap-2">
+                        {props.row.original.fromBranch?.name || '-'}
+                        <HiOutlineArrowRight className="text-gray-400" />
+                        {props.row.original.toBranch?.name || '-'}
+                    </div>
+                ),
+            },
+            {
+                header: 'Items',
+                id: 'items',
+                cell: (props) => props.row.original.items?.length ?? 0,
+            },
+            {
+                header: 'Status',
+                accessorKey: 'status',
+                cell: (props) => (
+                    <span
+                        className={`font-semibold ${
+                            transferStatusClassMap[props.row.original.status]
+                        }`}
+                    >
+                        {transferStatusLabels[props.row.original.status]}
+                    </span>
+                ),
+            },
+            {
+                header: 'Requested',
+                accessorKey: 'requestedAt',
+                cell: (props) =>
+                    dayjs(props.row.original.requestedAt).format('DD MMM YYYY'),
+            },
+            {
+                header: '',
+                id: 'action',
+                cell: (props) => (
+                    <div className="flex justify-end text-lg">
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            onClick={() =>
+                                navigate(
+                                    `/transfers/view/${props.row.original.id}`,
+                                )
+                            }
+                        >
+                            <HiOutlineEye />
+                        </span>
+                    </div>
+                ),
+            },
+        ],
+        [navigate],
+    )
+
+    if (error) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Error: {error.message}</span>
+            </div>
+        )
+    }
+
+    return (
+        <>
+            <div className="flex flex-col lg:flex-row gap-2 mb-4">
+                <Select
+                    isClearable
+                    size="sm"
+                    className="min-w-[180px]"
+                    placeholder="All statuses"
+                    options={statusOptions}
+                    value={
+                        statusOptions.find((o) => o.value === status) || null
+                    }
+                    onChange={(option) => {
+                        setStatus(option?.value)
+                        setPagination((prev) => ({ ...prev, page: 1 }))
+                    }}
+                />
+                <Select
+                    isClearable
+                    size="sm"
+                    className="min-w-[200px]"
+                    placeholder="All branches"
+                    options={branchOptions}
+                    value={
+                        branchOptions.find((o) => o.value === branchId) || null
+                    }
+                    onChange={(option) => {
+                        setBranchId(option?.value)
+                        setPagination((prev) => ({ ...prev, page: 1 }))
+                    }}
+                />
+                {inventoryId && (
+                    <Button
+                        size="sm"
+                        icon={<HiX />}
+                        onClick={() => {
+                            searchParams.delete('inventoryId')
+                            setSearchParams(searchParams)
+                        }}
+                    >
+                        Item #{inventoryId} only
+                    </Button>
+                )}
+            </div>
+
+            <DataTable
+                columns={columns}
+                data={data?.data?.data || []}
+                loading={isLoading}
+                pagingData={{
+                    total: data?.data?.pagination?.total || 0,
+                    pageIndex: pagination.page,
+                    pageSize: pagination.limit,
+                }}
+                onPaginationChange={(page) =>
+                    setPagination((prev) => ({ ...prev, page }))
+                }
+                onSelectChange={(limit) => setPagination({ page: 1, limit })}
+            />
+        </>
+    )
+}
+
+export default TransferTable
@@ -0,0 +1,15 @@
+import type { TransferStatus } from '@/services/TransferService'
+
+export const transferStatusLabels: Record<TransferStatus, string> = {
+    REQUESTED: 'Requested',
+    IN_TRANSIT: 'In Transit',
+    RECEIVED: 'Received',
+    CANCELLED: 'Cancelled',
+}
+
+export const transferStatusClassMap: Record<TransferStatus, string> = {
+    REQUESTED: 'text-amber-600',
+    IN_TRANSIT: 'text-blue-600',
+    RECEIVED: 'text-emerald-600',
+    CANCELLED: 'text-gray-500',
+}
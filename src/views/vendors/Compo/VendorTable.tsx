@@ -0,0 +1,205 @@
+import { useMemo, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import debounce from 'lodash/debounce'
+import { HiOutlineEye, HiOutlinePencil, HiOutlineTrash } from 'react-icons/hi'
+import { ConfirmDialog, DataTable } from '@/components/shared'
+import { Input, Notification, toast } from '@/components/ui'
+import { apiDeleteVendor, apiGetVendors } from '@/services/VendorService'
+import type { ColumnDef } from '@/components/shared'
+import type { Vendor } from '@/services/VendorService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const VendorTable = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const [searchTerm, setSearchTerm] = useState('')
+    const [pagination, setPagination] = useState({ page: 1, limit: 10 })
+    const [deletingVendor, setDeletingVendor] = useState<Vendor>()
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['vendors', pagination, searchTerm],
+        queryFn: () =>
+            apiGetVendors({
+                page: pagination.page,
+                limit: pagination.limit,
+                search: searchTerm || undefined,
+            }),
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: (vendor: Vendor) => apiDeleteVendor(vendor.id),
+        onSuccess: () => {
+            toast.push(
+                <Notification title="Success" type="success">
+                    Vendor deleted
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['vendors'] })
+            setDeletingVendor(undefined)
+        },
+        onError: (error: ApiError) => {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {error.response?.data?.message || 'Failed to delete vendor'}
+                </Notification>,
+            )
+        },
+    })
+
+    const debouncedSearch = useMemo(
+        () =>
+            debounce((value: string) => {
+                setSearchTerm(value)
+                setPagination((prev) => ({ ...prev, page: 1 }))
+            }, 500),
+        [],
+    )
+
+    const columns: ColumnDef<Vendor>[] = useMemo(
+        () => [
+            {
+                header: 'Vendor',
+                accessorKey: 'name',
+                cell: (props) => (
+                    <div>
+                        <span className="font-semibold">
+                            {props.row.original.name}
+                        </span>
+                        {props.row.original.website && (
+                            <div className="text-xs text-gray-500">
+                                {props.row.original.website}
+                            </div>
+                        )}
+                    </div>
+                ),
+            },
+            {
+                header: 'Contact',
+                id: 'contact',
+                cell: (props) => {
+                    const { contactName, email, phone } = props.row.original
+                    return (
+                        <div>
+                            <div>{contactName || '-'}</div>
+                            {(email || phone) && (
+                                <div className="text-xs text-gray-500">
+                                    {[email, phone].filter(Boolean).join(' · ')}
+                                </div>
+                            )}
+                        </div>
+                    )
+                },
+            },
+            {
+                header: 'Support',
+                id: 'support',
+                cell: (props) => {
+                    const { supportEmail, supportPhone } = props.row.original
+                    return supportEmail || supportPhone
+                        ? [supportEmail, supportPhone]
+                              .filter(Boolean)
+                              .join(' · ')
+                        : '-'
+                },
+            },
+            {
+                header: '',
+                id: 'action',
+                cell: (props) => (
+                    <div className="flex justify-end text-lg">
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            title="View"
+                            onClick={() =>
+                                navigate(
+                                    `/vendors/view/${props.row.original.id}`,
+                                )
+                            }
+                        >
+                            <HiOutlineEye />
+                        </span>
+                        <span
+                            className="cursor-pointer p-2 hover:text-indigo-600"
+                            title="Edit"
+                            onClick={() =>
+                                navigate(
+                                    `/vendors/edit/${props.row.original.id}`,
+                                )
+                            }
+                        >
+                            <HiOutlinePencil />
+                        </span>
+                        <span
+                            className="cursor-pointer p-2 hover:text-red-600"
+                            title="Delete"
+                            onClick={() =>
+                                setDeletingVendor(props.row.original)
+                            }
+                        >
+                            <HiOutlineTrash />
+                        </span>
+                    </div>
+                ),
+            },
+        ],
+        [navigate],
+    )
+
+    if (error) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Error: {error.message}</span>
+            </div>
+        )
+    }
+
+    return (
+        <>
+            <Input
+                className="max-w-md mb-4"
+                size="sm"
+                placeholder="Search vendors..."
+                onChange={(e) => debouncedSearch(e.target.value)}
+            />
+            <DataTable
+                columns={columns}
+                data={data?.data?.data || []}
+                loading={isLoading}
+                pagingData={{
+                    total: data?.data?.pagination?.total || 0,
+                    pageIndex: pagination.page,
+                    pageSize: pagination.limit,
+                }}
+                onPaginationChange={(page) =>
+                    setPagination((prev) => ({ ...prev, page }))
+                }
+                onSelectChange={(limit) => setPagination({ page: 1, limit })}
+            />
+
+            <ConfirmDialog
+                isOpen={!!deletingVendor}
+                type="danger"
+                title="Delete vendor"
+                confirmText="Delete"
+                onClose={() => setDeletingVendor(undefined)}
+                onRequestClose={() => setDeletingVendor(undefined)}
+                onCancel={() => setDeletingVendor(undefined)}
+                onConfirm={() =>
+                    deletingVendor && deleteMutation.mutate(deletingVendor)
+                }
+            >
+                <p>
+                    Delete the vendor &quot;{deletingVendor?.name}&quot;?
+                    Vendors still referenced by purchase orders or inventory
+                    items cannot be deleted.
+                </p>
+            </ConfirmDialog>
+        </>
+    )
+}
+
+export default VendorTable
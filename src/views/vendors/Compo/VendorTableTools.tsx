@@ -0,0 +1,22 @@
+import { Button } from '@/components/ui'
+import { HiPlusCircle } from 'react-icons/hi'
+import { useNavigate } from 'react-router-dom'
+
+const VendorTableTools = () => {
+    const navigate = useNavigate()
+
+    return (
+        <div className="flex flex-col lg:flex-row lg:items-center gap-2">
+            <Button
+                variant="solid"
+                size="sm"
+                icon={<HiPlusCircle />}
+                onClick={() => navigate('/vendors/create')}
+            >
+                Add Vendor
+            </Button>
+        </div>
+    )
+}
+
+export default VendorTableTools
@@ -0,0 +1,48 @@
+import { HiOutlineMail, HiOutlinePhone } from 'react-icons/hi'
+import type { VendorSummary } from '@/services/VendorService'
+
+interface VendorContactProps {
+    vendor: VendorSummary
+    /** Hide the SLA text, e.g. in tight table cells */
+    compact?: boolean
+}
+
+/** Who to call when a purchased item needs support */
+const VendorContact = ({ vendor, compact }: VendorContactProps) => {
+    if (!vendor.supportEmail && !vendor.supportPhone && !vendor.slaNotes) {
+        return (
+            <span className="text-gray-500">No support contact recorded</span>
+        )
+    }
+
+    return (
+        <div className="space-y-1 text-sm">
+            {vendor.supportPhone && (
+                <div className="flex items-center gap-1">
+                    <HiOutlinePhone />
+                    <a href={`tel:${vendor.supportPhone}`}>
+                        {vendor.supportPhone}
+                    </a>
+                </div>
+            )}
+            {vendor.supportEmail && (
+                <div className="flex items-center gap-1">
+                    <HiOutlineMail />
+                    <a
+                        className="text-indigo-600 hover:underline"
+                        href={`mailto:${vendor.supportEmail}`}
+                    >
+                        {vendor.supportEmail}
+                    </a>
+                </div>
+            )}
+            {!compact && vendor.slaNotes && (
+                <p className="text-gray-500 whitespace-pre-line">
+                    {vendor.slaNotes}
+                </p>
+            )}
+        </div>
+    )
+}
+
+export default VendorContact
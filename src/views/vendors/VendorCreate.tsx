@@ -0,0 +1,46 @@
+import { useNavigate } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { AdaptableCard } from '@/components/shared'
+import { Notification, toast } from '@/components/ui'
+import { apiCreateVendor } from '@/services/VendorService'
+import VendorForm from './VendorForm'
+import type { VendorPayload } from '@/services/VendorService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const VendorCreate = () => {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const handleSubmit = async (payload: VendorPayload) => {
+        try {
+            await apiCreateVendor(payload)
+            toast.push(
+                <Notification title="Success" type="success">
+                    Vendor created successfully
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['vendors'] })
+            navigate('/vendors')
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to create vendor'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3>Create New Vendor</h3>
+            </div>
+            <VendorForm submitLabel="Create Vendor" onSubmit={handleSubmit} />
+        </AdaptableCard>
+    )
+}
+
+export default VendorCreate
@@ -0,0 +1,385 @@
+import { useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { HiOutlineArrowLeft, HiOutlinePencil } from 'react-icons/hi'
+import { AdaptableCard, DataTable, Loading } from '@/components/shared'
+import { Button, Card, Tabs } from '@/components/ui'
+import { apiGetMaintenanceTickets } from '@/services/MaintenanceService'
+import { apiGetInventoryItems } from '@/services/ProductService'
+import { apiGetPurchaseOrders } from '@/services/PurchaseOrderService'
+import { apiGetVendor } from '@/services/VendorService'
+import {
+    purchaseOrderStatusClassMap,
+    purchaseOrderStatusLabels,
+    purchaseOrderTotal,
+} from '@/views/purchaseOrders/purchaseOrderStatus'
+import { maintenanceStageLabels } from '@/views/maintenance/maintenanceStages'
+import VendorContact from './VendorContact'
+import type { ColumnDef } from '@/components/shared'
+import type { MaintenanceTicket } from '@/services/MaintenanceService'
+import type { PurchaseOrder } from '@/services/PurchaseOrderService'
+
+interface PurchasedItem {
+    id: number
+    serialNumber?: string
+    status: string
+    purchaseDate?: string
+    purchasePrice?: number
+    warrantyExpiry?: string
+    product?: { id: number; name: string; model?: string }
+}
+
+const formatDate = (date?: string) =>
+    date ? dayjs(date).format('DD MMM YYYY') : '-'
+
+const VendorDetails = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+
+    const [activeTab, setActiveTab] = useState('orders')
+    const [ordersPage, setOrdersPage] = useState({ page: 1, limit: 10 })
+    const [claimsPage, setClaimsPage] = useState({ page: 1, limit: 10 })
+    const [itemsPage, setItemsPage] = useState({ page: 1, limit: 10 })
+    const vendorId = Number(id)
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['vendor', id],
+        queryFn: () => apiGetVendor(id as string),
+        enabled: !!id,
+    })
+    const vendor = data?.data?.data
+
+    const { data: ordersData, isLoading: isLoadingOrders } = useQuery({
+        queryKey: ['purchase-orders', 'vendor', vendorId, ordersPage],
+        queryFn: () => apiGetPurchaseOrders({ ...ordersPage, vendorId }),
+        enabled: !!id,
+    })
+
+    const { data: claimsData, isLoading: isLoadingClaims } = useQuery({
+        queryKey: ['maintenance-tickets', 'vendor', vendorId, claimsPage],
+        queryFn: () =>
+            apiGetMaintenanceTickets({
+                ...claimsPage,
+                vendorId,
+                warrantyClaim: true,
+            }),
+        enabled: !!id,
+    })
+
+    const { data: itemsData, isLoading: isLoadingItems } = useQuery({
+        queryKey: ['inventory', 'vendor', vendorId, itemsPage],
+        queryFn: async () => {
+            const response = await apiGetInventoryItems({
+                ...itemsPage,
+                vendorId,
+            })
+            return response.data as {
+                data?: PurchasedItem[]
+                pagination?: { total?: number }
+            }
+        },
+        enabled: !!id,
+    })
+
+    const orderColumns: ColumnDef<PurchaseOrder>[] = useMemo(
+        () => [
+            {
+                header: 'PO Number',
+                accessorKey: 'poNumber',
+                cell: (props) => (
+                    <span
+                        className="font-semibold cursor-pointer hover:underline"
+                        onClick={() =>
+                            navigate(
+                                `/purchase-orders/view/${props.row.original.id}`,
+                            )
+                        }
+                    >
+                        {props.row.original.poNumber}
+                    </span>
+                ),
+            },
+            {
+                header: 'Raised',
+                accessorKey: 'createdAt',
+                cell: (props) => formatDate(props.row.original.createdAt),
+            },
+            {
+                header: 'Total',
+                id: 'total',
+                cell: (props) =>
+                    purchaseOrderTotal({
+                        ...props.row.original,
+                        lines: props.row.original.lines || [],
+                    }).toFixed(2),
+            },
+            {
+                header: 'Status',
+                accessorKey: 'status',
+                cell: (props) => (
+                    <span
+                        className={`font-semibold ${
+                            purchaseOrderStatusClassMap[
+                                props.row.original.status
+                            ]
+                        }`}
+                    >
+                        {purchaseOrderStatusLabels[props.row.original.status]}
+                    </span>
+                ),
+            },
+        ],
+        [navigate],
+    )
+
+    const claimColumns: ColumnDef<MaintenanceTicket>[] = useMemo(
+        () => [
+            {
+                header: 'Ticket',
+                accessorKey: 'ticketNumber',
+                cell: (props) => (
+                    <span className="font-semibold">
+                        {props.row.original.ticketNumber}
+                    </span>
+                ),
+            },
+            {
+                header: 'Item',
+                id: 'item',
+                cell: (props) => (
+                    <div>
+                        <div>
+                            {props.row.original.inventory?.product?.name ||
+                                `Item #${props.row.original.inventoryId}`}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                            SN:{' '}
+                            {props.row.original.inventory?.serialNumber ||
+                                'N/A'}
+                        </div>
+                    </div>
+                ),
+            },
+            {
+                header: 'Fault',
+                accessorKey: 'fault',
+            },
+            {
+                header: 'Stage',
+                accessorKey: 'stage',
+                cell: (props) =>
+                    maintenanceStageLabels[props.row.original.stage],
+            },
+            {
+                header: 'Opened / Closed',
+                id: 'dates',
+                cell: (props) =>
+                    `${formatDate(props.row.original.openedAt)} / ${formatDate(
+                        props.row.original.closedAt,
+                    )}`,
+            },
+        ],
+        [],
+    )
+
+    const itemColumns: ColumnDef<PurchasedItem>[] = useMemo(
+        () => [
+            {
+                header: 'Product',
+                id: 'product',
+                cell: (props) => (
+                    <span
+                        className="font-semibold cursor-pointer hover:underline"
+                        onClick={() =>
+                            navigate(
+                                `/products/view/${props.row.original.product?.id}`,
+                            )
+                        }
+                    >
+                        {props.row.original.product?.name || '-'}
+                    </span>
+                ),
+            },
+            {
+                header: 'Serial Number',
+                accessorKey: 'serialNumber',
+                cell: (props) => props.row.original.serialNumber || 'N/A',
+            },
+            {
+                header: 'Purchased',
+                accessorKey: 'purchaseDate',
+                cell: (props) => formatDate(props.row.original.purchaseDate),
+            },
+            {
+                header: 'Warranty Until',
+                accessorKey: 'warrantyExpiry',
+                cell: (props) => formatDate(props.row.original.warrantyExpiry),
+            },
+            {
+                header: 'Status',
+                accessorKey: 'status',
+            },
+        ],
+        [navigate],
+    )
+
+    if (isLoading) {
+        return <Loading loading />
+    }
+
+    if (error || !vendor) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="text-red-500">Vendor not found</span>
+            </div>
+        )
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <div>
+                    <h3>{vendor.name}</h3>
+                    {vendor.website && (
+                        <a
+                            className="text-indigo-600 hover:underline"
+                            href={vendor.website}
+                            target="_blank"
+                            rel="noreferrer"
+                        >
+                            {vendor.website}
+                        </a>
+                    )}
+                </div>
+                <div className="flex gap-2 mt-4 lg:mt-0">
+                    <Button
+                        size="sm"
+                        variant="plain"
+                        icon={<HiOutlineArrowLeft />}
+                        onClick={() => navigate('/vendors')}
+                    >
+                        Back
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="solid"
+                        icon={<HiOutlinePencil />}
+                        onClick={() => navigate(`/vendors/edit/${vendor.id}`)}
+                    >
+                        Edit
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
+                <Card>
+                    <h5 className="mb-4">Sales Contact</h5>
+                    <div className="space-y-1 text-sm">
+                        <div className="font-semibold">
+                            {vendor.contactName || '-'}
+                        </div>
+                        {vendor.email && (
+                            <a
+                                className="block text-indigo-600 hover:underline"
+                                href={`mailto:${vendor.email}`}
+                            >
+                                {vendor.email}
+                            </a>
+                        )}
+                        {vendor.phone && <div>{vendor.phone}</div>}
+                        {vendor.address && (
+                            <p className="text-gray-500 whitespace-pre-line">
+                                {vendor.address}
+                            </p>
+                        )}
+                    </div>
+                </Card>
+                <Card>
+                    <h5 className="mb-4">Support &amp; SLA</h5>
+                    <VendorContact vendor={vendor} />
+                </Card>
+                <Card>
+                    <h5 className="mb-4">Notes</h5>
+                    <p className="text-sm whitespace-pre-line">
+                        {vendor.notes || '-'}
+                    </p>
+                </Card>
+            </div>
+
+            <Tabs value={activeTab} onChange={setActiveTab}>
+                <Tabs.TabList>
+                    <Tabs.TabNav value="orders">
+                        Purchase Orders (
+                        {ordersData?.data?.pagination?.total ?? 0})
+                    </Tabs.TabNav>
+                    <Tabs.TabNav value="claims">
+                        Warranty Claims (
+                        {claimsData?.data?.pagination?.total ?? 0})
+                    </Tabs.TabNav>
+                    <Tabs.TabNav value="items">
+                        Items Purchased ({itemsData?.pagination?.total ?? 0})
+                    </Tabs.TabNav>
+                </Tabs.TabList>
+                <div className="pt-4">
+                    <Tabs.TabContent value="orders">
+                        <DataTable
+                            columns={orderColumns}
+                            data={ordersData?.data?.data || []}
+                            loading={isLoadingOrders}
+                            pagingData={{
+                                total: ordersData?.data?.pagination?.total || 0,
+                                pageIndex: ordersPage.page,
+                                pageSize: ordersPage.limit,
+                            }}
+                            onPaginationChange={(page) =>
+                                setOrdersPage((prev) => ({ ...prev, page }))
+                            }
+                            onSelectChange={(limit) =>
+                                setOrdersPage({ page: 1, limit })
+                            }
+                        />
+                    </Tabs.TabContent>
+                    <Tabs.TabContent value="claims">
+                        <DataTable
+                            columns={claimColumns}
+                            data={claimsData?.data?.data || []}
+                            loading={isLoadingClaims}
+                            pagingData={{
+                                total: claimsData?.data?.pagination?.total || 0,
+                                pageIndex: claimsPage.page,
+                                pageSize: claimsPage.limit,
+                            }}
+                            onPaginationChange={(page) =>
+                                setClaimsPage((prev) => ({ ...prev, page }))
+                            }
+                            onSelectChange={(limit) =>
+                                setClaimsPage({ page: 1, limit })
+                            }
+                        />
+                    </Tabs.TabContent>
+                    <Tabs.TabContent value="items">
+                        <DataTable
+                            columns={itemColumns}
+                            data={itemsData?.data || []}
+                            loading={isLoadingItems}
+                            pagingData={{
+                                total: itemsData?.pagination?.total || 0,
+                                pageIndex: itemsPage.page,
+                                pageSize: itemsPage.limit,
+                            }}
+                            onPaginationChange={(page) =>
+                                setItemsPage((prev) => ({ ...prev, page }))
+                            }
+                            onSelectChange={(limit) =>
+                                setItemsPage({ page: 1, limit })
+                            }
+                        />
+                    </Tabs.TabContent>
+                </div>
+            </Tabs>
+        </AdaptableCard>
+    )
+}
+
+export default VendorDetails
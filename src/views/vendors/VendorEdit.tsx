@@ -0,0 +1,65 @@
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { AdaptableCard, Loading } from '@/components/shared'
+import { Notification, toast } from '@/components/ui'
+import { apiGetVendor, apiUpdateVendor } from '@/services/VendorService'
+import VendorForm from './VendorForm'
+import type { VendorPayload } from '@/services/VendorService'
+import type { AxiosError } from 'axios'
+
+type ApiError = AxiosError<{ message?: string }>
+
+const VendorEdit = () => {
+    const { id } = useParams()
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+
+    const { data: vendor, isLoading } = useQuery({
+        queryKey: ['vendor', id],
+        queryFn: async () => {
+            const response = await apiGetVendor(id as string)
+            return response.data.data
+        },
+        enabled: !!id,
+    })
+
+    const handleSubmit = async (payload: VendorPayload) => {
+        try {
+            await apiUpdateVendor(Number(id), payload)
+            toast.push(
+                <Notification title="Success" type="success">
+                    Vendor updated successfully
+                </Notification>,
+            )
+            queryClient.invalidateQueries({ queryKey: ['vendors'] })
+            queryClient.invalidateQueries({ queryKey: ['vendor', id] })
+            navigate('/vendors')
+        } catch (error) {
+            toast.push(
+                <Notification title="Error" type="danger">
+                    {(error as ApiError).response?.data?.message ||
+                        'Failed to update vendor'}
+                </Notification>,
+            )
+        }
+    }
+
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3>Edit Vendor</h3>
+            </div>
+            <Loading loading={isLoading}>
+                {vendor && (
+                    <VendorForm
+                        vendor={vendor}
+                        submitLabel="Save Changes"
+                        onSubmit={handleSubmit}
+                    />
+                )}
+            </Loading>
+        </AdaptableCard>
+    )
+}
+
+export default VendorEdit
@@ -0,0 +1,176 @@
+import { useNavigate } from 'react-router-dom'
+import { Field, Form, Formik } from 'formik'
+import * as Yup from 'yup'
+import { Button, FormContainer, FormItem, Input } from '@/components/ui'
+import type { Vendor, VendorPayload } from '@/services/VendorService'
+
+type VendorFormValues = Required<VendorPayload>
+
+interface VendorFormProps {
+    vendor?: Vendor
+    submitLabel: string
+    onSubmit: (payload: VendorPayload) => Promise<void>
+}
+
+const validationSchema = Yup.object().shape({
+    name: Yup.string()
+        .trim()
+        .required('Vendor name is required')
+        .min(2, 'Too Short!')
+        .max(100, 'Too Long!'),
+    email: Yup.string().email('Invalid email'),
+    supportEmail: Yup.string().email('Invalid email'),
+    website: Yup.string().url('Enter a full URL, e.g. https://example.com'),
+    slaNotes: Yup.string().max(2000, 'Too Long!'),
+    notes: Yup.string().max(2000, 'Too Long!'),
+})
+
+const fields: Array<{
+    name: keyof VendorFormValues
+    label: string
+    placeholder: string
+}> = [
+    {
+        name: 'contactName',
+        label: 'Contact Person',
+        placeholder: 'Account manager',
+    },
+    { name: 'email', label: 'Email', placeholder: 'sales@vendor.com' },
+    { name: 'phone', label: 'Phone', placeholder: 'Sales phone' },
+    { name: 'website', label: 'Website', placeholder: 'https://' },
+    {
+        name: 'supportEmail',
+        label: 'Support Email',
+        placeholder: 'support@vendor.com',
+    },
+    {
+        name: 'supportPhone',
+        label: 'Support Phone',
+        placeholder: 'Support hotline',
+    },
+]
+
+const VendorForm = ({ vendor, submitLabel, onSubmit }: VendorFormProps) => {
+    const navigate = useNavigate()
+
+    const initialValues: VendorFormValues = {
+        name: vendor?.name || '',
+        contactName: vendor?.contactName || '',
+        email: vendor?.email || '',
+        phone: vendor?.phone || '',
+        website: vendor?.website || '',
+        address: vendor?.address || '',
+        supportEmail: vendor?.supportEmail || '',
+        supportPhone: vendor?.supportPhone || '',
+        slaNotes: vendor?.slaNotes || '',
+        notes: vendor?.notes || '',
+    }
+
+    // Blank optional fields are sent as undefined rather than empty strings
+    const handleSubmit = (values: VendorFormValues) =>
+        onSubmit(
+            Object.fromEntries(
+                Object.entries(values).map(([key, value]) => [
+                    key,
+                    value.trim() || undefined,
+                ]),
+            ) as VendorPayload,
+        )
+
+    return (
+        <Formik
+            enableReinitialize
+            initialValues={initialValues}
+            validationSchema={validationSchema}
+            onSubmit={handleSubmit}
+        >
+            {({ touched, errors, isSubmitting }) => (
+                <Form>
+                    <FormContainer>
+                        <FormItem
+                            label="Vendor Name"
+                            invalid={!!errors.name && touched.name}
+                            errorMessage={errors.name}
+                        >
+                            <Field
+                                type="text"
+                                autoComplete="off"
+                                name="name"
+                                placeholder="Vendor name"
+                                component={Input}
+                            />
+                        </FormItem>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {fields.map((field) => (
+                                <FormItem
+                                    key={field.name}
+                                    label={field.label}
+                                    invalid={
+                                        !!errors[field.name] &&
+                                        touched[field.name]
+                                    }
+                                    errorMessage={errors[field.name]}
+                                >
+                                    <Field
+                                        type="text"
+                                        autoComplete="off"
+                                        name={field.name}
+                                        placeholder={field.placeholder}
+                                        component={Input}
+                                    />
+                                </FormItem>
+                            ))}
+                        </div>
+                        <FormItem label="Address">
+                            <Field
+                                textArea
+                                name="address"
+                                placeholder="Postal address"
+                                component={Input}
+                            />
+                        </FormItem>
+                        <FormItem
+                            label="Support SLA"
+                            invalid={!!errors.slaNotes && touched.slaNotes}
+                            errorMessage={errors.slaNotes}
+                        >
+                            <Field
+                                textArea
+                                name="slaNotes"
+                                placeholder="e.g. Next business day on-site, 3-year RMA, call hotline before shipping"
+                                component={Input}
+                            />
+                        </FormItem>
+                        <FormItem
+                            label="Notes"
+                            invalid={!!errors.notes && touched.notes}
+                            errorMessage={errors.notes}
+                        >
+                            <Field
+                                textArea
+                                name="notes"
+                                placeholder="Account numbers, payment terms..."
+                                component={Input}
+                            />
+                        </FormItem>
+
+                        <div className="flex justify-end gap-2 mt-4">
+                            <Button type="button" onClick={() => navigate(-1)}>
+                                Cancel
+                            </Button>
+                            <Button
+                                variant="solid"
+                                type="submit"
+                                loading={isSubmitting}
+                            >
+                                {submitLabel}
+                            </Button>
+                        </div>
+                    </FormContainer>
+                </Form>
+            )}
+        </Formik>
+    )
+}
+
+export default VendorForm
@@ -0,0 +1,17 @@
+import { AdaptableCard } from '@/components/shared'
+import VendorTable from './Compo/VendorTable'
+import VendorTableTools from './Compo/VendorTableTools'
+
+const VendorList = () => {
+    return (
+        <AdaptableCard className="h-full" bodyClass="h-full">
+            <div className="lg:flex items-center justify-between mb-4">
+                <h3 className="mb-4 lg:mb-0">Vendors</h3>
+                <VendorTableTools />
+            </div>
+            <VendorTable />
+        </AdaptableCard>
+    )
+}
+
+export default VendorList
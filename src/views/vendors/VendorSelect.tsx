@@ -0,0 +1,53 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Select } from '@/components/ui'
+import { apiGetVendors } from '@/services/VendorService'
+import type { Vendor, VendorSummary } from '@/services/VendorService'
+
+interface VendorSelectProps {
+    /** Selected vendor; kept as an object so it shows even when filtered out */
+    value?: Pick<VendorSummary, 'id' | 'name'> | null
+    onChange: (vendor?: Vendor) => void
+    placeholder?: string
+    size?: 'sm' | 'md' | 'lg'
+    isClearable?: boolean
+}
+
+const VendorSelect = ({
+    value,
+    onChange,
+    placeholder = 'Select vendor',
+    size,
+    isClearable = true,
+}: VendorSelectProps) => {
+    const [search, setSearch] = useState('')
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['vendors', 'options', search],
+        queryFn: () =>
+            apiGetVendors({ page: 1, limit: 100, search: search || undefined }),
+    })
+    const vendors = data?.data?.data || []
+
+    const options = vendors.map((vendor) => ({
+        value: vendor.id,
+        label: vendor.name,
+    }))
+
+    return (
+        <Select
+            isClearable={isClearable}
+            size={size}
+            placeholder={placeholder}
+            isLoading={isLoading}
+            options={options}
+            value={value ? { value: value.id, label: value.name } : null}
+            onInputChange={(input) => setSearch(input)}
+            onChange={(option) =>
+                onChange(vendors.find((vendor) => vendor.id === option?.value))
+            }
+        />
+    )
+}
+
+export default VendorSelect